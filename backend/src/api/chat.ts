@@ -2,19 +2,53 @@ import { Request, Response, NextFunction } from 'express'
 import { LLMService } from '../services/llm/LLMService.js'
 import { MCPService } from '../services/mcp/MCPService.js'
 import { ChatOrchestrator } from '../services/chat/ChatOrchestrator.js'
-import type { ChatRequest, Message } from '../../../shared/types/index.js'
+import { ConversationService } from '../services/chat/ConversationService.js'
+import { ToolApprovalService } from '../services/chat/ToolApprovalService.js'
+import { ElicitationService } from '../services/chat/ElicitationService.js'
+import { MAX_ATTACHMENT_CHARS, STREAM_PROTOCOL_VERSION } from '../../../shared/types/index.js'
+import type { ChatRequest, ConversationEvent, Message } from '../../../shared/types/index.js'
 import { z } from 'zod'
 
+/** Resources a single message can carry */
+const MAX_ATTACHMENTS = 10
+
+const ResourceAttachmentSchema = z.object({
+  serverId: z.string().min(1),
+  uri: z.string().min(1),
+  name: z.string(),
+  mimeType: z.string().optional(),
+  text: z.string().max(MAX_ATTACHMENT_CHARS),
+  readAt: z.string()
+})
+
 const ChatRequestSchema = z.object({
   messages: z.array(
     z.object({
+      id: z.string().optional(),
       role: z.enum(['user', 'assistant', 'system', 'tool']),
       content: z.string(),
       tool_calls: z.any().optional(),
       tool_call_id: z.string().optional(),
-      timestamp: z.number().optional()
+      timestamp: z.number().optional(),
+      chartData: z.array(z.any()).optional(),
+      toolExecutions: z.array(z.any()).optional(),
+      attachments: z.array(ResourceAttachmentSchema).max(MAX_ATTACHMENTS).optional()
     })
-  )
+  ),
+  conversationId: z.string().optional(),
+  timeZone: z.string().max(100).optional()
+})
+
+const ToolApprovalDecisionSchema = z.object({
+  conversationId: z.string().min(1),
+  approved: z.boolean(),
+  arguments: z.record(z.any()).optional(),
+  reason: z.string().optional()
+})
+
+const ElicitationResponseSchema = z.object({
+  action: z.enum(['accept', 'decline', 'cancel']),
+  content: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional()
 })
 
 export class ChatAPI {
@@ -22,9 +56,12 @@ export class ChatAPI {
 
   constructor(
     private llmService: LLMService,
-    private mcpService: MCPService
+    private mcpService: MCPService,
+    private conversationService: ConversationService,
+    private approvalService: ToolApprovalService,
+    private elicitationService: ElicitationService
   ) {
-    this.chatOrchestrator = new ChatOrchestrator(llmService, mcpService)
+    this.chatOrchestrator = new ChatOrchestrator(llmService, mcpService, approvalService, elicitationService)
   }
 
   async chat(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -39,7 +76,7 @@ export class ChatAPI {
         return
       }
 
-      const { messages } = validation.data
+      const { messages, conversationId, timeZone } = validation.data
 
       // Add timestamps to messages if missing (required by Message interface)
       const messagesWithTimestamps: Message[] = messages.map(msg => ({
@@ -55,6 +92,18 @@ export class ChatAPI {
         return
       }
 
+      // Resolve the conversation this turn belongs to (new conversations are created on first send)
+      const conversation = conversationId
+        ? this.conversationService.getConversation(conversationId)
+        : this.conversationService.createConversation()
+
+      if (!conversation) {
+        res.status(404).json({
+          error: `Conversation ${conversationId} not found`
+        })
+        return
+      }
+
       // Get available MCP tools
       const mcpTools = this.mcpService.getAllTools()
 
@@ -63,14 +112,55 @@ export class ChatAPI {
       res.setHeader('Cache-Control', 'no-cache')
       res.setHeader('Connection', 'keep-alive')
 
+      // Cancel the turn (LLM stream and running tools) if the client goes away
+      const abortController = new AbortController()
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          console.log(`[ChatAPI] Client disconnected, cancelling turn for conversation ${conversation.id}`)
+          abortController.abort(new Error('Client disconnected'))
+        }
+      })
+
+      // Tell the client which conversation to continue on the next turn
+      const openingEvent: ConversationEvent = {
+        type: 'conversation',
+        conversationId: conversation.id,
+        protocolVersion: STREAM_PROTOCOL_VERSION
+      }
+      res.write(`data: ${JSON.stringify(openingEvent)}\n\n`)
+
+      // Rebuild the assistant message the same way the client does, so it can be persisted
+      const assistantMessage: Message = {
+        role: 'assistant',
+        content: '',
+        timestamp: Date.now(),
+        chartData: []
+      }
+      // Complete transcript of the turn (tool calls, results, reply), sent before 'done'
+      let turnMessages: Message[] | null = null
+
       // Stream response with tool execution
       try {
-        for await (const chunk of this.chatOrchestrator.chatWithTools(messagesWithTimestamps, mcpTools)) {
+        const stream = this.chatOrchestrator.chatWithTools(messagesWithTimestamps, mcpTools, abortController.signal, { timeZone }, conversation.id)
+
+        for await (const chunk of stream) {
+          if (chunk.type === 'content' && chunk.content) {
+            assistantMessage.content += chunk.content
+          } else if (chunk.type === 'chart_data' && chunk.chartData) {
+            assistantMessage.chartData!.push(chunk.chartData)
+          } else if (chunk.type === 'turn_messages' && chunk.messages) {
+            turnMessages = chunk.messages
+          }
           res.write(`data: ${JSON.stringify(chunk)}\n\n`)
         }
-        res.write('data: [DONE]\n\n')
+        // A cancelled turn keeps whatever was streamed before the stop
+        this.persistTurn(conversation.id, messagesWithTimestamps, assistantMessage, turnMessages)
+        if (!abortController.signal.aborted) {
+          res.write('data: [DONE]\n\n')
+        }
         res.end()
       } catch (error: any) {
+        this.persistTurn(conversation.id, messagesWithTimestamps, assistantMessage, turnMessages)
         res.write(
           `data: ${JSON.stringify({
             type: 'error',
@@ -87,4 +177,97 @@ export class ChatAPI {
       }
     }
   }
+
+  /**
+   * POST /api/chat/approvals/:approvalId
+   * Approve (optionally with edited arguments) or deny a paused tool call of a conversation
+   * Edited arguments that don't match the tool's inputSchema are refused with the problems listed
+   */
+  async resolveToolApproval(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { approvalId } = req.params
+
+    const validation = ToolApprovalDecisionSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid approval decision',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const { conversationId, ...decision } = validation.data
+    const delivery = this.approvalService.resolveApproval(approvalId, conversationId, decision)
+    if (!delivery.delivered) {
+      if (delivery.reason === 'invalid') {
+        res.status(400).json({
+          error: 'The edited arguments do not match the tool',
+          details: delivery.issues
+        })
+      } else {
+        res.status(404).json({ error: 'No tool call is waiting for this approval' })
+      }
+      return
+    }
+
+    res.json({ success: true })
+  }
+
+  /**
+   * POST /api/chat/elicitations/:elicitationId
+   * Answer (accept with content), decline or cancel a question a server asked during a tool call
+   */
+  async resolveElicitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { elicitationId } = req.params
+
+    const validation = ElicitationResponseSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid elicitation response',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const delivery = this.elicitationService.resolveElicitation(elicitationId, validation.data)
+    if (!delivery.delivered) {
+      if (delivery.reason === 'invalid') {
+        res.status(400).json({
+          error: 'The answer does not match the requested fields',
+          details: delivery.issues
+        })
+      } else {
+        res.status(404).json({ error: 'No server is waiting for this answer' })
+      }
+      return
+    }
+
+    res.json({ success: true })
+  }
+
+  /**
+   * Store the turn in its conversation
+   * Prefers the orchestrator's transcript; a cancelled turn has none, so the
+   * streamed assistant message is kept instead if it produced something to render
+   */
+  private persistTurn(
+    conversationId: string,
+    messages: Message[],
+    assistantMessage: Message,
+    transcript: Message[] | null
+  ): void {
+    const hasCharts = (assistantMessage.chartData?.length ?? 0) > 0
+    const hasOutput = assistantMessage.content.length > 0 || hasCharts
+
+    const turnMessages = transcript
+      ? [...messages, ...transcript]
+      : hasOutput
+        ? [...messages, { ...assistantMessage, chartData: hasCharts ? assistantMessage.chartData : undefined }]
+        : messages
+
+    try {
+      this.conversationService.saveMessages(conversationId, turnMessages)
+    } catch (error: any) {
+      console.error(`[ChatAPI] Failed to save conversation ${conversationId}:`, error.message)
+    }
+  }
 }
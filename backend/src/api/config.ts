@@ -1,7 +1,11 @@
 import { Request, Response, NextFunction } from 'express'
+import { stat } from 'fs/promises'
+import path from 'path'
 import { ConfigService } from '../services/config/ConfigService.js'
 import { LLMService } from '../services/llm/LLMService.js'
 import { MCPService } from '../services/mcp/MCPService.js'
+import { StatusService } from '../services/status/StatusService.js'
+import { TOOL_ALIAS_PATTERN, toolPrefix } from '../services/mcp/ToolNamespace.js'
 import { asyncHandler } from './utils.js'
 import { z } from 'zod'
 import type { LLMConfigRequest, MCPServerRequest } from '../../../shared/types/index.js'
@@ -15,9 +19,28 @@ const LLMConfigSchema = z.object({
   topP: z.number().min(0).max(1).optional(),
   presencePenalty: z.number().min(-2).max(2).optional(),
   frequencyPenalty: z.number().min(-2).max(2).optional(),
-  systemPrompt: z.string().optional().nullable()
+  systemPrompt: z.string().optional().nullable(),
+  contextWindow: z.number().int().min(1024).optional().nullable()
+}).refine(config => !config.maxTokens || !config.contextWindow || config.maxTokens < config.contextWindow, {
+  message: 'Max tokens must be smaller than the context window',
+  path: ['maxTokens']
 })
 
+const ArgumentRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    tool: z.string().min(1),
+    type: z.literal('default'),
+    argument: z.string().min(1),
+    value: z.union([z.string(), z.number(), z.boolean()])
+  }),
+  z.object({
+    tool: z.string().min(1),
+    type: z.literal('rename'),
+    argument: z.string().min(1),
+    to: z.string().min(1)
+  })
+])
+
 const StdioMCPServerSchema = z.object({
   name: z.string().min(1).max(100),
   type: z.literal('stdio'),
@@ -25,7 +48,8 @@ const StdioMCPServerSchema = z.object({
     command: z.string().regex(/^[a-zA-Z0-9_\-\/\.]+$/),
     args: z.array(z.string()),
     env: z.record(z.string()).optional()
-  })
+  }),
+  argumentRules: z.array(ArgumentRuleSchema).max(100).optional()
 })
 
 const HTTPMCPServerSchema = z.object({
@@ -34,16 +58,42 @@ const HTTPMCPServerSchema = z.object({
   config: z.object({
     url: z.string().url(),
     headers: z.record(z.string()).optional()
-  })
+  }),
+  argumentRules: z.array(ArgumentRuleSchema).max(100).optional()
 })
 
 const MCPServerSchema = z.union([StdioMCPServerSchema, HTTPMCPServerSchema])
 
+const ToolApprovalModeSchema = z.enum(['always', 'never', 'destructive'])
+
+const ToolApprovalPolicySchema = z.object({
+  mode: ToolApprovalModeSchema,
+  tools: z.record(ToolApprovalModeSchema).optional()
+})
+
+const SamplingPolicySchema = z.object({
+  mode: z.enum(['deny', 'ask', 'allow']),
+  maxTokens: z.number().int().min(1).max(100000)
+})
+
+const ArgumentRulesSchema = z.object({
+  rules: z.array(ArgumentRuleSchema).max(100)
+})
+
+const RootsSchema = z.object({
+  roots: z.array(z.string().refine(root => path.isAbsolute(root), 'Must be an absolute path')).max(50)
+})
+
+const ToolAliasSchema = z.object({
+  alias: z.string().regex(TOOL_ALIAS_PATTERN, 'Use up to 20 letters, digits, _ or -').nullable()
+})
+
 export class ConfigAPI {
   constructor(
     private configService: ConfigService,
     private llmService: LLMService,
-    private mcpService: MCPService
+    private mcpService: MCPService,
+    private statusService?: StatusService
   ) {}
 
   // Get all config
@@ -76,7 +126,8 @@ export class ConfigAPI {
         ...config,
         apiKey: config.apiKey || undefined,
         maxTokens: config.maxTokens ?? undefined,
-        systemPrompt: config.systemPrompt || undefined
+        systemPrompt: config.systemPrompt || undefined,
+        contextWindow: config.contextWindow ?? undefined
       }
 
       // Test connection before saving
@@ -95,6 +146,7 @@ export class ConfigAPI {
 
       // Reconfigure the main LLM service
       this.llmService.configure(normalizedConfig)
+      this.statusService?.checkLLM().catch(() => {})
 
       res.json({
         success: true,
@@ -125,8 +177,17 @@ export class ConfigAPI {
       return
     }
 
-    const { name, type, config } = validation.data
-    const server = this.configService.addMCPServer(name, type, config)
+    const { name, type, config, argumentRules } = validation.data
+    const prefix = toolPrefix({ name })
+    const owner = this.prefixOwner(prefix)
+    if (owner) {
+      res.status(400).json({
+        error: `Server '${owner.name}' already uses the tool prefix '${prefix}'. Choose another name, or give that server an alias first`
+      })
+      return
+    }
+
+    const server = this.configService.addMCPServer(name, type, config, argumentRules)
 
     // Connect server if enabled (works for both stdio and HTTP)
     if (server.enabled) {
@@ -156,6 +217,9 @@ export class ConfigAPI {
 
     // Then delete from database
     this.configService.deleteMCPServer(id)
+    this.mcpService.clearServerLogs(id)
+    this.mcpService.clearProtocolMessages(id, true)
+    this.mcpService.clearResourceSubscriptions(id)
 
     res.json({ success: true })
   })
@@ -193,4 +257,154 @@ export class ConfigAPI {
 
     res.json({ success: true })
   })
+
+  // Update tool approval policy for an MCP server
+  updateApprovalPolicy = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+
+    const validation = ToolApprovalPolicySchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid approval policy',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const server = this.configService.getMCPServer(id)
+    if (!server) {
+      res.status(404).json({ error: 'Server not found' })
+      return
+    }
+
+    this.configService.setApprovalPolicy(id, validation.data)
+
+    res.json({ success: true, approvalPolicy: validation.data })
+  })
+
+  // Set whether an MCP server may use the LLM (sampling) and its max tokens per request
+  updateSamplingPolicy = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+
+    const validation = SamplingPolicySchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid sampling policy',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const server = this.configService.getMCPServer(id)
+    if (!server) {
+      res.status(404).json({ error: 'Server not found' })
+      return
+    }
+
+    this.configService.setSamplingPolicy(id, validation.data)
+
+    res.json({ success: true, samplingPolicy: validation.data })
+  })
+
+  // Replace the directories an MCP server may work in; connected servers are told with roots/list_changed
+  updateRoots = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+
+    const validation = RootsSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid roots',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const server = this.configService.getMCPServer(id)
+    if (!server) {
+      res.status(404).json({ error: 'Server not found' })
+      return
+    }
+
+    // Same shape as validation errors, so each bad entry can be pointed out
+    const roots = validation.data.roots.map(root => path.resolve(root))
+    const missing = (await Promise.all(roots.map(async (root, index) => {
+      const stats = await stat(root).catch(() => null)
+      return stats?.isDirectory() ? null : { path: ['roots', index], message: `${root} is not an existing directory` }
+    }))).filter(issue => issue !== null)
+    if (missing.length > 0) {
+      res.status(400).json({ error: 'Invalid roots', details: missing })
+      return
+    }
+
+    const unique = [...new Set(roots)]
+    this.configService.setRoots(id, unique)
+    await this.mcpService.notifyRootsChanged(id)
+
+    res.json({ success: true, roots: unique })
+  })
+
+  // Set the prefix the LLM sees on an MCP server's tool names (null to derive it from the name)
+  updateToolAlias = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+
+    const validation = ToolAliasSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid alias',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const server = this.configService.getMCPServer(id)
+    if (!server) {
+      res.status(404).json({ error: 'Server not found' })
+      return
+    }
+
+    const { alias } = validation.data
+    const prefix = toolPrefix({ name: server.name, alias: alias ?? undefined })
+    const owner = this.prefixOwner(prefix, id)
+    if (owner) {
+      res.status(400).json({ error: `Tool prefix '${prefix}' is already used by server '${owner.name}'` })
+      return
+    }
+
+    this.configService.setToolAlias(id, alias)
+
+    res.json({ success: true, alias })
+  })
+
+  /**
+   * Server whose tools already carry this prefix (letter case ignored)
+   * Prefixes are kept unique so qualified tool names never need a numeric suffix to tell servers apart
+   */
+  private prefixOwner(prefix: string, exceptId?: string) {
+    return this.configService.getAllMCPServers()
+      .find(s => s.id !== exceptId && toolPrefix(s).toLowerCase() === prefix.toLowerCase())
+  }
+
+  // Replace the argument rules (defaults, renames) applied to an MCP server's tool calls
+  updateArgumentRules = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+
+    const validation = ArgumentRulesSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid argument rules',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const server = this.configService.getMCPServer(id)
+    if (!server) {
+      res.status(404).json({ error: 'Server not found' })
+      return
+    }
+
+    this.configService.setArgumentRules(id, validation.data.rules)
+
+    res.json({ success: true, argumentRules: validation.data.rules })
+  })
 }
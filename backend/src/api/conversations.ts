@@ -0,0 +1,147 @@
+import { Request, Response, NextFunction } from 'express'
+import { ConversationService } from '../services/chat/ConversationService.js'
+import { asyncHandler } from './utils.js'
+import { z } from 'zod'
+
+const CreateConversationSchema = z.object({
+  title: z.string().max(200).optional()
+})
+
+const RenameConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200)
+})
+
+const SwitchBranchSchema = z.object({
+  messageId: z.string().min(1)
+})
+
+/**
+ * ConversationAPI provides endpoints for browsing stored conversations
+ * - List, get, create, rename and delete conversations
+ * - Switch between versions of edited or regenerated messages
+ * - Conversations are continued by passing conversationId to POST /api/chat
+ */
+export class ConversationAPI {
+  constructor(private conversationService: ConversationService) {}
+
+  /**
+   * GET /api/conversations
+   * List all conversations, most recently updated first
+   */
+  listConversations = asyncHandler(async (_req: Request, res: Response, next: NextFunction) => {
+    const conversations = this.conversationService.listConversations()
+
+    res.json({
+      conversations,
+      count: conversations.length
+    })
+  })
+
+  /**
+   * GET /api/conversations/:id
+   * Get a conversation with all of its messages
+   */
+  getConversation = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+    const conversation = this.conversationService.getConversation(id)
+
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' })
+      return
+    }
+
+    res.json({ conversation })
+  })
+
+  /**
+   * POST /api/conversations
+   * Create an empty conversation
+   */
+  createConversation = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = CreateConversationSchema.safeParse(req.body ?? {})
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid conversation',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const conversation = this.conversationService.createConversation(validation.data.title)
+
+    res.status(201).json({ conversation })
+  })
+
+  /**
+   * PATCH /api/conversations/:id
+   * Rename a conversation
+   */
+  renameConversation = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+
+    const validation = RenameConversationSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid conversation',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    if (!this.conversationService.getConversation(id)) {
+      res.status(404).json({ error: 'Conversation not found' })
+      return
+    }
+
+    this.conversationService.renameConversation(id, validation.data.title)
+
+    res.json({ success: true })
+  })
+
+  /**
+   * POST /api/conversations/:id/branch
+   * Switch the active branch to the one through a message version
+   */
+  switchBranch = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+
+    const validation = SwitchBranchSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid branch',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    if (!this.conversationService.getConversation(id)) {
+      res.status(404).json({ error: 'Conversation not found' })
+      return
+    }
+
+    const conversation = this.conversationService.switchBranch(id, validation.data.messageId)
+    if (!conversation) {
+      res.status(404).json({ error: 'Message not found in conversation' })
+      return
+    }
+
+    res.json({ conversation })
+  })
+
+  /**
+   * DELETE /api/conversations/:id
+   * Delete a conversation and its messages
+   */
+  deleteConversation = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params
+
+    if (!this.conversationService.getConversation(id)) {
+      res.status(404).json({ error: 'Conversation not found' })
+      return
+    }
+
+    this.conversationService.deleteConversation(id)
+
+    res.json({ success: true })
+  })
+}
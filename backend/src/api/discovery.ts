@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express'
 import { MCPService } from '../services/mcp/MCPService.js'
+import { ConfigService } from '../services/config/ConfigService.js'
+import { ConformanceRunner } from '../services/mcp/ConformanceRunner.js'
 import {
   MCP_SERVER_CATALOG,
   getServerTemplate,
@@ -15,7 +17,11 @@ import { asyncHandler } from './utils.js'
  * in air-gap environments using a pre-populated catalog.
  */
 export class DiscoveryAPI {
-  constructor(private mcpService: MCPService) {}
+  constructor(
+    private mcpService: MCPService,
+    private configService: ConfigService,
+    private conformanceRunner: ConformanceRunner
+  ) {}
 
   /**
    * GET /api/discovery/catalog
@@ -126,11 +132,11 @@ export class DiscoveryAPI {
 
   /**
    * POST /api/discovery/tools/:serverId/:toolName/test
-   * Test a tool with sample arguments
+   * Test a tool with sample arguments; timeZone fills the server's templated argument defaults
    */
   testTool = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const { serverId, toolName } = req.params
-    const { arguments: args } = req.body
+    const { arguments: args, timeZone } = req.body
 
     if (!args || typeof args !== 'object') {
       res.status(400).json({ error: 'Missing or invalid "arguments" in request body' })
@@ -138,7 +144,9 @@ export class DiscoveryAPI {
     }
 
     try {
-      const result = await this.mcpService.executeTool(serverId, toolName, args)
+      const result = await this.mcpService.executeTool(serverId, toolName, args, {
+        ruleContext: { timeZone: typeof timeZone === 'string' ? timeZone : undefined }
+      })
       res.json({
         success: true,
         serverId,
@@ -157,6 +165,24 @@ export class DiscoveryAPI {
     }
   })
 
+  /**
+   * POST /api/discovery/servers/:serverId/conformance
+   * Run the conformance suite against a configured server (enabled or not)
+   * and return the pass/warn/fail report
+   */
+  runConformance = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { serverId } = req.params
+    const server = this.configService.getMCPServer(serverId)
+
+    if (!server) {
+      res.status(404).json({ error: `MCP server '${serverId}' not found` })
+      return
+    }
+
+    const report = await this.conformanceRunner.run(server)
+    res.json(report)
+  })
+
   /**
    * GET /api/discovery/status
    * Get discovery system status and statistics
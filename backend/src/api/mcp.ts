@@ -1,15 +1,57 @@
 import { Request, Response, NextFunction } from 'express'
 import { MCPService } from '../services/mcp/MCPService.js'
+import { SamplingService } from '../services/mcp/SamplingService.js'
 import { asyncHandler } from './utils.js'
+import { z } from 'zod'
+
+const ServerLogsQuerySchema = z.object({
+  tail: z.coerce.number().int().min(1).max(1000).default(200),
+  after: z.coerce.number().int().min(0).default(0),
+  follow: z.enum(['true', 'false']).default('false')
+})
+
+const ProtocolQuerySchema = ServerLogsQuerySchema.extend({
+  tail: z.coerce.number().int().min(1).max(500).default(200)
+})
+
+const ProtocolCaptureSchema = z.object({
+  enabled: z.boolean()
+})
+
+const ResourceUriSchema = z.object({
+  uri: z.string().min(1)
+})
+
+const PromptArgumentsSchema = z.object({
+  arguments: z.record(z.string()).default({})
+})
+
+const SamplingDecisionSchema = z.object({
+  approved: z.boolean(),
+  reason: z.string().max(500).optional()
+})
+
+/** Comment line sent periodically so proxies don't close an idle stream */
+const KEEP_ALIVE_INTERVAL_MS = 25000
 
 /**
  * MCPAPI provides endpoints for interacting with MCP servers
  * - List available tools from all connected servers
  * - Get connection status for servers
  * - Manually reconnect servers
+ * - Read and follow a server's console (stderr and MCP log messages)
+ * - Capture, read and follow a server's JSON-RPC traffic (protocol inspector)
+ * - List and read resources, and subscribe to their updates
+ * - List prompts and render them with arguments
+ * - Review sampling requests from servers and approve or deny pending ones
  */
 export class MCPAPI {
-  constructor(private mcpService: MCPService) {}
+  private streams: Set<Response> = new Set()
+
+  constructor(
+    private mcpService: MCPService,
+    private samplingService: SamplingService
+  ) {}
 
   /**
    * GET /api/mcp/tools
@@ -24,9 +66,156 @@ export class MCPAPI {
     })
   })
 
+  /**
+   * GET /api/mcp/resources
+   * List all resources from all connected MCP servers
+   */
+  getResources = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const resources = this.mcpService.getAllResources()
+
+    res.json({
+      resources,
+      count: resources.length
+    })
+  })
+
+  /**
+   * GET /api/mcp/servers/:id/resources/read?uri=
+   * Read a resource's contents
+   */
+  readResource = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = ResourceUriSchema.safeParse(req.query)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid query',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    try {
+      const contents = await this.mcpService.readResource(req.params.id, validation.data.uri)
+      res.json({ uri: validation.data.uri, contents })
+    } catch (error: any) {
+      res.status(500).json({ error: error.message })
+    }
+  })
+
+  /**
+   * POST /api/mcp/servers/:id/resources/subscribe
+   * Get resource_updated status events when { uri } changes
+   */
+  subscribeResource = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = ResourceUriSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    try {
+      const subscribed = await this.mcpService.subscribeResource(req.params.id, validation.data.uri)
+      res.json({ subscribed })
+    } catch (error: any) {
+      res.status(500).json({ error: error.message })
+    }
+  })
+
+  /**
+   * POST /api/mcp/servers/:id/resources/unsubscribe
+   * Stop resource_updated events for { uri }
+   */
+  unsubscribeResource = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = ResourceUriSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    await this.mcpService.unsubscribeResource(req.params.id, validation.data.uri)
+    res.json({ success: true })
+  })
+
+  /**
+   * GET /api/mcp/prompts
+   * List all prompts from all connected MCP servers, with their slash commands
+   */
+  getPrompts = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const prompts = this.mcpService.getAllPrompts()
+
+    res.json({
+      prompts,
+      count: prompts.length
+    })
+  })
+
+  /**
+   * POST /api/mcp/servers/:id/prompts/:name
+   * Render a prompt with { arguments } into conversation messages
+   */
+  getPrompt = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = PromptArgumentsSchema.safeParse(req.body ?? {})
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    try {
+      const prompt = await this.mcpService.getPrompt(req.params.id, req.params.name, validation.data.arguments)
+      res.json(prompt)
+    } catch (error: any) {
+      res.status(500).json({ error: error.message })
+    }
+  })
+
+  /**
+   * GET /api/mcp/sampling
+   * Sampling requests made by servers, oldest first, with their outcome
+   */
+  getSamplingRecords = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const records = this.samplingService.getRecords()
+
+    res.json({
+      records,
+      count: records.length
+    })
+  })
+
+  /**
+   * POST /api/mcp/sampling/:id/decision
+   * Approve or deny a sampling request waiting for the user
+   */
+  resolveSampling = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = SamplingDecisionSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid sampling decision',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const resolved = this.samplingService.resolveApproval(req.params.id, validation.data)
+    if (!resolved) {
+      res.status(404).json({ error: 'No sampling request is waiting for this decision' })
+      return
+    }
+
+    res.json({ success: true })
+  })
+
   /**
    * GET /api/mcp/status
-   * Get connection status for all MCP servers
+   * Get connection status for all MCP servers, including reconnection progress
+   * and recent state transitions
    */
   getStatus = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     const statuses = this.mcpService.getAllServerStatuses()
@@ -35,6 +224,8 @@ export class MCPAPI {
       total: statuses.length,
       connected: statuses.filter(s => s.connected).length,
       disconnected: statuses.filter(s => !s.connected).length,
+      reconnecting: statuses.filter(s => s.state === 'reconnecting').length,
+      parked: statuses.filter(s => s.state === 'parked').length,
       totalTools: statuses.reduce((sum, s) => sum + s.toolCount, 0)
     }
 
@@ -61,4 +252,118 @@ export class MCPAPI {
       })
     }
   })
+
+  /**
+   * GET /api/mcp/servers/:id/logs?tail=200&after=0&follow=false
+   * Most recent console lines of a server, oldest first. With follow=true the
+   * response is an SSE stream: those lines, then each new one as it arrives
+   */
+  getServerLogs = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = ServerLogsQuerySchema.safeParse(req.query)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid query',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const { id } = req.params
+    const { tail, after, follow } = validation.data
+    const entries = this.mcpService.getServerLogs(id, tail, after)
+
+    if (follow !== 'true') {
+      res.json({ entries })
+      return
+    }
+
+    this.stream(res, entries, send => this.mcpService.followServerLogs(id, send))
+  })
+
+  /**
+   * PUT /api/mcp/servers/:id/protocol/capture
+   * Turn JSON-RPC capture on or off for a server
+   */
+  setProtocolCapture = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = ProtocolCaptureSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const { id } = req.params
+    this.mcpService.setProtocolCapture(id, validation.data.enabled)
+    res.json({ success: true, capturing: validation.data.enabled })
+  })
+
+  /**
+   * GET /api/mcp/servers/:id/protocol?tail=200&after=0&follow=false
+   * Captured JSON-RPC messages of a server, oldest first. With follow=true the
+   * response is an SSE stream: those messages, then each new one as it is captured
+   */
+  getProtocolMessages = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = ProtocolQuerySchema.safeParse(req.query)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid query',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const { id } = req.params
+    const { tail, after, follow } = validation.data
+    const messages = this.mcpService.getProtocolMessages(id, tail, after)
+
+    if (follow !== 'true') {
+      res.json({ capturing: this.mcpService.isCapturingProtocol(id), messages })
+      return
+    }
+
+    this.stream(res, messages, send => this.mcpService.followProtocolMessages(id, send))
+  })
+
+  /**
+   * DELETE /api/mcp/servers/:id/protocol
+   * Drop the captured messages of a server (capture stays on if it was)
+   */
+  clearProtocolMessages = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    this.mcpService.clearProtocolMessages(req.params.id)
+    res.json({ success: true })
+  })
+
+  /**
+   * Answer with an SSE stream: the given entries, then each one passed to send
+   */
+  private stream<T>(res: Response, entries: T[], follow: (send: (entry: T) => void) => () => void): void {
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.setHeader('Connection', 'keep-alive')
+    res.flushHeaders()
+
+    const send = (entry: T) => res.write(`data: ${JSON.stringify(entry)}\n\n`)
+    entries.forEach(send)
+
+    const unfollow = follow(send)
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS)
+    this.streams.add(res)
+
+    res.on('close', () => {
+      clearInterval(keepAlive)
+      unfollow()
+      this.streams.delete(res)
+    })
+  }
+
+  /**
+   * End all followed log and protocol streams so the HTTP server can close
+   */
+  closeStreams(): void {
+    for (const res of this.streams) {
+      res.end()
+    }
+  }
 }
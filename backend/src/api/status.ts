@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express'
+import { StatusService } from '../services/status/StatusService.js'
+import type { StatusEvent } from '../../../shared/types/index.js'
+import { asyncHandler } from './utils.js'
+
+/** Comment line sent periodically so proxies don't close an idle stream */
+const KEEP_ALIVE_INTERVAL_MS = 25000
+
+/**
+ * StatusAPI streams live MCP and LLM status over server-sent events
+ */
+export class StatusAPI {
+  private streams: Set<Response> = new Set()
+
+  constructor(private statusService: StatusService) {}
+
+  /**
+   * GET /api/status/stream
+   * A snapshot event, then one event per change (see StatusEvent)
+   */
+  stream = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.setHeader('Connection', 'keep-alive')
+    res.flushHeaders()
+
+    const unsubscribe = this.statusService.subscribe((event: StatusEvent) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`)
+    })
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS)
+    this.streams.add(res)
+
+    res.on('close', () => {
+      clearInterval(keepAlive)
+      unsubscribe()
+      this.streams.delete(res)
+    })
+  })
+
+  /**
+   * End all open streams so the HTTP server can close
+   */
+  closeStreams(): void {
+    for (const res of this.streams) {
+      res.end()
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { Request, Response, NextFunction } from 'express'
+import { ToolTestService } from '../services/mcp/ToolTestService.js'
+import { ConfigService } from '../services/config/ConfigService.js'
+import { asyncHandler } from './utils.js'
+import { z } from 'zod'
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const MatcherSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('isError'), value: z.boolean() }),
+  z.object({ type: z.literal('contains'), text: z.string().min(1) }),
+  z.object({ type: z.literal('equals'), text: z.string() }),
+  z.object({ type: z.literal('matches'), pattern: z.string().min(1).refine(isValidPattern, 'Invalid regular expression') })
+])
+
+const TestCaseFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  toolName: z.string().min(1),
+  arguments: z.record(z.any()).default({}),
+  mode: z.enum(['matchers', 'snapshot']),
+  matchers: z.array(MatcherSchema).max(20).default([])
+})
+
+const needsExpectation = (testCase: { mode: string; matchers: unknown[] }) =>
+  testCase.mode === 'snapshot' || testCase.matchers.length > 0
+
+const EXPECTATION_ERROR = { message: 'Add at least one matcher, or use snapshot mode', path: ['matchers'] }
+
+const CreateTestCaseSchema = TestCaseFieldsSchema
+  .extend({ serverId: z.string().min(1) })
+  .refine(needsExpectation, EXPECTATION_ERROR)
+
+const UpdateTestCaseSchema = TestCaseFieldsSchema.refine(needsExpectation, EXPECTATION_ERROR)
+
+const RunTestsSchema = z.object({
+  serverId: z.string().min(1).optional()
+})
+
+/**
+ * ToolTestAPI provides endpoints for saved tool tests
+ * - List, create, replace and delete test cases
+ * - Run one test, or all of them (optionally of one server)
+ * - Accept a changed result as the new snapshot
+ */
+export class ToolTestAPI {
+  constructor(
+    private toolTestService: ToolTestService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * GET /api/tool-tests?serverId=
+   * List saved tests with their last run, by name
+   */
+  listTestCases = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const serverId = typeof req.query.serverId === 'string' ? req.query.serverId : undefined
+    const testCases = this.toolTestService.listTestCases(serverId)
+
+    res.json({
+      testCases,
+      count: testCases.length
+    })
+  })
+
+  /**
+   * POST /api/tool-tests
+   * Save a tool call as a test case
+   */
+  createTestCase = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = CreateTestCaseSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid test case',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    if (!this.configService.getMCPServer(validation.data.serverId)) {
+      res.status(400).json({ error: `MCP server '${validation.data.serverId}' not found` })
+      return
+    }
+
+    const testCase = this.toolTestService.createTestCase(validation.data)
+
+    res.status(201).json({ testCase })
+  })
+
+  /**
+   * PUT /api/tool-tests/:id
+   * Replace a test case's name, call and expectations
+   */
+  updateTestCase = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = UpdateTestCaseSchema.safeParse(req.body)
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid test case',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const testCase = this.toolTestService.updateTestCase(req.params.id, validation.data)
+    if (!testCase) {
+      res.status(404).json({ error: 'Test case not found' })
+      return
+    }
+
+    res.json({ testCase })
+  })
+
+  /**
+   * DELETE /api/tool-tests/:id
+   */
+  deleteTestCase = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    if (!this.toolTestService.deleteTestCase(req.params.id)) {
+      res.status(404).json({ error: 'Test case not found' })
+      return
+    }
+
+    res.json({ success: true })
+  })
+
+  /**
+   * POST /api/tool-tests/run
+   * Run all saved tests, or those of { serverId }
+   */
+  runAll = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const validation = RunTestsSchema.safeParse(req.body ?? {})
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.errors
+      })
+      return
+    }
+
+    const runs = await this.toolTestService.runAll(validation.data.serverId)
+
+    res.json({
+      runs,
+      summary: {
+        total: runs.length,
+        passed: runs.filter(run => run.status === 'pass').length,
+        failed: runs.filter(run => run.status === 'fail').length,
+        errors: runs.filter(run => run.status === 'error').length
+      }
+    })
+  })
+
+  /**
+   * POST /api/tool-tests/:id/run
+   * Run one test
+   */
+  runTestCase = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const run = await this.toolTestService.runTestCase(req.params.id)
+    if (!run) {
+      res.status(404).json({ error: 'Test case not found' })
+      return
+    }
+
+    res.json({ run })
+  })
+
+  /**
+   * POST /api/tool-tests/:id/accept
+   * Accept the last run's result as the test's snapshot
+   */
+  acceptSnapshot = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const testCase = this.toolTestService.acceptSnapshot(req.params.id)
+      if (!testCase) {
+        res.status(404).json({ error: 'Test case not found' })
+        return
+      }
+
+      res.json({ testCase })
+    } catch (error: any) {
+      res.status(400).json({ error: error.message })
+    }
+  })
+}
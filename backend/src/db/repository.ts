@@ -1,5 +1,5 @@
 import Database from 'better-sqlite3'
-import { LLMConfig, MCPServerConfig } from '../../../shared/types/index.js'
+import { LLMConfig, MCPServerConfig, Conversation, ConversationNode, ConversationSummary, SamplingRecord, ToolTestCase } from '../../../shared/types/index.js'
 import { EncryptionService } from '../services/config/EncryptionService.js'
 
 export class Repository {
@@ -27,7 +27,8 @@ export class Repository {
       topP: row.top_p,
       presencePenalty: row.presence_penalty,
       frequencyPenalty: row.frequency_penalty,
-      systemPrompt: row.system_prompt
+      systemPrompt: row.system_prompt,
+      contextWindow: row.context_window ?? undefined
     }
   }
 
@@ -38,8 +39,8 @@ export class Repository {
 
     const stmt = this.db.prepare(`
       INSERT INTO llm_config (id, base_url, api_key_encrypted, model, temperature, max_tokens,
-                              top_p, presence_penalty, frequency_penalty, system_prompt, updated_at)
-      VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+                              top_p, presence_penalty, frequency_penalty, system_prompt, context_window, updated_at)
+      VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
       ON CONFLICT(id) DO UPDATE SET
         base_url = excluded.base_url,
         api_key_encrypted = excluded.api_key_encrypted,
@@ -50,6 +51,7 @@ export class Repository {
         presence_penalty = excluded.presence_penalty,
         frequency_penalty = excluded.frequency_penalty,
         system_prompt = excluded.system_prompt,
+        context_window = excluded.context_window,
         updated_at = CURRENT_TIMESTAMP
     `)
 
@@ -62,7 +64,8 @@ export class Repository {
       config.topP ?? 1.0,
       config.presencePenalty ?? 0.0,
       config.frequencyPenalty ?? 0.0,
-      config.systemPrompt ?? null
+      config.systemPrompt ?? null,
+      config.contextWindow ?? null
     )
   }
 
@@ -74,6 +77,11 @@ export class Repository {
       type: row.type as 'stdio' | 'http',
       enabled: row.enabled === 1,
       config: JSON.parse(row.config),
+      approvalPolicy: row.approval_policy ? JSON.parse(row.approval_policy) : undefined,
+      alias: row.alias || undefined,
+      argumentRules: row.argument_rules ? JSON.parse(row.argument_rules) : undefined,
+      samplingPolicy: row.sampling_policy ? JSON.parse(row.sampling_policy) : undefined,
+      roots: row.roots ? JSON.parse(row.roots) : undefined,
       createdAt: row.created_at
     }
   }
@@ -106,8 +114,8 @@ export class Repository {
 
   saveMCPServer(server: MCPServerConfig): void {
     const stmt = this.db.prepare(`
-      INSERT INTO mcp_servers (id, name, type, config, enabled, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO mcp_servers (id, name, type, config, enabled, approval_policy, alias, argument_rules, sampling_policy, roots, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
 
     stmt.run(
@@ -116,6 +124,11 @@ export class Repository {
       server.type,
       JSON.stringify(server.config),
       server.enabled ? 1 : 0,
+      server.approvalPolicy ? JSON.stringify(server.approvalPolicy) : null,
+      server.alias || null,
+      server.argumentRules ? JSON.stringify(server.argumentRules) : null,
+      server.samplingPolicy ? JSON.stringify(server.samplingPolicy) : null,
+      server.roots ? JSON.stringify(server.roots) : null,
       server.createdAt
     )
   }
@@ -136,6 +149,27 @@ export class Repository {
       fields.push('config = ?')
       values.push(JSON.stringify(updates.config))
     }
+    if (updates.approvalPolicy !== undefined) {
+      fields.push('approval_policy = ?')
+      values.push(JSON.stringify(updates.approvalPolicy))
+    }
+    if (updates.alias !== undefined) {
+      // An empty alias clears it
+      fields.push('alias = ?')
+      values.push(updates.alias || null)
+    }
+    if (updates.argumentRules !== undefined) {
+      fields.push('argument_rules = ?')
+      values.push(JSON.stringify(updates.argumentRules))
+    }
+    if (updates.samplingPolicy !== undefined) {
+      fields.push('sampling_policy = ?')
+      values.push(JSON.stringify(updates.samplingPolicy))
+    }
+    if (updates.roots !== undefined) {
+      fields.push('roots = ?')
+      values.push(JSON.stringify(updates.roots))
+    }
 
     if (fields.length === 0) return
 
@@ -151,20 +185,249 @@ export class Repository {
   }
 
   // Chat History Operations
-  saveChatHistory(id: string, messages: any[]): void {
+  private mapRowToConversation(row: any): Conversation {
+    return {
+      id: row.id,
+      title: row.title || '',
+      messages: JSON.parse(row.messages),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || row.created_at
+    }
+  }
+
+  getAllConversations(): ConversationSummary[] {
+    const rows = this.db
+      .prepare(`
+        SELECT id, title, created_at, updated_at, json_array_length(messages) AS message_count
+        FROM chat_history
+        ORDER BY updated_at DESC
+      `)
+      .all() as any[]
+
+    return rows.map(row => ({
+      id: row.id,
+      title: row.title || '',
+      messageCount: row.message_count,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || row.created_at
+    }))
+  }
+
+  getConversation(id: string): Conversation | null {
+    const row = this.db
+      .prepare('SELECT * FROM chat_history WHERE id = ?')
+      .get(id) as any
+
+    if (!row) return null
+
+    return this.mapRowToConversation(row)
+  }
+
+  /**
+   * Every message version of a conversation, or null if it has no tree yet
+   */
+  getConversationTree(id: string): ConversationNode[] | null {
+    const row = this.db
+      .prepare('SELECT message_tree FROM chat_history WHERE id = ?')
+      .get(id) as any
+
+    if (!row?.message_tree) return null
+
+    return JSON.parse(row.message_tree)
+  }
+
+  /**
+   * Ids of conversations saved before message trees existed
+   */
+  getConversationIdsWithoutTree(): string[] {
+    const rows = this.db
+      .prepare('SELECT id FROM chat_history WHERE message_tree IS NULL')
+      .all() as any[]
+
+    return rows.map(row => row.id)
+  }
+
+  /**
+   * Save a conversation; messages are its active branch
+   * The stored tree is kept as is when none is given
+   */
+  saveConversation(conversation: Conversation, tree?: ConversationNode[]): void {
     const stmt = this.db.prepare(`
-      INSERT INTO chat_history (id, messages, created_at)
-      VALUES (?, ?, CURRENT_TIMESTAMP)
+      INSERT INTO chat_history (id, title, messages, message_tree, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        title = excluded.title,
+        messages = excluded.messages,
+        message_tree = COALESCE(excluded.message_tree, chat_history.message_tree),
+        updated_at = excluded.updated_at
     `)
-    stmt.run(id, JSON.stringify(messages))
+
+    stmt.run(
+      conversation.id,
+      conversation.title,
+      JSON.stringify(conversation.messages),
+      tree ? JSON.stringify(tree) : null,
+      conversation.createdAt,
+      conversation.updatedAt
+    )
   }
 
-  getChatHistory(id: string): any[] | null {
+  updateConversationTitle(id: string, title: string): void {
+    this.db
+      .prepare('UPDATE chat_history SET title = ?, updated_at = ? WHERE id = ?')
+      .run(title, new Date().toISOString(), id)
+  }
+
+  deleteConversation(id: string): void {
+    this.db.prepare('DELETE FROM chat_history WHERE id = ?').run(id)
+  }
+
+  // Tool Test Case Operations
+  private mapRowToToolTestCase(row: any): ToolTestCase {
+    return {
+      id: row.id,
+      name: row.name,
+      serverId: row.server_id,
+      toolName: row.tool_name,
+      arguments: JSON.parse(row.arguments),
+      mode: row.mode,
+      matchers: JSON.parse(row.matchers),
+      snapshot: row.snapshot ? JSON.parse(row.snapshot) : undefined,
+      lastRun: row.last_run ? JSON.parse(row.last_run) : undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+
+  /**
+   * Saved tool tests, of one server or all, by name
+   */
+  getToolTestCases(serverId?: string): ToolTestCase[] {
+    const rows = serverId
+      ? this.db.prepare('SELECT * FROM tool_test_cases WHERE server_id = ? ORDER BY name').all(serverId)
+      : this.db.prepare('SELECT * FROM tool_test_cases ORDER BY name').all()
+
+    return (rows as any[]).map(row => this.mapRowToToolTestCase(row))
+  }
+
+  getToolTestCase(id: string): ToolTestCase | null {
     const row = this.db
-      .prepare('SELECT messages FROM chat_history WHERE id = ?')
+      .prepare('SELECT * FROM tool_test_cases WHERE id = ?')
       .get(id) as any
 
-    if (!row) return null
-    return JSON.parse(row.messages)
+    return row ? this.mapRowToToolTestCase(row) : null
+  }
+
+  saveToolTestCase(testCase: ToolTestCase): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO tool_test_cases (id, name, server_id, tool_name, arguments, mode, matchers, snapshot, last_run, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        tool_name = excluded.tool_name,
+        arguments = excluded.arguments,
+        mode = excluded.mode,
+        matchers = excluded.matchers,
+        snapshot = excluded.snapshot,
+        last_run = excluded.last_run,
+        updated_at = excluded.updated_at
+    `)
+
+    stmt.run(
+      testCase.id,
+      testCase.name,
+      testCase.serverId,
+      testCase.toolName,
+      JSON.stringify(testCase.arguments),
+      testCase.mode,
+      JSON.stringify(testCase.matchers),
+      testCase.snapshot ? JSON.stringify(testCase.snapshot) : null,
+      testCase.lastRun ? JSON.stringify(testCase.lastRun) : null,
+      testCase.createdAt,
+      testCase.updatedAt
+    )
+  }
+
+  deleteToolTestCase(id: string): void {
+    this.db.prepare('DELETE FROM tool_test_cases WHERE id = ?').run(id)
+  }
+
+  // Sampling Record Operations
+  private mapRowToSamplingRecord(row: any): SamplingRecord {
+    return {
+      id: row.id,
+      serverId: row.server_id,
+      serverName: row.server_name,
+      status: row.status,
+      systemPrompt: row.system_prompt ?? undefined,
+      messages: JSON.parse(row.messages),
+      requestedMaxTokens: row.requested_max_tokens,
+      maxTokens: row.max_tokens,
+      model: row.model ?? undefined,
+      response: row.response ?? undefined,
+      stopReason: row.stop_reason ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: row.created_at,
+      completedAt: row.completed_at ?? undefined
+    }
+  }
+
+  /**
+   * Sampling requests in the order they were made
+   */
+  getSamplingRecords(): SamplingRecord[] {
+    const rows = this.db.prepare('SELECT * FROM sampling_records ORDER BY rowid').all()
+    return (rows as any[]).map(row => this.mapRowToSamplingRecord(row))
+  }
+
+  saveSamplingRecord(record: SamplingRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO sampling_records (id, server_id, server_name, status, system_prompt, messages, requested_max_tokens, max_tokens, model, response, stop_reason, error, created_at, completed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        model = excluded.model,
+        response = excluded.response,
+        stop_reason = excluded.stop_reason,
+        error = excluded.error,
+        completed_at = excluded.completed_at
+    `)
+
+    stmt.run(
+      record.id,
+      record.serverId,
+      record.serverName,
+      record.status,
+      record.systemPrompt ?? null,
+      JSON.stringify(record.messages),
+      record.requestedMaxTokens,
+      record.maxTokens,
+      record.model ?? null,
+      record.response ?? null,
+      record.stopReason ?? null,
+      record.error ?? null,
+      record.createdAt,
+      record.completedAt ?? null
+    )
+  }
+
+  /**
+   * Delete all but the newest sampling records
+   */
+  pruneSamplingRecords(keep: number): void {
+    this.db.prepare(`
+      DELETE FROM sampling_records
+      WHERE rowid NOT IN (SELECT rowid FROM sampling_records ORDER BY rowid DESC LIMIT ?)
+    `).run(keep)
+  }
+
+  /**
+   * Close records left pending or running, e.g. by a restart that dropped their requests
+   */
+  failUnfinishedSamplingRecords(error: string, completedAt: string): void {
+    this.db.prepare(`
+      UPDATE sampling_records SET status = 'error', error = ?, completed_at = ?
+      WHERE status IN ('pending', 'running')
+    `).run(error, completedAt)
   }
 }
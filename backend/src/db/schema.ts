@@ -27,6 +27,7 @@ export function initializeDatabase(dbPath: string): Database.Database {
       presence_penalty REAL DEFAULT 0.0,
       frequency_penalty REAL DEFAULT 0.0,
       system_prompt TEXT,
+      context_window INTEGER,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -36,22 +37,119 @@ export function initializeDatabase(dbPath: string): Database.Database {
       type TEXT NOT NULL CHECK(type IN ('stdio', 'http')),
       config TEXT NOT NULL,
       enabled INTEGER DEFAULT 1,
+      approval_policy TEXT,
+      alias TEXT,
+      argument_rules TEXT,
+      sampling_policy TEXT,
+      roots TEXT,
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
 
     CREATE TABLE IF NOT EXISTS chat_history (
       id TEXT PRIMARY KEY,
+      title TEXT,
       messages TEXT NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      message_tree TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS tool_test_cases (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      server_id TEXT NOT NULL REFERENCES mcp_servers(id) ON DELETE CASCADE,
+      tool_name TEXT NOT NULL,
+      arguments TEXT NOT NULL,
+      mode TEXT NOT NULL CHECK(mode IN ('matchers', 'snapshot')),
+      matchers TEXT NOT NULL,
+      snapshot TEXT,
+      last_run TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS sampling_records (
+      id TEXT PRIMARY KEY,
+      server_id TEXT NOT NULL,
+      server_name TEXT NOT NULL,
+      status TEXT NOT NULL,
+      system_prompt TEXT,
+      messages TEXT NOT NULL,
+      requested_max_tokens INTEGER NOT NULL,
+      max_tokens INTEGER NOT NULL,
+      model TEXT,
+      response TEXT,
+      stop_reason TEXT,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      completed_at TEXT
     );
 
     CREATE INDEX IF NOT EXISTS idx_mcp_servers_enabled ON mcp_servers(enabled);
     CREATE INDEX IF NOT EXISTS idx_chat_history_created ON chat_history(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_tool_test_cases_server ON tool_test_cases(server_id);
   `)
 
+  migrateDatabase(db)
+
   return db
 }
 
+/**
+ * Bring databases created by older versions up to the current schema
+ * CREATE TABLE IF NOT EXISTS leaves existing tables untouched, so new columns are added here
+ */
+function migrateDatabase(db: Database.Database): void {
+  const llmConfigColumns = (db.pragma('table_info(llm_config)') as Array<{ name: string }>)
+    .map(column => column.name)
+
+  if (!llmConfigColumns.includes('context_window')) {
+    db.exec('ALTER TABLE llm_config ADD COLUMN context_window INTEGER')
+  }
+
+  const mcpServerColumns = (db.pragma('table_info(mcp_servers)') as Array<{ name: string }>)
+    .map(column => column.name)
+
+  if (!mcpServerColumns.includes('approval_policy')) {
+    db.exec('ALTER TABLE mcp_servers ADD COLUMN approval_policy TEXT')
+  }
+
+  if (!mcpServerColumns.includes('alias')) {
+    db.exec('ALTER TABLE mcp_servers ADD COLUMN alias TEXT')
+  }
+
+  if (!mcpServerColumns.includes('argument_rules')) {
+    db.exec('ALTER TABLE mcp_servers ADD COLUMN argument_rules TEXT')
+  }
+
+  if (!mcpServerColumns.includes('sampling_policy')) {
+    db.exec('ALTER TABLE mcp_servers ADD COLUMN sampling_policy TEXT')
+  }
+
+  if (!mcpServerColumns.includes('roots')) {
+    db.exec('ALTER TABLE mcp_servers ADD COLUMN roots TEXT')
+  }
+
+  const chatHistoryColumns = (db.pragma('table_info(chat_history)') as Array<{ name: string }>)
+    .map(column => column.name)
+
+  if (!chatHistoryColumns.includes('title')) {
+    db.exec('ALTER TABLE chat_history ADD COLUMN title TEXT')
+  }
+
+  if (!chatHistoryColumns.includes('updated_at')) {
+    // SQLite does not allow a CURRENT_TIMESTAMP default on ADD COLUMN
+    db.exec('ALTER TABLE chat_history ADD COLUMN updated_at TIMESTAMP')
+    db.exec('UPDATE chat_history SET updated_at = created_at')
+  }
+
+  if (!chatHistoryColumns.includes('message_tree')) {
+    db.exec('ALTER TABLE chat_history ADD COLUMN message_tree TEXT')
+  }
+
+  db.exec('CREATE INDEX IF NOT EXISTS idx_chat_history_updated ON chat_history(updated_at DESC)')
+}
+
 export function createTestDatabase(): Database.Database {
   // Use in-memory database for tests
   const db = new Database(':memory:')
@@ -70,6 +168,7 @@ export function createTestDatabase(): Database.Database {
       presence_penalty REAL DEFAULT 0.0,
       frequency_penalty REAL DEFAULT 0.0,
       system_prompt TEXT,
+      context_window INTEGER,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -79,17 +178,58 @@ export function createTestDatabase(): Database.Database {
       type TEXT NOT NULL CHECK(type IN ('stdio', 'http')),
       config TEXT NOT NULL,
       enabled INTEGER DEFAULT 1,
+      approval_policy TEXT,
+      alias TEXT,
+      argument_rules TEXT,
+      sampling_policy TEXT,
+      roots TEXT,
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
 
     CREATE TABLE chat_history (
       id TEXT PRIMARY KEY,
+      title TEXT,
       messages TEXT NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      message_tree TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE tool_test_cases (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      server_id TEXT NOT NULL REFERENCES mcp_servers(id) ON DELETE CASCADE,
+      tool_name TEXT NOT NULL,
+      arguments TEXT NOT NULL,
+      mode TEXT NOT NULL CHECK(mode IN ('matchers', 'snapshot')),
+      matchers TEXT NOT NULL,
+      snapshot TEXT,
+      last_run TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE sampling_records (
+      id TEXT PRIMARY KEY,
+      server_id TEXT NOT NULL,
+      server_name TEXT NOT NULL,
+      status TEXT NOT NULL,
+      system_prompt TEXT,
+      messages TEXT NOT NULL,
+      requested_max_tokens INTEGER NOT NULL,
+      max_tokens INTEGER NOT NULL,
+      model TEXT,
+      response TEXT,
+      stop_reason TEXT,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      completed_at TEXT
     );
 
     CREATE INDEX idx_mcp_servers_enabled ON mcp_servers(enabled);
     CREATE INDEX idx_chat_history_created ON chat_history(created_at DESC);
+    CREATE INDEX idx_chat_history_updated ON chat_history(updated_at DESC);
+    CREATE INDEX idx_tool_test_cases_server ON tool_test_cases(server_id);
   `)
 
   return db
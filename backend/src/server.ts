@@ -14,11 +14,21 @@ import { EncryptionService } from './services/config/EncryptionService.js'
 import { ConfigService } from './services/config/ConfigService.js'
 import { LLMService } from './services/llm/LLMService.js'
 import { MCPService } from './services/mcp/MCPService.js'
+import { ConformanceRunner } from './services/mcp/ConformanceRunner.js'
+import { ToolTestService } from './services/mcp/ToolTestService.js'
+import { SamplingService } from './services/mcp/SamplingService.js'
 import { ChatAPI } from './api/chat.js'
 import { ConfigAPI } from './api/config.js'
 import { HealthAPI } from './api/health.js'
 import { MCPAPI } from './api/mcp.js'
 import { DiscoveryAPI } from './api/discovery.js'
+import { ConversationAPI } from './api/conversations.js'
+import { StatusAPI } from './api/status.js'
+import { ToolTestAPI } from './api/toolTests.js'
+import { ConversationService } from './services/chat/ConversationService.js'
+import { ToolApprovalService } from './services/chat/ToolApprovalService.js'
+import { ElicitationService } from './services/chat/ElicitationService.js'
+import { StatusService } from './services/status/StatusService.js'
 
 // Load environment variables (for web mode)
 dotenvConfig()
@@ -65,20 +75,32 @@ export async function startServer(options?: ServerOptions): Promise<Server> {
   const encryption = new EncryptionService(APP_SECRET)
   const repository = new Repository(db, encryption)
   const configService = new ConfigService(repository)
+  configService.backfillArgumentRules()
+  const conversationService = new ConversationService(repository)
+  conversationService.migrateLegacyConversations()
+  const approvalService = new ToolApprovalService(configService)
+  const elicitationService = new ElicitationService()
 
   // Initialize MCP service
   const mcpService = new MCPService(configService)
+  const conformanceRunner = new ConformanceRunner()
+  const toolTestService = new ToolTestService(repository, mcpService)
 
   // Initialize LLM service with saved config (if exists)
   const llmConfig = configService.getLLMConfig()
   const llmService = new LLMService(llmConfig || undefined)
+  const statusService = new StatusService(llmService, mcpService)
+  const samplingService = new SamplingService(repository, configService, llmService, mcpService)
 
   // Initialize API handlers
-  const chatAPI = new ChatAPI(llmService, mcpService)
-  const configAPI = new ConfigAPI(configService, llmService, mcpService)
+  const chatAPI = new ChatAPI(llmService, mcpService, conversationService, approvalService, elicitationService)
+  const configAPI = new ConfigAPI(configService, llmService, mcpService, statusService)
   const healthAPI = new HealthAPI(llmService, configService, mcpService)
-  const mcpAPI = new MCPAPI(mcpService)
-  const discoveryAPI = new DiscoveryAPI(mcpService)
+  const mcpAPI = new MCPAPI(mcpService, samplingService)
+  const discoveryAPI = new DiscoveryAPI(mcpService, configService, conformanceRunner)
+  const conversationAPI = new ConversationAPI(conversationService)
+  const statusAPI = new StatusAPI(statusService)
+  const toolTestAPI = new ToolTestAPI(toolTestService, configService)
 
   // Create Express app
   const app = express()
@@ -124,6 +146,7 @@ export async function startServer(options?: ServerOptions): Promise<Server> {
 
   // API Routes
   app.get('/api/health', (req, res, next) => healthAPI.check(req, res, next))
+  app.get('/api/status/stream', (req, res, next) => statusAPI.stream(req, res, next))
 
   app.get('/api/config', (req, res, next) => configAPI.getConfig(req, res, next))
   app.put('/api/config/llm', (req, res, next) => configAPI.updateLLMConfig(req, res, next))
@@ -132,10 +155,27 @@ export async function startServer(options?: ServerOptions): Promise<Server> {
   app.post('/api/config/mcp', (req, res, next) => configAPI.addMCPServer(req, res, next))
   app.delete('/api/config/mcp/:id', (req, res, next) => configAPI.deleteMCPServer(req, res, next))
   app.patch('/api/config/mcp/:id/toggle', (req, res, next) => configAPI.toggleMCPServer(req, res, next))
+  app.put('/api/config/mcp/:id/approval', (req, res, next) => configAPI.updateApprovalPolicy(req, res, next))
+  app.put('/api/config/mcp/:id/alias', (req, res, next) => configAPI.updateToolAlias(req, res, next))
+  app.put('/api/config/mcp/:id/argument-rules', (req, res, next) => configAPI.updateArgumentRules(req, res, next))
+  app.put('/api/config/mcp/:id/sampling', (req, res, next) => configAPI.updateSamplingPolicy(req, res, next))
+  app.put('/api/config/mcp/:id/roots', (req, res, next) => configAPI.updateRoots(req, res, next))
 
   app.get('/api/mcp/tools', (req, res, next) => mcpAPI.getTools(req, res, next))
+  app.get('/api/mcp/resources', (req, res, next) => mcpAPI.getResources(req, res, next))
+  app.get('/api/mcp/prompts', (req, res, next) => mcpAPI.getPrompts(req, res, next))
   app.get('/api/mcp/status', (req, res, next) => mcpAPI.getStatus(req, res, next))
   app.post('/api/mcp/servers/:id/reconnect', (req, res, next) => mcpAPI.reconnectServer(req, res, next))
+  app.get('/api/mcp/servers/:id/logs', (req, res, next) => mcpAPI.getServerLogs(req, res, next))
+  app.get('/api/mcp/servers/:id/protocol', (req, res, next) => mcpAPI.getProtocolMessages(req, res, next))
+  app.delete('/api/mcp/servers/:id/protocol', (req, res, next) => mcpAPI.clearProtocolMessages(req, res, next))
+  app.put('/api/mcp/servers/:id/protocol/capture', (req, res, next) => mcpAPI.setProtocolCapture(req, res, next))
+  app.get('/api/mcp/servers/:id/resources/read', (req, res, next) => mcpAPI.readResource(req, res, next))
+  app.post('/api/mcp/servers/:id/resources/subscribe', (req, res, next) => mcpAPI.subscribeResource(req, res, next))
+  app.post('/api/mcp/servers/:id/resources/unsubscribe', (req, res, next) => mcpAPI.unsubscribeResource(req, res, next))
+  app.post('/api/mcp/servers/:id/prompts/:name', (req, res, next) => mcpAPI.getPrompt(req, res, next))
+  app.get('/api/mcp/sampling', (req, res, next) => mcpAPI.getSamplingRecords(req, res, next))
+  app.post('/api/mcp/sampling/:id/decision', (req, res, next) => mcpAPI.resolveSampling(req, res, next))
 
   app.get('/api/discovery/catalog', (req, res, next) => discoveryAPI.getCatalog(req, res, next))
   app.get('/api/discovery/catalog/:id', (req, res, next) => discoveryAPI.getServerTemplate(req, res, next))
@@ -144,9 +184,27 @@ export async function startServer(options?: ServerOptions): Promise<Server> {
   app.get('/api/discovery/tools', (req, res, next) => discoveryAPI.getAvailableTools(req, res, next))
   app.get('/api/discovery/tools/:serverId', (req, res, next) => discoveryAPI.getToolsByServer(req, res, next))
   app.post('/api/discovery/tools/:serverId/:toolName/test', (req, res, next) => discoveryAPI.testTool(req, res, next))
+  app.post('/api/discovery/servers/:serverId/conformance', (req, res, next) => discoveryAPI.runConformance(req, res, next))
   app.get('/api/discovery/status', (req, res, next) => discoveryAPI.getDiscoveryStatus(req, res, next))
 
+  app.get('/api/tool-tests', (req, res, next) => toolTestAPI.listTestCases(req, res, next))
+  app.post('/api/tool-tests', (req, res, next) => toolTestAPI.createTestCase(req, res, next))
+  app.post('/api/tool-tests/run', (req, res, next) => toolTestAPI.runAll(req, res, next))
+  app.put('/api/tool-tests/:id', (req, res, next) => toolTestAPI.updateTestCase(req, res, next))
+  app.delete('/api/tool-tests/:id', (req, res, next) => toolTestAPI.deleteTestCase(req, res, next))
+  app.post('/api/tool-tests/:id/run', (req, res, next) => toolTestAPI.runTestCase(req, res, next))
+  app.post('/api/tool-tests/:id/accept', (req, res, next) => toolTestAPI.acceptSnapshot(req, res, next))
+
   app.post('/api/chat', (req, res, next) => chatAPI.chat(req, res, next))
+  app.post('/api/chat/approvals/:approvalId', (req, res, next) => chatAPI.resolveToolApproval(req, res, next))
+  app.post('/api/chat/elicitations/:elicitationId', (req, res, next) => chatAPI.resolveElicitation(req, res, next))
+
+  app.get('/api/conversations', (req, res, next) => conversationAPI.listConversations(req, res, next))
+  app.post('/api/conversations', (req, res, next) => conversationAPI.createConversation(req, res, next))
+  app.get('/api/conversations/:id', (req, res, next) => conversationAPI.getConversation(req, res, next))
+  app.patch('/api/conversations/:id', (req, res, next) => conversationAPI.renameConversation(req, res, next))
+  app.post('/api/conversations/:id/branch', (req, res, next) => conversationAPI.switchBranch(req, res, next))
+  app.delete('/api/conversations/:id', (req, res, next) => conversationAPI.deleteConversation(req, res, next))
 
   // Catch-all route for Electron mode - serve index.html for client-side routing
   if (isElectronMode && frontendPath) {
@@ -206,6 +264,10 @@ export async function startServer(options?: ServerOptions): Promise<Server> {
     const shutdown = async (signal: string) => {
       console.log(`${signal} received, shutting down gracefully`)
 
+      // Status and log streams never end on their own
+      statusAPI.closeStreams()
+      mcpAPI.closeStreams()
+
       server.close(async () => {
         console.log('Server closed')
 
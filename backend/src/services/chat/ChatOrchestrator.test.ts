@@ -0,0 +1,572 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ChatOrchestrator } from './ChatOrchestrator.js'
+import { ElicitationService } from './ElicitationService.js'
+import { applyArgumentRules, type ArgumentRuleContext } from '../mcp/ArgumentRules.js'
+import type { ToolCallOptions } from '../mcp/MCPService.js'
+import type { ContextLimits } from '../llm/LLMService.js'
+import type { ArgumentRule, Message, MCPTool, MCPToolResult, ToolCall } from '../../../../shared/types/index.js'
+
+// LLM that requests the given tool calls once, then answers with plain text
+class ScriptedLLMService {
+  public requests: Message[][] = []
+
+  constructor(private toolCalls: ToolCall[]) {}
+
+  getContextLimits() {
+    return { contextWindow: 8192, responseReserve: 1024 }
+  }
+
+  async *chatStream(messages: Message[]) {
+    this.requests.push(messages)
+
+    if (this.requests.length === 1) {
+      yield {
+        type: 'tool_call',
+        tool_call: this.toolCalls.map((toolCall, index) => ({ index, ...toolCall }))
+      }
+    } else {
+      yield { type: 'content', content: 'All done' }
+    }
+    yield { type: 'done' }
+  }
+}
+
+// LLM whose replies are cut off by the output limit a given number of times
+class TruncatingLLMService {
+  public requests: Message[][] = []
+
+  constructor(private truncations: number) {}
+
+  getContextLimits(): ContextLimits {
+    return { contextWindow: 8192, responseReserve: 1024 }
+  }
+
+  async *chatStream(messages: Message[]) {
+    this.requests.push(messages)
+
+    const truncated = this.requests.length <= this.truncations
+    yield { type: 'content', content: `part ${this.requests.length} ` }
+    yield { type: 'done', finishReason: truncated ? 'length' : 'stop' }
+  }
+}
+
+// LLM that keeps calling a tool with the given arguments for as long as it is offered
+class PersistentLLMService {
+  public requests: Message[][] = []
+  public offeredTools: string[][] = []
+
+  constructor(private toolName: string, private args: string[]) {}
+
+  getContextLimits() {
+    return { contextWindow: 8192, responseReserve: 1024 }
+  }
+
+  async *chatStream(messages: Message[], tools: MCPTool[]) {
+    this.requests.push(messages)
+    this.offeredTools.push(tools.map(t => t.name))
+
+    const attempt = this.requests.length - 1
+    if (tools.some(t => t.name === this.toolName) && attempt < this.args.length) {
+      yield {
+        type: 'tool_call',
+        tool_call: [{ index: 0, id: `call-${attempt}`, type: 'function', function: { name: this.toolName, arguments: this.args[attempt] } }]
+      }
+    } else {
+      yield { type: 'content', content: 'Giving up' }
+    }
+    yield { type: 'done' }
+  }
+}
+
+// MCP service whose tools finish after a per-tool delay
+class DelayedMCPService {
+  public active: Map<string, number> = new Map()
+  public maxActive: Map<string, number> = new Map()
+  public calls: Array<{ serverId: string; toolName: string; args: Record<string, any> }> = []
+
+  constructor(private delays: Record<string, number>, private rules: ArgumentRule[] = []) {}
+
+  applyArgumentRules(serverId: string, toolName: string, args: Record<string, any>, context?: ArgumentRuleContext) {
+    return applyArgumentRules(this.rules, toolName, args, context)
+  }
+
+  asksForInput() {
+    return false
+  }
+
+  async executeTool(serverId: string, toolName: string, args: Record<string, any>): Promise<MCPToolResult> {
+    this.calls.push({ serverId, toolName, args })
+    const active = (this.active.get(serverId) ?? 0) + 1
+    this.active.set(serverId, active)
+    this.maxActive.set(serverId, Math.max(this.maxActive.get(serverId) ?? 0, active))
+
+    await new Promise(resolve => setTimeout(resolve, this.delays[toolName] ?? 10))
+
+    this.active.set(serverId, this.active.get(serverId)! - 1)
+    if (toolName === 'broken_tool') {
+      throw new Error('Tool exploded')
+    }
+    return { content: [{ type: 'text', text: `${toolName} result` }] }
+  }
+}
+
+// MCP service whose tools ask the user for a city before they answer with what they got back
+class AskingMCPService {
+  public active = 0
+  public maxActive = 0
+
+  applyArgumentRules(serverId: string, toolName: string, args: Record<string, any>) {
+    return { arguments: args, applied: [] }
+  }
+
+  asksForInput() {
+    return true
+  }
+
+  async executeTool(
+    serverId: string,
+    toolName: string,
+    args: Record<string, any>,
+    { signal, onElicitation }: ToolCallOptions = {}
+  ): Promise<MCPToolResult> {
+    this.maxActive = Math.max(this.maxActive, ++this.active)
+    try {
+      const answer = await onElicitation!({
+        message: 'Which city?',
+        requestedSchema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+      }, signal ?? new AbortController().signal)
+      return { content: [{ type: 'text', text: JSON.stringify(answer) }] }
+    } finally {
+      this.active--
+    }
+  }
+}
+
+// Approval service with no policies configured
+const noApprovals = {
+  requiresApproval: () => false
+}
+
+const makeTool = (name: string, serverId: string): MCPTool => ({
+  name,
+  description: `${name} tool`,
+  inputSchema: { type: 'object', properties: {} },
+  serverId
+})
+
+const makeCall = (id: string, name: string): ToolCall => ({
+  id,
+  type: 'function',
+  function: { name, arguments: '{}' }
+})
+
+describe('ChatOrchestrator', () => {
+  let tools: MCPTool[]
+
+  beforeEach(() => {
+    tools = [
+      makeTool('slow_tool', 'server-a'),
+      makeTool('fast_tool', 'server-a'),
+      makeTool('broken_tool', 'server-b')
+    ]
+  })
+
+  const runTurn = async (llm: ScriptedLLMService, mcp: DelayedMCPService) => {
+    const orchestrator = new ChatOrchestrator(llm as any, mcp as any, noApprovals as any, new ElicitationService())
+    const chunks: any[] = []
+    for await (const chunk of orchestrator.chatWithTools([{ role: 'user', content: 'Go', timestamp: 1 }], tools)) {
+      chunks.push(chunk)
+    }
+    return chunks
+  }
+
+  describe('parallel tool execution', () => {
+    it('should run the tool calls of one response concurrently', async () => {
+      const llm = new ScriptedLLMService([
+        makeCall('call-1', 'slow_tool'),
+        makeCall('call-2', 'fast_tool')
+      ])
+      const mcp = new DelayedMCPService({ slow_tool: 100, fast_tool: 100 })
+
+      await runTurn(llm, mcp)
+
+      expect(mcp.maxActive.get('server-a')).toBe(2)
+    })
+
+    it('should add results to history in the order the LLM requested them', async () => {
+      const llm = new ScriptedLLMService([
+        makeCall('call-1', 'slow_tool'),
+        makeCall('call-2', 'fast_tool'),
+        makeCall('call-3', 'broken_tool')
+      ])
+      const mcp = new DelayedMCPService({ slow_tool: 60, fast_tool: 5, broken_tool: 20 })
+
+      const chunks = await runTurn(llm, mcp)
+
+      const toolMessages = llm.requests[1].filter(m => m.role === 'tool')
+      expect(toolMessages.map(m => m.tool_call_id)).toEqual(['call-1', 'call-2', 'call-3'])
+      expect(toolMessages[2].content).toContain('Tool exploded')
+
+      // Events arrive in completion order
+      const results = chunks.filter(c => c.type === 'tool_execution_result')
+      expect(results.map(c => c.toolCallId)).toEqual(['call-2', 'call-3', 'call-1'])
+      expect(chunks[chunks.length - 1]).toEqual({ type: 'done' })
+    })
+
+    it('should pair every start event with one result event', async () => {
+      const llm = new ScriptedLLMService([
+        makeCall('call-1', 'slow_tool'),
+        makeCall('call-2', 'fast_tool'),
+        makeCall('call-3', 'broken_tool')
+      ])
+      const mcp = new DelayedMCPService({ slow_tool: 30, fast_tool: 10, broken_tool: 20 })
+
+      const chunks = await runTurn(llm, mcp)
+
+      for (const id of ['call-1', 'call-2', 'call-3']) {
+        const events = chunks.filter(c => c.toolCallId === id).map(c => c.type)
+        expect(events).toEqual(['tool_execution_start', 'tool_execution_result'])
+      }
+    })
+
+    it('should cap concurrent calls per server', async () => {
+      const calls = Array.from({ length: 6 }, (_, i) => makeCall(`call-${i}`, 'fast_tool'))
+      const llm = new ScriptedLLMService(calls)
+      const mcp = new DelayedMCPService({ fast_tool: 20 })
+
+      await runTurn(llm, mcp)
+
+      expect(mcp.maxActive.get('server-a')).toBe(4)
+      expect(llm.requests[1].filter(m => m.role === 'tool')).toHaveLength(6)
+    })
+  })
+
+  describe('qualified tool names', () => {
+    it('should run a tool on the server its qualified name points to', async () => {
+      tools = [
+        { ...makeTool('query', 'server-a'), qualifiedName: 'alpha__query' },
+        { ...makeTool('query', 'server-b'), qualifiedName: 'beta__query' }
+      ]
+      const llm = new ScriptedLLMService([makeCall('call-1', 'beta__query')])
+      const mcp = new DelayedMCPService({})
+
+      const chunks = await runTurn(llm, mcp)
+
+      expect(mcp.calls).toMatchObject([{ serverId: 'server-b', toolName: 'query' }])
+      const start = chunks.find(c => c.type === 'tool_execution_start')
+      expect(start).toMatchObject({ toolName: 'query', serverId: 'server-b' })
+    })
+
+    it('should still resolve bare tool names from older history', async () => {
+      tools = [{ ...makeTool('query', 'server-a'), qualifiedName: 'alpha__query' }]
+      const llm = new ScriptedLLMService([makeCall('call-1', 'query')])
+      const mcp = new DelayedMCPService({})
+
+      await runTurn(llm, mcp)
+
+      expect(mcp.calls).toMatchObject([{ serverId: 'server-a', toolName: 'query' }])
+    })
+  })
+
+  describe('argument validation', () => {
+    const daysTool: MCPTool = {
+      ...makeTool('slow_tool', 'server-a'),
+      inputSchema: { type: 'object', properties: { days: { type: 'integer' } }, required: ['days'] }
+    }
+
+    const runPersistent = async (llm: PersistentLLMService, mcp: DelayedMCPService) => {
+      const orchestrator = new ChatOrchestrator(llm as any, mcp as any, noApprovals as any, new ElicitationService())
+      const chunks: any[] = []
+      for await (const chunk of orchestrator.chatWithTools([{ role: 'user', content: 'Go', timestamp: 1 }], [daysTool])) {
+        chunks.push(chunk)
+      }
+      return chunks
+    }
+
+    it('should send invalid arguments back to the LLM instead of running the tool', async () => {
+      const llm = new PersistentLLMService('slow_tool', ['{"days":"a week"}', '{"days":7}'])
+      const mcp = new DelayedMCPService({ slow_tool: 5 })
+
+      const chunks = await runPersistent(llm, mcp)
+
+      expect(mcp.calls).toHaveLength(1)
+      const feedback = JSON.parse(llm.requests[1].find(m => m.role === 'tool')!.content)
+      expect(feedback).toMatchObject({
+        error: 'invalid_arguments',
+        tool: 'slow_tool',
+        issues: [{ path: '/days', message: 'must be integer' }],
+        retriesLeft: 2
+      })
+
+      const rejected = chunks.find(c => c.type === 'tool_execution_result' && c.toolCallId === 'call-0')
+      expect(rejected).toMatchObject({ isError: true, error: 'Invalid arguments: /days must be integer' })
+      expect(chunks.some(c => c.type === 'tool_execution_start' && c.toolCallId === 'call-0')).toBe(false)
+    })
+
+    it('should withhold a tool once its repair attempts are used up', async () => {
+      const llm = new PersistentLLMService('slow_tool', ['{}', '{}', '{}', '{}'])
+      const mcp = new DelayedMCPService({})
+
+      await runPersistent(llm, mcp)
+
+      expect(mcp.calls).toHaveLength(0)
+      expect(llm.offeredTools).toEqual([['slow_tool'], ['slow_tool'], ['slow_tool'], []])
+      const lastFeedback = JSON.parse(llm.requests[3].filter(m => m.role === 'tool').pop()!.content)
+      expect(lastFeedback.retriesLeft).toBe(0)
+    })
+  })
+
+  describe('argument rules', () => {
+    it('should apply server rules before validating and running the call', async () => {
+      const dateTool: MCPTool = {
+        ...makeTool('slow_tool', 'server-a'),
+        inputSchema: { type: 'object', properties: { date_str: { type: 'string' } }, required: ['date_str'] }
+      }
+      const llm = new PersistentLLMService('slow_tool', ['{}'])
+      const mcp = new DelayedMCPService({ slow_tool: 5 }, [
+        { tool: 'slow_tool', type: 'default', argument: 'date_str', value: '{{timezone}}' }
+      ])
+      const orchestrator = new ChatOrchestrator(llm as any, mcp as any, noApprovals as any, new ElicitationService())
+
+      const chunks: any[] = []
+      const turn = orchestrator.chatWithTools([{ role: 'user', content: 'Go', timestamp: 1 }], [dateTool], undefined, { timeZone: 'Asia/Tokyo' })
+      for await (const chunk of turn) {
+        chunks.push(chunk)
+      }
+
+      expect(mcp.calls).toMatchObject([{ toolName: 'slow_tool', args: { date_str: 'Asia/Tokyo' } }])
+      const start = chunks.find(c => c.type === 'tool_execution_start')
+      expect(start.arguments).toEqual({ date_str: 'Asia/Tokyo' })
+    })
+  })
+
+  describe('turn transcript', () => {
+    it('should emit the tool calls, results and reply of the turn before done', async () => {
+      const llm = new ScriptedLLMService([
+        makeCall('call-1', 'slow_tool'),
+        makeCall('call-2', 'fast_tool')
+      ])
+      const mcp = new DelayedMCPService({ slow_tool: 20, fast_tool: 5 })
+
+      const chunks = await runTurn(llm, mcp)
+
+      const transcript = chunks.find(c => c.type === 'turn_messages')
+      expect(chunks[chunks.length - 2]).toBe(transcript)
+      expect(transcript.messages.map((m: Message) => m.role)).toEqual(['assistant', 'tool', 'tool', 'assistant'])
+      expect(transcript.messages[0].tool_calls.map((c: ToolCall) => c.id)).toEqual(['call-1', 'call-2'])
+      expect(transcript.messages[1]).toMatchObject({ tool_call_id: 'call-1', content: 'slow_tool result' })
+      expect(transcript.messages[3].content).toBe('All done')
+    })
+
+    it('should record arguments, timing and errors of each tool call', async () => {
+      const llm = new ScriptedLLMService([
+        { id: 'call-1', type: 'function', function: { name: 'slow_tool', arguments: '{"days":7}' } },
+        makeCall('call-2', 'broken_tool')
+      ])
+      const mcp = new DelayedMCPService({ slow_tool: 20, broken_tool: 5 })
+
+      const chunks = await runTurn(llm, mcp)
+
+      const start = chunks.find(c => c.type === 'tool_execution_start' && c.toolCallId === 'call-1')
+      expect(start).toMatchObject({ serverId: 'server-a', arguments: { days: 7 } })
+      expect(typeof start.startedAt).toBe('number')
+
+      const result = chunks.find(c => c.type === 'tool_execution_result' && c.toolCallId === 'call-1')
+      expect(result).toMatchObject({ isError: false, resultPreview: 'slow_tool result' })
+      expect(result.durationMs).toBeGreaterThanOrEqual(0)
+
+      const failure = chunks.find(c => c.type === 'tool_execution_result' && c.toolCallId === 'call-2')
+      expect(failure).toMatchObject({ isError: true, error: 'Tool exploded' })
+
+      const transcript = chunks.find(c => c.type === 'turn_messages')
+      expect(transcript.messages[0].toolExecutions).toMatchObject([
+        { toolCallId: 'call-1', status: 'success', arguments: { days: 7 } },
+        { toolCallId: 'call-2', status: 'error', error: 'Tool exploded' }
+      ])
+    })
+
+    it('should join a continued reply into one message', async () => {
+      const llm = new TruncatingLLMService(2)
+      const orchestrator = new ChatOrchestrator(llm as any, new DelayedMCPService({}) as any, noApprovals as any, new ElicitationService())
+
+      let transcript: Message[] = []
+      for await (const chunk of orchestrator.chatWithTools([{ role: 'user', content: 'Tell me a story', timestamp: 1 }], [])) {
+        if (chunk.type === 'turn_messages') {
+          transcript = chunk.messages!
+        }
+      }
+
+      expect(transcript).toHaveLength(1)
+      expect(transcript[0]).toMatchObject({ role: 'assistant', content: 'part 1 part 2 part 3 ' })
+    })
+  })
+
+  describe('elicitation', () => {
+    // Runs a turn, answering each question the tool asks with answer()
+    const runAsking = async (
+      elicitationService: ElicitationService,
+      answer: (elicitationId: string) => void,
+      signal?: AbortSignal,
+      mcp = new AskingMCPService(),
+      toolCalls = [makeCall('call-1', 'slow_tool')]
+    ) => {
+      const orchestrator = new ChatOrchestrator(
+        new ScriptedLLMService(toolCalls) as any,
+        mcp as any,
+        noApprovals as any,
+        elicitationService
+      )
+      const chunks: any[] = []
+      for await (const chunk of orchestrator.chatWithTools([{ role: 'user', content: 'Go', timestamp: 1 }], tools, signal)) {
+        chunks.push(chunk)
+        if (chunk.type === 'elicitation_required') {
+          answer(chunk.elicitationId)
+        }
+      }
+      return chunks
+    }
+
+    const toolAnswer = (chunks: any[]) =>
+      JSON.parse(chunks.find(c => c.type === 'turn_messages').messages.find((m: Message) => m.role === 'tool').content)
+
+    it('should relay the question and pass the accepted answer to the tool', async () => {
+      const elicitationService = new ElicitationService()
+
+      const chunks = await runAsking(elicitationService, (id) => {
+        elicitationService.resolveElicitation(id, { action: 'accept', content: { city: 'Lisbon' } })
+      })
+
+      const question = chunks.find(c => c.type === 'elicitation_required')
+      expect(question).toMatchObject({ toolCallId: 'call-1', toolName: 'slow_tool', serverId: 'server-a', message: 'Which city?' })
+      expect(question.requestedSchema.required).toEqual(['city'])
+      expect(chunks.find(c => c.type === 'elicitation_resolved')).toEqual({
+        type: 'elicitation_resolved',
+        elicitationId: question.elicitationId,
+        action: 'accept'
+      })
+      expect(toolAnswer(chunks)).toEqual({ action: 'accept', content: { city: 'Lisbon' } })
+    })
+
+    it('should refuse answers that miss requested fields and pass on a decline without content', async () => {
+      const elicitationService = new ElicitationService()
+      const deliveries: any[] = []
+
+      const chunks = await runAsking(elicitationService, (id) => {
+        deliveries.push(elicitationService.resolveElicitation(id, { action: 'accept', content: {} }))
+        deliveries.push(elicitationService.resolveElicitation(id, { action: 'decline', content: { city: 'Oslo' } }))
+      })
+
+      expect(deliveries[0]).toEqual({ delivered: false, reason: 'invalid', issues: [{ path: '/city', message: 'is required' }] })
+      expect(deliveries[1]).toEqual({ delivered: true })
+      expect(toolAnswer(chunks)).toEqual({ action: 'decline' })
+    })
+
+    it('should cancel an unanswered question when the turn is cancelled', async () => {
+      const elicitationService = new ElicitationService()
+      const controller = new AbortController()
+
+      const chunks = await runAsking(elicitationService, (id) => {
+        controller.abort()
+        expect(elicitationService.resolveElicitation(id, { action: 'accept', content: { city: 'Rome' } }))
+          .toEqual({ delivered: false, reason: 'not_found' })
+      }, controller.signal)
+
+      expect(chunks.find(c => c.type === 'elicitation_resolved')?.action).toBe('cancel')
+    })
+
+    it('should run calls to a server that asks one at a time so each question belongs to its call', async () => {
+      const elicitationService = new ElicitationService()
+      const mcp = new AskingMCPService()
+
+      const chunks = await runAsking(elicitationService, (id) => {
+        elicitationService.resolveElicitation(id, { action: 'accept', content: { city: 'Porto' } })
+      }, undefined, mcp, [makeCall('call-1', 'slow_tool'), makeCall('call-2', 'fast_tool')])
+
+      expect(mcp.maxActive).toBe(1)
+      expect(chunks.filter(c => c.type === 'elicitation_required').map(c => [c.toolCallId, c.toolName])).toEqual([
+        ['call-1', 'slow_tool'],
+        ['call-2', 'fast_tool']
+      ])
+    })
+  })
+
+  describe('context window', () => {
+    // LLM with the given limits that records what it was sent
+    class LimitedLLMService extends TruncatingLLMService {
+      constructor(private limits: ContextLimits) {
+        super(0)
+      }
+
+      getContextLimits() {
+        return this.limits
+      }
+    }
+
+    const runLimited = async (llm: LimitedLLMService, history: Message[], offered: MCPTool[]) => {
+      const orchestrator = new ChatOrchestrator(llm as any, new DelayedMCPService({}) as any, noApprovals as any, new ElicitationService())
+      const chunks: any[] = []
+      for await (const chunk of orchestrator.chatWithTools(history, offered)) {
+        chunks.push(chunk)
+      }
+      return chunks
+    }
+
+    const longHistory: Message[] = Array.from({ length: 40 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `message ${i} ${'lorem ipsum '.repeat(100)}`,
+      timestamp: i
+    }))
+
+    it('should send the whole history when no context window is configured', async () => {
+      const llm = new LimitedLLMService({ responseReserve: 1024 })
+
+      await runLimited(llm, longHistory, [])
+
+      // The request is the live history, which the reply is appended to afterwards
+      expect(llm.requests[0].slice(0, longHistory.length)).toEqual(longHistory)
+    })
+
+    it('should fail the turn when the tool definitions leave no room for the conversation', async () => {
+      const llm = new LimitedLLMService({ contextWindow: 2048, responseReserve: 1024 })
+      const bulkyTools = Array.from({ length: 20 }, (_, i) => ({
+        ...makeTool(`tool_${i}`, 'server-a'),
+        description: 'does things '.repeat(50)
+      }))
+
+      const chunks = await runLimited(llm, [{ role: 'user', content: 'Go', timestamp: 1 }], bulkyTools)
+
+      expect(llm.requests).toHaveLength(0)
+      expect(chunks.find(c => c.type === 'error')?.error).toMatch(/leave no room for the conversation/)
+    })
+  })
+
+  describe('truncated replies', () => {
+    const runTruncated = async (llm: TruncatingLLMService) => {
+      const orchestrator = new ChatOrchestrator(llm as any, new DelayedMCPService({}) as any, noApprovals as any, new ElicitationService())
+      const chunks: any[] = []
+      for await (const chunk of orchestrator.chatWithTools([{ role: 'user', content: 'Tell me a story', timestamp: 1 }], [])) {
+        chunks.push(chunk)
+      }
+      return chunks
+    }
+
+    it('should continue a reply cut off by the output limit', async () => {
+      const llm = new TruncatingLLMService(1)
+
+      const chunks = await runTruncated(llm)
+
+      const content = chunks.filter(c => c.type === 'content').map(c => c.content).join('')
+      expect(content).toBe('part 1 part 2 ')
+      expect(llm.requests[1].map(m => m.role)).toEqual(['user', 'assistant', 'user'])
+      expect(chunks[chunks.length - 1]).toEqual({ type: 'done' })
+    })
+
+    it('should stop continuing after the continuation limit', async () => {
+      const llm = new TruncatingLLMService(10)
+
+      await runTruncated(llm)
+
+      expect(llm.requests).toHaveLength(4)
+    })
+  })
+})
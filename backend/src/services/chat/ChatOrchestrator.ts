@@ -1,7 +1,24 @@
 import { LLMService } from '../llm/LLMService.js'
-import { MCPService } from '../mcp/MCPService.js'
-import type { Message, ToolCall, ChartData } from '../../../../shared/types/index.js'
+import { MCPService, type ElicitationHandler } from '../mcp/MCPService.js'
+import { ToolApprovalService } from './ToolApprovalService.js'
+import { ElicitationService } from './ElicitationService.js'
+import { ConcurrencyLimiter } from './ConcurrencyLimiter.js'
+import { ContextWindowManager } from './ContextWindowManager.js'
+import { functionNameFor, resolveTool } from '../mcp/ToolNamespace.js'
+import { ToolArgumentValidator, type ToolArgumentIssue } from '../mcp/ToolArgumentValidator.js'
+import type { ArgumentRuleContext } from '../mcp/ArgumentRules.js'
+import type {
+  Message,
+  ToolCall,
+  ChartData,
+  ToolApprovalDecision,
+  ToolExecution,
+  StreamChunk,
+  ConversationEvent
+} from '../../../../shared/types/index.js'
 import type { MCPTool, MCPToolResult } from '../../../../shared/types/index.js'
+import type { ElicitRequestFormParams, ElicitResult } from '@modelcontextprotocol/sdk/types.js'
+import { v4 as uuidv4 } from 'uuid'
 import {
   CHART_CONSTANTS,
   METRIC_PATTERNS,
@@ -16,7 +33,15 @@ import {
 
 // Tool execution constants
 const MAX_TOOL_EXECUTION_ITERATIONS = 10  // Safety limit for tool execution loop
-const TOOL_EXECUTION_TIMEOUT_MS = 30000   // 30 seconds per tool
+const TOOL_EXECUTION_TIMEOUT_MS = 30000   // 30 seconds per tool, not counting time spent waiting for the user
+const MAX_CONCURRENT_TOOL_CALLS_PER_SERVER = 4  // Parallel tool calls allowed against one MCP server
+const MAX_LENGTH_CONTINUATIONS = 3        // Times a reply cut off by the output limit is continued
+const RESULT_PREVIEW_CHARS = 500          // Tool result text sent with tool_execution_result
+const MAX_ARGUMENT_REPAIR_ATTEMPTS = 2    // Retries the LLM gets per tool after sending invalid arguments
+const MIN_HISTORY_TOKENS = 256            // Least room the conversation needs next to tools and the reply reserve
+
+const LENGTH_CONTINUATION_PROMPT =
+  'Your previous reply was cut off by the output length limit. Continue exactly where it stopped, without repeating anything.'
 
 interface ToolCallDelta {
   index: number
@@ -34,21 +59,38 @@ interface AccumulatedResponse {
   finishReason: string
 }
 
+// The orchestrator produces every stream event except the one ChatAPI opens the stream with
+type OrchestratorChunk = Exclude<StreamChunk, ConversationEvent>
+
 /**
  * ChatOrchestrator manages the tool execution loop for MCP-enabled conversations.
  *
  * Responsibilities:
  * - Orchestrate multi-turn conversations with tool execution
  * - Accumulate streaming tool call chunks into complete ToolCall objects
- * - Execute tools via MCPService
+ * - Apply the server's argument rules (defaults, renames) to each tool call
+ * - Pause for user approval where the server's approval policy requires it
+ * - Relay questions servers ask the user during a tool call (elicitation)
+ * - Validate tool arguments against the tool's inputSchema, letting the LLM repair them
+ * - Execute tools via MCPService, in parallel with a per-server cap
  * - Build conversation history with tool results
+ * - Keep each request within the model's context window
  * - Stream status updates to client
  * - Handle errors gracefully
  */
 export class ChatOrchestrator {
+  // Shared across turns so concurrent chats can't overload one server either
+  private toolCallLimiter = new ConcurrencyLimiter(MAX_CONCURRENT_TOOL_CALLS_PER_SERVER)
+  // Servers that ask the user for input get one call at a time, so each question has one call to belong to
+  private userInputLimiter = new ConcurrencyLimiter(1)
+  private contextManager = new ContextWindowManager()
+  private argumentValidator = new ToolArgumentValidator()
+
   constructor(
     private llmService: LLMService,
-    private mcpService: MCPService
+    private mcpService: MCPService,
+    private approvalService: ToolApprovalService,
+    private elicitationService: ElicitationService
   ) {}
 
   /**
@@ -58,40 +100,64 @@ export class ChatOrchestrator {
    * 1. Call LLM with current conversation history
    * 2. Stream content to client
    * 3. If LLM requests tool calls:
-   *    a. Execute each tool
-   *    b. Add results to history
-   *    c. Continue loop
-   * 4. If LLM gives final answer, stream it and finish
+   *    a. Apply argument rules, then ask for approval if required (denied calls report back to the LLM)
+   *    b. Validate arguments (invalid calls report the problems back to the LLM,
+   *       and a tool that keeps failing is withheld for the rest of the turn)
+   *    c. Execute the remaining tools concurrently (capped per server)
+   *    d. Add results to history in the order the LLM requested them
+   *    e. Continue loop
+   * 4. If the reply was cut off by the output limit, ask the LLM to continue it
+   * 5. If LLM gives final answer, stream it and finish
+   *
+   * Every request is compacted to fit the model's context window first; the
+   * full history is kept here so later iterations can compact it differently.
+   *
+   * Aborting the signal stops the loop quietly: the LLM stream and any running
+   * tool calls are cancelled and no further chunks are yielded.
    *
    * @param messages - Conversation history
    * @param tools - Available MCP tools
-   * @yields Stream chunks (content, tool_execution_start, tool_execution_result, done, error)
+   * @param signal - Cancels the turn (e.g. when the client disconnects)
+   * @param ruleContext - User's timezone for templated argument defaults
+   * @param conversationId - Conversation the turn belongs to; approvals are only answered for it
+   * @yields Stream chunks (content, tool_approval_required, tool_execution_start, tool_execution_result, chart_data, turn_messages, done, error)
    */
   async *chatWithTools(
     messages: Message[],
-    tools: MCPTool[]
-  ): AsyncGenerator<{
-    type: 'content' | 'tool_execution_start' | 'tool_execution_result' | 'chart_data' | 'done' | 'error'
-    content?: string
-    toolName?: string
-    toolCallId?: string
-    isError?: boolean
-    error?: string
-    chartData?: ChartData
-  }> {
+    tools: MCPTool[],
+    signal?: AbortSignal,
+    ruleContext: ArgumentRuleContext = {},
+    conversationId?: string
+  ): AsyncGenerator<OrchestratorChunk> {
     let conversationHistory = [...messages]
     let continueLoop = true
+    let cancelled = false
     let iteration = 0
+    let lengthContinuations = 0
+    const continuationPrompts: Set<Message> = new Set()
+    const toolExecutions: Map<string, ToolExecution> = new Map()
+    // Invalid-argument calls per tool, and the tools still offered to the LLM
+    const argumentFailures: Map<string, number> = new Map()
+    let offeredTools = tools
+
+    // Messages from here on belong to the current turn and are never dropped by compaction
+    const currentTurnStart = conversationHistory.map(m => m.role).lastIndexOf('user')
 
     while (continueLoop && iteration < MAX_TOOL_EXECUTION_ITERATIONS) {
+      if (signal?.aborted) {
+        cancelled = true
+        break
+      }
+
       iteration++
 
       console.log(`[ChatOrchestrator] Iteration ${iteration}/${MAX_TOOL_EXECUTION_ITERATIONS}`)
 
       try {
         // Step 1: Call LLM and accumulate response (streams content to client)
+        const contextMessages = this.fitToContextWindow(conversationHistory, offeredTools, currentTurnStart)
         const { assistantMessage, toolCalls, finishReason } =
-          yield* this.accumulateStreamingResponse(conversationHistory, tools)
+          yield* this.accumulateStreamingResponse(contextMessages, offeredTools, signal)
 
         console.log(`[ChatOrchestrator] LLM finish reason: ${finishReason}, tool calls: ${toolCalls.length}`)
 
@@ -100,79 +166,121 @@ export class ChatOrchestrator {
           // Add assistant's tool call message to history
           conversationHistory.push(assistantMessage)
 
-          // Step 3: Execute each tool
-          for (const toolCall of toolCalls) {
-            console.log(`[ChatOrchestrator] Executing tool: ${toolCall.function.name}`)
+          // Step 3: Ask for approval in call order, then run the approved calls concurrently
+          const toolResults: Map<string, Message> = new Map()
+          const approvedCalls: ToolCall[] = []
 
-            yield {
-              type: 'tool_execution_start',
-              toolName: toolCall.function.name,
-              toolCallId: toolCall.id
-            }
+          for (const toolCall of toolCalls) {
+            this.applyArgumentRules(toolCall, tools, ruleContext)
 
+            let decision: ToolApprovalDecision
             try {
-              const result = await this.executeToolCallWithTimeout(toolCall, tools)
-
-              // Detect charts in tool result (pass user's last query for context)
-              const userQuery = conversationHistory.filter(m => m.role === 'user').slice(-1)[0]?.content || ''
-              const detectedCharts = this.detectChartsInToolResult(result, toolCall.function.name, userQuery)
+              decision = yield* this.requestToolApproval(toolCall, tools, conversationId, signal)
+            } catch (error) {
+              // Only a cancelled turn rejects while waiting for approval
+              cancelled = true
+              break
+            }
 
-              // Stream chart data chunks
-              for (const chart of detectedCharts) {
-                yield {
-                  type: 'chart_data',
-                  chartData: chart
-                }
-              }
+            if (!decision.approved) {
+              console.log(`[ChatOrchestrator] Tool ${toolCall.function.name} denied by user`)
+              const tool = resolveTool(tools, toolCall.function.name)
 
-              // Add tool result to history
-              const toolResultMessage: Message = {
+              // Tell the LLM the user declined so it can respond accordingly
+              toolResults.set(toolCall.id, {
                 role: 'tool',
-                content: this.formatToolResult(result),
+                content: `The user denied execution of ${toolCall.function.name}${decision.reason ? `: ${decision.reason}` : ''}. Do not retry this call unless the user asks.`,
                 tool_call_id: toolCall.id,
-                timestamp: Date.now(),
-                chartData: detectedCharts.length > 0 ? detectedCharts : undefined
-              }
-              conversationHistory.push(toolResultMessage)
+                timestamp: Date.now()
+              })
 
-              console.log(`[ChatOrchestrator] Tool ${toolCall.function.name} succeeded`)
+              toolExecutions.set(toolCall.id, {
+                toolCallId: toolCall.id,
+                toolName: tool?.name ?? toolCall.function.name,
+                serverId: tool?.serverId,
+                arguments: this.parseArgumentsSafely(toolCall),
+                status: 'denied',
+                error: 'Denied by user'
+              })
 
               yield {
                 type: 'tool_execution_result',
-                toolName: toolCall.function.name,
+                toolName: tool?.name ?? toolCall.function.name,
                 toolCallId: toolCall.id,
-                isError: result.isError || false
+                isError: true,
+                denied: true,
+                error: 'Denied by user'
               }
-            } catch (error: any) {
-              console.error(`[ChatOrchestrator] Tool ${toolCall.function.name} failed:`, error.message)
+              continue
+            }
 
-              // Add error result to history so LLM can explain
-              const errorMessage: Message = {
-                role: 'tool',
-                content: `Error executing ${toolCall.function.name}: ${error.message}`,
-                tool_call_id: toolCall.id,
-                timestamp: Date.now()
+            const tool = resolveTool(tools, toolCall.function.name)
+            const validation = tool && this.argumentValidator.validate(tool, toolCall.function.arguments)
+            if (tool && validation && !validation.valid) {
+              const name = functionNameFor(tool)
+              const failures = (argumentFailures.get(name) ?? 0) + 1
+              argumentFailures.set(name, failures)
+
+              const retriesLeft = Math.max(0, MAX_ARGUMENT_REPAIR_ATTEMPTS + 1 - failures)
+              if (retriesLeft === 0) {
+                console.warn(`[ChatOrchestrator] Withholding ${name} after ${failures} calls with invalid arguments`)
+                offeredTools = offeredTools.filter(t => t !== tool)
               }
-              conversationHistory.push(errorMessage)
 
-              yield {
-                type: 'tool_execution_result',
-                toolName: toolCall.function.name,
-                toolCallId: toolCall.id,
-                isError: true
-              }
+              yield this.rejectInvalidArguments(toolCall, tool, validation.issues, retriesLeft, toolResults, toolExecutions)
+              continue
+            }
+
+            approvedCalls.push(toolCall)
+          }
+
+          if (cancelled) {
+            break
+          }
+
+          // Detect charts in tool results using the user's last query for context
+          const userQuery = conversationHistory.filter(m => m.role === 'user').slice(-1)[0]?.content || ''
+          yield* this.executeToolCalls(approvedCalls, tools, userQuery, toolResults, toolExecutions, signal)
+
+          if (signal?.aborted) {
+            cancelled = true
+            break
+          }
+
+          // Results go into history in the order the LLM requested them, not completion order
+          for (const toolCall of toolCalls) {
+            const toolResultMessage = toolResults.get(toolCall.id)
+            if (toolResultMessage) {
+              conversationHistory.push(toolResultMessage)
             }
           }
 
           // Step 4: Continue loop - LLM will see tool results
           continueLoop = true
+        } else if (finishReason === 'length' && lengthContinuations < MAX_LENGTH_CONTINUATIONS) {
+          // Step 5: Reply hit the output limit - the continuation streams on as the same answer
+          lengthContinuations++
+          console.log(`[ChatOrchestrator] Reply truncated, continuing (${lengthContinuations}/${MAX_LENGTH_CONTINUATIONS})`)
+
+          const continuationPrompt: Message = {
+            role: 'user',
+            content: LENGTH_CONTINUATION_PROMPT,
+            timestamp: Date.now()
+          }
+          continuationPrompts.add(continuationPrompt)
+          conversationHistory.push(assistantMessage, continuationPrompt)
         } else {
-          // Step 5: LLM gave final answer
+          // Step 6: LLM gave final answer
           conversationHistory.push(assistantMessage)
           continueLoop = false
           console.log(`[ChatOrchestrator] Conversation complete`)
         }
       } catch (error: any) {
+        if (signal?.aborted) {
+          cancelled = true
+          break
+        }
+
         console.error(`[ChatOrchestrator] Error in iteration ${iteration}:`, error.message)
         yield {
           type: 'error',
@@ -182,6 +290,17 @@ export class ChatOrchestrator {
       }
     }
 
+    if (cancelled) {
+      console.log(`[ChatOrchestrator] Turn cancelled in iteration ${iteration}`)
+      return
+    }
+
+    // Hand the turn's tool calls and results to the client so follow-up turns can use them
+    yield {
+      type: 'turn_messages',
+      messages: this.buildTurnTranscript(conversationHistory.slice(messages.length), continuationPrompts, toolExecutions)
+    }
+
     // Safety limit reached
     if (iteration >= MAX_TOOL_EXECUTION_ITERATIONS) {
       console.warn(`[ChatOrchestrator] Maximum iterations (${MAX_TOOL_EXECUTION_ITERATIONS}) reached`)
@@ -194,6 +313,109 @@ export class ChatOrchestrator {
     yield { type: 'done' }
   }
 
+  /**
+   * Build the messages this turn added to the conversation, as the client should store them.
+   *
+   * Continuation prompts are internal, so replies split by the output limit are
+   * joined back into one message. Charts move from the tool results to the
+   * final assistant message, where the client renders them, and each tool call
+   * message records how its calls went. Every message gets an id so the
+   * client can refer to it when editing or regenerating.
+   *
+   * @param turnMessages - Messages appended to the history during the turn
+   * @param continuationPrompts - Prompts added to continue truncated replies
+   * @param toolExecutions - Outcome of each tool call, keyed by toolCallId
+   * @returns Assistant tool call messages, tool results and the final reply
+   */
+  private buildTurnTranscript(
+    turnMessages: Message[],
+    continuationPrompts: Set<Message>,
+    toolExecutions: Map<string, ToolExecution>
+  ): Message[] {
+    const transcript: Message[] = []
+    const charts: ChartData[] = []
+    let joinNext = false
+
+    for (const msg of turnMessages) {
+      if (continuationPrompts.has(msg)) {
+        joinNext = true
+        continue
+      }
+
+      const previous = transcript[transcript.length - 1]
+      if (joinNext && previous?.role === 'assistant' && msg.role === 'assistant') {
+        transcript[transcript.length - 1] = {
+          ...previous,
+          content: previous.content + msg.content,
+          tool_calls: msg.tool_calls
+        }
+      } else if (msg.role === 'tool') {
+        charts.push(...(msg.chartData ?? []))
+        transcript.push({ ...msg, chartData: undefined })
+      } else {
+        transcript.push({ ...msg })
+      }
+      joinNext = false
+    }
+
+    for (const msg of transcript) {
+      msg.id = uuidv4()
+      if (msg.tool_calls) {
+        msg.toolExecutions = msg.tool_calls
+          .map(call => toolExecutions.get(call.id))
+          .filter((execution): execution is ToolExecution => execution !== undefined)
+      }
+    }
+
+    const last = transcript[transcript.length - 1]
+    if (charts.length > 0 && last?.role === 'assistant' && !last.tool_calls) {
+      last.chartData = charts
+    }
+
+    return transcript
+  }
+
+  /**
+   * Compact the history to fit the model's context window.
+   *
+   * The budget is the context window minus the reply reserve and the tool definitions.
+   * Without a configured context window the history is sent as it is. If tools and
+   * reserve leave less than MIN_HISTORY_TOKENS, the request fails instead of sending
+   * a history with everything but the question cut away.
+   *
+   * @param messages - Full conversation history
+   * @param tools - Tools sent with the request
+   * @param currentTurnStart - Index of the current turn's user message
+   * @returns Messages to send to the LLM
+   */
+  private fitToContextWindow(messages: Message[], tools: MCPTool[], currentTurnStart: number): Message[] {
+    const { contextWindow, responseReserve } = this.llmService.getContextLimits()
+    if (!contextWindow) {
+      return messages
+    }
+
+    const toolTokens = this.contextManager.estimateToolTokens(tools)
+    const budget = contextWindow - responseReserve - toolTokens
+    if (budget < MIN_HISTORY_TOKENS) {
+      throw new Error(
+        `The definitions of ${tools.length} tools (~${toolTokens} tokens) and the ${responseReserve} tokens reserved ` +
+        `for the reply leave no room for the conversation in the ${contextWindow}-token context window. ` +
+        'Disable some MCP servers, lower Max Tokens or raise the Context Window.'
+      )
+    }
+
+    const compaction = this.contextManager.fitToBudget(messages, budget, currentTurnStart)
+
+    if (compaction.trimmedToolResults > 0 || compaction.droppedMessages > 0) {
+      console.log(
+        `[ChatOrchestrator] Compacted history to ~${compaction.estimatedTokens}/${budget} tokens ` +
+        `(trimmed ${compaction.trimmedToolResults} tool results, dropped ${compaction.droppedMessages} messages)`
+      )
+    }
+
+    return compaction.messages
+  }
+
   /**
    * Accumulate streaming LLM response into complete message.
    *
@@ -202,17 +424,19 @@ export class ChatOrchestrator {
    *
    * @param messages - Current conversation history
    * @param tools - Available tools
+   * @param signal - Cancels the LLM request
    * @returns Complete assistant message with any tool calls
    */
   private async *accumulateStreamingResponse(
     messages: Message[],
-    tools: MCPTool[]
-  ): AsyncGenerator<any, AccumulatedResponse> {
+    tools: MCPTool[],
+    signal?: AbortSignal
+  ): AsyncGenerator<OrchestratorChunk, AccumulatedResponse> {
     let contentBuffer = ''
     let toolCallsBuffer: Map<number, Partial<ToolCall>> = new Map()
     let finishReason = 'stop'
 
-    const stream = this.llmService.chatStream(messages, tools)
+    const stream = this.llmService.chatStream(messages, tools, signal)
 
     for await (const chunk of stream) {
       // Stream content immediately
@@ -250,6 +474,11 @@ export class ChatOrchestrator {
         }
         finishReason = 'tool_calls'
       }
+
+      // Keep the reported reason (e.g. 'length') unless tool calls were seen
+      if (chunk.type === 'done' && chunk.finishReason && finishReason !== 'tool_calls') {
+        finishReason = chunk.finishReason
+      }
     }
 
     // Convert accumulated tool calls to array
@@ -278,28 +507,396 @@ export class ChatOrchestrator {
     }
   }
 
+  /**
+   * Rewrite a tool call's arguments with its server's argument rules.
+   *
+   * MCPService applies them to every call; doing it here as well means approval,
+   * validation and history see the arguments that will be sent.
+   *
+   * @param toolCall - Tool call from LLM, updated in place
+   * @param availableTools - Available MCP tools
+   * @param context - User's timezone for templated values
+   */
+  private applyArgumentRules(toolCall: ToolCall, availableTools: MCPTool[], context: ArgumentRuleContext): void {
+    const tool = resolveTool(availableTools, toolCall.function.name)
+    if (!tool) return
+
+    let args: unknown
+    try {
+      args = toolCall.function.arguments.trim() ? JSON.parse(toolCall.function.arguments) : {}
+    } catch {
+      return  // Validation reports it to the LLM
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) return
+
+    const result = this.mcpService.applyArgumentRules(tool.serverId, tool.name, args as Record<string, any>, context)
+    if (result.applied.length > 0) {
+      toolCall.function.arguments = JSON.stringify(result.arguments)
+    }
+  }
+
+  /**
+   * Pause a tool call until the user approves, edits or denies it.
+   *
+   * Calls that don't need approval (by policy, because the tool can't be
+   * resolved, or because the arguments are invalid and go back to the LLM
+   * for repair) are approved immediately.
+   * Edited arguments replace the call's arguments so history matches what ran.
+   *
+   * @param toolCall - Tool call from LLM
+   * @param availableTools - Available MCP tools
+   * @param conversationId - Conversation the answer must come from
+   * @param signal - Cancels the wait
+   * @returns The user's decision
+   */
+  private async *requestToolApproval(
+    toolCall: ToolCall,
+    availableTools: MCPTool[],
+    conversationId?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<OrchestratorChunk, ToolApprovalDecision> {
+    const tool = resolveTool(availableTools, toolCall.function.name)
+    if (!tool || !this.approvalService.requiresApproval(tool)) {
+      return { approved: true }
+    }
+
+    const validation = this.argumentValidator.validate(tool, toolCall.function.arguments)
+    if (!validation.valid) {
+      return { approved: true }
+    }
+    const args = validation.arguments
+
+    const approvalId = uuidv4()
+    console.log(`[ChatOrchestrator] Waiting for approval of ${tool.name} (${approvalId})`)
+
+    // Register the wait before the event reaches the client so a fast answer isn't lost
+    const decisionPromise = this.approvalService.waitForDecision(approvalId, tool, conversationId, signal)
+    decisionPromise.catch(() => {})  // Cancellation is handled by the await below
+
+    yield {
+      type: 'tool_approval_required',
+      approvalId,
+      conversationId,
+      toolName: tool.name,
+      toolCallId: toolCall.id,
+      serverId: tool.serverId,
+      arguments: args,
+      inputSchema: tool.inputSchema
+    }
+
+    const decision = await decisionPromise
+
+    if (decision.approved && decision.arguments) {
+      toolCall.function.arguments = JSON.stringify(decision.arguments)
+    }
+
+    return decision
+  }
+
+  /**
+   * Answer a tool call whose arguments don't match the tool's inputSchema.
+   *
+   * The LLM gets a structured error listing each problem so it can fix the
+   * call, and is told to stop once it has no retries left.
+   *
+   * @param toolCall - Tool call from LLM
+   * @param tool - Tool it resolved to
+   * @param issues - Problems found by validation
+   * @param retriesLeft - Further attempts the LLM gets for this tool in this turn
+   * @param toolResults - Collects the error message for history
+   * @param toolExecutions - Collects the call's outcome for the transcript
+   * @returns Result event for the client
+   */
+  private rejectInvalidArguments(
+    toolCall: ToolCall,
+    tool: MCPTool,
+    issues: ToolArgumentIssue[],
+    retriesLeft: number,
+    toolResults: Map<string, Message>,
+    toolExecutions: Map<string, ToolExecution>
+  ): OrchestratorChunk {
+    const error = `Invalid arguments: ${issues.map(issue => `${issue.path || 'arguments'} ${issue.message}`).join('; ')}`
+    console.log(`[ChatOrchestrator] ${tool.name}: ${error} (${retriesLeft} retries left)`)
+
+    toolResults.set(toolCall.id, {
+      role: 'tool',
+      content: JSON.stringify({
+        error: 'invalid_arguments',
+        tool: functionNameFor(tool),
+        issues,
+        retriesLeft,
+        instruction: retriesLeft > 0
+          ? 'The tool was not run. Fix the arguments to match its input schema and call it again.'
+          : 'The tool was not run and is no longer available in this turn. Tell the user what went wrong.'
+      }),
+      tool_call_id: toolCall.id,
+      timestamp: Date.now()
+    })
+
+    toolExecutions.set(toolCall.id, {
+      toolCallId: toolCall.id,
+      toolName: tool.name,
+      serverId: tool.serverId,
+      arguments: this.parseArgumentsSafely(toolCall),
+      status: 'error',
+      error
+    })
+
+    return {
+      type: 'tool_execution_result',
+      toolName: tool.name,
+      toolCallId: toolCall.id,
+      isError: true,
+      error
+    }
+  }
+
+  /**
+   * Execute tool calls concurrently, at most MAX_CONCURRENT_TOOL_CALLS_PER_SERVER
+   * at a time per MCP server.
+   *
+   * Events are yielded as calls start and finish, so start/result pairs for
+   * different calls interleave; each pair shares its toolCallId. Failed calls
+   * produce an error result for the LLM instead of failing the batch. If the
+   * turn is cancelled, unfinished calls are dropped without a result event.
+   *
+   * @param toolCalls - Approved tool calls from the LLM
+   * @param availableTools - Available MCP tools
+   * @param userQuery - User's last question, used for chart detection
+   * @param toolResults - Receives the tool result message for each call, keyed by toolCallId
+   * @param toolExecutions - Receives the outcome of each call, keyed by toolCallId
+   * @param signal - Cancels all running tool calls
+   */
+  private async *executeToolCalls(
+    toolCalls: ToolCall[],
+    availableTools: MCPTool[],
+    userQuery: string,
+    toolResults: Map<string, Message>,
+    toolExecutions: Map<string, ToolExecution>,
+    signal?: AbortSignal
+  ): AsyncGenerator<OrchestratorChunk> {
+    const events: OrchestratorChunk[] = []
+    let wake: (() => void) | null = null
+    const emit = (chunk: OrchestratorChunk) => {
+      events.push(chunk)
+      wake?.()
+      wake = null
+    }
+
+    let settled = false
+    Promise.all(
+      toolCalls.map(toolCall =>
+        this.runToolCall(toolCall, availableTools, userQuery, toolResults, toolExecutions, emit, signal)
+      )
+    ).then(() => {
+      settled = true
+      wake?.()
+      wake = null
+    })
+
+    while (!settled || events.length > 0) {
+      if (events.length > 0) {
+        yield events.shift()!
+        continue
+      }
+      await new Promise<void>(resolve => { wake = resolve })
+    }
+  }
+
+  /**
+   * Run a tool call on a server, one at a time if the server asks the user for input
+   */
+  private whenServerCanTakeCall<T>(serverId: string | undefined, task: () => Promise<T>): Promise<T> {
+    if (serverId && this.mcpService.asksForInput(serverId)) {
+      return this.userInputLimiter.run(serverId, task)
+    }
+    return task()
+  }
+
+  /**
+   * Run one tool call once its server has a free slot.
+   * Never rejects - errors become tool result messages for the LLM.
+   */
+  private async runToolCall(
+    toolCall: ToolCall,
+    availableTools: MCPTool[],
+    userQuery: string,
+    toolResults: Map<string, Message>,
+    toolExecutions: Map<string, ToolExecution>,
+    emit: (chunk: OrchestratorChunk) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Events and charts use the server's own tool name; the LLM only knows the qualified one
+    const tool = resolveTool(availableTools, toolCall.function.name)
+    const toolName = tool?.name ?? toolCall.function.name
+    const serverId = tool?.serverId
+
+    const execution: ToolExecution = {
+      toolCallId: toolCall.id,
+      toolName,
+      serverId,
+      arguments: this.parseArgumentsSafely(toolCall),
+      status: 'running'
+    }
+    toolExecutions.set(toolCall.id, execution)
+
+    try {
+      const result = await this.toolCallLimiter.run(serverId ?? '', () => this.whenServerCanTakeCall(serverId, async () => {
+        if (signal?.aborted) {
+          throw signal.reason ?? new Error('Cancelled')
+        }
+
+        console.log(`[ChatOrchestrator] Executing tool: ${toolName}`)
+        execution.startedAt = Date.now()
+        emit({
+          type: 'tool_execution_start',
+          toolName,
+          toolCallId: toolCall.id,
+          serverId,
+          arguments: execution.arguments,
+          startedAt: execution.startedAt
+        })
+
+        return this.executeToolCallWithTimeout(toolCall, availableTools, emit, signal)
+      }))
+
+      const detectedCharts = this.detectChartsInToolResult(result, toolName, userQuery)
+
+      // Stream chart data chunks
+      for (const chart of detectedCharts) {
+        emit({
+          type: 'chart_data',
+          chartData: chart
+        })
+      }
+
+      const content = this.formatToolResult(result)
+      toolResults.set(toolCall.id, {
+        role: 'tool',
+        content,
+        tool_call_id: toolCall.id,
+        timestamp: Date.now(),
+        chartData: detectedCharts.length > 0 ? detectedCharts : undefined
+      })
+
+      console.log(`[ChatOrchestrator] Tool ${toolName} succeeded`)
+
+      execution.status = result.isError ? 'error' : 'success'
+      execution.resultPreview = content.slice(0, RESULT_PREVIEW_CHARS)
+      execution.durationMs = Date.now() - execution.startedAt!
+
+      emit({
+        type: 'tool_execution_result',
+        toolName,
+        toolCallId: toolCall.id,
+        isError: result.isError || false,
+        resultPreview: execution.resultPreview,
+        durationMs: execution.durationMs
+      })
+    } catch (error: any) {
+      if (signal?.aborted) {
+        return
+      }
+
+      console.error(`[ChatOrchestrator] Tool ${toolName} failed:`, error.message)
+
+      // Add error result to history so LLM can explain
+      toolResults.set(toolCall.id, {
+        role: 'tool',
+        content: `Error executing ${toolName}: ${error.message}`,
+        tool_call_id: toolCall.id,
+        timestamp: Date.now()
+      })
+
+      execution.status = 'error'
+      execution.error = error.message
+      execution.durationMs = execution.startedAt ? Date.now() - execution.startedAt : undefined
+
+      emit({
+        type: 'tool_execution_result',
+        toolName,
+        toolCallId: toolCall.id,
+        isError: true,
+        error: error.message,
+        durationMs: execution.durationMs
+      })
+    }
+  }
+
+  /**
+   * Parse tool call arguments for display - invalid JSON shows as no arguments
+   * (validation reports the parse error to the LLM)
+   */
+  private parseArgumentsSafely(toolCall: ToolCall): Record<string, any> {
+    try {
+      const args = JSON.parse(toolCall.function.arguments)
+      return args && typeof args === 'object' ? args : {}
+    } catch {
+      return {}
+    }
+  }
+
   /**
    * Execute a tool call with timeout protection.
    *
+   * Both the timeout and the turn signal abort the MCP request, so the server
+   * receives a cancellation notification instead of running on in the background.
+   * The timeout is suspended while the server waits for the user to answer an
+   * elicitation, and starts over once they have.
+   *
    * @param toolCall - Tool call to execute
    * @param availableTools - Available tools
+   * @param emit - Streams elicitation events to the client
+   * @param signal - Cancels the tool call along with the turn
    * @returns Tool execution result
    */
   private async executeToolCallWithTimeout(
     toolCall: ToolCall,
-    availableTools: MCPTool[]
+    availableTools: MCPTool[],
+    emit: (chunk: OrchestratorChunk) => void,
+    signal?: AbortSignal
   ): Promise<MCPToolResult> {
-    const timeoutPromise = new Promise<never>((_, reject) =>
-      setTimeout(
-        () => reject(new Error(`Tool execution timeout after ${TOOL_EXECUTION_TIMEOUT_MS}ms`)),
-        TOOL_EXECUTION_TIMEOUT_MS
-      )
+    const controller = new AbortController()
+    const startTimer = () => setTimeout(
+      () => controller.abort(new Error(`Tool execution timeout after ${TOOL_EXECUTION_TIMEOUT_MS}ms`)),
+      TOOL_EXECUTION_TIMEOUT_MS
     )
+    let timer = startTimer()
+    const onAbort = () => controller.abort(signal?.reason)
+    signal?.addEventListener('abort', onAbort)
+
+    let openElicitations = 0
+    const onElicitation: ElicitationHandler = async (params, requestSignal) => {
+      if (openElicitations++ === 0) {
+        clearTimeout(timer)
+      }
+      try {
+        return await this.requestElicitation(
+          toolCall,
+          availableTools,
+          params,
+          emit,
+          AbortSignal.any([requestSignal, controller.signal])
+        )
+      } finally {
+        if (--openElicitations === 0 && !controller.signal.aborted) {
+          timer = startTimer()
+        }
+      }
+    }
 
-    return Promise.race([
-      this.executeToolCall(toolCall, availableTools),
-      timeoutPromise
-    ])
+    try {
+      return await this.executeToolCall(toolCall, availableTools, controller.signal, onElicitation)
+    } catch (error) {
+      // Surface the abort reason (e.g. the timeout) rather than the transport's cancellation error
+      if (controller.signal.aborted && controller.signal.reason instanceof Error) {
+        throw controller.signal.reason
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
   }
 
   /**
@@ -307,19 +904,22 @@ export class ChatOrchestrator {
    *
    * @param toolCall - Tool call from LLM
    * @param availableTools - Available MCP tools
+   * @param signal - Cancels the MCP request
+   * @param onElicitation - Answers questions the server asks while the tool runs
    * @returns Tool execution result
    */
   private async executeToolCall(
     toolCall: ToolCall,
-    availableTools: MCPTool[]
+    availableTools: MCPTool[],
+    signal?: AbortSignal,
+    onElicitation?: ElicitationHandler
   ): Promise<MCPToolResult> {
-    const toolName = toolCall.function.name
-
-    // Find tool to get serverId
-    const tool = availableTools.find(t => t.name === toolName)
+    // Find tool to get serverId and the name the server knows it by
+    const tool = resolveTool(availableTools, toolCall.function.name)
     if (!tool) {
-      throw new Error(`Tool '${toolName}' not found`)
+      throw new Error(`Tool '${toolCall.function.name}' not found`)
     }
+    const toolName = tool.name
 
     // Parse arguments
     let args: Record<string, any>
@@ -339,7 +939,8 @@ export class ChatOrchestrator {
     const result = await this.mcpService.executeTool(
       tool.serverId,
       toolName,
-      args
+      args,
+      { signal, onElicitation }
     )
 
     // Log the result for debugging
@@ -353,6 +954,46 @@ export class ChatOrchestrator {
     return result
   }
 
+  /**
+   * Ask the user a question a server sent during a tool call, and wait for the answer.
+   *
+   * @param toolCall - Tool call the server is working on
+   * @param availableTools - Available MCP tools
+   * @param params - The server's elicitation request
+   * @param emit - Streams the question and its outcome to the client
+   * @param signal - Aborted when the server withdraws the question or the call is cancelled
+   * @returns The user's answer, 'cancel' if there was none
+   */
+  private async requestElicitation(
+    toolCall: ToolCall,
+    availableTools: MCPTool[],
+    params: ElicitRequestFormParams,
+    emit: (chunk: OrchestratorChunk) => void,
+    signal: AbortSignal
+  ): Promise<ElicitResult> {
+    const tool = resolveTool(availableTools, toolCall.function.name)!
+    const elicitationId = uuidv4()
+    console.log(`[ChatOrchestrator] ${tool.name} asks the user for input (${elicitationId})`)
+
+    // Register the wait before the event reaches the client so a fast answer isn't lost
+    const responsePromise = this.elicitationService.waitForResponse(elicitationId, params.requestedSchema, signal)
+
+    emit({
+      type: 'elicitation_required',
+      elicitationId,
+      toolCallId: toolCall.id,
+      toolName: tool.name,
+      serverId: tool.serverId,
+      message: params.message,
+      requestedSchema: params.requestedSchema
+    })
+
+    const response = await responsePromise
+    emit({ type: 'elicitation_resolved', elicitationId, action: response.action })
+
+    return { action: response.action, content: response.content }
+  }
+
   /**
    * Format MCPToolResult (structured content array) to string for LLM.
    *
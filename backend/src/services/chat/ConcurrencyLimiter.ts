@@ -0,0 +1,63 @@
+/**
+ * ConcurrencyLimiter caps how many tasks run at once per key.
+ *
+ * Tasks over the limit wait in FIFO order until a running task with the
+ * same key settles. Different keys never block each other.
+ */
+export class ConcurrencyLimiter {
+  private running: Map<string, number> = new Map()
+  private queues: Map<string, Array<() => void>> = new Map()
+
+  constructor(private limit: number) {
+    if (limit < 1) {
+      throw new Error('Concurrency limit must be at least 1')
+    }
+  }
+
+  /**
+   * Run a task once a slot for its key is free
+   */
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    await this.acquire(key)
+    try {
+      return await task()
+    } finally {
+      this.release(key)
+    }
+  }
+
+  private acquire(key: string): Promise<void> {
+    const running = this.running.get(key) ?? 0
+    if (running < this.limit) {
+      this.running.set(key, running + 1)
+      return Promise.resolve()
+    }
+
+    return new Promise(resolve => {
+      const queue = this.queues.get(key) ?? []
+      queue.push(resolve)
+      this.queues.set(key, queue)
+    })
+  }
+
+  private release(key: string): void {
+    const queue = this.queues.get(key)
+    const next = queue?.shift()
+
+    if (next) {
+      // Hand the slot straight to the next waiter
+      if (queue!.length === 0) {
+        this.queues.delete(key)
+      }
+      next()
+      return
+    }
+
+    const running = (this.running.get(key) ?? 1) - 1
+    if (running === 0) {
+      this.running.delete(key)
+    } else {
+      this.running.set(key, running)
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { ContextWindowManager } from './ContextWindowManager.js'
+import type { Message } from '../../../../shared/types/index.js'
+
+const message = (role: Message['role'], content: string, extra: Partial<Message> = {}): Message => ({
+  role,
+  content,
+  timestamp: 1,
+  ...extra
+})
+
+// One earlier turn that called a tool with a large result
+const toolTurn = (question: string, resultSize: number, id: string): Message[] => [
+  message('user', question),
+  message('assistant', '', {
+    tool_calls: [{ id, type: 'function', function: { name: 'get_data', arguments: '{}' } }]
+  }),
+  message('tool', 'x'.repeat(resultSize), { tool_call_id: id }),
+  message('assistant', `Answer to ${question}`)
+]
+
+describe('ContextWindowManager', () => {
+  const manager = new ContextWindowManager()
+
+  describe('estimateMessageTokens', () => {
+    it('should count content and tool call arguments', () => {
+      const plain = manager.estimateMessageTokens(message('user', 'a'.repeat(400)))
+      const withCall = manager.estimateMessageTokens(message('assistant', '', {
+        tool_calls: [{ id: '1', type: 'function', function: { name: 'search', arguments: 'b'.repeat(400) } }]
+      }))
+
+      expect(plain).toBeGreaterThanOrEqual(100)
+      expect(withCall).toBeGreaterThanOrEqual(100)
+    })
+  })
+
+  describe('fitToBudget', () => {
+    it('should leave history that fits untouched', () => {
+      const messages = [message('system', 'You are helpful'), message('user', 'Hello')]
+
+      const result = manager.fitToBudget(messages, 1000)
+
+      expect(result.messages).toEqual(messages)
+      expect(result.trimmedToolResults).toBe(0)
+      expect(result.droppedMessages).toBe(0)
+    })
+
+    it('should trim old tool results before dropping turns', () => {
+      const messages = [
+        message('system', 'You are helpful'),
+        ...toolTurn('First question', 20000, 'call-1'),
+        message('user', 'Second question')
+      ]
+
+      const result = manager.fitToBudget(messages, 1000)
+
+      expect(result.droppedMessages).toBe(0)
+      expect(result.trimmedToolResults).toBe(1)
+      expect(result.messages[3].content).toContain('removed to fit the context window')
+      expect(result.estimatedTokens).toBeLessThanOrEqual(1000)
+      // The caller's messages are not modified
+      expect(messages[3].content).toHaveLength(20000)
+    })
+
+    it('should drop the oldest turns and note what the user asked', () => {
+      const messages = [
+        message('system', 'You are helpful'),
+        ...toolTurn('First question', 20000, 'call-1'),
+        ...toolTurn('Second question', 20000, 'call-2'),
+        message('user', 'Third question')
+      ]
+
+      const result = manager.fitToBudget(messages, 400)
+
+      expect(result.droppedMessages).toBe(4)
+      expect(result.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'tool', 'assistant', 'user'])
+      expect(result.messages[0].content).toMatch(/^You are helpful\n\nEarlier messages/)
+      expect(result.messages[0].content).toContain('First question')
+      expect(result.messages[1].content).toBe('Second question')
+      expect(result.messages[result.messages.length - 1].content).toBe('Third question')
+      // The caller's system prompt is not modified
+      expect(messages[0].content).toBe('You are helpful')
+    })
+
+    it('should start the history with the note when there is no system prompt', () => {
+      const messages = [
+        ...toolTurn('First question', 20000, 'call-1'),
+        message('user', 'Second question')
+      ]
+
+      const result = manager.fitToBudget(messages, 200)
+
+      expect(result.messages.map(m => m.role)).toEqual(['system', 'user'])
+      expect(result.messages[0].content).toContain('First question')
+    })
+
+    it('should never drop the current turn', () => {
+      const messages = [
+        message('system', 'You are helpful'),
+        ...toolTurn('Current question', 20000, 'call-1')
+      ]
+
+      const result = manager.fitToBudget(messages, 100)
+
+      expect(result.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'tool', 'assistant'])
+      expect(result.messages[3].content.length).toBeLessThan(400)
+    })
+
+    it('should protect the current turn from the given index', () => {
+      const messages = [
+        message('system', 'You are helpful'),
+        message('user', 'Tell me a story'),
+        message('assistant', 'y'.repeat(4000)),
+        message('user', 'Continue')
+      ]
+
+      const result = manager.fitToBudget(messages, 100, 1)
+
+      expect(result.droppedMessages).toBe(0)
+      expect(result.messages).toHaveLength(4)
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import type { Message, MCPTool } from '../../../../shared/types/index.js'
+import { contentWithAttachments } from './ResourceAttachments.js'
+
+// Rough token estimation - close enough for budgeting without a model-specific tokenizer
+const CHARS_PER_TOKEN = 4
+const MESSAGE_OVERHEAD_TOKENS = 4         // Role and framing tokens per message
+const TRIMMED_TOOL_RESULT_CHARS = 1000    // Older tool results are cut to this first
+const MIN_TOOL_RESULT_CHARS = 200         // Last resort for tool results of the current turn
+const MAX_SUMMARIZED_QUESTIONS = 10       // Dropped user questions listed in the summary note
+const MAX_SUMMARIZED_QUESTION_CHARS = 120
+
+export interface CompactionResult {
+  messages: Message[]
+  estimatedTokens: number
+  trimmedToolResults: number
+  droppedMessages: number
+}
+
+/**
+ * ContextWindowManager keeps the history sent to the LLM within the model's
+ * context window.
+ *
+ * Compaction happens in three steps, each only if still over budget:
+ * 1. Trim tool results, oldest first (raw tool output is usually the bulk)
+ * 2. Drop whole earlier turns, noting what the user asked in the leading system prompt
+ * 3. Cut the current turn's tool results down to a short excerpt
+ *
+ * Leading system messages and the current turn (from its user message on)
+ * are never dropped, and a tool result always stays next to its tool call.
+ */
+export class ContextWindowManager {
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN)
+  }
+
+  estimateMessageTokens(message: Message): number {
+    let tokens = MESSAGE_OVERHEAD_TOKENS + this.estimateTokens(contentWithAttachments(message) || '')
+
+    for (const toolCall of message.tool_calls ?? []) {
+      tokens += this.estimateTokens(toolCall.function.name + toolCall.function.arguments)
+    }
+
+    return tokens
+  }
+
+  /**
+   * Tool definitions are sent with every request and count against the window too
+   */
+  estimateToolTokens(tools: MCPTool[]): number {
+    return tools.reduce(
+      (total, tool) => total + this.estimateTokens(tool.name + tool.description + JSON.stringify(tool.inputSchema)),
+      0
+    )
+  }
+
+  /**
+   * Compact messages until their estimated size fits the budget
+   *
+   * @param messages - Full conversation history
+   * @param budget - Tokens available for messages
+   * @param currentTurnStart - Index where the current turn begins (defaults to the last user message)
+   */
+  fitToBudget(messages: Message[], budget: number, currentTurnStart?: number): CompactionResult {
+    let working = messages.map(msg => ({ ...msg }))
+    let total = this.estimateTotal(working)
+    let trimmedToolResults = 0
+    let droppedMessages = 0
+
+    const result = () => ({ messages: working, estimatedTokens: total, trimmedToolResults, droppedMessages })
+
+    if (total <= budget) {
+      return result()
+    }
+
+    // Step 1: trim tool results, oldest first
+    for (const msg of working) {
+      if (total <= budget) break
+      if (msg.role === 'tool' && this.trimToolResult(msg, TRIMMED_TOOL_RESULT_CHARS)) {
+        trimmedToolResults++
+        total = this.estimateTotal(working)
+      }
+    }
+
+    if (total <= budget) {
+      return result()
+    }
+
+    // Step 2: drop earlier turns, oldest first
+    let leading = 0
+    while (leading < working.length && working[leading].role === 'system') {
+      leading++
+    }
+
+    const turnStart = Math.max(leading, currentTurnStart ?? this.findLastUserMessage(working))
+    const head = working.slice(0, leading)
+    const turns = this.splitIntoTurns(working.slice(leading, turnStart))
+    const current = working.slice(turnStart)
+    const droppedQuestions: string[] = []
+
+    while (total > budget && turns.length > 0) {
+      const dropped = turns.shift()!
+      droppedMessages += dropped.length
+
+      const question = dropped.find(msg => msg.role === 'user')?.content
+      if (question) {
+        droppedQuestions.push(question)
+      }
+
+      working = [...this.withSummaryNote(head, droppedQuestions), ...turns.flat(), ...current]
+      total = this.estimateTotal(working)
+    }
+
+    // Step 3: the current turn alone is too big - cut its tool results hard
+    for (const msg of current) {
+      if (total <= budget) break
+      if (msg.role === 'tool' && this.trimToolResult(msg, MIN_TOOL_RESULT_CHARS)) {
+        trimmedToolResults++
+        total = this.estimateTotal(working)
+      }
+    }
+
+    return result()
+  }
+
+  private estimateTotal(messages: Message[]): number {
+    return messages.reduce((total, msg) => total + this.estimateMessageTokens(msg), 0)
+  }
+
+  /**
+   * Cut a tool result down to an excerpt, in place
+   * @returns false if it was already short enough
+   */
+  private trimToolResult(message: Message, maxChars: number): boolean {
+    if (message.content.length <= maxChars) {
+      return false
+    }
+
+    const removed = message.content.length - maxChars
+    message.content = `${message.content.slice(0, maxChars)}\n[... ${removed} characters of tool output removed to fit the context window]`
+    return true
+  }
+
+  private findLastUserMessage(messages: Message[]): number {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') {
+        return i
+      }
+    }
+    return messages.length
+  }
+
+  /**
+   * Group messages into turns, each starting at a user message
+   */
+  private splitIntoTurns(messages: Message[]): Message[][] {
+    const turns: Message[][] = []
+
+    for (const msg of messages) {
+      if (msg.role === 'user' || turns.length === 0) {
+        turns.push([msg])
+      } else {
+        turns[turns.length - 1].push(msg)
+      }
+    }
+
+    return turns
+  }
+
+  /**
+   * Add the summary note to the leading system prompt
+   * Providers expect system messages only at the start, so the note never becomes one of its own mid-history
+   */
+  private withSummaryNote(head: Message[], questions: string[]): Message[] {
+    const note = this.buildSummaryNote(questions)
+    if (head.length === 0) {
+      return [{ role: 'system', content: note, timestamp: 0 }]
+    }
+
+    const prompt = head[head.length - 1]
+    return [...head.slice(0, -1), { ...prompt, content: `${prompt.content}\n\n${note}` }]
+  }
+
+  private buildSummaryNote(questions: string[]): string {
+    const listed = questions.slice(-MAX_SUMMARIZED_QUESTIONS).map(question => {
+      const text = question.replace(/\s+/g, ' ').trim()
+      return text.length > MAX_SUMMARIZED_QUESTION_CHARS
+        ? `- ${text.slice(0, MAX_SUMMARIZED_QUESTION_CHARS - 1)}…`
+        : `- ${text}`
+    })
+
+    return listed.length > 0
+      ? `Earlier messages in this conversation were removed to fit the context window. Before that, the user asked:\n${listed.join('\n')}`
+      : 'Earlier messages in this conversation were removed to fit the context window.'
+  }
+}
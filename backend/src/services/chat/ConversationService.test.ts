@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { Database } from 'better-sqlite3'
+import { ConversationService } from './ConversationService.js'
+import { EncryptionService } from '../config/EncryptionService.js'
+import { initializeDatabase } from '../../db/schema.js'
+import { Repository } from '../../db/repository.js'
+import type { Conversation } from '../../../../shared/types/index.js'
+
+describe('ConversationService', () => {
+  let db: Database
+  let repository: Repository
+  let service: ConversationService
+
+  beforeEach(() => {
+    db = initializeDatabase(':memory:')
+    repository = new Repository(db, new EncryptionService('test-secret-key-at-least-32-chars'))
+    service = new ConversationService(repository)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  // Stored before branching existed: no message ids and no tree
+  const saveLegacyConversation = (): Conversation => {
+    const conversation: Conversation = {
+      id: 'legacy',
+      title: 'Weather',
+      messages: [
+        { role: 'user', content: 'Weather in Porto?', timestamp: 1 },
+        { role: 'assistant', content: 'Sunny', timestamp: 2 }
+      ],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z'
+    }
+    repository.saveConversation(conversation)
+    return conversation
+  }
+
+  it('should give legacy conversations a tree once, keeping their dates', () => {
+    saveLegacyConversation()
+
+    service.migrateLegacyConversations()
+    const first = service.getConversation('legacy')!
+    service.migrateLegacyConversations()
+    const second = service.getConversation('legacy')!
+
+    expect(first.messages.every(msg => msg.id)).toBe(true)
+    expect(second.messages.map(msg => msg.id)).toEqual(first.messages.map(msg => msg.id))
+    expect(second.updatedAt).toBe('2024-01-02T00:00:00.000Z')
+    expect(repository.getConversationIdsWithoutTree()).toEqual([])
+  })
+
+  it('should not write when a conversation is read', () => {
+    saveLegacyConversation()
+
+    service.getConversation('legacy')
+
+    expect(repository.getConversationTree('legacy')).toBeNull()
+    expect(repository.getConversation('legacy')!.messages.every(msg => !msg.id)).toBe(true)
+  })
+
+  it('should store new conversations with a tree', () => {
+    const conversation = service.createConversation()
+
+    expect(repository.getConversationIdsWithoutTree()).not.toContain(conversation.id)
+  })
+})
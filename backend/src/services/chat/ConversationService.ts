@@ -0,0 +1,157 @@
+import { Repository } from '../../db/repository.js'
+import type { Conversation, ConversationSummary, Message } from '../../../../shared/types/index.js'
+import { ConversationTree } from './ConversationTree.js'
+import { v4 as uuidv4 } from 'uuid'
+
+const DEFAULT_CONVERSATION_TITLE = 'New conversation'
+const MAX_TITLE_LENGTH = 60
+
+/**
+ * ConversationService persists chat conversations in the chat_history table.
+ *
+ * The client stays the source of truth for message history: every completed
+ * turn stores what the client sent plus the assistant reply as the active
+ * branch, so a reloaded conversation renders exactly as it did live.
+ * Earlier versions of edited or regenerated messages are kept in a
+ * ConversationTree and can be switched back to.
+ */
+export class ConversationService {
+  constructor(private repository: Repository) {}
+
+  listConversations(): ConversationSummary[] {
+    return this.repository.getAllConversations()
+  }
+
+  /**
+   * Get a conversation with its active branch and the alternatives along it
+   */
+  getConversation(id: string): Conversation | null {
+    const conversation = this.repository.getConversation(id)
+    if (!conversation) {
+      return null
+    }
+
+    const tree = this.loadTree(conversation)
+    return { ...conversation, branches: tree.branchesAlong(conversation.messages) }
+  }
+
+  createConversation(title?: string): Conversation {
+    const now = new Date().toISOString()
+    const conversation: Conversation = {
+      id: uuidv4(),
+      title: title?.trim() || DEFAULT_CONVERSATION_TITLE,
+      messages: [],
+      createdAt: now,
+      updatedAt: now
+    }
+
+    this.repository.saveConversation(conversation, [])
+    return conversation
+  }
+
+  /**
+   * Store messages as the active branch of a conversation
+   * Messages that differ from the stored ones (an edited prompt, a regenerated
+   * reply) start a new branch instead of replacing what was there.
+   * System messages are not stored - the client rebuilds them for every new conversation
+   */
+  saveMessages(id: string, messages: Message[]): Conversation {
+    const existing = this.repository.getConversation(id)
+    if (!existing) {
+      throw new Error(`Conversation ${id} not found`)
+    }
+
+    const tree = this.loadTree(existing)
+    const storedMessages = tree.mergePath(messages.filter(msg => msg.role !== 'system'))
+
+    const conversation: Conversation = {
+      ...existing,
+      title: existing.title === DEFAULT_CONVERSATION_TITLE
+        ? this.generateTitle(storedMessages)
+        : existing.title,
+      messages: storedMessages,
+      updatedAt: new Date().toISOString()
+    }
+
+    this.repository.saveConversation(conversation, tree.toNodes())
+    return { ...conversation, branches: tree.branchesAlong(storedMessages) }
+  }
+
+  /**
+   * Make the branch through a message the active one
+   * Continues down the newest replies below it, like the conversation looked when last used
+   *
+   * @returns The updated conversation, or null if the conversation or message doesn't exist
+   */
+  switchBranch(id: string, messageId: string): Conversation | null {
+    const existing = this.repository.getConversation(id)
+    if (!existing) {
+      return null
+    }
+
+    const tree = this.loadTree(existing)
+    if (!tree.has(messageId)) {
+      return null
+    }
+
+    const messages = tree.pathTo(tree.latestLeafUnder(messageId))
+    const conversation: Conversation = {
+      ...existing,
+      messages,
+      updatedAt: new Date().toISOString()
+    }
+
+    this.repository.saveConversation(conversation)
+    return { ...conversation, branches: tree.branchesAlong(messages) }
+  }
+
+  /**
+   * Give conversations stored before branching existed a single-branch tree, so their
+   * message ids are fixed once instead of on every read. Run at startup
+   */
+  migrateLegacyConversations(): void {
+    for (const id of this.repository.getConversationIdsWithoutTree()) {
+      const conversation = this.repository.getConversation(id)
+      if (!conversation) continue
+
+      const tree = new ConversationTree()
+      conversation.messages = tree.mergePath(conversation.messages)
+      this.repository.saveConversation(conversation, tree.toNodes())
+    }
+  }
+
+  renameConversation(id: string, title: string): void {
+    this.repository.updateConversationTitle(id, title.trim())
+  }
+
+  deleteConversation(id: string): void {
+    this.repository.deleteConversation(id)
+  }
+
+  /**
+   * Load the message tree of a conversation
+   * (see migrateLegacyConversations for those stored before branching existed)
+   */
+  private loadTree(conversation: Conversation): ConversationTree {
+    return new ConversationTree(this.repository.getConversationTree(conversation.id) ?? [])
+  }
+
+  /**
+   * Derive a title from the first user message
+   */
+  private generateTitle(messages: Message[]): string {
+    const firstUserMessage = messages.find(msg => msg.role === 'user')
+    if (!firstUserMessage) {
+      return DEFAULT_CONVERSATION_TITLE
+    }
+
+    const text = firstUserMessage.content.replace(/\s+/g, ' ').trim()
+    if (!text) {
+      return DEFAULT_CONVERSATION_TITLE
+    }
+
+    return text.length > MAX_TITLE_LENGTH
+      ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…`
+      : text
+  }
+}
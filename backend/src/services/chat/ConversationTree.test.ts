@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { ConversationTree } from './ConversationTree.js'
+import type { Message } from '../../../../shared/types/index.js'
+
+const user = (content: string, id?: string): Message => ({ id, role: 'user', content, timestamp: 1 })
+const assistant = (content: string, id?: string): Message => ({ id, role: 'assistant', content, timestamp: 2 })
+
+describe('ConversationTree', () => {
+  it('should assign ids to messages without one', () => {
+    const tree = new ConversationTree()
+
+    const path = tree.mergePath([user('Hi'), assistant('Hello', 'reply-1')])
+
+    expect(path[0].id).toEqual(expect.any(String))
+    expect(path[1].id).toBe('reply-1')
+  })
+
+  it('should reuse stored messages matched by id or by content', () => {
+    const tree = new ConversationTree()
+    const first = tree.mergePath([user('Hi', 'q1'), assistant('Hello')])
+
+    const second = tree.mergePath([user('Hi', 'q1'), assistant('Hello'), user('More?', 'q2')])
+
+    expect(second.slice(0, 2).map(m => m.id)).toEqual(first.map(m => m.id))
+    expect(tree.toNodes()).toHaveLength(3)
+  })
+
+  it('should add a regenerated reply as a sibling', () => {
+    const tree = new ConversationTree()
+    tree.mergePath([user('Hi', 'q1'), assistant('Hello', 'a1')])
+
+    tree.mergePath([user('Hi', 'q1'), assistant('Hey there', 'a2')])
+
+    expect(tree.versionsOf('a2')).toEqual(['a1', 'a2'])
+    expect(tree.branchesAlong([user('Hi', 'q1'), assistant('Hey there', 'a2')])).toEqual({ a2: ['a1', 'a2'] })
+  })
+
+  it('should not reuse an id that belongs to another position', () => {
+    const tree = new ConversationTree()
+    tree.mergePath([user('Hi', 'q1'), assistant('Hello', 'a1')])
+
+    const path = tree.mergePath([user('Edited', 'q2'), assistant('Hello', 'a1')])
+
+    expect(path[1].id).not.toBe('a1')
+    expect(tree.pathTo('a1').map(m => m.id)).toEqual(['q1', 'a1'])
+  })
+
+  it('should follow the newest replies below a message', () => {
+    const tree = new ConversationTree()
+    tree.mergePath([user('Hi', 'q1'), assistant('Hello', 'a1'), user('Weather?', 'q2'), assistant('Sunny', 'a2')])
+    tree.mergePath([user('Hi', 'q1'), assistant('Hey there', 'a3')])
+
+    expect(tree.latestLeafUnder('q1')).toBe('a3')
+    expect(tree.latestLeafUnder('a1')).toBe('a2')
+    expect(tree.pathTo(tree.latestLeafUnder('a1')).map(m => m.content)).toEqual(['Hi', 'Hello', 'Weather?', 'Sunny'])
+  })
+
+  it('should survive a round trip through its nodes', () => {
+    const tree = new ConversationTree()
+    tree.mergePath([user('Hi', 'q1'), assistant('Hello', 'a1')])
+    tree.mergePath([user('Hi again', 'q2')])
+
+    const restored = new ConversationTree(JSON.parse(JSON.stringify(tree.toNodes())))
+
+    expect(restored.versionsOf('q1')).toEqual(['q1', 'q2'])
+    expect(restored.pathTo('a1').map(m => m.content)).toEqual(['Hi', 'Hello'])
+  })
+})
@@ -0,0 +1,143 @@
+import type { ConversationNode, Message } from '../../../../shared/types/index.js'
+import { v4 as uuidv4 } from 'uuid'
+
+type StoredMessage = ConversationNode['message']
+
+/**
+ * ConversationTree holds every version of a conversation as a tree of messages.
+ *
+ * The client only ever sends a path (root to newest message). Merging a path
+ * reuses the nodes it shares with the tree and adds the rest as new children,
+ * so an edited prompt or a regenerated answer becomes a sibling branch.
+ */
+export class ConversationTree {
+  private nodes: Map<string, ConversationNode> = new Map()
+  private children: Map<string | null, ConversationNode[]> = new Map()  // Parent id -> children in insertion order
+
+  constructor(nodes: ConversationNode[] = []) {
+    for (const node of nodes) {
+      this.add(node)
+    }
+  }
+
+  /**
+   * Add a path to the tree
+   *
+   * Messages are matched against the children of the previous message by id,
+   * or by role and content when the client sent no id.
+   *
+   * @returns The path as stored, with ids on every message
+   */
+  mergePath(messages: Message[]): StoredMessage[] {
+    const path: StoredMessage[] = []
+    let parentId: string | null = null
+
+    for (const message of messages) {
+      const children = this.childrenOf(parentId)
+      const match = message.id
+        ? children.find(node => node.message.id === message.id)
+        : children.find(node => node.message.role === message.role && node.message.content === message.content)
+
+      if (match) {
+        // Keep what the client knows now (e.g. tool executions filled in after streaming)
+        match.message = { ...match.message, ...message, id: match.message.id }
+        path.push(match.message)
+        parentId = match.message.id
+        continue
+      }
+
+      // An id already used elsewhere in the tree can't be reused for a new node
+      const id = message.id && !this.nodes.has(message.id) ? message.id : uuidv4()
+      const node: ConversationNode = { parentId, message: { ...message, id } }
+      this.add(node)
+      path.push(node.message)
+      parentId = id
+    }
+
+    return path
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id)
+  }
+
+  /**
+   * Messages from the root down to a node
+   */
+  pathTo(id: string): StoredMessage[] {
+    const path: StoredMessage[] = []
+    let node = this.nodes.get(id)
+
+    while (node) {
+      path.unshift(node.message)
+      node = node.parentId ? this.nodes.get(node.parentId) : undefined
+    }
+
+    return path
+  }
+
+  /**
+   * Follow the newest child from a node down to a leaf
+   */
+  latestLeafUnder(id: string): string {
+    let current = id
+    let children = this.childrenOf(current)
+
+    while (children.length > 0) {
+      current = children[children.length - 1].message.id
+      children = this.childrenOf(current)
+    }
+
+    return current
+  }
+
+  /**
+   * Ids of every version at a node's position (the node and its siblings), oldest first
+   */
+  versionsOf(id: string): string[] {
+    const node = this.nodes.get(id)
+    if (!node) {
+      return []
+    }
+
+    return this.childrenOf(node.parentId).map(sibling => sibling.message.id)
+  }
+
+  /**
+   * Version lists for the messages of a path that have alternatives
+   */
+  branchesAlong(path: Message[]): Record<string, string[]> {
+    const branches: Record<string, string[]> = {}
+
+    for (const message of path) {
+      if (!message.id) continue
+
+      const versions = this.versionsOf(message.id)
+      if (versions.length > 1) {
+        branches[message.id] = versions
+      }
+    }
+
+    return branches
+  }
+
+  toNodes(): ConversationNode[] {
+    return Array.from(this.nodes.values())
+  }
+
+  private add(node: ConversationNode): void {
+    this.nodes.set(node.message.id, node)
+
+    const siblings = this.children.get(node.parentId)
+    if (siblings) {
+      siblings.push(node)
+    } else {
+      this.children.set(node.parentId, [node])
+    }
+  }
+
+  // Children in insertion order, so the last one is the newest
+  private childrenOf(parentId: string | null): ConversationNode[] {
+    return this.children.get(parentId) ?? []
+  }
+}
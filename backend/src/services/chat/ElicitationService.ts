@@ -0,0 +1,81 @@
+import { ToolArgumentValidator, type ToolArgumentIssue } from '../mcp/ToolArgumentValidator.js'
+import type { ElicitationResponse, MCPTool } from '../../../../shared/types/index.js'
+
+// How long a server's question waits for the user before it is treated as cancelled
+const RESPONSE_TIMEOUT_MS = 5 * 60 * 1000
+
+interface PendingElicitation {
+  requestedSchema: MCPTool['inputSchema']
+  resolve: (response: ElicitationResponse) => void
+}
+
+export type ElicitationDelivery =
+  | { delivered: true }
+  | { delivered: false; reason: 'not_found' }
+  | { delivered: false; reason: 'invalid'; issues: ToolArgumentIssue[] }
+
+/**
+ * ElicitationService holds the questions MCP servers ask during a tool call
+ * (elicitation/create) until the user answers them.
+ *
+ * Accepted answers are checked against the requested schema before they are
+ * passed on, so the user can correct them instead of failing the tool call.
+ * A question nobody answers is cancelled, never declined - the user made no choice.
+ */
+export class ElicitationService {
+  private pending: Map<string, PendingElicitation> = new Map()
+  private validator = new ToolArgumentValidator()
+
+  /**
+   * Wait for the user's answer
+   * Resolves as cancelled on timeout or when the signal aborts (tool call or turn cancelled)
+   */
+  waitForResponse(
+    elicitationId: string,
+    requestedSchema: MCPTool['inputSchema'],
+    signal?: AbortSignal
+  ): Promise<ElicitationResponse> {
+    return new Promise((resolve) => {
+      const finish = (response: ElicitationResponse) => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        this.pending.delete(elicitationId)
+        resolve(response)
+      }
+
+      const onAbort = () => finish({ action: 'cancel' })
+      const timer = setTimeout(() => finish({ action: 'cancel' }), RESPONSE_TIMEOUT_MS)
+
+      if (signal?.aborted) {
+        onAbort()
+        return
+      }
+      signal?.addEventListener('abort', onAbort)
+      this.pending.set(elicitationId, { requestedSchema, resolve: finish })
+    })
+  }
+
+  /**
+   * Deliver the user's answer; content is only kept when accepting
+   */
+  resolveElicitation(elicitationId: string, response: ElicitationResponse): ElicitationDelivery {
+    const pending = this.pending.get(elicitationId)
+    if (!pending) {
+      return { delivered: false, reason: 'not_found' }
+    }
+
+    if (response.action !== 'accept') {
+      pending.resolve({ action: response.action })
+      return { delivered: true }
+    }
+
+    const content = response.content ?? {}
+    const issues = this.validator.check(pending.requestedSchema, content, 'elicitation')
+    if (issues.length > 0) {
+      return { delivered: false, reason: 'invalid', issues }
+    }
+
+    pending.resolve({ action: 'accept', content })
+    return { delivered: true }
+  }
+}
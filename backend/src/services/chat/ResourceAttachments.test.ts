@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { contentWithAttachments } from './ResourceAttachments.js'
+import type { Message } from '../../../../shared/types/index.js'
+
+describe('ResourceAttachments', () => {
+  it('should leave messages without attachments unchanged', () => {
+    expect(contentWithAttachments({ role: 'user', content: 'Hello', timestamp: 1 })).toBe('Hello')
+  })
+
+  it('should append each attached resource after the typed text', () => {
+    const message: Message = {
+      role: 'user',
+      content: 'Summarize my notes',
+      timestamp: 1,
+      attachments: [
+        { serverId: 's1', uri: 'file:///todo.md', name: 'todo.md', mimeType: 'text/markdown', text: '- buy milk', readAt: '2026-01-01T00:00:00Z' },
+        { serverId: 's1', uri: 'file:///done.md', name: 'done.md', text: '- nothing', readAt: '2026-01-01T00:00:00Z' }
+      ]
+    }
+
+    expect(contentWithAttachments(message)).toBe([
+      'Summarize my notes',
+      '<resource uri="file:///todo.md" name="todo.md" mimeType="text/markdown">\n- buy milk\n</resource>',
+      '<resource uri="file:///done.md" name="done.md">\n- nothing\n</resource>'
+    ].join('\n\n'))
+  })
+})
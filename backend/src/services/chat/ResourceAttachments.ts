@@ -0,0 +1,18 @@
+import type { Message } from '../../../../shared/types/index.js'
+
+/**
+ * A message's content as the LLM sees it: the text the user typed, followed
+ * by each attached resource in a block naming where it came from
+ */
+export function contentWithAttachments(message: Message): string {
+  if (!message.attachments?.length) {
+    return message.content
+  }
+
+  const blocks = message.attachments.map(attachment => {
+    const mimeType = attachment.mimeType ? ` mimeType="${attachment.mimeType}"` : ''
+    return `<resource uri="${attachment.uri}" name="${attachment.name}"${mimeType}>\n${attachment.text}\n</resource>`
+  })
+
+  return [message.content, ...blocks].filter(Boolean).join('\n\n')
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { ToolApprovalService } from './ToolApprovalService.js'
+import { ConfigService } from '../config/ConfigService.js'
+import { EncryptionService } from '../config/EncryptionService.js'
+import { Repository } from '../../db/repository.js'
+import { initializeDatabase } from '../../db/schema.js'
+import type { MCPTool } from '../../../../shared/types/index.js'
+import type { Database } from 'better-sqlite3'
+
+describe('ToolApprovalService', () => {
+  let db: Database
+  let configService: ConfigService
+  let approvalService: ToolApprovalService
+  let serverId: string
+
+  const makeTool = (name: string, annotations?: MCPTool['annotations']): MCPTool => ({
+    name,
+    description: `${name} tool`,
+    inputSchema: { type: 'object', properties: {} },
+    annotations,
+    serverId
+  })
+
+  beforeEach(() => {
+    db = initializeDatabase(':memory:')
+    const encryption = new EncryptionService('test-secret-key-at-least-32-chars')
+    configService = new ConfigService(new Repository(db, encryption))
+    approvalService = new ToolApprovalService(configService)
+
+    serverId = configService.addMCPServer('Filesystem', 'stdio', { command: 'node', args: [] }).id
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  describe('requiresApproval', () => {
+    it('should not ask when the server has no policy', () => {
+      expect(approvalService.requiresApproval(makeTool('write_file'))).toBe(false)
+    })
+
+    it('should ask for every tool in always mode', () => {
+      configService.setApprovalPolicy(serverId, { mode: 'always' })
+
+      expect(approvalService.requiresApproval(makeTool('read_file'))).toBe(true)
+    })
+
+    it('should only ask for annotated destructive tools in destructive mode', () => {
+      configService.setApprovalPolicy(serverId, { mode: 'destructive' })
+
+      expect(approvalService.requiresApproval(makeTool('delete_file', { destructiveHint: true }))).toBe(true)
+      expect(approvalService.requiresApproval(makeTool('read_file', { readOnlyHint: true }))).toBe(false)
+      expect(approvalService.requiresApproval(makeTool('list_files'))).toBe(false)
+    })
+
+    it('should let per-tool overrides win over the server mode', () => {
+      configService.setApprovalPolicy(serverId, {
+        mode: 'always',
+        tools: { read_file: 'never' }
+      })
+
+      expect(approvalService.requiresApproval(makeTool('read_file'))).toBe(false)
+      expect(approvalService.requiresApproval(makeTool('write_file'))).toBe(true)
+    })
+  })
+
+  describe('waitForDecision', () => {
+    const writeFile = (): MCPTool => ({
+      ...makeTool('write_file'),
+      inputSchema: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] }
+    })
+
+    it('should resolve with the decision delivered for the approval', async () => {
+      const decision = approvalService.waitForDecision('approval-1', writeFile(), 'conversation-1')
+
+      expect(approvalService.resolveApproval('approval-1', 'conversation-1', {
+        approved: true,
+        arguments: { path: '/tmp/edited.txt' }
+      })).toEqual({ delivered: true })
+
+      await expect(decision).resolves.toEqual({
+        approved: true,
+        arguments: { path: '/tmp/edited.txt' }
+      })
+    })
+
+    it('should report unknown approvals', () => {
+      expect(approvalService.resolveApproval('missing', 'conversation-1', { approved: false }))
+        .toEqual({ delivered: false, reason: 'not_found' })
+    })
+
+    it('should only take decisions sent for the conversation of the call', async () => {
+      const decision = approvalService.waitForDecision('approval-3', writeFile(), 'conversation-1')
+
+      expect(approvalService.resolveApproval('approval-3', 'conversation-2', { approved: true }))
+        .toEqual({ delivered: false, reason: 'not_found' })
+      expect(approvalService.resolveApproval('approval-3', 'conversation-1', { approved: false }))
+        .toEqual({ delivered: true })
+      await expect(decision).resolves.toEqual({ approved: false })
+    })
+
+    it('should refuse edited arguments that do not match the tool, and keep waiting', async () => {
+      const decision = approvalService.waitForDecision('approval-4', writeFile(), 'conversation-1')
+
+      const refused = approvalService.resolveApproval('approval-4', 'conversation-1', {
+        approved: true,
+        arguments: { path: 42 }
+      })
+      expect(refused).toMatchObject({ delivered: false, reason: 'invalid', issues: [{ path: '/path' }] })
+
+      expect(approvalService.resolveApproval('approval-4', 'conversation-1', {
+        approved: true,
+        arguments: { path: '/tmp/fixed.txt' }
+      })).toEqual({ delivered: true })
+      await expect(decision).resolves.toEqual({ approved: true, arguments: { path: '/tmp/fixed.txt' } })
+    })
+
+    it('should reject when the turn is cancelled', async () => {
+      const controller = new AbortController()
+      const decision = approvalService.waitForDecision('approval-2', writeFile(), 'conversation-1', controller.signal)
+
+      controller.abort(new Error('Client disconnected'))
+
+      await expect(decision).rejects.toThrow('Client disconnected')
+      expect(approvalService.resolveApproval('approval-2', 'conversation-1', { approved: true }))
+        .toEqual({ delivered: false, reason: 'not_found' })
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import type { ConfigService } from '../config/ConfigService.js'
+import { ToolArgumentValidator, type ToolArgumentIssue } from '../mcp/ToolArgumentValidator.js'
+import type {
+  MCPTool,
+  ToolApprovalDecision,
+  ToolApprovalMode
+} from '../../../../shared/types/index.js'
+
+// How long a tool call waits for the user before it is treated as denied
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000
+
+interface PendingApproval {
+  tool: MCPTool
+  conversationId?: string  // Only answers sent for this conversation are taken
+  resolve: (decision: ToolApprovalDecision) => void
+}
+
+export type ToolApprovalDelivery =
+  | { delivered: true }
+  | { delivered: false; reason: 'not_found' }
+  | { delivered: false; reason: 'invalid'; issues: ToolArgumentIssue[] }
+
+/**
+ * ToolApprovalService decides which tool calls need human approval and
+ * holds paused tool calls until the user answers.
+ *
+ * Policies are stored per server (with per-tool overrides). Servers without
+ * a policy never ask, which keeps the previous behavior.
+ * Edited arguments are checked against the tool's inputSchema before the call
+ * resumes, so the user can correct them instead of failing the tool call.
+ */
+export class ToolApprovalService {
+  private pending: Map<string, PendingApproval> = new Map()
+  private validator = new ToolArgumentValidator()
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Resolve the effective approval mode for a tool
+   */
+  getApprovalMode(tool: MCPTool): ToolApprovalMode {
+    const policy = this.configService.getMCPServer(tool.serverId)?.approvalPolicy
+    if (!policy) {
+      return 'never'
+    }
+
+    return policy.tools?.[tool.name] ?? policy.mode
+  }
+
+  /**
+   * Check if a tool call must be approved before it runs
+   */
+  requiresApproval(tool: MCPTool): boolean {
+    const mode = this.getApprovalMode(tool)
+
+    if (mode === 'always') return true
+    if (mode === 'never') return false
+
+    // 'destructive' - only tools that explicitly declare themselves destructive
+    const annotations = tool.annotations
+    return annotations?.destructiveHint === true && annotations.readOnlyHint !== true
+  }
+
+  /**
+   * Wait for the user's decision on a paused tool call
+   * Times out as a denial; rejects if the turn is cancelled
+   *
+   * @param approvalId - Id the client answers with
+   * @param tool - Tool waiting to run
+   * @param conversationId - Conversation of the turn the call belongs to
+   * @param signal - Cancels the wait
+   */
+  waitForDecision(
+    approvalId: string,
+    tool: MCPTool,
+    conversationId?: string,
+    signal?: AbortSignal
+  ): Promise<ToolApprovalDecision> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason ?? new Error('Cancelled'))
+        return
+      }
+
+      const cleanup = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        this.pending.delete(approvalId)
+      }
+
+      const onAbort = () => {
+        cleanup()
+        reject(signal?.reason ?? new Error('Cancelled'))
+      }
+
+      const timer = setTimeout(() => {
+        cleanup()
+        resolve({ approved: false, reason: 'No response from user' })
+      }, APPROVAL_TIMEOUT_MS)
+
+      signal?.addEventListener('abort', onAbort)
+
+      this.pending.set(approvalId, {
+        tool,
+        conversationId,
+        resolve: (decision) => {
+          cleanup()
+          resolve(decision)
+        }
+      })
+    })
+  }
+
+  /**
+   * Deliver the user's decision
+   * An approval of another conversation is reported as not found
+   */
+  resolveApproval(approvalId: string, conversationId: string, decision: ToolApprovalDecision): ToolApprovalDelivery {
+    const pending = this.pending.get(approvalId)
+    if (!pending || pending.conversationId !== conversationId) {
+      return { delivered: false, reason: 'not_found' }
+    }
+
+    if (decision.approved && decision.arguments) {
+      const issues = this.validator.check(pending.tool.inputSchema, decision.arguments, pending.tool.name)
+      if (issues.length > 0) {
+        return { delivered: false, reason: 'invalid', issues }
+      }
+    }
+
+    pending.resolve(decision)
+    return { delivered: true }
+  }
+}
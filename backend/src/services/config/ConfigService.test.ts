@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ConfigService } from './ConfigService.js'
+import { EncryptionService } from './EncryptionService.js'
+import { initializeDatabase } from '../../db/schema.js'
+import { Repository } from '../../db/repository.js'
+import { applyArgumentRules } from '../mcp/ArgumentRules.js'
+
+describe('ConfigService', () => {
+  let dir: string | undefined
+
+  afterEach(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true })
+      dir = undefined
+    }
+  })
+
+  // mcp_servers as it was before tool approval, aliases and argument rules
+  const createOldDatabase = (dbPath: string, servers: Array<{ id: string; name: string; command: string; args: string[] }>) => {
+    const db = new Database(dbPath)
+    db.exec(`
+      CREATE TABLE mcp_servers (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('stdio', 'http')),
+        config TEXT NOT NULL,
+        enabled INTEGER DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+    const insert = db.prepare("INSERT INTO mcp_servers (id, name, type, config) VALUES (?, ?, 'stdio', ?)")
+    for (const server of servers) {
+      insert.run(server.id, server.name, JSON.stringify({ command: server.command, args: server.args }))
+    }
+    db.close()
+  }
+
+  const openConfig = (db: Database.Database) => {
+    const configService = new ConfigService(new Repository(db, new EncryptionService('test-secret-key-at-least-32-chars')))
+    configService.backfillArgumentRules()
+    return configService
+  }
+
+  it('should give Garmin servers saved by older versions the catalog date rules', () => {
+    dir = mkdtempSync(join(tmpdir(), 'config-test-'))
+    const dbPath = join(dir, 'old.db')
+    createOldDatabase(dbPath, [
+      { id: 'garmin', name: 'Garmin', command: 'node', args: ['/opt/garmin-mcp-server/build/index.js'] },
+      { id: 'other', name: 'Other', command: 'node', args: ['/opt/weather/index.js'] }
+    ])
+
+    const db = initializeDatabase(dbPath)
+    const configService = openConfig(db)
+
+    const garmin = configService.getMCPServer('garmin')!
+    const { arguments: args } = applyArgumentRules(garmin.argumentRules!, 'get_sleep_data', {}, {
+      now: new Date('2024-03-01T23:30:00Z'),
+      timeZone: 'Europe/Berlin'
+    })
+    expect(args).toEqual({ date_str: '2024-03-02' })
+    expect(configService.getMCPServer('other')!.argumentRules).toBeUndefined()
+
+    // Rules the user cleared afterwards stay cleared
+    configService.setArgumentRules('garmin', [])
+    db.close()
+    const reopened = initializeDatabase(dbPath)
+    expect(openConfig(reopened).getMCPServer('garmin')!.argumentRules).toEqual([])
+    reopened.close()
+  })
+})
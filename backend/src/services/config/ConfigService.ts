@@ -1,5 +1,6 @@
 import { Repository } from '../../db/repository.js'
-import { LLMConfig, MCPServerConfig } from '../../../../shared/types/index.js'
+import { ArgumentRule, LLMConfig, MCPServerConfig, SamplingPolicy, StdioConfig, ToolApprovalPolicy } from '../../../../shared/types/index.js'
+import { findTemplateForServer } from '../mcp/MCPServerCatalog.js'
 import { v4 as uuidv4 } from 'uuid'
 
 export class ConfigService {
@@ -30,7 +31,8 @@ export class ConfigService {
   addMCPServer(
     name: string,
     type: 'stdio' | 'http',
-    config: any
+    config: any,
+    argumentRules?: ArgumentRule[]
   ): MCPServerConfig {
     const server: MCPServerConfig = {
       id: uuidv4(),
@@ -38,6 +40,7 @@ export class ConfigService {
       type,
       enabled: true,
       config,
+      argumentRules,
       createdAt: new Date().toISOString()
     }
 
@@ -53,7 +56,47 @@ export class ConfigService {
     this.repository.deleteMCPServer(id)
   }
 
+  /**
+   * Give servers saved before argument rules existed the rules of the catalog template they match
+   * (e.g. Garmin's local date, which used to be injected by MCPService). Run at startup.
+   * Only servers that never had rules are touched - rules the user cleared are stored as []
+   */
+  backfillArgumentRules(): void {
+    for (const server of this.repository.getAllMCPServers()) {
+      if (server.type !== 'stdio' || server.argumentRules !== undefined) continue
+
+      const config = server.config as StdioConfig
+      const rules = findTemplateForServer({ command: config.command, args: config.args ?? [] })?.argumentRules
+      if (rules) {
+        this.repository.updateMCPServer(server.id, { argumentRules: rules })
+      }
+    }
+  }
+
   toggleMCPServer(id: string, enabled: boolean): void {
     this.repository.updateMCPServer(id, { enabled })
   }
+
+  setApprovalPolicy(id: string, approvalPolicy: ToolApprovalPolicy): void {
+    this.repository.updateMCPServer(id, { approvalPolicy })
+  }
+
+  /**
+   * Set the prefix of a server's tool names; null goes back to the one derived from its name
+   */
+  setToolAlias(id: string, alias: string | null): void {
+    this.repository.updateMCPServer(id, { alias: alias ?? '' })
+  }
+
+  setArgumentRules(id: string, argumentRules: ArgumentRule[]): void {
+    this.repository.updateMCPServer(id, { argumentRules })
+  }
+
+  setSamplingPolicy(id: string, samplingPolicy: SamplingPolicy): void {
+    this.repository.updateMCPServer(id, { samplingPolicy })
+  }
+
+  setRoots(id: string, roots: string[]): void {
+    this.repository.updateMCPServer(id, { roots })
+  }
 }
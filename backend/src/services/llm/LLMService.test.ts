@@ -94,6 +94,22 @@ describe('LLMService', () => {
       expect(lastRequest?.messages[0].content).toBe('Hello, how are you?')
     })
 
+    it('should let one call replace the configured completion settings', async () => {
+      const service = new LLMService({ ...config, maxTokens: 2000, temperature: 0.2 })
+
+      const response = await service.chat(
+        [{ role: 'user', content: 'Summarize', timestamp: Date.now() }],
+        undefined,
+        { maxTokens: 50, temperature: 0.9, stopSequences: ['END'] }
+      )
+
+      expect(response.model).toBe('test-model')
+      const lastRequest = testServer.getLastRequest()
+      expect(lastRequest?.max_tokens).toBe(50)
+      expect(lastRequest?.temperature).toBe(0.9)
+      expect(lastRequest?.stop).toEqual(['END'])
+    })
+
     it('should include tools when provided', async () => {
       const messages: Message[] = [
         { role: 'user', content: 'What is 2+2?', timestamp: Date.now() }
@@ -206,5 +222,22 @@ describe('LLMService', () => {
       expect(chunks.length).toBeGreaterThan(0)
       expect(chunks.join('')).toBe('Once upon a time')
     })
+
+    it('should stop streaming when the signal is aborted', async () => {
+      const messages: Message[] = [
+        { role: 'user', content: 'Tell me a story', timestamp: Date.now() }
+      ]
+
+      const controller = new AbortController()
+      controller.abort()
+
+      const consume = async () => {
+        for await (const _chunk of llmService.chatStream(messages, undefined, controller.signal)) {
+          // Should never receive chunks
+        }
+      }
+
+      await expect(consume()).rejects.toThrow()
+    })
   })
 })
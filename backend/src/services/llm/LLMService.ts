@@ -2,10 +2,31 @@ import OpenAI from 'openai'
 import { LLMConfig } from '../../../../shared/types/index.js'
 import type { Message } from '../../../../shared/types/index.js'
 import type { MCPTool } from '../../../../shared/types/index.js'
+import { functionNameFor } from '../mcp/ToolNamespace.js'
+import { contentWithAttachments } from '../chat/ResourceAttachments.js'
+
+// Tokens kept free for the reply when maxTokens isn't configured
+const DEFAULT_RESPONSE_RESERVE = 1024
+
+export interface ContextLimits {
+  contextWindow?: number  // Not configured - the history is sent as it is
+  responseReserve: number
+}
 
 export interface LLMResponse {
   message: Message
   finishReason: 'stop' | 'tool_calls' | 'length' | 'content_filter'
+  model: string  // As reported by the endpoint
+}
+
+/**
+ * Settings for one completion that replace the configured ones
+ */
+export interface CompletionOptions {
+  maxTokens?: number
+  temperature?: number
+  stopSequences?: string[]
+  signal?: AbortSignal
 }
 
 export class LLMService {
@@ -30,6 +51,16 @@ export class LLMService {
     return this.client !== null && this.config !== null
   }
 
+  /**
+   * Context size of the configured model and the share reserved for the reply
+   */
+  getContextLimits(): ContextLimits {
+    return {
+      contextWindow: this.config?.contextWindow,
+      responseReserve: this.config?.maxTokens ?? DEFAULT_RESPONSE_RESERVE
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     if (!this.client) return false
 
@@ -44,7 +75,7 @@ export class LLMService {
   private transformToOpenAIMessages(messages: Message[]) {
     return messages.map(msg => ({
       role: msg.role,
-      content: msg.content,
+      content: contentWithAttachments(msg),
       tool_calls: msg.tool_calls,
       tool_call_id: msg.tool_call_id
     }))
@@ -54,7 +85,7 @@ export class LLMService {
     return tools?.map(tool => ({
       type: 'function' as const,
       function: {
-        name: tool.name,
+        name: functionNameFor(tool),
         description: tool.description,
         parameters: tool.inputSchema
       }
@@ -63,7 +94,8 @@ export class LLMService {
 
   async chat(
     messages: Message[],
-    tools?: MCPTool[]
+    tools?: MCPTool[],
+    options: CompletionOptions = {}
   ): Promise<LLMResponse> {
     if (!this.client || !this.config) {
       throw new Error('LLM service not configured')
@@ -77,12 +109,13 @@ export class LLMService {
         model: this.config.model,
         messages: openaiMessages as any,
         tools: openaiTools,
-        temperature: this.config.temperature ?? 0.7,
-        max_tokens: this.config.maxTokens,
+        temperature: options.temperature ?? this.config.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? this.config.maxTokens,
         top_p: this.config.topP,
         presence_penalty: this.config.presencePenalty,
-        frequency_penalty: this.config.frequencyPenalty
-      })
+        frequency_penalty: this.config.frequencyPenalty,
+        stop: options.stopSequences
+      }, { signal: options.signal })
 
       const choice = response.choices[0]
       const message: Message = {
@@ -94,7 +127,8 @@ export class LLMService {
 
       return {
         message,
-        finishReason: choice.finish_reason as any
+        finishReason: choice.finish_reason as any,
+        model: response.model || this.config.model
       }
     } catch (error: any) {
       if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
@@ -108,11 +142,13 @@ export class LLMService {
 
   async *chatStream(
     messages: Message[],
-    tools?: MCPTool[]
+    tools?: MCPTool[],
+    signal?: AbortSignal
   ): AsyncGenerator<{
     type: 'content' | 'tool_call' | 'done'
     content?: string
     tool_call?: any
+    finishReason?: string
   }> {
     if (!this.client || !this.config) {
       throw new Error('LLM service not configured')
@@ -131,7 +167,7 @@ export class LLMService {
       presence_penalty: this.config.presencePenalty,
       frequency_penalty: this.config.frequencyPenalty,
       stream: true
-    })
+    }, { signal })
 
     for await (const chunk of stream) {
       const delta = chunk.choices[0]?.delta
@@ -145,7 +181,7 @@ export class LLMService {
       }
 
       if (chunk.choices[0]?.finish_reason) {
-        yield { type: 'done' }
+        yield { type: 'done', finishReason: chunk.choices[0].finish_reason }
       }
     }
   }
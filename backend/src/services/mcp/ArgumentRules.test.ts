@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { applyArgumentRules, renderTemplate } from './ArgumentRules.js'
+import type { ArgumentRule } from '../../../../shared/types/index.js'
+
+// 23:30 UTC on March 1st - already March 2nd east of UTC
+const now = new Date('2024-03-01T23:30:00Z')
+
+describe('ArgumentRules', () => {
+  describe('renderTemplate', () => {
+    it('should resolve dates in the user timezone', () => {
+      expect(renderTemplate('{{today}}', { now, timeZone: 'UTC' })).toBe('2024-03-01')
+      expect(renderTemplate('{{today}}', { now, timeZone: 'Europe/Berlin' })).toBe('2024-03-02')
+      expect(renderTemplate('{{now:date}} {{now:time}}', { now, timeZone: 'America/New_York' })).toBe('2024-03-01 18:30')
+    })
+
+    it('should include the UTC offset in ISO timestamps', () => {
+      expect(renderTemplate('{{now:iso}}', { now, timeZone: 'Europe/Berlin' })).toBe('2024-03-02T00:30:00+01:00')
+      expect(renderTemplate('{{now:iso}}', { now, timeZone: 'America/New_York' })).toBe('2024-03-01T18:30:00-05:00')
+      expect(renderTemplate('{{now:iso}}', { now, timeZone: 'Asia/Kolkata' })).toBe('2024-03-02T05:00:00+05:30')
+    })
+
+    it('should resolve unix time and the timezone name', () => {
+      expect(renderTemplate('{{now:unix}}', { now })).toBe('1709335800')
+      expect(renderTemplate('{{timezone}}', { now, timeZone: 'Europe/Berlin' })).toBe('Europe/Berlin')
+    })
+
+    it('should leave unknown placeholders and timezones alone', () => {
+      expect(renderTemplate('{{tomorrow}} at {{ today }}', { now, timeZone: 'UTC' })).toBe('{{tomorrow}} at 2024-03-01')
+      expect(renderTemplate('{{now:unix}}', { now, timeZone: 'Mars/Olympus' })).toBe('1709335800')
+    })
+  })
+
+  describe('applyArgumentRules', () => {
+    const rules: ArgumentRule[] = [
+      { tool: 'get_steps', type: 'default', argument: 'date_str', value: '{{today}}' },
+      { tool: '*', type: 'default', argument: 'limit', value: 10 },
+      { tool: 'get_steps', type: 'rename', argument: 'date', to: 'date_str' }
+    ]
+
+    it('should fill in missing arguments for matching tools', () => {
+      const result = applyArgumentRules(rules, 'get_steps', {}, { now, timeZone: 'UTC' })
+
+      expect(result.arguments).toEqual({ date_str: '2024-03-01', limit: 10 })
+      expect(result.applied).toHaveLength(2)
+    })
+
+    it('should keep arguments the LLM provided', () => {
+      const result = applyArgumentRules(rules, 'get_steps', { date_str: '2024-01-01', limit: 3 }, { now })
+
+      expect(result.arguments).toEqual({ date_str: '2024-01-01', limit: 3 })
+      expect(result.applied).toEqual([])
+    })
+
+    it('should rename before applying defaults', () => {
+      const args = { date: '2024-02-02' }
+
+      const result = applyArgumentRules(rules, 'get_steps', args, { now })
+
+      expect(result.arguments).toEqual({ date_str: '2024-02-02', limit: 10 })
+      expect(args).toEqual({ date: '2024-02-02' })
+    })
+
+    it('should only apply wildcard rules to other tools', () => {
+      const result = applyArgumentRules(rules, 'get_sleep', {}, { now })
+
+      expect(result.arguments).toEqual({ limit: 10 })
+    })
+  })
+})
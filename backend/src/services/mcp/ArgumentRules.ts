@@ -0,0 +1,137 @@
+import type { ArgumentRule } from '../../../../shared/types/index.js'
+
+/**
+ * Argument Rules
+ *
+ * Per-server rewrites of tool call arguments (defaults and renames), applied
+ * before a call is approved, validated and run. Replaces server-specific
+ * fixes in code - e.g. a server that reads dates in UTC gets
+ * `{ type: 'default', argument: 'date', value: '{{today}}' }`.
+ */
+
+export interface ArgumentRuleContext {
+  timeZone?: string  // IANA timezone of the user; the server's own when missing or unknown
+  now?: Date
+}
+
+export interface ArgumentRuleResult {
+  arguments: Record<string, any>
+  applied: ArgumentRule[]
+}
+
+const TEMPLATE_PATTERN = /\{\{\s*([a-z]+(?::[a-z]+)?)\s*\}\}/g
+
+/**
+ * Apply the rules for one tool to its arguments
+ * Renames run before defaults, so a default can target the renamed argument.
+ *
+ * @returns New arguments (the input is not modified) and the rules that changed something
+ */
+export function applyArgumentRules(
+  rules: ArgumentRule[],
+  toolName: string,
+  args: Record<string, any>,
+  context: ArgumentRuleContext = {}
+): ArgumentRuleResult {
+  const result = { ...args }
+  const applied: ArgumentRule[] = []
+  const matching = rules.filter(rule => rule.tool === '*' || rule.tool === toolName)
+
+  for (const rule of matching.filter(r => r.type === 'rename')) {
+    if (rule.to && rule.argument in result && !(rule.to in result)) {
+      result[rule.to] = result[rule.argument]
+      delete result[rule.argument]
+      applied.push(rule)
+    }
+  }
+
+  for (const rule of matching.filter(r => r.type === 'default')) {
+    if (rule.value !== undefined && (result[rule.argument] === undefined || result[rule.argument] === null)) {
+      result[rule.argument] = typeof rule.value === 'string'
+        ? renderTemplate(rule.value, context)
+        : rule.value
+      applied.push(rule)
+    }
+  }
+
+  return { arguments: result, applied }
+}
+
+/**
+ * Replace {{...}} placeholders with the current date and time
+ * Unknown placeholders are left as they are
+ */
+export function renderTemplate(template: string, context: ArgumentRuleContext = {}): string {
+  const now = context.now ?? new Date()
+  const timeZone = resolveTimeZone(context.timeZone)
+
+  return template.replace(TEMPLATE_PATTERN, (placeholder, name: string) => {
+    switch (name) {
+      case 'today':
+      case 'now:date':
+        return localParts(now, timeZone).date
+      case 'now:time':
+        return localParts(now, timeZone).time.slice(0, 5)
+      case 'now:iso':
+        return localIso(now, timeZone)
+      case 'now:unix':
+        return String(Math.floor(now.getTime() / 1000))
+      case 'timezone':
+        return timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+      default:
+        return placeholder
+    }
+  })
+}
+
+function resolveTimeZone(timeZone?: string): string | undefined {
+  if (!timeZone) return undefined
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return timeZone
+  } catch {
+    console.warn(`[ArgumentRules] Unknown timezone '${timeZone}', using the server's`)
+    return undefined
+  }
+}
+
+/**
+ * Wall-clock date (YYYY-MM-DD) and time (HH:mm:ss) in a timezone
+ */
+function localParts(date: Date, timeZone?: string): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+      .formatToParts(date)
+      .map(part => [part.type, part.value])
+  )
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`
+  }
+}
+
+/**
+ * ISO 8601 timestamp with the timezone's UTC offset, e.g. 2024-03-01T09:30:00+01:00
+ */
+function localIso(date: Date, timeZone?: string): string {
+  const local = localParts(date, timeZone)
+  const wallClockAsUtc = Date.parse(`${local.date}T${local.time}Z`)
+  const offsetMinutes = Math.round((wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000)
+
+  const sign = offsetMinutes >= 0 ? '+' : '-'
+  const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0')
+  const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, '0')
+
+  return `${local.date}T${local.time}${sign}${hours}:${minutes}`
+}
@@ -0,0 +1,78 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { ConformanceRunner } from './ConformanceRunner.js'
+import { TestMCPServer, type ToolDefinition } from '../../tests/helpers/TestMCPServer.js'
+import type { ConformanceReport, MCPServerConfig } from '../../../../shared/types/index.js'
+
+const searchTool: ToolDefinition = {
+  name: 'search',
+  description: 'Search the catalog',
+  inputSchema: {
+    type: 'object',
+    properties: { query: { type: 'string', description: 'Words to look for' } },
+    required: ['query']
+  }
+}
+
+const statusOf = (report: ConformanceReport, id: string) => report.checks.find(c => c.id === id)?.status
+
+describe('ConformanceRunner', () => {
+  const runner = new ConformanceRunner()
+  let testServer: TestMCPServer
+
+  const serverConfig = async (): Promise<MCPServerConfig> => ({
+    id: 'conformance-1',
+    name: 'Conformance Server',
+    type: 'stdio',
+    enabled: true,
+    config: await testServer.setup(),
+    createdAt: new Date().toISOString()
+  })
+
+  afterEach(async () => {
+    await testServer.cleanup()
+  })
+
+  test('should pass a server that follows the protocol', async () => {
+    testServer = new TestMCPServer({ tools: [searchTool], validateCalls: true })
+
+    const report = await runner.run(await serverConfig())
+
+    expect(report.protocolVersion).toBe('2024-11-05')
+    expect(report.summary.fail).toBe(0)
+    expect(report.checks.map(c => c.id)).toEqual([
+      'handshake', 'capabilities', 'ping', 'tools_list', 'descriptions',
+      'invalid_arguments', 'error_shape', 'result_shape', 'response_time'
+    ])
+    expect(statusOf(report, 'invalid_arguments')).toBe('pass')
+    expect(statusOf(report, 'error_shape')).toBe('pass')
+    expect(statusOf(report, 'result_shape')).toBe('pass')
+  }, 15000)
+
+  test('should fail a server that accepts invalid calls', async () => {
+    testServer = new TestMCPServer({
+      tools: [
+        searchTool,
+        { name: 'broken', description: '', inputSchema: { type: 'string' } }
+      ]
+    })
+
+    const report = await runner.run(await serverConfig())
+
+    expect(statusOf(report, 'tools_list')).toBe('fail')
+    expect(report.checks.find(c => c.id === 'tools_list')?.details).toContainEqual(expect.stringMatching(/^broken: inputSchema must have "type": "object"/))
+    expect(statusOf(report, 'descriptions')).toBe('warn')
+    expect(statusOf(report, 'invalid_arguments')).toBe('fail')
+    expect(statusOf(report, 'error_shape')).toBe('fail')
+  }, 15000)
+
+  test('should skip the other checks when the handshake fails', async () => {
+    testServer = new TestMCPServer()
+    const config = await serverConfig()
+    config.config = { command: 'node', args: ['-e', 'process.exit(1)'] }
+
+    const report = await runner.run(config)
+
+    expect(statusOf(report, 'handshake')).toBe('fail')
+    expect(report.summary).toEqual({ pass: 0, warn: 0, fail: 1, skip: 8 })
+  }, 15000)
+})
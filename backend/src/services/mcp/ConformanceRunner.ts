@@ -0,0 +1,510 @@
+import Ajv from 'ajv'
+import addFormats from 'ajv-formats'
+import { z } from 'zod'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { ErrorCode, McpError, type ClientRequest, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import type {
+  ConformanceCheck,
+  ConformanceReport,
+  ConformanceStatus,
+  HTTPConfig,
+  MCPServerConfig,
+  StdioConfig
+} from '../../../../shared/types/index.js'
+import { RecordingTransport } from './ProtocolRecorder.js'
+
+/** Requests slower than this are flagged */
+const SLOW_REQUEST_MS = 1000
+
+/** Requests slower than this fail the response time check */
+const TOO_SLOW_REQUEST_MS = 5000
+
+/** Give up on a single request after this long */
+const REQUEST_TIMEOUT_MS = 10000
+
+/** Tools called with invalid arguments, at most */
+const MAX_PROBED_TOOLS = 20
+
+/** Stop following tools/list cursors after this many pages */
+const MAX_TOOL_PAGES = 100
+
+/** Tool names the spec recommends: letters, digits, '_', '-' and '.' */
+const TOOL_NAME = /^[A-Za-z0-9_.-]{1,128}$/
+
+const UNKNOWN_TOOL = '__conformance_unknown_tool__'
+
+const CONTENT_TYPES = ['text', 'image', 'audio', 'resource_link', 'resource']
+
+/** Results are checked by the suite, not by the SDK */
+const AnyResultSchema = z.object({}).passthrough()
+
+const CHECKS = {
+  handshake: 'Initialize handshake',
+  capabilities: 'Capability negotiation',
+  ping: 'Ping',
+  tools_list: 'tools/list schema validity',
+  descriptions: 'Descriptions',
+  invalid_arguments: 'Invalid arguments',
+  error_shape: 'Error shape',
+  result_shape: 'Empty and malformed results',
+  response_time: 'Response time'
+} as const
+
+type CheckId = keyof typeof CHECKS
+
+const SEVERITY: Record<ConformanceStatus, number> = { skip: 0, pass: 1, warn: 2, fail: 3 }
+
+interface RawTool {
+  name?: unknown
+  description?: unknown
+  inputSchema?: any
+  outputSchema?: any
+}
+
+interface Outcome {
+  result?: Record<string, any>
+  error?: Error
+  durationMs: number
+}
+
+/**
+ * State of one run, shared by the checks
+ */
+interface Session {
+  client: Client
+  timings: Array<{ method: string; durationMs: number }>
+  tools: RawTool[]
+  callResults: Array<{ label: string; result: Record<string, any> }>
+}
+
+/**
+ * ConformanceRunner checks how well a configured MCP server follows the protocol
+ *
+ * It opens a connection of its own, so the server's live connection and the
+ * chat are left alone. Tools are only called with arguments they must reject
+ * (required parameters missing, unknown tool name), never for real.
+ */
+export class ConformanceRunner {
+  private ajv: Ajv
+
+  constructor() {
+    this.ajv = new Ajv({ strict: false, allErrors: true, validateSchema: false })
+    addFormats(this.ajv)
+  }
+
+  async run(server: MCPServerConfig): Promise<ConformanceReport> {
+    const startedAt = new Date()
+    const checks: ConformanceCheck[] = []
+    const session: Session = {
+      client: new Client({ name: 'mcp-chatbot-conformance', version: '1.0.0' }, { capabilities: {} }),
+      timings: [],
+      tools: [],
+      callResults: []
+    }
+
+    // The handshake is done by the SDK; watch the wire to time it and read the negotiated version
+    let initialize: { id?: string | number; sentAt: number; result?: Record<string, any> } | undefined
+    const transport = new RecordingTransport(this.createTransport(server), (direction, message: JSONRPCMessage) => {
+      const raw = message as { id?: string | number; method?: string; result?: Record<string, any> }
+      if (direction === 'sent' && raw.method === 'initialize') {
+        initialize = { id: raw.id, sentAt: Date.now() }
+      } else if (direction === 'received' && initialize && !initialize.result && raw.id === initialize.id) {
+        initialize.result = raw.result ?? {}
+        session.timings.push({ method: 'initialize', durationMs: Date.now() - initialize.sentAt })
+      }
+    })
+
+    try {
+      const handshakeStart = Date.now()
+      let connectError: Error | undefined
+      try {
+        await session.client.connect(transport, { timeout: REQUEST_TIMEOUT_MS })
+      } catch (error: any) {
+        connectError = error
+      }
+
+      checks.push(this.checkHandshake(initialize?.result, connectError, Date.now() - handshakeStart))
+
+      if (!connectError) {
+        checks.push(await this.checkCapabilities(session))
+        checks.push(await this.checkPing(session))
+        checks.push(await this.checkToolsList(session))
+        checks.push(this.checkDescriptions(session))
+        checks.push(await this.checkInvalidArguments(session))
+        checks.push(await this.checkErrorShape(session))
+        checks.push(this.checkResultShape(session))
+        checks.push(this.checkResponseTime(session))
+      } else {
+        for (const id of Object.keys(CHECKS).slice(1) as CheckId[]) {
+          checks.push(this.check(id, 'skip', 'Skipped: the handshake failed'))
+        }
+      }
+    } finally {
+      await session.client.close().catch(() => {})
+    }
+
+    const summary = { pass: 0, warn: 0, fail: 0, skip: 0 }
+    for (const check of checks) {
+      summary[check.status]++
+    }
+
+    const serverInfo = session.client.getServerVersion()
+    return {
+      serverId: server.id,
+      serverName: server.name,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      protocolVersion: initialize?.result?.protocolVersion,
+      serverInfo: serverInfo ? { name: serverInfo.name, version: serverInfo.version } : undefined,
+      summary,
+      checks
+    }
+  }
+
+  private createTransport(server: MCPServerConfig): StdioClientTransport | StreamableHTTPClientTransport {
+    if (server.type === 'stdio') {
+      const config = server.config as StdioConfig
+      // The live connection already keeps the server's console
+      return new StdioClientTransport({ command: config.command, args: config.args, env: config.env, stderr: 'ignore' })
+    }
+
+    const config = server.config as HTTPConfig
+    return new StreamableHTTPClientTransport(
+      new URL(config.url),
+      config.headers ? { requestInit: { headers: config.headers } } : undefined
+    )
+  }
+
+  private checkHandshake(result: Record<string, any> | undefined, error: Error | undefined, durationMs: number): ConformanceCheck {
+    if (error) {
+      return this.check('handshake', 'fail', `initialize failed: ${error.message}`, undefined, durationMs)
+    }
+
+    const details = [`Protocol version ${result?.protocolVersion}`]
+    const info = result?.serverInfo
+    if (!info?.name || !info?.version) {
+      details.push('serverInfo should carry both name and version')
+      return this.check('handshake', 'warn', 'Connected, but serverInfo is incomplete', details, durationMs)
+    }
+
+    details.push(`Server ${info.name} ${info.version}`)
+    return this.check('handshake', 'pass', 'initialize and notifications/initialized completed', details, durationMs)
+  }
+
+  /**
+   * Capabilities the server declares must work; tools are expected of every server here
+   */
+  private async checkCapabilities(session: Session): Promise<ConformanceCheck> {
+    const capabilities = session.client.getServerCapabilities() ?? {}
+    const declared = Object.keys(capabilities)
+    const details = [`Declared: ${declared.length > 0 ? declared.join(', ') : 'nothing'}`]
+    let status: ConformanceStatus = 'pass'
+
+    if (!capabilities.tools) {
+      details.push('The tools capability is missing')
+      status = 'fail'
+    }
+
+    const probes: Array<[string, string, Record<string, unknown> | undefined]> = [
+      ['resources', 'resources/list', undefined],
+      ['prompts', 'prompts/list', undefined],
+      ['logging', 'logging/setLevel', { level: 'info' }]
+    ]
+    for (const [capability, method, params] of probes) {
+      if (!(capability in capabilities)) continue
+
+      const outcome = await this.request(session, method, params)
+      if (outcome.error) {
+        details.push(`${capability} is declared but ${method} failed: ${outcome.error.message}`)
+        status = 'fail'
+      }
+    }
+
+    return this.check(
+      'capabilities',
+      status,
+      status === 'pass' ? 'Declared capabilities answer' : 'Declared capabilities do not match what the server does',
+      details
+    )
+  }
+
+  private async checkPing(session: Session): Promise<ConformanceCheck> {
+    const outcome = await this.request(session, 'ping')
+    return outcome.error
+      ? this.check('ping', 'fail', `ping failed: ${outcome.error.message}`, undefined, outcome.durationMs)
+      : this.check('ping', 'pass', 'ping answered', undefined, outcome.durationMs)
+  }
+
+  private async checkToolsList(session: Session): Promise<ConformanceCheck> {
+    const details: string[] = []
+    let status: ConformanceStatus = 'pass'
+    let cursor: string | undefined
+
+    for (let page = 0; page < MAX_TOOL_PAGES; page++) {
+      const outcome = await this.request(session, 'tools/list', cursor ? { cursor } : undefined)
+      if (outcome.error) {
+        return this.check('tools_list', 'fail', `tools/list failed: ${outcome.error.message}`)
+      }
+      if (!Array.isArray(outcome.result?.tools)) {
+        return this.check('tools_list', 'fail', 'tools/list result has no tools array (use "tools": [] when there are none)')
+      }
+
+      session.tools.push(...outcome.result!.tools)
+      cursor = outcome.result!.nextCursor
+      if (cursor === '') {
+        details.push('The last page should omit nextCursor instead of sending an empty string')
+        status = 'warn'
+      }
+      if (!cursor) break
+    }
+
+    if (session.tools.length === 0) {
+      return this.check('tools_list', 'warn', 'The server lists no tools', details)
+    }
+
+    const seen = new Set<string>()
+    for (const tool of session.tools) {
+      const label = typeof tool.name === 'string' ? tool.name : JSON.stringify(tool.name)
+
+      if (typeof tool.name !== 'string' || !tool.name) {
+        details.push(`${label}: name must be a non-empty string`)
+        status = 'fail'
+        continue
+      }
+      if (seen.has(tool.name)) {
+        details.push(`${label}: listed more than once`)
+        status = 'fail'
+      }
+      seen.add(tool.name)
+
+      if (!TOOL_NAME.test(tool.name)) {
+        details.push(`${label}: names should only use letters, digits, '_', '-' and '.' (1-128 characters)`)
+        status = this.worst(status, 'warn')
+      }
+
+      for (const [field, schema] of [['inputSchema', tool.inputSchema], ['outputSchema', tool.outputSchema]] as const) {
+        if (schema === undefined && field === 'outputSchema') continue
+
+        const problem = this.schemaProblem(schema)
+        if (problem) {
+          details.push(`${label}: ${field} ${problem}`)
+          status = 'fail'
+        }
+      }
+    }
+
+    const message = status === 'pass'
+      ? `${session.tools.length} tools with valid schemas`
+      : `Problems in ${session.tools.length} listed tools`
+    return this.check('tools_list', status, message, details)
+  }
+
+  /**
+   * What is wrong with a tool schema, if anything
+   */
+  private schemaProblem(schema: any): string | undefined {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return 'is missing or not an object'
+    }
+    if (schema.type !== 'object') {
+      return `must have "type": "object" (has ${JSON.stringify(schema.type)})`
+    }
+
+    // Servers declare several drafts; check the structure against the default one
+    const { $schema, ...rest } = schema
+    if (!this.ajv.validateSchema(rest)) {
+      return `is not a valid JSON Schema: ${this.ajv.errorsText(this.ajv.errors)}`
+    }
+    try {
+      this.ajv.compile(rest)
+    } catch (error: any) {
+      return `does not compile: ${error.message}`
+    }
+    return undefined
+  }
+
+  /**
+   * The model picks tools and fills arguments from these descriptions
+   */
+  private checkDescriptions(session: Session): ConformanceCheck {
+    const named = session.tools.filter(tool => typeof tool.name === 'string')
+    if (named.length === 0) {
+      return this.check('descriptions', 'skip', 'No tools to check')
+    }
+
+    const details: string[] = []
+    for (const tool of named) {
+      if (typeof tool.description !== 'string' || !tool.description.trim()) {
+        details.push(`${tool.name}: no description`)
+      }
+
+      const properties = tool.inputSchema?.properties ?? {}
+      const undocumented = Object.keys(properties).filter(name => !properties[name]?.description)
+      if (undocumented.length > 0) {
+        details.push(`${tool.name}: parameters without description: ${undocumented.join(', ')}`)
+      }
+    }
+
+    return details.length > 0
+      ? this.check('descriptions', 'warn', 'Some tools or parameters are not described', details)
+      : this.check('descriptions', 'pass', 'Every tool and parameter is described')
+  }
+
+  /**
+   * Tools with required parameters are called without them; they must refuse
+   */
+  private async checkInvalidArguments(session: Session): Promise<ConformanceCheck> {
+    const probed = session.tools
+      .filter(tool => typeof tool.name === 'string' && Array.isArray(tool.inputSchema?.required) && tool.inputSchema.required.length > 0)
+      .slice(0, MAX_PROBED_TOOLS)
+
+    if (probed.length === 0) {
+      return this.check('invalid_arguments', 'skip', 'No tool has required parameters to leave out')
+    }
+
+    const details: string[] = []
+    let status: ConformanceStatus = 'pass'
+
+    for (const tool of probed) {
+      const outcome = await this.request(session, 'tools/call', { name: tool.name, arguments: {} })
+      const missing = tool.inputSchema.required.join(', ')
+
+      if (outcome.result) {
+        session.callResults.push({ label: `${tool.name} (invalid arguments)`, result: outcome.result })
+      }
+
+      if (outcome.result?.isError === true) {
+        details.push(`${tool.name}: returned an isError result`)
+      } else if (outcome.result) {
+        details.push(`${tool.name}: accepted a call without ${missing}`)
+        status = 'fail'
+      } else if (outcome.error instanceof McpError && outcome.error.code === ErrorCode.InvalidParams) {
+        details.push(`${tool.name}: rejected with protocol error -32602`)
+      } else if (outcome.error instanceof McpError && outcome.error.code === ErrorCode.RequestTimeout) {
+        details.push(`${tool.name}: no answer within ${REQUEST_TIMEOUT_MS / 1000}s`)
+        status = 'fail'
+      } else {
+        details.push(`${tool.name}: failed with ${outcome.error?.message} (expected an isError result or -32602)`)
+        status = this.worst(status, 'warn')
+      }
+    }
+
+    const message = {
+      pass: `${probed.length} tools refused calls missing required arguments`,
+      warn: 'Some tools refused invalid arguments with an unexpected error',
+      fail: 'Some tools accepted or ignored calls missing required arguments',
+      skip: ''
+    }[status]
+    return this.check('invalid_arguments', status, message, details)
+  }
+
+  /**
+   * Unknown tools are a protocol error; problems running a tool are isError results
+   */
+  private async checkErrorShape(session: Session): Promise<ConformanceCheck> {
+    const outcome = await this.request(session, 'tools/call', { name: UNKNOWN_TOOL, arguments: {} })
+
+    if (outcome.result) {
+      session.callResults.push({ label: 'unknown tool', result: outcome.result })
+      return outcome.result.isError === true
+        ? this.check('error_shape', 'warn', 'An unknown tool is reported as an isError result; the spec expects protocol error -32602')
+        : this.check('error_shape', 'fail', 'Calling an unknown tool succeeded')
+    }
+
+    if (!(outcome.error instanceof McpError) || !Number.isInteger(outcome.error.code)) {
+      return this.check('error_shape', 'fail', `Calling an unknown tool failed without a JSON-RPC error: ${outcome.error?.message}`)
+    }
+    if (outcome.error.code !== ErrorCode.InvalidParams) {
+      return this.check('error_shape', 'warn', `An unknown tool is rejected with code ${outcome.error.code}; the spec expects -32602`, [outcome.error.message])
+    }
+    return this.check('error_shape', 'pass', 'An unknown tool is rejected with protocol error -32602', [outcome.error.message])
+  }
+
+  /**
+   * Every tools/call result seen during the run must carry a content array, empty or not
+   */
+  private checkResultShape(session: Session): ConformanceCheck {
+    if (session.callResults.length === 0) {
+      return this.check('result_shape', 'skip', 'No tool results to check')
+    }
+
+    const details: string[] = []
+    for (const { label, result } of session.callResults) {
+      if (!Array.isArray(result.content)) {
+        details.push(`${label}: content is ${result.content === undefined ? 'missing' : 'not an array'} (use "content": [] for an empty result)`)
+        continue
+      }
+      const unknown = result.content.filter((item: any) => !CONTENT_TYPES.includes(item?.type))
+      if (unknown.length > 0) {
+        details.push(`${label}: content items of unknown type ${unknown.map((item: any) => JSON.stringify(item?.type)).join(', ')}`)
+      }
+      if (result.isError !== undefined && typeof result.isError !== 'boolean') {
+        details.push(`${label}: isError must be a boolean`)
+      }
+    }
+
+    return details.length > 0
+      ? this.check('result_shape', 'fail', 'Some tool results are malformed', details)
+      : this.check('result_shape', 'pass', `${session.callResults.length} tool results are well formed`)
+  }
+
+  private checkResponseTime(session: Session): ConformanceCheck {
+    if (session.timings.length === 0) {
+      return this.check('response_time', 'skip', 'No requests were timed')
+    }
+
+    const durations = session.timings.map(t => t.durationMs).sort((a, b) => a - b)
+    const median = durations[Math.floor(durations.length / 2)]
+    const max = durations[durations.length - 1]
+    const slow = session.timings.filter(t => t.durationMs > SLOW_REQUEST_MS)
+    const details = slow.map(t => `${t.method}: ${t.durationMs} ms`)
+    const message = `${session.timings.length} requests, median ${median} ms, slowest ${max} ms`
+
+    if (max > TOO_SLOW_REQUEST_MS) {
+      return this.check('response_time', 'fail', message, details)
+    }
+    return this.check('response_time', slow.length > 0 ? 'warn' : 'pass', message, details)
+  }
+
+  /**
+   * Send a request without letting the SDK validate the result, and time it
+   */
+  private async request(session: Session, method: string, params?: Record<string, unknown>): Promise<Outcome> {
+    const start = Date.now()
+    let outcome: Omit<Outcome, 'durationMs'>
+
+    try {
+      const result = await session.client.request({ method, params } as ClientRequest, AnyResultSchema, { timeout: REQUEST_TIMEOUT_MS })
+      outcome = { result }
+    } catch (error: any) {
+      outcome = { error }
+    }
+
+    const durationMs = Date.now() - start
+    session.timings.push({ method, durationMs })
+    return { ...outcome, durationMs }
+  }
+
+  private check(
+    id: CheckId,
+    status: ConformanceStatus,
+    message: string,
+    details?: string[],
+    durationMs?: number
+  ): ConformanceCheck {
+    return {
+      id,
+      name: CHECKS[id],
+      status,
+      message,
+      ...(details && details.length > 0 ? { details } : {}),
+      ...(durationMs !== undefined ? { durationMs } : {})
+    }
+  }
+
+  private worst(a: ConformanceStatus, b: ConformanceStatus): ConformanceStatus {
+    return SEVERITY[a] >= SEVERITY[b] ? a : b
+  }
+}
@@ -1,3 +1,5 @@
+import type { ArgumentRule } from '../../../../shared/types/index.js'
+
 /**
  * MCP Server Catalog
  *
@@ -18,7 +20,7 @@ export interface MCPServerTemplate {
     args: string[]
     description: string
     requiresNpx?: boolean
-    packageName?: string  // npm package name if using npx
+    packageName?: string  // npm package name if using npx, or the directory a local server is run from
   }
 
   // For HTTP servers
@@ -50,6 +52,9 @@ export interface MCPServerTemplate {
 
   // Installation instructions for air-gap
   airgapInstructions?: string
+
+  // Argument rules the server is added with (e.g. date fixes for servers that assume UTC)
+  argumentRules?: ArgumentRule[]
 }
 
 /**
@@ -66,7 +71,7 @@ export const MCP_SERVER_CATALOG: MCPServerTemplate[] = [
     stdio: {
       command: 'npx',
       args: ['-y', '@modelcontextprotocol/server-filesystem', '/path/to/directory'],
-      description: 'Official MCP filesystem server',
+      description: 'Official MCP filesystem server. Roots set for the server replace the directories in its arguments',
       requiresNpx: true,
       packageName: '@modelcontextprotocol/server-filesystem'
     },
@@ -206,7 +211,8 @@ export const MCP_SERVER_CATALOG: MCPServerTemplate[] = [
       command: 'node',
       args: ['/path/to/garmin-mcp-server/build/index.js'],
       description: 'Custom Garmin health data MCP server',
-      requiresNpx: false
+      requiresNpx: false,
+      packageName: 'garmin-mcp-server'
     },
     configurationHints: {
       envVars: [
@@ -228,7 +234,12 @@ export const MCP_SERVER_CATALOG: MCPServerTemplate[] = [
       { name: 'get_steps', description: 'Get step count data' },
       { name: 'get_sleep', description: 'Get sleep data' }
     ],
-    airgapInstructions: 'Custom server - bundle and deploy the entire garmin-mcp-server directory'
+    airgapInstructions: 'Custom server - bundle and deploy the entire garmin-mcp-server directory',
+    // The server defaults to the UTC date - send the user's local date instead
+    argumentRules: [
+      'get_daily_stats', 'get_heart_rate_data', 'get_stress_data',
+      'get_sleep_data', 'get_body_battery', 'get_steps_data'
+    ].map(tool => ({ tool, type: 'default' as const, argument: 'date_str', value: '{{today}}' }))
   },
   {
     id: 'custom-http',
@@ -262,6 +273,25 @@ export function getServerTemplate(id: string): MCPServerTemplate | undefined {
   return MCP_SERVER_CATALOG.find(s => s.id === id)
 }
 
+/**
+ * Find the template a saved stdio server was set up from: same command, and its package
+ * among the arguments (as an npx package, with or without a version, or as a directory in a path)
+ */
+export function findTemplateForServer(config: { command: string; args: string[] }): MCPServerTemplate | undefined {
+  return MCP_SERVER_CATALOG.find(template => {
+    const packageName = template.stdio?.packageName
+    if (!packageName || template.stdio!.command !== config.command) {
+      return false
+    }
+
+    return config.args.some(arg =>
+      arg === packageName ||
+      arg.startsWith(`${packageName}@`) ||
+      arg.split(/[\\/]/).includes(packageName)
+    )
+  })
+}
+
 /**
  * Get servers by category
  */
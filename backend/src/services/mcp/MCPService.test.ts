@@ -1,10 +1,13 @@
 import { describe, test, expect, beforeEach, afterEach } from 'vitest'
+import { tmpdir } from 'os'
+import { basename } from 'path'
+import { pathToFileURL } from 'url'
 import { MCPService } from './MCPService.js'
 import { ConfigService } from '../config/ConfigService.js'
 import { Repository } from '../../db/repository.js'
 import { EncryptionService } from '../config/EncryptionService.js'
 import { initializeDatabase } from '../../db/schema.js'
-import { TestMCPServer } from '../../tests/helpers/TestMCPServer.js'
+import { TestMCPServer, type PromptDefinition } from '../../tests/helpers/TestMCPServer.js'
 import type { MCPServerConfig } from '../../../../shared/types/index.js'
 import type { Database } from 'better-sqlite3'
 
@@ -244,6 +247,28 @@ describe('MCPService', () => {
       expect(result.isError).toBeFalsy()
     })
 
+    test('should reject instead of returning an error result when aborted', async () => {
+      const config = await testServer.setup()
+
+      const serverConfig: MCPServerConfig = {
+        id: 'test-1',
+        name: 'Test Server',
+        type: 'stdio',
+        enabled: true,
+        config: config,
+        createdAt: new Date().toISOString()
+      }
+
+      await mcpService.connectServer(serverConfig)
+
+      const controller = new AbortController()
+      controller.abort(new Error('Stopped by user'))
+
+      await expect(
+        mcpService.executeTool('test-1', 'test_tool', { input: 'test value' }, { signal: controller.signal })
+      ).rejects.toThrow()
+    })
+
     test('should return error when server not connected', async () => {
       await expect(
         mcpService.executeTool('non-existent', 'test_tool', {})
@@ -315,6 +340,21 @@ describe('MCPService', () => {
       expect(status?.error).toBeDefined()
     })
 
+    test('should stop the process when setup fails after the handshake', async () => {
+      const failingServer = new TestMCPServer({ failToolsList: true })
+
+      try {
+        const server = configService.addMCPServer('Failing Server', 'stdio', await failingServer.setup())
+
+        await expect(mcpService.connectServer(server)).rejects.toThrow('Tools are unavailable')
+
+        expect(mcpService.getServerStatus(server.id)?.error).toContain('Tools are unavailable')
+        expect(failingServer.hasExited()).toBe(true)
+      } finally {
+        await failingServer.cleanup()
+      }
+    })
+
     test('should isolate errors between servers', async () => {
       const goodConfig = await testServer.setup()
 
@@ -354,4 +394,480 @@ describe('MCPService', () => {
       expect(tools.length).toBeGreaterThan(0)
     })
   })
+
+  describe('tool discovery', () => {
+    const makeTools = (...names: string[]) =>
+      names.map(name => ({ name, description: `${name} tool`, inputSchema: { type: 'object' } }))
+
+    test('should follow tools/list cursors to the last page', async () => {
+      const pagedServer = new TestMCPServer({ tools: makeTools('a', 'b', 'c', 'd', 'e'), pageSize: 2 })
+
+      try {
+        const server = configService.addMCPServer('Paged Server', 'stdio', await pagedServer.setup())
+        await mcpService.connectServer(server)
+
+        expect(mcpService.getToolsByServer(server.id).map(t => t.name)).toEqual(['a', 'b', 'c', 'd', 'e'])
+      } finally {
+        await pagedServer.cleanup()
+      }
+    })
+
+    test('should re-list tools when the server sends list_changed', async () => {
+      const changingServer = new TestMCPServer({
+        tools: makeTools('old_tool'),
+        toolsChange: { afterMs: 100, tools: makeTools('new_tool', 'other_tool') }
+      })
+
+      try {
+        const server = configService.addMCPServer('Changing Server', 'stdio', await changingServer.setup())
+        const toolCounts: number[] = []
+        mcpService.onChange(event => {
+          if (event.type === 'tools_changed') toolCounts.push(event.toolCount)
+        })
+
+        await mcpService.connectServer(server)
+        expect(mcpService.getToolsByServer(server.id).map(t => t.name)).toEqual(['old_tool'])
+
+        const deadline = Date.now() + 5000
+        while (toolCounts.length < 2 && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 25))
+        }
+
+        expect(toolCounts).toEqual([1, 2])
+        expect(mcpService.getToolsByServer(server.id).map(t => t.name)).toEqual(['new_tool', 'other_tool'])
+      } finally {
+        await changingServer.cleanup()
+      }
+    })
+    test('should keep qualified names when a server with the same prefix reconnects', async () => {
+      const twinServer = new TestMCPServer({ tools: makeTools('test_tool') })
+
+      try {
+        const first = configService.addMCPServer('Twin', 'stdio', await testServer.setup())
+        const second = configService.addMCPServer('Twin', 'stdio', await twinServer.setup())
+        const namesByServer = () => Object.fromEntries(
+          mcpService.getAllTools().map(tool => [tool.serverId, tool.qualifiedName])
+        )
+
+        await mcpService.connectServer(first)
+        await mcpService.connectServer(second)
+        const before = namesByServer()
+        expect(Object.values(before).sort()).toEqual(['twin__test_tool', 'twin__test_tool_2'])
+
+        await mcpService.disconnectServer(first.id)
+        await mcpService.connectServer(first)
+
+        expect(namesByServer()).toEqual(before)
+      } finally {
+        await twinServer.cleanup()
+      }
+    })
+  })
+
+  describe('resources', () => {
+    const makeResourceServer = (resourceUpdate?: { afterMs: number; uri: string; text: string }) => new TestMCPServer({
+      tools: [{ name: 'test_tool', description: 'A test tool', inputSchema: { type: 'object' } }],
+      resources: [
+        { uri: 'file:///notes/todo.md', name: 'todo.md', mimeType: 'text/markdown', text: '- buy milk' },
+        { uri: 'file:///notes/done.md', name: 'done.md', text: '- nothing yet' }
+      ],
+      resourceUpdate
+    })
+
+    test('should list and read resources', async () => {
+      const resourceServer = makeResourceServer()
+
+      try {
+        const server = configService.addMCPServer('Notes', 'stdio', await resourceServer.setup())
+        await mcpService.connectServer(server)
+
+        expect(mcpService.getResourcesByServer(server.id)).toEqual([
+          expect.objectContaining({ uri: 'file:///notes/todo.md', name: 'todo.md', mimeType: 'text/markdown', serverId: server.id }),
+          expect.objectContaining({ uri: 'file:///notes/done.md', name: 'done.md', serverId: server.id })
+        ])
+        expect(await mcpService.readResource(server.id, 'file:///notes/todo.md')).toEqual([
+          { uri: 'file:///notes/todo.md', mimeType: 'text/markdown', text: '- buy milk' }
+        ])
+        await expect(mcpService.readResource(server.id, 'file:///missing.md')).rejects.toThrow(/Resource not found/)
+      } finally {
+        await resourceServer.cleanup()
+      }
+    })
+
+    test('should have no resources when the server does not publish any', async () => {
+      const server = configService.addMCPServer('Tools Only', 'stdio', await testServer.setup())
+      await mcpService.connectServer(server)
+
+      expect(mcpService.getResourcesByServer(server.id)).toEqual([])
+      expect(await mcpService.subscribeResource(server.id, 'file:///anything')).toBe(false)
+    })
+
+    test('should report updates to subscribed resources', async () => {
+      const resourceServer = makeResourceServer({ afterMs: 50, uri: 'file:///notes/todo.md', text: '- buy bread' })
+
+      try {
+        const server = configService.addMCPServer('Notes', 'stdio', await resourceServer.setup())
+        const updates: string[] = []
+        mcpService.onChange(event => {
+          if (event.type === 'resource_updated') updates.push(event.uri)
+        })
+        await mcpService.connectServer(server)
+
+        expect(await mcpService.subscribeResource(server.id, 'file:///notes/todo.md')).toBe(true)
+
+        const deadline = Date.now() + 5000
+        while (updates.length === 0 && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 25))
+        }
+
+        expect(updates).toEqual(['file:///notes/todo.md'])
+        expect((await mcpService.readResource(server.id, 'file:///notes/todo.md'))[0].text).toBe('- buy bread')
+      } finally {
+        await resourceServer.cleanup()
+      }
+    })
+  })
+
+  describe('prompts', () => {
+    const makePromptServer = (prompts: PromptDefinition[]) => new TestMCPServer({
+      tools: [{ name: 'test_tool', description: 'A test tool', inputSchema: { type: 'object' } }],
+      prompts
+    })
+    const reviewPrompt: PromptDefinition = {
+      name: 'review',
+      description: 'Review a file',
+      arguments: [{ name: 'file', description: 'File to review', required: true }, { name: 'focus' }],
+      messages: [
+        { role: 'user', text: 'Review {{file}} for {{focus}}' },
+        { role: 'assistant', text: 'Reviewing {{file}}' }
+      ]
+    }
+
+    test('should list prompts and render them with arguments', async () => {
+      const promptServer = makePromptServer([reviewPrompt])
+
+      try {
+        const server = configService.addMCPServer('Reviewer', 'stdio', await promptServer.setup())
+        await mcpService.connectServer(server)
+
+        expect(mcpService.getAllPrompts()).toEqual([
+          expect.objectContaining({
+            name: 'review',
+            command: 'review',
+            serverId: server.id,
+            arguments: [
+              { name: 'file', description: 'File to review', required: true },
+              { name: 'focus' }
+            ]
+          })
+        ])
+
+        const rendered = await mcpService.getPrompt(server.id, 'review', { file: 'app.ts', focus: 'bugs' })
+        expect(rendered.description).toBe('Review a file')
+        expect(rendered.messages.map(m => [m.role, m.content])).toEqual([
+          ['user', 'Review app.ts for bugs'],
+          ['assistant', 'Reviewing app.ts']
+        ])
+
+        await expect(mcpService.getPrompt(server.id, 'review', {})).rejects.toThrow(/Missing required arguments: file/)
+      } finally {
+        await promptServer.cleanup()
+      }
+    })
+
+    test('should prefix commands of prompts that share a name', async () => {
+      const first = makePromptServer([reviewPrompt])
+      const second = makePromptServer([reviewPrompt, { name: 'summarize', messages: [{ role: 'user', text: 'Summarize' }] }])
+
+      try {
+        const a = configService.addMCPServer('First', 'stdio', await first.setup())
+        const b = configService.addMCPServer('Second', 'stdio', await second.setup())
+        await mcpService.connectServer(a)
+        await mcpService.connectServer(b)
+
+        expect(mcpService.getAllPrompts().map(p => p.command).sort()).toEqual([
+          'first__review',
+          'second__review',
+          'summarize'
+        ])
+      } finally {
+        await first.cleanup()
+        await second.cleanup()
+      }
+    })
+
+    test('should have no prompts when the server does not publish any', async () => {
+      const server = configService.addMCPServer('Tools Only', 'stdio', await testServer.setup())
+      await mcpService.connectServer(server)
+
+      expect(mcpService.getAllPrompts()).toEqual([])
+    })
+  })
+
+  describe('argument rules', () => {
+    test('should apply the server rules to every call', async () => {
+      const dateServer = new TestMCPServer({
+        tools: [{
+          name: 'get_steps',
+          description: 'Daily steps',
+          inputSchema: { type: 'object', properties: { date_str: { type: 'string' } }, required: ['date_str'] }
+        }],
+        validateCalls: true
+      })
+
+      try {
+        const server = configService.addMCPServer('Garmin', 'stdio', await dateServer.setup())
+        await mcpService.connectServer(server)
+        const withoutRules = await mcpService.executeTool(server.id, 'get_steps', {})
+
+        configService.setArgumentRules(server.id, [
+          { tool: 'get_steps', type: 'default', argument: 'date_str', value: '{{today}}' }
+        ])
+        const withRules = await mcpService.executeTool(server.id, 'get_steps', {}, { ruleContext: { timeZone: 'Europe/Berlin' } })
+
+        expect(withoutRules.isError).toBe(true)
+        expect(withRules.isError).toBeFalsy()
+      } finally {
+        await dateServer.cleanup()
+      }
+    })
+  })
+
+  describe('elicitation', () => {
+    const makeElicitationServer = () => new TestMCPServer({
+      tools: [{ name: 'book_table', description: 'Book a table', inputSchema: { type: 'object' } }],
+      elicitationTool: {
+        name: 'book_table',
+        message: 'How many guests?',
+        requestedSchema: { type: 'object', properties: { guests: { type: 'number' } }, required: ['guests'] }
+      }
+    })
+
+    test('should hand the request to the tool call that is running', async () => {
+      const elicitationServer = makeElicitationServer()
+
+      try {
+        const server = configService.addMCPServer('Restaurant', 'stdio', await elicitationServer.setup())
+        await mcpService.connectServer(server)
+
+        const asked: string[] = []
+        const result = await mcpService.executeTool(server.id, 'book_table', {}, {
+          onElicitation: async (params) => {
+            asked.push(params.message)
+            return { action: 'accept', content: { guests: 4 } }
+          }
+        })
+
+        expect(asked).toEqual(['How many guests?'])
+        expect(result.isError).toBe(false)
+        expect(JSON.parse((result.content[0] as any).text)).toEqual({ action: 'accept', content: { guests: 4 } })
+      } finally {
+        await elicitationServer.cleanup()
+      }
+    })
+
+    test('should answer questions from calls already running side by side, then ask for calls one at a time', async () => {
+      const elicitationServer = makeElicitationServer()
+
+      try {
+        const server = configService.addMCPServer('Restaurant', 'stdio', await elicitationServer.setup())
+        await mcpService.connectServer(server)
+        expect(mcpService.asksForInput(server.id)).toBe(false)
+
+        // Both calls ask on the server's very first question
+        const answer = (guests: number) => async () => ({ action: 'accept' as const, content: { guests } })
+        const results = await Promise.all([
+          mcpService.executeTool(server.id, 'book_table', {}, { onElicitation: answer(2) }),
+          mcpService.executeTool(server.id, 'book_table', {}, { onElicitation: answer(5) })
+        ])
+
+        const answers = results.map(result => JSON.parse((result.content[0] as any).text))
+        expect(answers.map(a => a.action)).toEqual(['accept', 'accept'])
+        expect(answers.map(a => a.content.guests).sort()).toEqual([2, 5])
+        expect(mcpService.asksForInput(server.id)).toBe(true)
+
+        await mcpService.disconnectServer(server.id)
+        await mcpService.connectServer(server)
+        expect(mcpService.asksForInput(server.id)).toBe(true)
+      } finally {
+        await elicitationServer.cleanup()
+      }
+    })
+
+    test('should cancel requests made outside a call that can ask the user', async () => {
+      const elicitationServer = makeElicitationServer()
+
+      try {
+        const server = configService.addMCPServer('Restaurant', 'stdio', await elicitationServer.setup())
+        await mcpService.connectServer(server)
+
+        const result = await mcpService.executeTool(server.id, 'book_table', {})
+
+        expect(JSON.parse((result.content[0] as any).text)).toEqual({ action: 'cancel' })
+      } finally {
+        await elicitationServer.cleanup()
+      }
+    })
+  })
+
+  describe('roots', () => {
+    const readRoots = async (serverId: string) => {
+      const result = await mcpService.executeTool(serverId, 'list_roots', {})
+      return JSON.parse((result.content[0] as any).text)
+    }
+
+    test('should answer roots/list with the configured directories and announce edits', async () => {
+      const rootsServer = new TestMCPServer({
+        tools: [{ name: 'list_roots', description: 'Show the client roots', inputSchema: { type: 'object' } }],
+        rootsTool: 'list_roots'
+      })
+      const projects = tmpdir()
+
+      try {
+        const server = configService.addMCPServer('Files', 'stdio', await rootsServer.setup())
+        await mcpService.connectServer(server)
+
+        expect(await readRoots(server.id)).toEqual({ roots: [], listChanged: 0 })
+
+        configService.setRoots(server.id, [projects])
+        await mcpService.notifyRootsChanged(server.id)
+
+        expect(await readRoots(server.id)).toEqual({
+          roots: [{ uri: pathToFileURL(projects).href, name: basename(projects) }],
+          listChanged: 1
+        })
+      } finally {
+        await rootsServer.cleanup()
+      }
+    })
+  })
+
+  describe('server logs', () => {
+    test('should keep stderr lines and MCP log messages', async () => {
+      const noisyServer = new TestMCPServer({
+        tools: [{ name: 'test_tool', description: 'A test tool', inputSchema: { type: 'object' } }],
+        logs: {
+          stderr: ['Starting up', 'ERROR: cache unavailable'],
+          messages: [{ level: 'notice', logger: 'db', data: { connected: true } }]
+        }
+      })
+
+      try {
+        const server = configService.addMCPServer('Noisy Server', 'stdio', await noisyServer.setup())
+        await mcpService.connectServer(server)
+
+        const deadline = Date.now() + 5000
+        while (mcpService.getServerLogs(server.id).length < 3 && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 25))
+        }
+
+        const logs = mcpService.getServerLogs(server.id)
+        expect(logs.filter(e => e.source === 'stderr').map(e => [e.level, e.message])).toEqual([
+          ['info', 'Starting up'],
+          ['error', 'ERROR: cache unavailable']
+        ])
+        expect(logs.find(e => e.source === 'protocol')).toMatchObject({
+          level: 'notice',
+          logger: 'db',
+          message: '{"connected":true}'
+        })
+
+        // Kept after disconnecting, for looking into why a server went away
+        await mcpService.disconnectServer(server.id)
+        expect(mcpService.getServerLogs(server.id)).toHaveLength(3)
+      } finally {
+        await noisyServer.cleanup()
+      }
+    })
+  })
+
+  describe('protocol capture', () => {
+    test('should record JSON-RPC traffic only while capture is on', async () => {
+      const server = configService.addMCPServer('Inspected Server', 'stdio', await testServer.setup())
+      mcpService.setProtocolCapture(server.id, true)
+      await mcpService.connectServer(server)
+
+      await mcpService.executeTool(server.id, 'test_tool', { query: 'weather', apiKey: 'sk-live-123' })
+
+      const messages = mcpService.getProtocolMessages(server.id)
+      expect(messages[0]).toMatchObject({ direction: 'sent', kind: 'request', method: 'initialize' })
+      expect(messages[1]).toMatchObject({ direction: 'received', kind: 'response', method: 'initialize' })
+      expect(messages[1].durationMs).toBeGreaterThanOrEqual(0)
+      expect(messages.some(m => m.kind === 'notification' && m.method === 'notifications/initialized')).toBe(true)
+
+      const call = messages.find(m => m.method === 'tools/call' && m.kind === 'request')!
+      expect(call.message).toMatchObject({ params: { arguments: { query: 'weather', apiKey: '[redacted]' } } })
+      expect(JSON.stringify(messages)).not.toContain('sk-live-123')
+      expect(messages.find(m => m.method === 'tools/call' && m.kind === 'response')?.id).toBe(call.id)
+
+      mcpService.setProtocolCapture(server.id, false)
+      await mcpService.executeTool(server.id, 'test_tool', {})
+      expect(mcpService.getProtocolMessages(server.id)).toHaveLength(messages.length)
+    })
+
+    test('should record nothing unless capture is turned on', async () => {
+      const server = configService.addMCPServer('Quiet Server', 'stdio', await testServer.setup())
+      await mcpService.connectServer(server)
+      await mcpService.executeTool(server.id, 'test_tool', {})
+
+      expect(mcpService.getProtocolMessages(server.id)).toEqual([])
+    })
+  })
+
+  describe('automatic reconnection', () => {
+    const waitForState = async (serverId: string, state: string, after = 0, timeoutMs = 8000) => {
+      const deadline = Date.now() + timeoutMs
+      const reached = () => mcpService.getServerStatus(serverId)?.state === state &&
+        mcpService.getServerStatus(serverId)!.transitions.length > after
+
+      while (!reached()) {
+        if (Date.now() > deadline) {
+          throw new Error(`Server never reached '${state}' (is '${mcpService.getServerStatus(serverId)?.state}')`)
+        }
+        await new Promise(resolve => setTimeout(resolve, 25))
+      }
+    }
+
+    beforeEach(() => {
+      mcpService = new MCPService(configService, { initialDelayMs: 50, maxDelayMs: 100, jitter: 0, maxRetries: 2 })
+    })
+
+    test('should reconnect after the server process exits', async () => {
+      const crashingServer = new TestMCPServer({
+        tools: [{ name: 'test_tool', description: 'A test tool', inputSchema: { type: 'object' } }],
+        crashOnce: true
+      })
+
+      try {
+        const server = configService.addMCPServer('Flaky Server', 'stdio', await crashingServer.setup())
+        await mcpService.connectServer(server)
+
+        // Connected again after connecting, connected, error, reconnecting, connecting
+        await waitForState(server.id, 'connected', 5)
+
+        const status = mcpService.getServerStatus(server.id)!
+        expect(status.transitions.map(t => t.state)).toEqual([
+          'connecting', 'connected', 'error', 'reconnecting', 'connecting', 'connected'
+        ])
+        expect(status.transitions[2].error).toBe('Process exited with code 1')
+        expect(status.reconnectAttempts).toBe(0)
+        expect(mcpService.getToolsByServer(server.id)).toHaveLength(1)
+      } finally {
+        await crashingServer.cleanup()
+      }
+    }, 10000)
+
+    test('should park a server after the maximum number of attempts', async () => {
+      const server = configService.addMCPServer('Bad Server', 'stdio', { command: 'nonexistent-command-xyz', args: [] })
+
+      await mcpService.initialize()
+      await waitForState(server.id, 'parked')
+
+      const status = mcpService.getServerStatus(server.id)!
+      expect(status.reconnectAttempts).toBe(2)
+      expect(status.nextRetryAt).toBeUndefined()
+      expect(status.error).toBeDefined()
+      expect(status.transitions.filter(t => t.state === 'reconnecting')).toHaveLength(2)
+    }, 10000)
+  })
 })
@@ -1,16 +1,64 @@
-import { spawn, ChildProcess } from 'child_process'
+import type { ChildProcess } from 'child_process'
+import { basename } from 'path'
+import { pathToFileURL } from 'url'
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  LoggingMessageNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js'
 import type {
+  ArgumentRule,
   MCPServerConfig,
   StdioConfig,
   HTTPConfig,
   MCPTool,
   MCPToolResult,
-  MCPServerStatus
+  MCPResource,
+  MCPResourceContents,
+  MCPPrompt,
+  MCPServerStatus,
+  MCPConnectionState,
+  MCPStateTransition,
+  MCPStatusEvent,
+  MCPLogEntry,
+  MCPProtocolMessage,
+  RenderedPrompt,
+  SamplingRecord
 } from '../../../../shared/types/index.js'
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequestFormParams,
+  ElicitResult,
+  Root
+} from '@modelcontextprotocol/sdk/types.js'
 import type { ConfigService } from '../config/ConfigService.js'
+import { renderPromptMessages } from './PromptMessages.js'
+import { applyArgumentRules, type ArgumentRuleContext, type ArgumentRuleResult } from './ArgumentRules.js'
+import { qualifyToolNames, toolPrefix, TOOL_NAME_SEPARATOR } from './ToolNamespace.js'
+import { DEFAULT_RECONNECT_OPTIONS, reconnectDelay, type ReconnectOptions } from './ReconnectPolicy.js'
+import { ServerLogBuffer, stderrLevel } from './ServerLogBuffer.js'
+import { ProtocolRecorder, RecordingTransport } from './ProtocolRecorder.js'
+
+/** State changes kept per server for /api/mcp/status */
+const MAX_TRANSITIONS = 20
+
+/** Stop following list cursors (tools, resources, prompts) after this many pages (guards against servers that never finish) */
+const MAX_LIST_PAGES = 100
+
+/**
+ * Request timeout for tool calls that may stop to ask the user, instead of the SDK's 60s default
+ * The caller's signal still bounds the call
+ */
+const USER_INPUT_CALL_TIMEOUT_MS = 15 * 60 * 1000
 
 /**
  * Internal connection state for each MCP server
@@ -23,9 +71,71 @@ interface MCPConnection {
   transport: StdioClientTransport | StreamableHTTPClientTransport
   process?: ChildProcess  // Only for stdio servers
   tools: MCPTool[]
-  status: 'connecting' | 'connected' | 'disconnected' | 'error'
+  resources: MCPResource[]  // Empty for servers without the resources capability
+  prompts: MCPPrompt[]      // Empty for servers without the prompts capability
+  status: MCPConnectionState
   error?: string
   lastConnected?: Date
+  pingTimer?: NodeJS.Timeout  // Only for HTTP servers
+  lastPingAt?: Date
+  toolRefresh?: Promise<void>  // tools/list in progress after a list_changed notification
+  toolRefreshPending?: boolean  // Another notification arrived meanwhile
+  toolCalls: ToolCallInFlight[]  // Tool calls waiting for their result
+}
+
+/**
+ * A tool call waiting for its result, and who answers questions the server asks during it
+ */
+interface ToolCallInFlight {
+  onElicitation?: ElicitationHandler
+  questions: number  // Elicitation requests handed to this call so far
+}
+
+/**
+ * Answers a server's sampling/createMessage request
+ * The signal aborts when the server cancels the request or disconnects
+ */
+export type SamplingHandler = (
+  server: { id: string; name: string },
+  params: CreateMessageRequest['params'],
+  signal: AbortSignal
+) => Promise<CreateMessageResult>
+
+/**
+ * Answers a server's elicitation/create request made during a tool call
+ * The signal aborts when the server cancels the request or disconnects
+ */
+export type ElicitationHandler = (
+  params: ElicitRequestFormParams,
+  signal: AbortSignal
+) => Promise<ElicitResult>
+
+/**
+ * How a tool call runs, beyond its arguments
+ */
+export interface ToolCallOptions {
+  signal?: AbortSignal                // Sends notifications/cancelled and rejects when aborted
+  onElicitation?: ElicitationHandler  // Answers questions the server asks during the call
+  ruleContext?: ArgumentRuleContext   // User's timezone for the server's argument rules
+}
+
+/**
+ * Automatic reconnection progress for a server that dropped
+ * Outlives the connection entries replaced by each attempt
+ */
+interface ReconnectState {
+  attempts: number
+  timer?: NodeJS.Timeout
+  nextRetryAt?: Date
+}
+
+/**
+ * Process a stdio transport spawned, for exit codes and shutdown
+ * The SDK only exposes its pid, so the pid confirms the private field still holds that process
+ */
+function spawnedProcess(transport: StdioClientTransport): ChildProcess | undefined {
+  const { _process: child } = transport as unknown as { _process?: ChildProcess }
+  return child && child.pid === transport.pid ? child : undefined
 }
 
 /**
@@ -34,16 +144,36 @@ interface MCPConnection {
  * Design principles:
  * - Manages multiple concurrent MCP server connections (stdio + HTTP)
  * - Per-server error isolation (one failure doesn't affect others)
- * - Tool caching (discover once on connection)
+ * - Tool caching (discovered on connection, refreshed when the server sends tools/list_changed)
  * - Graceful lifecycle management (process for stdio, connection for HTTP)
- * - Manual reconnection (no auto-reconnect in this phase)
+ * - Automatic reconnection with backoff when a server drops, parked after repeated failures
+ * - Periodic ping health checks for HTTP servers
+ * - Change notifications (state, tool lists) for live status views
+ * - Per-server console of stderr lines and MCP log messages, kept across reconnects
+ * - Opt-in per-server capture of the JSON-RPC traffic for the protocol inspector
+ * - Resource discovery and reads, with resources/updated subscriptions restored on reconnect
+ * - Prompt discovery and rendering (prompts/get) for slash commands
+ * - Sampling requests from servers, handed to the sampling handler when one is set
+ * - Elicitation requests from servers, handed to the tool call that is waiting on the server
+ * - Roots (the directories configured for a server), with roots/list_changed when they are edited
  */
 export class MCPService {
   private connections: Map<string, MCPConnection> = new Map()
+  private reconnects: Map<string, ReconnectState> = new Map()
+  private transitions: Map<string, MCPStateTransition[]> = new Map()
+  private listeners: Set<(event: MCPStatusEvent) => void> = new Set()
+  private logs: Map<string, ServerLogBuffer> = new Map()
+  private captures: Map<string, ProtocolRecorder> = new Map()
+  private capturing: Set<string> = new Set()
+  private subscriptions: Map<string, Set<string>> = new Map()  // Server id -> subscribed resource URIs
+  private askingServers: Set<string> = new Set()  // Server ids that sent elicitation requests - kept across reconnects
+  private samplingHandler?: SamplingHandler
   private configService: ConfigService
+  private options: ReconnectOptions
 
-  constructor(configService: ConfigService) {
+  constructor(configService: ConfigService, options: Partial<ReconnectOptions> = {}) {
     this.configService = configService
+    this.options = { ...DEFAULT_RECONNECT_OPTIONS, ...options }
   }
 
   /**
@@ -59,7 +189,8 @@ export class MCPService {
     const connectionPromises = servers.map(server =>
       this.connectServer(server).catch(error => {
         console.error(`Failed to connect to MCP server '${server.name}':`, error.message)
-        // Don't throw - let other servers connect even if one fails
+        // Don't throw - let other servers connect even if one fails, and keep trying this one
+        this.scheduleReconnect(server.id)
       })
     )
 
@@ -71,6 +202,21 @@ export class MCPService {
     console.log(`✅ Connected ${connectedCount}/${servers.length} MCP servers`)
   }
 
+  /**
+   * Answer sampling/createMessage requests from servers
+   * Only clients created afterwards advertise the sampling capability, so set it before connecting
+   */
+  setSamplingHandler(handler: SamplingHandler): void {
+    this.samplingHandler = handler
+  }
+
+  /**
+   * Tell listeners about a sampling request made or updated by the sampling handler
+   */
+  reportSampling(record: SamplingRecord): void {
+    this.emit({ type: 'sampling_request', record })
+  }
+
   /**
    * Connect to a single MCP server (routes to stdio or HTTP handler)
    */
@@ -108,76 +254,74 @@ export class MCPService {
     const connection: Partial<MCPConnection> = {
       serverId,
       serverName: serverConfig.name,
-      status: 'connecting',
-      tools: []
+      tools: [],
+      resources: [],
+      prompts: [],
+      toolCalls: []
     }
+    this.setState(connection, 'connecting')
 
     try {
       // Create stdio transport (this will spawn the process internally)
       const transport = new StdioClientTransport({
         command: config.command,
         args: config.args,
-        env: config.env
+        env: config.env,
+        stderr: 'pipe'
       })
+      this.captureStderr(serverId, serverConfig.name, transport)
 
       // Create MCP client
-      const client = new Client(
-        {
-          name: 'mcp-chatbot',
-          version: '1.0.0'
-        },
-        {
-          capabilities: {}
-        }
-      )
+      const client = this.createClient()
 
       // Store transport and client in connection
       connection.transport = transport
       connection.client = client
 
+      this.setupNotificationHandlers(connection as MCPConnection)
+
       // Add to connections map (before connect so event listeners can access it)
       this.connections.set(serverId, connection as MCPConnection)
 
       // Connect to the MCP server (this starts the process)
-      await client.connect(transport)
+      await client.connect(this.recordingTransport(serverId, transport))
 
       // Get the process from transport for monitoring
-      const childProcess = (transport as any).process
+      const childProcess = spawnedProcess(transport)
       if (childProcess) {
         connection.process = childProcess
         this.setupProcessListeners(serverId, childProcess)
       }
+      this.watchConnection(connection as MCPConnection)
+      this.requestLogMessages(connection as MCPConnection)
 
-      // Discover tools
-      const toolsResult = await client.listTools()
-      const tools: MCPTool[] = toolsResult.tools.map(tool => ({
-        name: tool.name,
-        description: tool.description || '',
-        inputSchema: tool.inputSchema as any,
-        serverId: serverId
-      }))
+      // Discover tools, resources and prompts
+      const tools = await this.listAllTools(serverId, client)
+      connection.resources = await this.listAllResources(connection as MCPConnection)
+      connection.prompts = await this.listAllPrompts(connection as MCPConnection)
 
       // Update connection status
-      connection.status = 'connected'
       connection.tools = tools
       connection.lastConnected = new Date()
+      this.setState(connection, 'connected')
+      this.emit({ type: 'tools_changed', serverId, toolCount: tools.length })
+      if (client.getServerCapabilities()?.resources) {
+        this.emit({ type: 'resources_changed', serverId, resourceCount: connection.resources.length })
+      }
+      if (client.getServerCapabilities()?.prompts) {
+        this.emit({ type: 'prompts_changed', serverId, promptCount: connection.prompts.length })
+      }
+      this.restoreSubscriptions(connection as MCPConnection)
 
       console.log(`✅ Connected to MCP server '${serverConfig.name}' - ${tools.length} tools available`)
     } catch (error: any) {
       console.error(`Failed to connect to MCP server '${serverConfig.name}':`, error.message)
 
       // Mark as error state
-      connection.status = 'error'
-      connection.error = error.message
+      this.setState(connection, 'error', error.message)
 
-      // Cleanup if process was started
-      if (connection.process) {
-        try {
-          connection.process.kill()
-        } catch (killError) {
-          // Ignore kill errors
-        }
-      }
+      // Closing the client also stops the process if it was started
+      await connection.client?.close().catch(() => {})
 
       throw error
     }
@@ -206,9 +350,12 @@ export class MCPService {
     const connection: Partial<MCPConnection> = {
       serverId,
       serverName: serverConfig.name,
-      status: 'connecting',
-      tools: []
+      tools: [],
+      resources: [],
+      prompts: [],
+      toolCalls: []
     }
+    this.setState(connection, 'connecting')
 
     try {
       // Create Streamable HTTP transport (handles session management automatically)
@@ -222,83 +369,489 @@ export class MCPService {
       )
 
       // Create MCP client
-      const client = new Client(
-        {
-          name: 'mcp-chatbot',
-          version: '1.0.0'
-        },
-        {
-          capabilities: {}
-        }
-      )
+      const client = this.createClient()
 
       // Store transport and client in connection
       connection.transport = transport
       connection.client = client
 
+      this.setupNotificationHandlers(connection as MCPConnection)
+
       // Add to connections map
       this.connections.set(serverId, connection as MCPConnection)
 
       // Connect to the MCP HTTP server
-      await client.connect(transport)
+      await client.connect(this.recordingTransport(serverId, transport))
+      this.watchConnection(connection as MCPConnection)
+      this.requestLogMessages(connection as MCPConnection)
 
-      // Discover tools
-      const toolsResult = await client.listTools()
-      const tools: MCPTool[] = toolsResult.tools.map(tool => ({
-        name: tool.name,
-        description: tool.description || '',
-        inputSchema: tool.inputSchema as any,
-        serverId: serverId
-      }))
+      // Discover tools, resources and prompts
+      const tools = await this.listAllTools(serverId, client)
+      connection.resources = await this.listAllResources(connection as MCPConnection)
+      connection.prompts = await this.listAllPrompts(connection as MCPConnection)
 
       // Update connection status
-      connection.status = 'connected'
       connection.tools = tools
       connection.lastConnected = new Date()
+      this.setState(connection, 'connected')
+      this.emit({ type: 'tools_changed', serverId, toolCount: tools.length })
+      if (client.getServerCapabilities()?.resources) {
+        this.emit({ type: 'resources_changed', serverId, resourceCount: connection.resources.length })
+      }
+      if (client.getServerCapabilities()?.prompts) {
+        this.emit({ type: 'prompts_changed', serverId, promptCount: connection.prompts.length })
+      }
+      this.restoreSubscriptions(connection as MCPConnection)
+      this.startPing(connection as MCPConnection)
 
       console.log(`✅ Connected to MCP HTTP server '${serverConfig.name}' - ${tools.length} tools available`)
     } catch (error: any) {
       console.error(`Failed to connect to MCP HTTP server '${serverConfig.name}':`, error.message)
 
       // Mark as error state
-      connection.status = 'error'
-      connection.error = error.message
+      this.setState(connection, 'error', error.message)
+
+      // End the session if one was opened
+      await connection.client?.close().catch(() => {})
 
       throw error
     }
   }
 
+  /**
+   * List a server's tools, following tools/list cursors until the last page
+   */
+  private async listAllTools(serverId: string, client: Client): Promise<MCPTool[]> {
+    return this.collectPages('tools', serverId, async (cursor) => {
+      const result = await client.listTools(cursor ? { cursor } : undefined)
+
+      return {
+        items: result.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description || '',
+          inputSchema: tool.inputSchema,
+          annotations: tool.annotations,
+          serverId
+        })),
+        nextCursor: result.nextCursor
+      }
+    })
+  }
+
+  /**
+   * Follow a list method's cursors, one page at a time, until the last page
+   */
+  private async collectPages<T>(
+    what: string,
+    serverId: string,
+    listPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+  ): Promise<T[]> {
+    const items: T[] = []
+    let cursor: string | undefined
+
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await listPage(cursor)
+      items.push(...result.items)
+
+      if (!result.nextCursor || result.nextCursor === cursor) {
+        return items
+      }
+      cursor = result.nextCursor
+    }
+
+    console.warn(`[MCPService] Stopped listing ${what} for ${serverId} after ${MAX_LIST_PAGES} pages`)
+    return items
+  }
+
+  /**
+   * Re-list a server's tools after it sent tools/list_changed
+   * Notifications that arrive during a refresh are folded into one more refresh.
+   */
+  private refreshTools(connection: MCPConnection): void {
+    if (connection.toolRefresh) {
+      connection.toolRefreshPending = true
+      return
+    }
+
+    connection.toolRefresh = (async () => {
+      do {
+        connection.toolRefreshPending = false
+
+        // Still the live connection? Tools of a replaced or closed one don't matter
+        if (this.connections.get(connection.serverId) !== connection || connection.status !== 'connected') {
+          return
+        }
+
+        try {
+          connection.tools = await this.listAllTools(connection.serverId, connection.client)
+          console.log(`🔄 MCP server '${connection.serverName}' changed its tools - ${connection.tools.length} tools available`)
+          this.emit({ type: 'tools_changed', serverId: connection.serverId, toolCount: connection.tools.length })
+        } catch (error: any) {
+          console.error(`Failed to refresh tools for MCP server '${connection.serverName}':`, error.message)
+        }
+      } while (connection.toolRefreshPending)
+    })().finally(() => {
+      connection.toolRefresh = undefined
+    })
+  }
+
+  /**
+   * List a server's resources, following resources/list cursors until the last page
+   * A server that fails to list them keeps its tools usable
+   */
+  private async listAllResources(connection: MCPConnection): Promise<MCPResource[]> {
+    if (!connection.client.getServerCapabilities()?.resources) {
+      return []
+    }
+
+    try {
+      return await this.collectPages('resources', connection.serverId, async (cursor) => {
+        const result = await connection.client.listResources(cursor ? { cursor } : undefined)
+
+        return {
+          items: result.resources.map(resource => ({
+            uri: resource.uri,
+            name: resource.name,
+            title: resource.title,
+            description: resource.description,
+            mimeType: resource.mimeType,
+            size: resource.size,
+            serverId: connection.serverId
+          })),
+          nextCursor: result.nextCursor
+        }
+      })
+    } catch (error: any) {
+      console.warn(`MCP server '${connection.serverName}' failed resources/list:`, error.message)
+      return []
+    }
+  }
+
+  /**
+   * List a server's prompts, following prompts/list cursors until the last page
+   * A server that fails to list them keeps its tools usable
+   */
+  private async listAllPrompts(connection: MCPConnection): Promise<MCPPrompt[]> {
+    if (!connection.client.getServerCapabilities()?.prompts) {
+      return []
+    }
+
+    try {
+      return await this.collectPages('prompts', connection.serverId, async (cursor) => {
+        const result = await connection.client.listPrompts(cursor ? { cursor } : undefined)
+
+        return {
+          items: result.prompts.map(prompt => ({
+            name: prompt.name,
+            title: prompt.title,
+            description: prompt.description,
+            arguments: prompt.arguments ?? [],
+            serverId: connection.serverId,
+            command: prompt.name
+          })),
+          nextCursor: result.nextCursor
+        }
+      })
+    } catch (error: any) {
+      console.warn(`MCP server '${connection.serverName}' failed prompts/list:`, error.message)
+      return []
+    }
+  }
+
+  /**
+   * Re-list a server's resources after it sent resources/list_changed
+   */
+  private async refreshResources(connection: MCPConnection): Promise<void> {
+    if (this.connections.get(connection.serverId) !== connection || connection.status !== 'connected') {
+      return
+    }
+
+    connection.resources = await this.listAllResources(connection)
+    this.emit({ type: 'resources_changed', serverId: connection.serverId, resourceCount: connection.resources.length })
+  }
+
+  /**
+   * Re-list a server's prompts after it sent prompts/list_changed
+   */
+  private async refreshPrompts(connection: MCPConnection): Promise<void> {
+    if (this.connections.get(connection.serverId) !== connection || connection.status !== 'connected') {
+      return
+    }
+
+    connection.prompts = await this.listAllPrompts(connection)
+    this.emit({ type: 'prompts_changed', serverId: connection.serverId, promptCount: connection.prompts.length })
+  }
+
+  /**
+   * Subscribe a new connection to the resources subscribed on earlier ones
+   */
+  private restoreSubscriptions(connection: MCPConnection): void {
+    const uris = this.subscriptions.get(connection.serverId)
+    if (!uris || !connection.client.getServerCapabilities()?.resources?.subscribe) {
+      return
+    }
+
+    for (const uri of uris) {
+      connection.client.subscribeResource({ uri }).catch((error: any) => {
+        console.warn(`MCP server '${connection.serverName}' rejected resources/subscribe for ${uri}:`, error.message)
+      })
+    }
+  }
+
+  /**
+   * Treat the transport closing on its own as a lost connection
+   */
+  private watchConnection(connection: MCPConnection): void {
+    connection.client.onclose = () => {
+      this.handleConnectionLost(connection, 'Connection closed')
+    }
+  }
+
   /**
    * Setup event listeners for MCP server process
    */
   private setupProcessListeners(serverId: string, childProcess: ChildProcess): void {
-    childProcess.on('exit', (code, signal) => {
+    // Events from the process of an earlier connection must not touch its replacement
+    const connectionOf = () => {
       const connection = this.connections.get(serverId)
+      return connection?.process === childProcess ? connection : undefined
+    }
+
+    childProcess.on('exit', (code, signal) => {
+      const connection = connectionOf()
       if (connection && connection.status === 'connected') {
         console.error(`MCP server '${connection.serverName}' process exited unexpectedly (code: ${code}, signal: ${signal})`)
-        connection.status = 'error'
-        connection.error = `Process exited with code ${code}`
+        this.handleConnectionLost(connection, `Process exited with code ${code}`)
       }
     })
 
     childProcess.on('error', (error) => {
-      const connection = this.connections.get(serverId)
+      const connection = connectionOf()
       if (connection) {
         console.error(`MCP server '${connection.serverName}' process error:`, error.message)
-        connection.status = 'error'
-        connection.error = error.message
+        this.handleConnectionLost(connection, error.message)
       }
     })
+  }
 
-    // Log stderr for debugging
-    childProcess.stderr?.on('data', (data) => {
-      const connection = this.connections.get(serverId)
-      if (connection) {
-        console.error(`MCP server '${connection.serverName}' stderr:`, data.toString())
+  /**
+   * Keep a stdio server's stderr in its log, one entry per line
+   */
+  private captureStderr(serverId: string, serverName: string, transport: StdioClientTransport): void {
+    let partial = ''
+
+    transport.stderr?.on('data', (data: Buffer) => {
+      const lines = (partial + data.toString()).split(/\r?\n/)
+      partial = lines.pop() ?? ''
+
+      for (const line of lines.filter(l => l.trim())) {
+        console.error(`MCP server '${serverName}' stderr:`, line)
+        this.logBuffer(serverId).append({ level: stderrLevel(line), source: 'stderr', message: line })
+      }
+    })
+  }
+
+  /**
+   * Client advertising what we can answer: roots and elicitation (form mode) always,
+   * sampling once a handler is set
+   */
+  private createClient(): Client {
+    return new Client(
+      {
+        name: 'mcp-chatbot',
+        version: '1.0.0'
+      },
+      {
+        capabilities: {
+          roots: { listChanged: true },
+          elicitation: { form: {} },
+          ...(this.samplingHandler ? { sampling: {} } : {})
+        }
+      }
+    )
+  }
+
+  /**
+   * Handle requests and notifications the server sends on its own
+   */
+  private setupNotificationHandlers(connection: MCPConnection): void {
+    // Read on every request so edits apply without reconnecting
+    connection.client.setRequestHandler(ListRootsRequestSchema, async () => {
+      return { roots: this.getRoots(connection.serverId) }
+    })
+
+    // Requests don't say which tool call they belong to, so callers run one call at a time on servers
+    // that ask (see asksForInput). A question arriving while several calls already run goes to the call
+    // asked least so far (oldest on a tie); the answer still goes back to the request that asked.
+    // Outside a tool call that can ask the user (e.g. the tool tester) there is no one to answer
+    connection.client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+      this.askingServers.add(connection.serverId)
+
+      const call = connection.toolCalls
+        .filter(call => call.onElicitation)
+        .reduce<ToolCallInFlight | undefined>((least, call) => !least || call.questions < least.questions ? call : least, undefined)
+      if (!call?.onElicitation || request.params.mode === 'url') {
+        return { action: 'cancel' }
+      }
+      if (connection.toolCalls.length > 1) {
+        console.warn(`[MCPService] ${connection.serverName} asked for input during ${connection.toolCalls.length} tool calls, handing the question to the one asked least so far`)
+      }
+
+      call.questions++
+      return call.onElicitation(request.params, extra.signal)
+    })
+
+    const samplingHandler = this.samplingHandler
+    if (samplingHandler) {
+      connection.client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+        return samplingHandler(
+          { id: connection.serverId, name: connection.serverName },
+          request.params,
+          extra.signal
+        )
+      })
+    }
+
+    // Servers that add or remove tools at runtime say so
+    connection.client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      this.refreshTools(connection)
+    })
+
+    connection.client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      await this.refreshResources(connection)
+    })
+
+    connection.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      this.emit({ type: 'resource_updated', serverId: connection.serverId, uri: notification.params.uri })
+    })
+
+    connection.client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+      await this.refreshPrompts(connection)
+    })
+
+    connection.client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+      const { level, logger, data } = notification.params
+      this.logBuffer(connection.serverId).append({
+        level,
+        source: 'protocol',
+        logger,
+        message: typeof data === 'string' ? data : JSON.stringify(data)
+      })
+    })
+  }
+
+  /**
+   * Ask servers that support logging for everything; the log buffer is bounded
+   */
+  private requestLogMessages(connection: MCPConnection): void {
+    if (!connection.client.getServerCapabilities()?.logging) {
+      return
+    }
+
+    connection.client.setLoggingLevel('debug').catch((error: any) => {
+      console.warn(`MCP server '${connection.serverName}' rejected logging/setLevel:`, error.message)
+    })
+  }
+
+  private logBuffer(serverId: string): ServerLogBuffer {
+    let buffer = this.logs.get(serverId)
+    if (!buffer) {
+      buffer = new ServerLogBuffer()
+      this.logs.set(serverId, buffer)
+    }
+    return buffer
+  }
+
+  /**
+   * Recent console lines of a server (stderr and MCP log messages), oldest first
+   *
+   * @param limit - At most this many of the newest lines
+   * @param after - Only lines after this seq, to pick up where a previous read stopped
+   */
+  getServerLogs(serverId: string, limit?: number, after?: number): MCPLogEntry[] {
+    return this.logs.get(serverId)?.tail(limit, after) ?? []
+  }
+
+  /**
+   * Receive a server's console lines as they arrive
+   * @returns Function that stops following
+   */
+  followServerLogs(serverId: string, listener: (entry: MCPLogEntry) => void): () => void {
+    return this.logBuffer(serverId).follow(listener)
+  }
+
+  /**
+   * Forget a server's console (once the server is deleted; disconnecting keeps it)
+   */
+  clearServerLogs(serverId: string): void {
+    this.logs.delete(serverId)
+  }
+
+  /**
+   * Route a connection's messages past the protocol inspector
+   * Only servers with capture turned on are recorded; the switch applies to a live connection
+   */
+  private recordingTransport(serverId: string, transport: StdioClientTransport | StreamableHTTPClientTransport): RecordingTransport {
+    return new RecordingTransport(transport, (direction, message) => {
+      if (this.capturing.has(serverId)) {
+        this.protocolRecorder(serverId).record(direction, message)
       }
     })
   }
 
+  private protocolRecorder(serverId: string): ProtocolRecorder {
+    let recorder = this.captures.get(serverId)
+    if (!recorder) {
+      recorder = new ProtocolRecorder()
+      this.captures.set(serverId, recorder)
+    }
+    return recorder
+  }
+
+  /**
+   * Turn JSON-RPC capture on or off for a server (kept across reconnects)
+   */
+  setProtocolCapture(serverId: string, enabled: boolean): void {
+    if (enabled) {
+      this.capturing.add(serverId)
+    } else {
+      this.capturing.delete(serverId)
+    }
+  }
+
+  isCapturingProtocol(serverId: string): boolean {
+    return this.capturing.has(serverId)
+  }
+
+  /**
+   * Captured JSON-RPC messages of a server, oldest first
+   *
+   * @param limit - At most this many of the newest messages
+   * @param after - Only messages after this seq
+   */
+  getProtocolMessages(serverId: string, limit?: number, after?: number): MCPProtocolMessage[] {
+    return this.captures.get(serverId)?.tail(limit, after) ?? []
+  }
+
+  /**
+   * Receive a server's JSON-RPC messages as they are captured
+   * @returns Function that stops following
+   */
+  followProtocolMessages(serverId: string, listener: (message: MCPProtocolMessage) => void): () => void {
+    return this.protocolRecorder(serverId).follow(listener)
+  }
+
+  /**
+   * Drop the captured messages of a server; with forget, also turn capture off (server deleted)
+   */
+  clearProtocolMessages(serverId: string, forget: boolean = false): void {
+    this.captures.get(serverId)?.clear()
+    if (forget) {
+      this.captures.delete(serverId)
+      this.capturing.delete(serverId)
+    }
+  }
+
   /**
    * Disconnect from a single MCP server
    * Closes connection and kills process gracefully
@@ -312,6 +865,11 @@ export class MCPService {
 
     console.log(`Disconnecting from MCP server '${connection.serverName}'`)
 
+    // Before closing, so the process exiting isn't taken for a crash
+    this.setState(connection, 'disconnected')
+    this.cancelReconnect(serverId)
+    this.stopPing(connection)
+
     try {
       // Close MCP client connection
       if (connection.client) {
@@ -323,12 +881,12 @@ export class MCPService {
 
     try {
       // Kill the process gracefully
-      if (connection.process && !connection.process.killed) {
+      if (connection.process && connection.process.exitCode === null && !connection.process.killed) {
         connection.process.kill('SIGTERM')
 
         // Force kill after 5 seconds if still alive
         setTimeout(() => {
-          if (connection.process && !connection.process.killed) {
+          if (connection.process && connection.process.exitCode === null && !connection.process.killed) {
             console.warn(`Force killing MCP server '${connection.serverName}'`)
             connection.process.kill('SIGKILL')
           }
@@ -340,12 +898,15 @@ export class MCPService {
 
     // Remove from connections map
     this.connections.delete(serverId)
+    this.transitions.delete(serverId)
+    this.emit({ type: 'mcp_removed', serverId })
 
     console.log(`✅ Disconnected from MCP server '${connection.serverName}'`)
   }
 
   /**
    * Reconnect to a server (disconnect then connect)
+   * Also how a parked server is brought back; automatic attempts start over from here
    */
   async reconnectServer(serverId: string): Promise<void> {
     await this.disconnectServer(serverId)
@@ -356,6 +917,141 @@ export class MCPService {
     await this.connectServer(serverConfig)
   }
 
+  /**
+   * Record a connection's move to a new state
+   */
+  private setState(connection: Partial<MCPConnection>, state: MCPConnectionState, error?: string): void {
+    connection.status = state
+    connection.error = error
+
+    const history = this.transitions.get(connection.serverId!) ?? []
+    history.push({ state, at: new Date().toISOString(), ...(error && { error }) })
+    this.transitions.set(connection.serverId!, history.slice(-MAX_TRANSITIONS))
+
+    this.emit({ type: 'mcp_status', server: this.toStatus(connection as MCPConnection) })
+  }
+
+  /**
+   * Listen for state changes and tool list changes
+   * @returns Function that removes the listener
+   */
+  onChange(listener: (event: MCPStatusEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private emit(event: MCPStatusEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error: any) {
+        console.error('[MCPService] Status listener failed:', error.message)
+      }
+    }
+  }
+
+  /**
+   * A connected server stopped responding: close what's left of it and start reconnecting
+   */
+  private handleConnectionLost(connection: MCPConnection, reason: string): void {
+    if (this.connections.get(connection.serverId) !== connection || connection.status !== 'connected') {
+      return
+    }
+
+    this.stopPing(connection)
+    this.setState(connection, 'error', reason)
+
+    // Closing the transport also stops a stdio process that is still running
+    connection.client.close().catch((error: any) => {
+      console.error(`Error closing MCP client for '${connection.serverName}':`, error.message)
+    })
+
+    this.scheduleReconnect(connection.serverId)
+  }
+
+  /**
+   * Plan the next automatic reconnection attempt, or park the server once retries run out
+   */
+  private scheduleReconnect(serverId: string): void {
+    const connection = this.connections.get(serverId)
+    if (!connection) {
+      return
+    }
+
+    const reconnect = this.reconnects.get(serverId) ?? { attempts: 0 }
+    this.reconnects.set(serverId, reconnect)
+
+    if (reconnect.attempts >= this.options.maxRetries) {
+      console.error(`MCP server '${connection.serverName}' parked after ${reconnect.attempts} failed reconnection attempts`)
+      this.setState(connection, 'parked', connection.error)
+      return
+    }
+
+    reconnect.attempts++
+    const delay = reconnectDelay(reconnect.attempts, this.options)
+    reconnect.nextRetryAt = new Date(Date.now() + delay)
+    reconnect.timer = setTimeout(() => this.attemptReconnect(serverId), delay)
+    reconnect.timer.unref()
+
+    console.log(`Reconnecting to MCP server '${connection.serverName}' in ${delay}ms (attempt ${reconnect.attempts}/${this.options.maxRetries})`)
+    this.setState(connection, 'reconnecting', connection.error)
+  }
+
+  private async attemptReconnect(serverId: string): Promise<void> {
+    const reconnect = this.reconnects.get(serverId)
+    if (!reconnect) {
+      return
+    }
+    reconnect.timer = undefined
+    reconnect.nextRetryAt = undefined
+
+    // Removed or disabled while waiting
+    const serverConfig = this.configService.getMCPServer(serverId)
+    if (!serverConfig?.enabled) {
+      await this.disconnectServer(serverId)
+      return
+    }
+
+    try {
+      await this.connectServer(serverConfig)
+      this.reconnects.delete(serverId)
+    } catch {
+      this.scheduleReconnect(serverId)
+    }
+  }
+
+  private cancelReconnect(serverId: string): void {
+    const reconnect = this.reconnects.get(serverId)
+    if (reconnect?.timer) {
+      clearTimeout(reconnect.timer)
+    }
+    this.reconnects.delete(serverId)
+  }
+
+  /**
+   * Ping an HTTP server periodically; a failed ping counts as a lost connection
+   * (stdio servers are watched through their process instead)
+   */
+  private startPing(connection: MCPConnection): void {
+    connection.pingTimer = setInterval(async () => {
+      try {
+        await connection.client.ping({ timeout: this.options.pingTimeoutMs })
+        connection.lastPingAt = new Date()
+      } catch (error: any) {
+        console.error(`MCP server '${connection.serverName}' failed its health check:`, error.message)
+        this.handleConnectionLost(connection, `Ping failed: ${error.message}`)
+      }
+    }, this.options.pingIntervalMs)
+    connection.pingTimer.unref()
+  }
+
+  private stopPing(connection: MCPConnection): void {
+    if (connection.pingTimer) {
+      clearInterval(connection.pingTimer)
+      connection.pingTimer = undefined
+    }
+  }
+
   /**
    * Gracefully shutdown all MCP connections
    * Called during application shutdown
@@ -376,17 +1072,78 @@ export class MCPService {
 
   /**
    * Get all available tools from all connected servers
+   * Each tool carries a qualifiedName, unique across servers, for the LLM to call it by.
+   * Servers are taken oldest first, so a suffixed name stays with its server across reconnects
    */
   getAllTools(): MCPTool[] {
-    const allTools: MCPTool[] = []
+    const groups: Array<{ prefix: string; tools: MCPTool[]; order: string }> = []
 
     for (const connection of this.connections.values()) {
       if (connection.status === 'connected') {
-        allTools.push(...connection.tools)
+        // Read the alias on every call so renaming it doesn't need a reconnect
+        const server = this.configService.getMCPServer(connection.serverId)
+        groups.push({
+          prefix: toolPrefix({ name: connection.serverName, alias: server?.alias }),
+          tools: connection.tools,
+          order: `${server?.createdAt ?? ''}/${connection.serverId}`
+        })
       }
     }
 
-    return allTools
+    groups.sort((a, b) => a.order.localeCompare(b.order))
+    return qualifyToolNames(groups)
+  }
+
+  /**
+   * Argument rules configured for a server (defaults, renames), applied before its tools are called
+   */
+  getArgumentRules(serverId: string): ArgumentRule[] {
+    return this.configService.getMCPServer(serverId)?.argumentRules ?? []
+  }
+
+  /**
+   * Rewrite a call's arguments with the server's argument rules
+   * executeTool applies them to every call; callers that show or check arguments first
+   * (approval, validation) apply them earlier too, which changes nothing the second time
+   */
+  applyArgumentRules(
+    serverId: string,
+    toolName: string,
+    args: Record<string, any>,
+    context: ArgumentRuleContext = {}
+  ): ArgumentRuleResult {
+    const result = applyArgumentRules(this.getArgumentRules(serverId), toolName, args, context)
+    if (result.applied.length > 0) {
+      console.log(`[MCPService] Applied ${result.applied.length} argument rule(s) to ${toolName}`)
+    }
+    return result
+  }
+
+  /**
+   * Roots configured for a server, as answered to roots/list
+   */
+  getRoots(serverId: string): Root[] {
+    return (this.configService.getMCPServer(serverId)?.roots ?? []).map(directory => ({
+      uri: pathToFileURL(directory).href,
+      name: basename(directory) || directory
+    }))
+  }
+
+  /**
+   * Tell a connected server its roots were edited, so it asks for them again
+   * A server that isn't connected gets the current roots when it next connects
+   */
+  async notifyRootsChanged(serverId: string): Promise<void> {
+    const connection = this.connections.get(serverId)
+    if (!connection || connection.status !== 'connected') {
+      return
+    }
+
+    try {
+      await connection.client.sendRootsListChanged()
+    } catch (error: any) {
+      console.warn(`[MCPService] Could not notify '${connection.serverName}' of changed roots: ${error.message}`)
+    }
   }
 
   /**
@@ -401,13 +1158,126 @@ export class MCPService {
   }
 
   /**
-   * Execute a tool on a specific MCP server
+   * Get resources from all connected servers
    */
-  async executeTool(
-    serverId: string,
-    toolName: string,
-    args: Record<string, any>
-  ): Promise<MCPToolResult> {
+  getAllResources(): MCPResource[] {
+    return Array.from(this.connections.values())
+      .filter(connection => connection.status === 'connected')
+      .flatMap(connection => connection.resources)
+  }
+
+  /**
+   * Get resources from a specific server
+   */
+  getResourcesByServer(serverId: string): MCPResource[] {
+    const connection = this.connections.get(serverId)
+    if (!connection || connection.status !== 'connected') {
+      return []
+    }
+    return connection.resources
+  }
+
+  /**
+   * Read a resource's contents with resources/read
+   */
+  async readResource(serverId: string, uri: string): Promise<MCPResourceContents[]> {
+    const connection = this.connectedConnection(serverId)
+    const result = await connection.client.readResource({ uri })
+
+    return result.contents.map(item => ({
+      uri: item.uri,
+      mimeType: item.mimeType,
+      ...('text' in item ? { text: item.text as string } : { blob: item.blob as string })
+    }))
+  }
+
+  /**
+   * Ask a server to send resources/updated when a resource changes
+   * Subscriptions outlive the connection and are restored when the server reconnects.
+   *
+   * @returns false if the server doesn't support subscriptions
+   */
+  async subscribeResource(serverId: string, uri: string): Promise<boolean> {
+    const connection = this.connectedConnection(serverId)
+    if (!connection.client.getServerCapabilities()?.resources?.subscribe) {
+      return false
+    }
+
+    const uris = this.subscriptions.get(serverId) ?? new Set<string>()
+    if (!uris.has(uri)) {
+      await connection.client.subscribeResource({ uri })
+      uris.add(uri)
+      this.subscriptions.set(serverId, uris)
+    }
+    return true
+  }
+
+  /**
+   * Stop resources/updated notifications for a resource
+   */
+  async unsubscribeResource(serverId: string, uri: string): Promise<void> {
+    if (!this.subscriptions.get(serverId)?.delete(uri)) {
+      return
+    }
+
+    const connection = this.connections.get(serverId)
+    if (connection?.status === 'connected') {
+      await connection.client.unsubscribeResource({ uri }).catch((error: any) => {
+        console.warn(`MCP server '${connection.serverName}' rejected resources/unsubscribe for ${uri}:`, error.message)
+      })
+    }
+  }
+
+  /**
+   * Forget the resource subscriptions of a server that was deleted
+   */
+  clearResourceSubscriptions(serverId: string): void {
+    this.subscriptions.delete(serverId)
+  }
+
+  /**
+   * Get prompts from all connected servers
+   * Each prompt's command is its name, or prefixed with its server's tool prefix when
+   * another server has a prompt of the same name
+   */
+  getAllPrompts(): MCPPrompt[] {
+    const prompts = Array.from(this.connections.values())
+      .filter(connection => connection.status === 'connected')
+      .flatMap(connection => {
+        const alias = this.configService.getMCPServer(connection.serverId)?.alias
+        const prefix = toolPrefix({ name: connection.serverName, alias })
+        return connection.prompts.map(prompt => ({ prompt, prefix }))
+      })
+
+    const nameCounts = new Map<string, number>()
+    for (const { prompt } of prompts) {
+      nameCounts.set(prompt.name, (nameCounts.get(prompt.name) ?? 0) + 1)
+    }
+
+    return prompts.map(({ prompt, prefix }) => ({
+      ...prompt,
+      command: nameCounts.get(prompt.name)! > 1 ? `${prefix}${TOOL_NAME_SEPARATOR}${prompt.name}` : prompt.name
+    }))
+  }
+
+  /**
+   * Render a prompt with prompts/get
+   * @returns The prompt's messages, ready to add to a conversation
+   */
+  async getPrompt(serverId: string, name: string, args: Record<string, string>): Promise<RenderedPrompt> {
+    const connection = this.connectedConnection(serverId)
+    const result = await connection.client.getPrompt({ name, arguments: args })
+
+    return {
+      description: result.description,
+      messages: renderPromptMessages(serverId, result.messages)
+    }
+  }
+
+  /**
+   * The live connection to a server, for sending it a request
+   */
+  private connectedConnection(serverId: string): MCPConnection {
     const connection = this.connections.get(serverId)
 
     if (!connection) {
@@ -418,25 +1288,27 @@ export class MCPService {
       throw new Error(`MCP server '${connection.serverName}' is not connected (status: ${connection.status})`)
     }
 
-    // Auto-inject today's date for Garmin health tools if date parameter is missing
-    // This fixes timezone issues where the Garmin server defaults to UTC
-    const garminDateTools = [
-      'get_daily_stats', 'get_heart_rate_data', 'get_stress_data',
-      'get_sleep_data', 'get_body_battery', 'get_steps_data'
-    ]
-    if (garminDateTools.includes(toolName)) {
-      if (!args.date_str && args.date_str !== '') {
-        // Get current date in local timezone (not UTC)
-        // The container runs in UTC, but we want the user's local date
-        const now = new Date()
-        const year = now.getFullYear()
-        const month = String(now.getMonth() + 1).padStart(2, '0')
-        const day = String(now.getDate()).padStart(2, '0')
-        const todayLocal = `${year}-${month}-${day}`
-        args.date_str = todayLocal
-        console.log(`[MCPService] Auto-injected date_str="${todayLocal}" for ${toolName} (timezone fix)`)
-      }
-    }
+    return connection
+  }
+
+  /**
+   * Execute a tool on a specific MCP server
+   * Aborting the signal sends notifications/cancelled so the server can stop work,
+   * and rejects instead of returning an error result.
+   * Elicitation requests the server makes while the call runs go to onElicitation;
+   * without one, or while other calls to the server are running, they are cancelled.
+   * The server's argument rules are applied first, whoever calls.
+   */
+  async executeTool(
+    serverId: string,
+    toolName: string,
+    rawArgs: Record<string, any>,
+    { signal, onElicitation, ruleContext }: ToolCallOptions = {}
+  ): Promise<MCPToolResult> {
+    const connection = this.connectedConnection(serverId)
+    const args = this.applyArgumentRules(serverId, toolName, rawArgs, ruleContext).arguments
+    const call: ToolCallInFlight = { onElicitation, questions: 0 }
+    connection.toolCalls.push(call)
 
     try {
       console.log(`[MCPService] Calling tool '${toolName}' with arguments:`, JSON.stringify(args, null, 2))
@@ -444,7 +1316,7 @@ export class MCPService {
       const result = await connection.client.callTool({
         name: toolName,
         arguments: args
-      })
+      }, undefined, { signal, timeout: onElicitation ? USER_INPUT_CALL_TIMEOUT_MS : undefined })
 
       console.log(`[MCPService] Tool '${toolName}' raw result:`, JSON.stringify(result, null, 2))
 
@@ -521,6 +1393,11 @@ export class MCPService {
         isError: Boolean(result.isError)
       }
     } catch (error: any) {
+      if (signal?.aborted) {
+        console.log(`[MCPService] Tool '${toolName}' on '${connection.serverName}' was cancelled`)
+        throw error
+      }
+
       console.error(`[MCPService] Error executing tool '${toolName}' on '${connection.serverName}':`)
       console.error(`  Error message: ${error.message}`)
       console.error(`  Error stack: ${error.stack}`)
@@ -540,9 +1417,19 @@ export class MCPService {
         ],
         isError: true
       }
+    } finally {
+      connection.toolCalls.splice(connection.toolCalls.indexOf(call), 1)
     }
   }
 
+  /**
+   * Whether a server has asked the user for input during a tool call, on this or an earlier connection
+   * Its questions can only be matched to a call when one call runs at a time
+   */
+  asksForInput(serverId: string): boolean {
+    return this.askingServers.has(serverId)
+  }
+
   /**
    * Get connection status for a specific server
    */
@@ -552,24 +1439,34 @@ export class MCPService {
       return null
     }
 
-    return {
-      id: serverId,
-      connected: connection.status === 'connected',
-      toolCount: connection.tools.length,
-      error: connection.error
-    }
+    return this.toStatus(connection)
   }
 
   /**
    * Get connection status for all servers
    */
   getAllServerStatuses(): MCPServerStatus[] {
-    return Array.from(this.connections.values()).map(conn => ({
-      id: conn.serverId,
-      connected: conn.status === 'connected',
-      toolCount: conn.tools.length,
-      error: conn.error
-    }))
+    return Array.from(this.connections.values()).map(conn => this.toStatus(conn))
+  }
+
+  private toStatus(connection: MCPConnection): MCPServerStatus {
+    const transitions = this.transitions.get(connection.serverId) ?? []
+    const reconnect = this.reconnects.get(connection.serverId)
+
+    return {
+      id: connection.serverId,
+      name: connection.serverName,
+      connected: connection.status === 'connected',
+      toolCount: connection.tools.length,
+      error: connection.error,
+      state: connection.status,
+      since: transitions[transitions.length - 1]?.at ?? new Date().toISOString(),
+      reconnectAttempts: reconnect?.attempts ?? 0,
+      nextRetryAt: reconnect?.nextRetryAt?.toISOString(),
+      lastConnected: connection.lastConnected?.toISOString(),
+      lastPingAt: connection.lastPingAt?.toISOString(),
+      transitions
+    }
   }
 
   /**
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { renderPromptMessages } from './PromptMessages.js'
+import { MAX_ATTACHMENT_CHARS } from '../../../../shared/types/index.js'
+
+describe('PromptMessages', () => {
+  it('should keep text messages in order with their roles', () => {
+    const messages = renderPromptMessages('s1', [
+      { role: 'user', content: { type: 'text', text: 'Review app.ts' } },
+      { role: 'assistant', content: { type: 'text', text: 'Reviewing' } }
+    ])
+
+    expect(messages.map(m => [m.role, m.content])).toEqual([['user', 'Review app.ts'], ['assistant', 'Reviewing']])
+    expect(messages[1].timestamp).toBeGreaterThan(messages[0].timestamp)
+  })
+
+  it('should attach embedded text resources', () => {
+    const [message] = renderPromptMessages('s1', [
+      { role: 'user', content: { type: 'resource', resource: { uri: 'file:///src/app.ts', mimeType: 'text/x-typescript', text: 'export {}' } } }
+    ])
+
+    expect(message.content).toBe('')
+    expect(message.attachments).toEqual([
+      expect.objectContaining({ serverId: 's1', uri: 'file:///src/app.ts', name: 'app.ts', mimeType: 'text/x-typescript', text: 'export {}' })
+    ])
+  })
+
+  it('should cut embedded resources to the attachment limit', () => {
+    const [message] = renderPromptMessages('s1', [
+      { role: 'user', content: { type: 'resource', resource: { uri: 'file:///big.log', text: 'x'.repeat(MAX_ATTACHMENT_CHARS + 500) } } }
+    ])
+
+    const text = message.attachments![0].text
+    expect(text.length).toBeLessThanOrEqual(MAX_ATTACHMENT_CHARS)
+    expect(text).toMatch(/\[\.\.\. 600 characters not attached\]$/)
+  })
+
+  it('should describe content a chat message cannot carry', () => {
+    const messages = renderPromptMessages('s1', [
+      { role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+      { role: 'user', content: { type: 'resource', resource: { uri: 'file:///logo.png', mimeType: 'image/png', blob: 'AAAA' } } },
+      { role: 'user', content: { type: 'resource_link', uri: 'file:///README.md', name: 'README.md' } }
+    ])
+
+    expect(messages.map(m => m.content)).toEqual([
+      '[image content (image/png) not included]',
+      '[Binary resource file:///logo.png (image/png) not included]',
+      '[Resource: README.md (file:///README.md)]'
+    ])
+  })
+})
@@ -0,0 +1,52 @@
+import type { PromptMessage } from '@modelcontextprotocol/sdk/types.js'
+import { truncateAttachment } from '../../../../shared/types/index.js'
+import type { Message, ResourceAttachment } from '../../../../shared/types/index.js'
+
+/**
+ * Turn the messages of a prompts/get result into conversation messages
+ *
+ * Text becomes the message content and embedded text resources become
+ * attachments, so the LLM sees them the way it sees attached resources,
+ * cut to MAX_ATTACHMENT_CHARS like resources the user attaches.
+ * Content a chat message can't carry (images, audio, binary resources)
+ * is replaced by a note saying what was left out.
+ */
+export function renderPromptMessages(serverId: string, messages: PromptMessage[]): Message[] {
+  const now = Date.now()
+
+  return messages.map((promptMessage, index) => {
+    const message: Message = { role: promptMessage.role, content: '', timestamp: now + index }
+    const content = promptMessage.content
+
+    switch (content.type) {
+      case 'text':
+        message.content = content.text
+        break
+      case 'resource':
+        if ('text' in content.resource) {
+          message.attachments = [toAttachment(serverId, content.resource.uri, content.resource.mimeType, content.resource.text as string)]
+        } else {
+          message.content = `[Binary resource ${content.resource.uri} (${content.resource.mimeType ?? 'unknown type'}) not included]`
+        }
+        break
+      case 'resource_link':
+        message.content = `[Resource: ${content.name} (${content.uri})]`
+        break
+      default:
+        message.content = `[${content.type} content (${content.mimeType}) not included]`
+    }
+
+    return message
+  })
+}
+
+function toAttachment(serverId: string, uri: string, mimeType: string | undefined, text: string): ResourceAttachment {
+  return {
+    serverId,
+    uri,
+    name: uri.split('/').filter(Boolean).pop() ?? uri,
+    mimeType,
+    text: truncateAttachment(text),
+    readAt: new Date().toISOString()
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { ProtocolRecorder, redactSecrets } from './ProtocolRecorder.js'
+
+describe('ProtocolRecorder', () => {
+  it('should pair responses with the requests they answer', () => {
+    const recorder = new ProtocolRecorder()
+
+    recorder.record('sent', { jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    recorder.record('received', { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'hi' } })
+    const response = recorder.record('received', { jsonrpc: '2.0', id: 1, result: { tools: [] } })
+
+    expect(recorder.tail().map(m => m.kind)).toEqual(['request', 'notification', 'response'])
+    expect(response).toMatchObject({ direction: 'received', id: 1, method: 'tools/list' })
+    expect(response.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('should time requests from the server separately from ours', () => {
+    const recorder = new ProtocolRecorder()
+
+    recorder.record('sent', { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'x' } })
+    recorder.record('received', { jsonrpc: '2.0', id: 1, method: 'roots/list' })
+    const ours = recorder.record('sent', { jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method not found' } })
+
+    expect(ours).toMatchObject({ kind: 'error', method: 'roots/list' })
+  })
+
+  it('should keep huge messages as truncated text', () => {
+    const recorder = new ProtocolRecorder()
+    const entry = recorder.record('received', { jsonrpc: '2.0', id: 2, result: { blob: 'x'.repeat(100000) } })
+
+    expect(typeof entry.message).toBe('string')
+    expect(entry.message as string).toMatch(/truncated, \d+ characters\)$/)
+  })
+
+  describe('redactSecrets', () => {
+    it('should mask secret-looking string fields at any depth', () => {
+      expect(redactSecrets({
+        params: {
+          arguments: { query: 'weather', apiKey: 'sk-1', nested: [{ password: 'hunter2' }] },
+          _meta: { progressToken: 'abc' }
+        },
+        maxTokens: 100
+      })).toEqual({
+        params: {
+          arguments: { query: 'weather', apiKey: '[redacted]', nested: [{ password: '[redacted]' }] },
+          _meta: { progressToken: 'abc' }
+        },
+        maxTokens: 100
+      })
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { JSONRPCMessage, MessageExtraInfo } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPProtocolMessage } from '../../../../shared/types/index.js'
+import { SequencedBuffer } from './SequencedBuffer.js'
+
+type Direction = MCPProtocolMessage['direction']
+
+/** Messages kept per server while capturing */
+export const DEFAULT_CAPTURE_CAPACITY = 500
+
+/** Messages larger than this (as JSON) are kept as a truncated string */
+const MAX_MESSAGE_CHARS = 50000
+
+/** Requests still waiting for an answer; the oldest are forgotten beyond this */
+const MAX_PENDING_REQUESTS = 1000
+
+/** Keys whose values are masked wherever they appear in a message */
+const SECRET_KEY = /pass(word)?|secret|token|api[-_]?key|auth(orization)?|cookie|credential|private[-_]?key/i
+
+/** Protocol fields that match SECRET_KEY but are not secrets */
+const NOT_SECRET = new Set(['progressToken'])
+
+const MASK = '[redacted]'
+
+/**
+ * Copy of a value with secret-looking fields masked, so tool arguments
+ * and results carrying credentials don't end up in the inspector
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [
+        key,
+        typeof inner === 'string' && SECRET_KEY.test(key) && !NOT_SECRET.has(key) ? MASK : redactSecrets(inner)
+      ])
+    )
+  }
+  return value
+}
+
+/**
+ * ProtocolRecorder keeps the JSON-RPC traffic of one MCP server,
+ * pairing responses with their requests to time them.
+ *
+ * Only messages are recorded: transport settings such as HTTP headers
+ * and stdio environment never pass through here.
+ */
+export class ProtocolRecorder extends SequencedBuffer<MCPProtocolMessage> {
+  // Keyed by the direction of the request and its id
+  private pending: Map<string, { method: string; sentAt: number }> = new Map()
+
+  constructor(capacity: number = DEFAULT_CAPTURE_CAPACITY) {
+    super(capacity)
+  }
+
+  record(direction: Direction, message: JSONRPCMessage): MCPProtocolMessage {
+    const raw = message as { id?: string | number; method?: string; error?: unknown }
+    const now = Date.now()
+    let entry: Omit<MCPProtocolMessage, 'seq' | 'timestamp'>
+
+    if (raw.method !== undefined && raw.id !== undefined) {
+      this.pending.set(`${direction}:${raw.id}`, { method: raw.method, sentAt: now })
+      if (this.pending.size > MAX_PENDING_REQUESTS) {
+        this.pending.delete(this.pending.keys().next().value!)
+      }
+      entry = { direction, kind: 'request', id: raw.id, method: raw.method, message: this.payload(message) }
+    } else if (raw.method !== undefined) {
+      entry = { direction, kind: 'notification', method: raw.method, message: this.payload(message) }
+    } else {
+      // Answers travel the other way from the request they belong to
+      const key = `${direction === 'sent' ? 'received' : 'sent'}:${raw.id}`
+      const request = this.pending.get(key)
+      this.pending.delete(key)
+      entry = {
+        direction,
+        kind: raw.error !== undefined ? 'error' : 'response',
+        id: raw.id,
+        method: request?.method,
+        durationMs: request ? now - request.sentAt : undefined,
+        message: this.payload(message)
+      }
+    }
+
+    return this.append(entry)
+  }
+
+  override clear(): void {
+    super.clear()
+    this.pending.clear()
+  }
+
+  private payload(message: JSONRPCMessage): unknown {
+    const redacted = redactSecrets(message)
+    const json = JSON.stringify(redacted)
+    return json.length > MAX_MESSAGE_CHARS
+      ? `${json.slice(0, MAX_MESSAGE_CHARS)}… (truncated, ${json.length} characters)`
+      : redacted
+  }
+}
+
+/**
+ * Transport wrapper that reports every message passing through it
+ * The wrapped transport does the actual work; the client only sees this one
+ */
+export class RecordingTransport implements Transport {
+  onclose?: () => void
+  onerror?: (error: Error) => void
+  onmessage?: <T extends JSONRPCMessage>(message: T, extra?: MessageExtraInfo) => void
+
+  constructor(
+    private inner: Transport,
+    private record: (direction: Direction, message: JSONRPCMessage) => void
+  ) {}
+
+  get sessionId(): string | undefined {
+    return this.inner.sessionId
+  }
+
+  async start(): Promise<void> {
+    this.inner.onclose = () => this.onclose?.()
+    this.inner.onerror = (error) => this.onerror?.(error)
+    this.inner.onmessage = (message, extra) => {
+      this.record('received', message)
+      this.onmessage?.(message, extra)
+    }
+    await this.inner.start()
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    this.record('sent', message)
+    await this.inner.send(message, options)
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close()
+  }
+
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version)
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_RECONNECT_OPTIONS, reconnectDelay } from './ReconnectPolicy.js'
+
+const noJitter = { ...DEFAULT_RECONNECT_OPTIONS, jitter: 0 }
+
+describe('ReconnectPolicy', () => {
+  describe('reconnectDelay', () => {
+    it('should double the delay after each failed attempt', () => {
+      expect([1, 2, 3, 4].map(attempt => reconnectDelay(attempt, noJitter))).toEqual([1000, 2000, 4000, 8000])
+    })
+
+    it('should cap the delay', () => {
+      expect(reconnectDelay(20, noJitter)).toBe(60000)
+    })
+
+    it('should spread the delay by the jitter fraction', () => {
+      expect(reconnectDelay(1, DEFAULT_RECONNECT_OPTIONS, () => 0)).toBe(800)
+      expect(reconnectDelay(1, DEFAULT_RECONNECT_OPTIONS, () => 0.5)).toBe(1000)
+      expect(reconnectDelay(1, DEFAULT_RECONNECT_OPTIONS, () => 0.999999)).toBe(1200)
+    })
+  })
+})
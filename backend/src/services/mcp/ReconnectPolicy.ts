@@ -0,0 +1,48 @@
+/**
+ * Reconnect Policy
+ *
+ * When an MCP server drops (stdio process exits, HTTP ping fails) MCPService
+ * reconnects on its own, waiting longer after each failed attempt. After
+ * `maxRetries` failures in a row the server is parked until reconnected by hand.
+ */
+
+export interface ReconnectOptions {
+  initialDelayMs: number
+  maxDelayMs: number
+  multiplier: number
+  jitter: number          // Fraction of the delay added or removed at random, 0-1
+  maxRetries: number      // Failed attempts before the server is parked
+  pingIntervalMs: number  // Health checks for HTTP servers
+  pingTimeoutMs: number
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxRetries: 8,
+  pingIntervalMs: 30000,
+  pingTimeoutMs: 10000
+}
+
+/**
+ * Delay before a reconnection attempt
+ * Jitter keeps servers that dropped together from retrying in lockstep.
+ *
+ * @param attempt - 1 for the first attempt after the connection was lost
+ * @param random - Source of randomness, 0 <= n < 1
+ */
+export function reconnectDelay(
+  attempt: number,
+  options: ReconnectOptions = DEFAULT_RECONNECT_OPTIONS,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * Math.pow(options.multiplier, Math.max(0, attempt - 1))
+  )
+  const jittered = base * (1 + options.jitter * (2 * random() - 1))
+
+  return Math.max(0, Math.round(jittered))
+}
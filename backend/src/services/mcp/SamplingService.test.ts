@@ -0,0 +1,197 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { SamplingService } from './SamplingService.js'
+import { MCPService } from './MCPService.js'
+import { LLMService } from '../llm/LLMService.js'
+import { ConfigService } from '../config/ConfigService.js'
+import { Repository } from '../../db/repository.js'
+import { EncryptionService } from '../config/EncryptionService.js'
+import { initializeDatabase } from '../../db/schema.js'
+import { TestMCPServer } from '../../tests/helpers/TestMCPServer.js'
+import { TestLLMServer } from '../../tests/helpers/TestLLMServer.js'
+import type { MCPServerConfig, SamplingRecord } from '../../../../shared/types/index.js'
+import type { Database } from 'better-sqlite3'
+
+describe('SamplingService', () => {
+  let llmServer: TestLLMServer
+  let llmURL: string
+  let db: Database
+  let repository: Repository
+  let configService: ConfigService
+  let mcpService: MCPService
+  let samplingService: SamplingService
+  let testServer: TestMCPServer
+  let server: MCPServerConfig
+  let reported: SamplingRecord[]
+
+  const summarize = (args: Record<string, any> = {}) =>
+    mcpService.executeTool(server.id, 'summarize', { prompt: 'Summarize the release notes', ...args })
+
+  beforeAll(async () => {
+    llmServer = new TestLLMServer()
+    llmURL = await llmServer.start()
+  })
+
+  afterAll(async () => {
+    await llmServer.stop()
+  })
+
+  beforeEach(async () => {
+    llmServer.clearRequests()
+    llmServer.setDefaultResponse({
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Three bug fixes.' }, finish_reason: 'stop' }]
+    })
+
+    db = initializeDatabase(':memory:')
+    repository = new Repository(db, new EncryptionService('test-secret-key-at-least-32-chars'))
+    configService = new ConfigService(repository)
+    mcpService = new MCPService(configService)
+    const llmService = new LLMService({ baseURL: llmURL, apiKey: 'test-key', model: 'test-model' })
+    samplingService = new SamplingService(repository, configService, llmService, mcpService)
+
+    reported = []
+    mcpService.onChange(event => {
+      if (event.type === 'sampling_request') reported.push(event.record)
+    })
+
+    testServer = new TestMCPServer({
+      tools: [{ name: 'summarize', description: 'Summarize with the client LLM', inputSchema: { type: 'object' } }],
+      samplingTool: 'summarize'
+    })
+    server = configService.addMCPServer('Summarizer', 'stdio', await testServer.setup())
+  })
+
+  afterEach(async () => {
+    await mcpService.shutdown()
+    await testServer.cleanup()
+    db.close()
+  })
+
+  test('should deny servers without a sampling policy', async () => {
+    await mcpService.connectServer(server)
+
+    const result = await summarize()
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toMatch(/Sampling is not allowed for server 'Summarizer'/)
+    expect(llmServer.requests).toHaveLength(0)
+    expect(samplingService.getRecords()).toEqual([
+      expect.objectContaining({ serverId: server.id, status: 'denied', messages: [{ role: 'user', content: 'Summarize the release notes' }] })
+    ])
+  })
+
+  test('should answer with the LLM within the server max tokens', async () => {
+    configService.setSamplingPolicy(server.id, { mode: 'allow', maxTokens: 50 })
+    await mcpService.connectServer(server)
+
+    const result = await summarize({ systemPrompt: 'Be brief', maxTokens: 500 })
+
+    expect(result.isError).toBeFalsy()
+    expect(result.content[0].text).toBe('Three bug fixes.')
+
+    const request = llmServer.getLastRequest()
+    expect(request?.max_tokens).toBe(50)
+    expect(request?.messages.map(m => [m.role, m.content])).toEqual([
+      ['system', 'Be brief'],
+      ['user', 'Summarize the release notes']
+    ])
+
+    expect(samplingService.getRecords()).toEqual([
+      expect.objectContaining({
+        status: 'completed',
+        requestedMaxTokens: 500,
+        maxTokens: 50,
+        model: 'test-model',
+        response: 'Three bug fixes.',
+        stopReason: 'endTurn'
+      })
+    ])
+    expect(reported.map(r => r.status)).toEqual(['running', 'completed'])
+  })
+
+  test('should wait for the user when the policy asks', async () => {
+    configService.setSamplingPolicy(server.id, { mode: 'ask', maxTokens: 1024 })
+    await mcpService.connectServer(server)
+
+    const approved = summarize()
+    await waitFor(() => reported.some(r => r.status === 'pending'))
+    expect(samplingService.resolveApproval(reported[0].id, { approved: true })).toBe(true)
+    expect((await approved).content[0].text).toBe('Three bug fixes.')
+
+    const denied = summarize()
+    await waitFor(() => reported.filter(r => r.status === 'pending').length === 2)
+    const pending = reported.filter(r => r.status === 'pending')[1]
+    samplingService.resolveApproval(pending.id, { approved: false, reason: 'Too expensive' })
+
+    const result = await denied
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toMatch(/User rejected sampling request/)
+    expect(samplingService.getRecords().map(r => [r.status, r.error])).toEqual([
+      ['completed', undefined],
+      ['denied', 'Too expensive']
+    ])
+    expect(samplingService.resolveApproval(pending.id, { approved: true })).toBe(false)
+  })
+
+  test('should keep records across restarts and close the ones left open', async () => {
+    configService.setSamplingPolicy(server.id, { mode: 'ask', maxTokens: 1024 })
+    await mcpService.connectServer(server)
+
+    const waiting = summarize()
+    await waitFor(() => reported.some(r => r.status === 'pending'))
+
+    const llmService = new LLMService({ baseURL: llmURL, apiKey: 'test-key', model: 'test-model' })
+    const restarted = new SamplingService(repository, configService, llmService, new MCPService(configService))
+
+    expect(restarted.getRecords()).toEqual([
+      expect.objectContaining({
+        serverName: 'Summarizer',
+        status: 'error',
+        error: 'Interrupted by a restart',
+        messages: [{ role: 'user', content: 'Summarize the release notes' }]
+      })
+    ])
+
+    samplingService.resolveApproval(reported[0].id, { approved: false })
+    await waiting
+  })
+
+  test('should keep only the newest records', () => {
+    const record = (id: string): SamplingRecord => ({
+      id,
+      serverId: server.id,
+      serverName: 'Summarizer',
+      status: 'completed',
+      messages: [],
+      requestedMaxTokens: 10,
+      maxTokens: 10,
+      createdAt: new Date().toISOString()
+    })
+    for (const id of ['first', 'second', 'third']) {
+      repository.saveSamplingRecord(record(id))
+    }
+
+    repository.pruneSamplingRecords(2)
+
+    expect(samplingService.getRecords().map(r => r.id)).toEqual(['second', 'third'])
+  })
+
+  test('should not advertise sampling without a sampling handler', async () => {
+    const plainService = new MCPService(configService)
+
+    try {
+      await plainService.connectServer(server)
+      const result = await plainService.executeTool(server.id, 'summarize', { prompt: 'Hi' })
+
+      expect(result.content[0].text).toBe('Client does not support sampling')
+    } finally {
+      await plainService.shutdown()
+    }
+  })
+})
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 25))
+  }
+}
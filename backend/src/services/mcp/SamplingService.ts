@@ -0,0 +1,213 @@
+import { v4 as uuidv4 } from 'uuid'
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js'
+import type { Repository } from '../../db/repository.js'
+import type { ConfigService } from '../config/ConfigService.js'
+import type { LLMService } from '../llm/LLMService.js'
+import type { MCPService } from './MCPService.js'
+import type {
+  Message,
+  SamplingPolicy,
+  SamplingRecord,
+  ToolApprovalDecision
+} from '../../../../shared/types/index.js'
+
+// How long a sampling request waits for the user before it is treated as denied
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000
+
+/** Sampling requests kept in the database for review; older ones are deleted */
+const MAX_RECORDS = 1000
+
+/** Error code the MCP spec uses when the user rejects a sampling request */
+const USER_REJECTED = -1
+
+/** OpenAI finish reasons in MCP's terms */
+const STOP_REASONS: Record<string, string> = {
+  stop: 'endTurn',
+  length: 'maxTokens'
+}
+
+/** Servers without a sampling policy can't spend tokens */
+export const DEFAULT_SAMPLING_POLICY: SamplingPolicy = { mode: 'deny', maxTokens: 1024 }
+
+type SamplingMessage = CreateMessageRequest['params']['messages'][number]
+
+/**
+ * SamplingService answers sampling/createMessage requests from MCP servers
+ * with the configured LLM.
+ *
+ * Each server's sampling policy decides whether its requests are rejected,
+ * wait for the user's approval, or run right away, and caps their max tokens.
+ * Every request is recorded in the database - with the prompt, the limit
+ * applied and the reply - and reported on the status stream, since it spends
+ * tokens on the server's behalf.
+ */
+export class SamplingService {
+  private pending: Map<string, (decision: ToolApprovalDecision) => void> = new Map()
+
+  constructor(
+    private repository: Repository,
+    private configService: ConfigService,
+    private llmService: LLMService,
+    private mcpService: MCPService
+  ) {
+    // Requests in flight when the process stopped were dropped with their connection
+    repository.failUnfinishedSamplingRecords('Interrupted by a restart', new Date().toISOString())
+    mcpService.setSamplingHandler((server, params, signal) => this.createMessage(server, params, signal))
+  }
+
+  getPolicy(serverId: string): SamplingPolicy {
+    return this.configService.getMCPServer(serverId)?.samplingPolicy ?? DEFAULT_SAMPLING_POLICY
+  }
+
+  /**
+   * Recorded sampling requests, oldest first
+   */
+  getRecords(): SamplingRecord[] {
+    return this.repository.getSamplingRecords()
+  }
+
+  /**
+   * Deliver the user's decision on a pending request
+   * @returns false if no request is waiting for this decision
+   */
+  resolveApproval(id: string, decision: ToolApprovalDecision): boolean {
+    const resolve = this.pending.get(id)
+    if (!resolve) {
+      return false
+    }
+
+    resolve(decision)
+    return true
+  }
+
+  /**
+   * Run one sampling request under the server's policy
+   * Rejections are sent to the server as errors, and recorded like every other outcome
+   */
+  async createMessage(
+    server: { id: string; name: string },
+    params: CreateMessageRequest['params'],
+    signal: AbortSignal
+  ): Promise<CreateMessageResult> {
+    const policy = this.getPolicy(server.id)
+    const record = this.addRecord({
+      id: uuidv4(),
+      serverId: server.id,
+      serverName: server.name,
+      status: policy.mode === 'ask' ? 'pending' : 'running',
+      systemPrompt: params.systemPrompt,
+      messages: params.messages.map(message => ({ role: message.role, content: messageText(message) })),
+      requestedMaxTokens: params.maxTokens,
+      maxTokens: Math.min(params.maxTokens, policy.maxTokens),
+      createdAt: new Date().toISOString()
+    })
+
+    if (policy.mode === 'deny') {
+      this.finish(record, { status: 'denied', error: 'Sampling is not allowed for this server' })
+      throw new McpError(USER_REJECTED, `Sampling is not allowed for server '${server.name}'`)
+    }
+
+    if (!this.llmService.isConfigured()) {
+      this.finish(record, { status: 'error', error: 'LLM not configured' })
+      throw new Error('The client has no LLM configured')
+    }
+
+    if (policy.mode === 'ask') {
+      const decision = await this.waitForDecision(record.id, signal)
+      if (!decision.approved) {
+        this.finish(record, { status: 'denied', error: decision.reason ?? 'Denied by user' })
+        throw new McpError(USER_REJECTED, 'User rejected sampling request')
+      }
+      this.update(record, { status: 'running' })
+    }
+
+    try {
+      const response = await this.llmService.chat(this.toMessages(record), undefined, {
+        maxTokens: record.maxTokens,
+        temperature: params.temperature,
+        stopSequences: params.stopSequences,
+        signal
+      })
+      const stopReason = STOP_REASONS[response.finishReason] ?? response.finishReason
+
+      this.finish(record, {
+        status: 'completed',
+        model: response.model,
+        response: response.message.content,
+        stopReason
+      })
+
+      return {
+        model: response.model,
+        stopReason,
+        role: 'assistant',
+        content: { type: 'text', text: response.message.content }
+      }
+    } catch (error: any) {
+      this.finish(record, { status: 'error', error: signal.aborted ? 'Cancelled by the server' : error.message })
+      throw error
+    }
+  }
+
+  private toMessages(record: SamplingRecord): Message[] {
+    const now = Date.now()
+    const messages: Message[] = record.messages.map(message => ({ ...message, timestamp: now }))
+
+    return record.systemPrompt
+      ? [{ role: 'system', content: record.systemPrompt, timestamp: now }, ...messages]
+      : messages
+  }
+
+  /**
+   * Wait for the user's decision; no answer in time, or the server cancelling, counts as a denial
+   */
+  private waitForDecision(id: string, signal: AbortSignal): Promise<ToolApprovalDecision> {
+    return new Promise((resolve) => {
+      const finish = (decision: ToolApprovalDecision) => {
+        clearTimeout(timer)
+        signal.removeEventListener('abort', onAbort)
+        this.pending.delete(id)
+        resolve(decision)
+      }
+
+      const onAbort = () => finish({ approved: false, reason: 'Cancelled by the server' })
+      const timer = setTimeout(() => finish({ approved: false, reason: 'No response from user' }), APPROVAL_TIMEOUT_MS)
+
+      if (signal.aborted) {
+        onAbort()
+        return
+      }
+      signal.addEventListener('abort', onAbort)
+      this.pending.set(id, finish)
+    })
+  }
+
+  private addRecord(record: SamplingRecord): SamplingRecord {
+    this.repository.saveSamplingRecord(record)
+    this.repository.pruneSamplingRecords(MAX_RECORDS)
+    this.mcpService.reportSampling({ ...record })
+    return record
+  }
+
+  private update(record: SamplingRecord, changes: Partial<SamplingRecord>): void {
+    Object.assign(record, changes)
+    this.repository.saveSamplingRecord(record)
+    this.mcpService.reportSampling({ ...record })
+  }
+
+  private finish(record: SamplingRecord, changes: Partial<SamplingRecord>): void {
+    this.update(record, { ...changes, completedAt: new Date().toISOString() })
+  }
+}
+
+/**
+ * Text of a sampling message; content the LLM call can't carry is described instead
+ */
+function messageText(message: SamplingMessage): string {
+  const blocks = Array.isArray(message.content) ? message.content : [message.content]
+
+  return blocks
+    .map(block => (block.type === 'text' ? block.text : `[${block.type} content not included]`))
+    .join('\n\n')
+}
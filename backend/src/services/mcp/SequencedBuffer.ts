@@ -0,0 +1,50 @@
+/**
+ * SequencedBuffer keeps the most recent entries of a stream, numbered so
+ * readers can resume where they stopped, and tells followers about new ones.
+ */
+export class SequencedBuffer<T extends { seq: number; timestamp: string }> {
+  private entries: T[] = []
+  private nextSeq = 1
+  private followers: Set<(entry: T) => void> = new Set()
+
+  constructor(private capacity: number) {}
+
+  append(entry: Omit<T, 'seq' | 'timestamp'>): T {
+    const stored = { ...entry, seq: this.nextSeq++, timestamp: new Date().toISOString() } as T
+
+    this.entries.push(stored)
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity)
+    }
+
+    for (const follower of this.followers) {
+      follower(stored)
+    }
+
+    return stored
+  }
+
+  /**
+   * Most recent entries
+   *
+   * @param limit - At most this many, newest kept
+   * @param after - Only entries with a higher seq (to resume a previous read)
+   */
+  tail(limit: number = this.capacity, after: number = 0): T[] {
+    const newer = this.entries.filter(entry => entry.seq > after)
+    return limit > 0 ? newer.slice(-limit) : []
+  }
+
+  clear(): void {
+    this.entries = []
+  }
+
+  /**
+   * Receive each entry as it is appended
+   * @returns Function that stops following
+   */
+  follow(listener: (entry: T) => void): () => void {
+    this.followers.add(listener)
+    return () => this.followers.delete(listener)
+  }
+}
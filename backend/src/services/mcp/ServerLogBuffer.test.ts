@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { ServerLogBuffer, stderrLevel } from './ServerLogBuffer.js'
+import type { MCPLogEntry } from '../../../../shared/types/index.js'
+
+const line = (message: string) => ({ level: 'info' as const, source: 'stderr' as const, message })
+
+describe('ServerLogBuffer', () => {
+  it('should keep only the newest entries', () => {
+    const buffer = new ServerLogBuffer(3)
+    ;['one', 'two', 'three', 'four'].forEach(message => buffer.append(line(message)))
+
+    expect(buffer.tail().map(e => e.message)).toEqual(['two', 'three', 'four'])
+    expect(buffer.tail().map(e => e.seq)).toEqual([2, 3, 4])
+  })
+
+  it('should return the last lines after a seq', () => {
+    const buffer = new ServerLogBuffer()
+    ;['one', 'two', 'three', 'four'].forEach(message => buffer.append(line(message)))
+
+    expect(buffer.tail(2).map(e => e.message)).toEqual(['three', 'four'])
+    expect(buffer.tail(10, 3).map(e => e.message)).toEqual(['four'])
+  })
+
+  it('should pass new entries to followers until they stop', () => {
+    const buffer = new ServerLogBuffer()
+    const followed: MCPLogEntry[] = []
+    const unfollow = buffer.follow(entry => followed.push(entry))
+
+    buffer.append(line('one'))
+    unfollow()
+    buffer.append(line('two'))
+
+    expect(followed.map(e => e.message)).toEqual(['one'])
+  })
+
+  it('should truncate very long lines', () => {
+    const buffer = new ServerLogBuffer()
+    const entry = buffer.append(line('x'.repeat(10000)))
+
+    expect(entry.message.length).toBeLessThan(5000)
+    expect(entry.message).toMatch(/truncated\)$/)
+  })
+
+  describe('stderrLevel', () => {
+    it('should guess the level from the line', () => {
+      expect(stderrLevel('Traceback (most recent call last):')).toBe('error')
+      expect(stderrLevel('WARNING: deprecated option')).toBe('warning')
+      expect(stderrLevel('Server listening on stdio')).toBe('info')
+    })
+  })
+})
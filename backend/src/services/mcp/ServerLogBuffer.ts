@@ -0,0 +1,36 @@
+import type { MCPLogEntry, MCPLogLevel } from '../../../../shared/types/index.js'
+import { SequencedBuffer } from './SequencedBuffer.js'
+
+/** Lines kept per server; older ones are dropped */
+export const DEFAULT_LOG_CAPACITY = 1000
+
+/** Longest line kept, so one huge stack trace can't crowd out the rest */
+const MAX_MESSAGE_LENGTH = 4000
+
+/**
+ * ServerLogBuffer keeps the most recent console lines of one MCP server
+ * (stderr and protocol log messages) and tells followers about new ones.
+ */
+export class ServerLogBuffer extends SequencedBuffer<MCPLogEntry> {
+  constructor(capacity: number = DEFAULT_LOG_CAPACITY) {
+    super(capacity)
+  }
+
+  override append(entry: Omit<MCPLogEntry, 'seq' | 'timestamp'>): MCPLogEntry {
+    const message = entry.message.length > MAX_MESSAGE_LENGTH
+      ? `${entry.message.slice(0, MAX_MESSAGE_LENGTH)}… (truncated)`
+      : entry.message
+
+    return super.append({ ...entry, message })
+  }
+}
+
+/**
+ * Guess the level of a stderr line; servers log everything there, not only errors
+ */
+export function stderrLevel(line: string): MCPLogLevel {
+  if (/\b(error|exception|traceback|fatal|panic)\b/i.test(line)) return 'error'
+  if (/\bwarn(ing)?\b/i.test(line)) return 'warning'
+  if (/\bdebug\b/i.test(line)) return 'debug'
+  return 'info'
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines, stableStringify } from './SnapshotDiff.js'
+
+describe('SnapshotDiff', () => {
+  it('should print objects the same whatever their key order', () => {
+    expect(stableStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: null } }))
+      .toBe(stableStringify({ a: { c: null, d: [2, { e: 4, f: 3 }] }, b: 1 }))
+  })
+
+  it('should mark changed lines between unchanged ones', () => {
+    const diff = diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne')
+
+    expect(diff).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'same', text: 'd' },
+      { type: 'added', text: 'e' }
+    ])
+  })
+
+  it('should report no changes for equal texts', () => {
+    expect(diffLines('a\nb', 'a\nb').every(line => line.type === 'same')).toBe(true)
+  })
+})
@@ -0,0 +1,81 @@
+import type { SnapshotDiffLine } from '../../../../shared/types/index.js'
+
+/** Beyond this many line pairs the changed block is shown as removed + added instead of aligned */
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Pretty-printed JSON with object keys sorted, so equal values print the same
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(sortKeys(value), null, 2)
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+/**
+ * Line diff of two texts (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): SnapshotDiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // Only the block between the common start and end needs aligning
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const same = (lines: string[]) => lines.map(text => ({ type: 'same' as const, text }))
+  return [
+    ...same(a.slice(0, start)),
+    ...alignBlock(a.slice(start, endA), b.slice(start, endB)),
+    ...same(a.slice(endA))
+  ]
+}
+
+function alignBlock(a: string[], b: string[]): SnapshotDiffLine[] {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text }))
+    ]
+  }
+
+  // common[i][j]: longest common subsequence of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const lines: SnapshotDiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ type: 'removed', text: a[i++] })
+    } else {
+      lines.push({ type: 'added', text: b[j++] })
+    }
+  }
+  return lines
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { ToolArgumentValidator } from './ToolArgumentValidator.js'
+import type { MCPTool } from '../../../../shared/types/index.js'
+
+const tool: MCPTool = {
+  name: 'get_steps',
+  description: 'Daily step counts',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', format: 'date' },
+      days: { type: 'integer', minimum: 1 },
+      unit: { enum: ['steps', 'km'] }
+    },
+    required: ['date']
+  },
+  serverId: 'server-a'
+}
+
+describe('ToolArgumentValidator', () => {
+  const validator = new ToolArgumentValidator()
+
+  it('should accept arguments that match the schema', () => {
+    const result = validator.validate(tool, '{"date":"2024-03-01","days":7}')
+
+    expect(result).toEqual({ valid: true, arguments: { date: '2024-03-01', days: 7 } })
+  })
+
+  it('should report every problem with a path to it', () => {
+    const result = validator.validate(tool, '{"days":"seven","unit":"miles"}')
+
+    expect(result.valid).toBe(false)
+    if (result.valid) return
+    expect(result.issues).toEqual(expect.arrayContaining([
+      { path: '/date', message: 'is required' },
+      { path: '/days', message: 'must be integer' },
+      { path: '/unit', message: 'must be one of ["steps","km"]' }
+    ]))
+  })
+
+  it('should check string formats', () => {
+    const result = validator.validate(tool, '{"date":"March 1st"}')
+
+    expect(result.valid).toBe(false)
+  })
+
+  it('should reject arguments that are not a JSON object', () => {
+    const broken = validator.validate(tool, '{"date": ')
+    const array = validator.validate(tool, '[1, 2]')
+
+    expect(broken.valid).toBe(false)
+    expect(!broken.valid && broken.issues[0].message).toMatch(/not valid JSON/)
+    expect(!array.valid && array.issues[0].message).toBe('Arguments must be a JSON object')
+  })
+
+  it('should treat empty arguments as an empty object', () => {
+    const noParams: MCPTool = { ...tool, inputSchema: { type: 'object', properties: {} } }
+
+    expect(validator.validate(noParams, '').valid).toBe(true)
+  })
+
+  it('should validate schemas that declare draft 2020-12', () => {
+    const tupleTool: MCPTool = {
+      ...tool,
+      name: 'get_range',
+      inputSchema: {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: { range: { type: 'array', prefixItems: [{ type: 'string' }, { type: 'string' }], items: false } },
+        required: ['range']
+      } as MCPTool['inputSchema']
+    }
+
+    expect(validator.validate(tupleTool, '{"range":["2024-03-01","2024-03-07"]}').valid).toBe(true)
+    expect(validator.validate(tupleTool, '{"range":["2024-03-01","2024-03-07","2024-03-08"]}').valid).toBe(false)
+  })
+
+  it('should pick up a changed schema for the same tool', () => {
+    const before: MCPTool = { ...tool, name: 'get_sleep', inputSchema: { type: 'object', properties: {} } }
+    const after: MCPTool = { ...before, inputSchema: { type: 'object', properties: {}, required: ['date'] } }
+
+    expect(validator.validate(before, '{}').valid).toBe(true)
+    expect(validator.validate(after, '{}').valid).toBe(false)
+  })
+
+  it('should check one-off schemas without keeping them', () => {
+    const question = (field: string) => ({
+      $id: 'https://example.com/question.json',
+      type: 'object',
+      properties: { [field]: { type: 'string' } },
+      required: [field]
+    })
+
+    expect(validator.check(question('city'), {}, 'elicitation')).toEqual([{ path: '/city', message: 'is required' }])
+    // Ajv refuses a second schema with the same $id while the first is still registered
+    expect(validator.check(question('country'), {}, 'elicitation')).toEqual([{ path: '/country', message: 'is required' }])
+  })
+
+  it('should let calls through when the schema does not compile', () => {
+    const badSchema: MCPTool = { ...tool, inputSchema: { type: 'object', properties: { x: { $ref: '#/nowhere' } } } }
+
+    expect(validator.validate(badSchema, '{"x":1}').valid).toBe(true)
+  })
+})
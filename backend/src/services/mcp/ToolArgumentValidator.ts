@@ -0,0 +1,165 @@
+import Ajv, { type AnySchema, type ErrorObject, type ValidateFunction } from 'ajv'
+import Ajv2020 from 'ajv/dist/2020.js'
+import addFormats from 'ajv-formats'
+import type { MCPTool } from '../../../../shared/types/index.js'
+
+/**
+ * One problem with a tool call's arguments
+ */
+export interface ToolArgumentIssue {
+  path: string     // JSON pointer to the offending value ('' for the arguments object itself)
+  message: string
+}
+
+export type ToolArgumentValidation =
+  | { valid: true; arguments: Record<string, any> }
+  | { valid: false; issues: ToolArgumentIssue[] }
+
+interface CachedValidator {
+  schemaJson: string
+  schema: AnySchema
+  validate: ValidateFunction | null
+}
+
+/**
+ * ToolArgumentValidator checks the arguments an LLM produced against the
+ * tool's inputSchema before they reach the MCP server.
+ *
+ * Schemas declaring draft 2020-12 are compiled with Ajv's 2020 dialect, all
+ * others as draft-07. One compiled validator is cached per server tool and
+ * replaced when the tool's schema changes. A schema Ajv can't compile is
+ * not held against the call - the server gets the arguments and decides.
+ */
+export class ToolArgumentValidator {
+  private ajv: Ajv
+  private ajv2020: Ajv2020
+  private validators: Map<string, CachedValidator> = new Map()
+
+  constructor() {
+    // Servers write schemas for many drafts and add their own keywords - validate what we understand
+    const options = { strict: false, allErrors: true, validateSchema: false }
+    this.ajv = new Ajv(options)
+    this.ajv2020 = new Ajv2020(options)
+    addFormats(this.ajv)
+    addFormats(this.ajv2020)
+  }
+
+  /**
+   * Parse and validate raw arguments from a tool call
+   *
+   * @param tool - Tool being called
+   * @param rawArguments - JSON string the LLM produced
+   */
+  validate(tool: MCPTool, rawArguments: string): ToolArgumentValidation {
+    let args: unknown
+    try {
+      // Some models send an empty string for tools without parameters
+      args = rawArguments.trim() ? JSON.parse(rawArguments) : {}
+    } catch (error: any) {
+      return { valid: false, issues: [{ path: '', message: `Arguments are not valid JSON: ${error.message}` }] }
+    }
+
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      return { valid: false, issues: [{ path: '', message: 'Arguments must be a JSON object' }] }
+    }
+
+    const issues = this.run(this.getToolValidator(tool), args)
+    if (issues.length > 0) {
+      return { valid: false, issues }
+    }
+
+    return { valid: true, arguments: args as Record<string, any> }
+  }
+
+  /**
+   * Check an already parsed object against a one-off schema, e.g. the user's answer to an elicitation
+   * The schema is compiled for this check only and not cached.
+   *
+   * @param schema - Object schema the value must match
+   * @param value - Value to check
+   * @param label - What the schema belongs to, for the log if it doesn't compile
+   * @returns Problems found, none if the value matches
+   */
+  check(schema: MCPTool['inputSchema'], value: Record<string, any>, label: string): ToolArgumentIssue[] {
+    const validate = this.compile(schema, label)
+    try {
+      return this.run(validate, value)
+    } finally {
+      this.release(schema)
+    }
+  }
+
+  private getToolValidator(tool: MCPTool): ValidateFunction | null {
+    const key = `${tool.serverId}/${tool.name}`
+    const schemaJson = JSON.stringify(tool.inputSchema)
+    const cached = this.validators.get(key)
+    if (cached?.schemaJson === schemaJson) {
+      return cached.validate
+    }
+
+    // New tool, or the server changed its schema since the last call
+    if (cached) {
+      this.release(cached.schema)
+    }
+    const validate = this.compile(tool.inputSchema, tool.name)
+    this.validators.set(key, { schemaJson, schema: tool.inputSchema, validate })
+    return validate
+  }
+
+  private compile(schema: AnySchema, label: string): ValidateFunction | null {
+    try {
+      return this.ajvFor(schema).compile(schema)
+    } catch (error: any) {
+      console.warn(`[ToolArgumentValidator] Skipping validation for ${label}, schema does not compile: ${error.message}`)
+      return null
+    }
+  }
+
+  /**
+   * Drop a schema from Ajv's own cache so it (and any $id it claims) doesn't outlive its use
+   */
+  private release(schema: AnySchema): void {
+    try {
+      this.ajvFor(schema).removeSchema(schema)
+    } catch {
+      // Never compiled - nothing to drop
+    }
+  }
+
+  private ajvFor(schema: AnySchema): Ajv {
+    const dialect = typeof schema === 'object' ? schema.$schema : undefined
+    return typeof dialect === 'string' && dialect.includes('2020-12') ? this.ajv2020 : this.ajv
+  }
+
+  private run(validate: ValidateFunction | null, value: unknown): ToolArgumentIssue[] {
+    if (validate && !validate(value)) {
+      return (validate.errors ?? []).map(error => this.toIssue(error))
+    }
+    return []
+  }
+
+  /**
+   * Turn an Ajv error into something the LLM can act on
+   */
+  private toIssue(error: ErrorObject): ToolArgumentIssue {
+    switch (error.keyword) {
+      case 'required':
+        return {
+          path: `${error.instancePath}/${error.params.missingProperty}`,
+          message: 'is required'
+        }
+      case 'additionalProperties':
+        return {
+          path: `${error.instancePath}/${error.params.additionalProperty}`,
+          message: 'is not a known parameter'
+        }
+      case 'enum':
+        return {
+          path: error.instancePath,
+          message: `must be one of ${JSON.stringify(error.params.allowedValues)}`
+        }
+      default:
+        return { path: error.instancePath, message: error.message ?? 'is invalid' }
+    }
+  }
+}
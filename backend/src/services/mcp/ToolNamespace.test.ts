@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { qualifyToolNames, resolveTool, toolPrefix } from './ToolNamespace.js'
+import type { MCPTool } from '../../../../shared/types/index.js'
+
+const makeTool = (name: string, serverId: string): MCPTool => ({
+  name,
+  description: `${name} tool`,
+  inputSchema: { type: 'object', properties: {} },
+  serverId
+})
+
+describe('ToolNamespace', () => {
+  describe('toolPrefix', () => {
+    it('should prefer the alias', () => {
+      expect(toolPrefix({ name: 'GitHub Enterprise', alias: 'gh' })).toBe('gh')
+    })
+
+    it('should derive a slug from the server name', () => {
+      expect(toolPrefix({ name: 'My Postgres (prod)!' })).toBe('my_postgres_prod')
+      expect(toolPrefix({ name: '日本' })).toBe('server')
+    })
+  })
+
+  describe('qualifyToolNames', () => {
+    it('should give tools with the same name on different servers distinct names', () => {
+      const tools = qualifyToolNames([
+        { prefix: 'db', tools: [makeTool('query', 'server-a')] },
+        { prefix: 'files', tools: [makeTool('query', 'server-b')] }
+      ])
+
+      expect(tools.map(t => t.qualifiedName)).toEqual(['db__query', 'files__query'])
+      expect(tools.map(t => t.name)).toEqual(['query', 'query'])
+    })
+
+    it('should keep names unique when prefixes collide', () => {
+      const tools = qualifyToolNames([
+        { prefix: 'db', tools: [makeTool('query', 'server-a')] },
+        { prefix: 'db', tools: [makeTool('query', 'server-b')] }
+      ])
+
+      expect(tools.map(t => t.qualifiedName)).toEqual(['db__query', 'db__query_2'])
+    })
+
+    it('should produce valid function names', () => {
+      const [tool] = qualifyToolNames([
+        { prefix: 'fs', tools: [makeTool(`read.file/${'x'.repeat(80)}`, 'server-a')] }
+      ])
+
+      expect(tool.qualifiedName).toMatch(/^[a-zA-Z0-9_-]{1,64}$/)
+      expect(tool.qualifiedName!.startsWith('fs__read_file_')).toBe(true)
+    })
+  })
+
+  describe('resolveTool', () => {
+    it('should match the qualified name before the bare name', () => {
+      const tools = qualifyToolNames([
+        { prefix: 'a', tools: [makeTool('a__query', 'server-a')] },
+        { prefix: 'b', tools: [makeTool('query', 'server-b')] }
+      ])
+
+      expect(resolveTool(tools, 'b__query')?.serverId).toBe('server-b')
+      expect(resolveTool(tools, 'query')?.serverId).toBe('server-b')
+      expect(resolveTool(tools, 'missing')).toBeUndefined()
+    })
+  })
+})
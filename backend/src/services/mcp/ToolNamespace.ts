@@ -0,0 +1,86 @@
+import type { MCPServerConfig, MCPTool } from '../../../../shared/types/index.js'
+
+/**
+ * Tool Namespace
+ *
+ * Tools from different servers can share a name (`query`, `read_file`), so the
+ * LLM sees every tool as `<prefix>__<tool name>`. The prefix is the server's
+ * alias, or a slug of its name when no alias is set.
+ */
+
+/** Joins the server prefix and the tool name */
+export const TOOL_NAME_SEPARATOR = '__'
+
+/** Function names accepted by OpenAI-compatible APIs */
+const MAX_FUNCTION_NAME_LENGTH = 64
+const MAX_PREFIX_LENGTH = 20
+
+/** Valid server alias: short, and safe to use in a function name */
+export const TOOL_ALIAS_PATTERN = /^[a-zA-Z0-9_-]{1,20}$/
+
+/**
+ * Prefix used for a server's tool names
+ */
+export function toolPrefix(server: Pick<MCPServerConfig, 'name' | 'alias'>): string {
+  if (server.alias) {
+    return server.alias
+  }
+
+  const slug = server.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, MAX_PREFIX_LENGTH)
+
+  return slug || 'server'
+}
+
+/**
+ * Give every tool a qualified name, unique across all servers
+ *
+ * Characters not allowed in function names become underscores, and names that
+ * still collide (same prefix on two servers, or after truncation) get a numeric suffix.
+ * Suffixes follow the order of the groups, so callers pass them in a stable order.
+ *
+ * @param groups - Tools of each connected server with the server's prefix
+ * @returns All tools with qualifiedName set
+ */
+export function qualifyToolNames(groups: Array<{ prefix: string; tools: MCPTool[] }>): MCPTool[] {
+  const used = new Set<string>()
+  const qualified: MCPTool[] = []
+
+  for (const { prefix, tools } of groups) {
+    for (const tool of tools) {
+      const base = `${prefix}${TOOL_NAME_SEPARATOR}${tool.name}`
+        .replace(/[^a-zA-Z0-9_-]/g, '_')
+        .slice(0, MAX_FUNCTION_NAME_LENGTH)
+
+      let name = base
+      for (let n = 2; used.has(name); n++) {
+        const suffix = `_${n}`
+        name = base.slice(0, MAX_FUNCTION_NAME_LENGTH - suffix.length) + suffix
+      }
+
+      used.add(name)
+      qualified.push({ ...tool, qualifiedName: name })
+    }
+  }
+
+  return qualified
+}
+
+/**
+ * Find the tool the LLM called
+ * Accepts the bare tool name too, for history written before names were qualified
+ */
+export function resolveTool(tools: MCPTool[], functionName: string): MCPTool | undefined {
+  return tools.find(tool => tool.qualifiedName === functionName)
+    ?? tools.find(tool => tool.name === functionName)
+}
+
+/**
+ * Name to send to the LLM for a tool
+ */
+export function functionNameFor(tool: MCPTool): string {
+  return tool.qualifiedName ?? tool.name
+}
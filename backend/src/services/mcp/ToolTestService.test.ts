@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest'
+import { ToolTestService } from './ToolTestService.js'
+import { MCPService } from './MCPService.js'
+import { ConfigService } from '../config/ConfigService.js'
+import { Repository } from '../../db/repository.js'
+import { EncryptionService } from '../config/EncryptionService.js'
+import { initializeDatabase } from '../../db/schema.js'
+import { TestMCPServer } from '../../tests/helpers/TestMCPServer.js'
+import type { MCPServerConfig } from '../../../../shared/types/index.js'
+import type { Database } from 'better-sqlite3'
+
+describe('ToolTestService', () => {
+  let db: Database
+  let configService: ConfigService
+  let mcpService: MCPService
+  let toolTestService: ToolTestService
+  let testServer: TestMCPServer
+  let server: MCPServerConfig
+
+  beforeEach(async () => {
+    db = initializeDatabase(':memory:')
+    const repository = new Repository(db, new EncryptionService('test-secret-key-at-least-32-chars'))
+    configService = new ConfigService(repository)
+    mcpService = new MCPService(configService)
+    toolTestService = new ToolTestService(repository, mcpService)
+
+    testServer = new TestMCPServer({
+      tools: [{ name: 'forecast', description: 'Weather forecast', inputSchema: { type: 'object' } }]
+    })
+    testServer.setToolResponse('forecast', { content: [{ type: 'text', text: 'Sunny, 21°C' }] })
+
+    server = configService.addMCPServer('Weather', 'stdio', await testServer.setup())
+    await mcpService.connectServer(server)
+  })
+
+  afterEach(async () => {
+    await mcpService.shutdown()
+    await testServer.cleanup()
+    db.close()
+  })
+
+  test('should check a result against matchers', async () => {
+    const passing = toolTestService.createTestCase({
+      name: 'Sunny in Paris',
+      serverId: server.id,
+      toolName: 'forecast',
+      arguments: { city: 'Paris' },
+      mode: 'matchers',
+      matchers: [{ type: 'contains', text: 'Sunny' }, { type: 'isError', value: false }]
+    })
+    const failing = toolTestService.createTestCase({
+      name: 'Rain in Paris',
+      serverId: server.id,
+      toolName: 'forecast',
+      arguments: { city: 'Paris' },
+      mode: 'matchers',
+      matchers: [{ type: 'matches', pattern: '^Rain' }]
+    })
+
+    const runs = await toolTestService.runAll(server.id)
+
+    expect(runs.map(run => run.status)).toEqual(['fail', 'pass'])
+    expect(runs[0].failures).toEqual(['Expected the text to match /^Rain/'])
+    expect(toolTestService.getTestCase(passing.id)?.lastRun?.status).toBe('pass')
+    expect(toolTestService.getTestCase(failing.id)?.lastRun?.status).toBe('fail')
+  })
+
+  test('should record a snapshot, then diff it when the output changes', async () => {
+    const testCase = toolTestService.createTestCase({
+      name: 'Forecast snapshot',
+      serverId: server.id,
+      toolName: 'forecast',
+      arguments: {},
+      mode: 'snapshot',
+      matchers: []
+    })
+
+    const first = await toolTestService.runTestCase(testCase.id)
+    expect(first).toMatchObject({ status: 'pass', recorded: true })
+    expect(toolTestService.getTestCase(testCase.id)?.snapshot?.content[0].text).toBe('Sunny, 21°C')
+
+    // The server is updated and answers differently
+    testServer.setToolResponse('forecast', { content: [{ type: 'text', text: 'Cloudy, 17°C' }] })
+    await testServer.setup()
+    await mcpService.reconnectServer(server.id)
+
+    const second = await toolTestService.runTestCase(testCase.id)
+    expect(second?.status).toBe('fail')
+    expect(second?.diff?.filter(line => line.type !== 'same').map(line => `${line.type} ${line.text.trim()}`)).toEqual([
+      'removed "text": "Sunny, 21°C",',
+      'added "text": "Cloudy, 17°C",'
+    ])
+
+    toolTestService.acceptSnapshot(testCase.id)
+    expect((await toolTestService.runTestCase(testCase.id))?.status).toBe('pass')
+  })
+
+  test('should report an error when the server is not connected', async () => {
+    const testCase = toolTestService.createTestCase({
+      name: 'Offline',
+      serverId: server.id,
+      toolName: 'forecast',
+      arguments: {},
+      mode: 'snapshot',
+      matchers: []
+    })
+    await mcpService.disconnectServer(server.id)
+
+    const run = await toolTestService.runTestCase(testCase.id)
+
+    expect(run?.status).toBe('error')
+    expect(run?.error).toMatch(/not found/)
+    expect(toolTestService.getTestCase(testCase.id)?.snapshot).toBeUndefined()
+  })
+
+  test('should drop the snapshot when the call changes', async () => {
+    const testCase = toolTestService.createTestCase({
+      name: 'Forecast snapshot',
+      serverId: server.id,
+      toolName: 'forecast',
+      arguments: {},
+      mode: 'snapshot',
+      matchers: []
+    })
+    await toolTestService.runTestCase(testCase.id)
+
+    const renamed = toolTestService.updateTestCase(testCase.id, { ...testCase, name: 'Renamed' })
+    expect(renamed?.snapshot).toBeDefined()
+
+    const changed = toolTestService.updateTestCase(testCase.id, { ...testCase, arguments: { city: 'Oslo' } })
+    expect(changed?.snapshot).toBeUndefined()
+    expect(changed?.lastRun).toBeUndefined()
+  })
+})
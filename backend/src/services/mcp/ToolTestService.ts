@@ -0,0 +1,216 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Repository } from '../../db/repository.js'
+import type { MCPService } from './MCPService.js'
+import type {
+  MCPToolResult,
+  ToolTestCase,
+  ToolTestCaseRequest,
+  ToolTestMatcher,
+  ToolTestRun
+} from '../../../../shared/types/index.js'
+import { diffLines, stableStringify } from './SnapshotDiff.js'
+
+const SNAPSHOT_CHANGED = 'The result differs from the recorded snapshot'
+
+/**
+ * ToolTestService keeps named tool calls and re-runs them as regression tests
+ *
+ * Matchers are checked in both modes. Snapshot tests also compare the whole
+ * result with the one recorded on their first run; a changed result fails
+ * with a line diff until the new result is accepted as the snapshot.
+ * Tests run one after another so a server is never flooded.
+ */
+export class ToolTestService {
+  constructor(
+    private repository: Repository,
+    private mcpService: MCPService
+  ) {}
+
+  listTestCases(serverId?: string): ToolTestCase[] {
+    return this.repository.getToolTestCases(serverId)
+  }
+
+  getTestCase(id: string): ToolTestCase | null {
+    return this.repository.getToolTestCase(id)
+  }
+
+  createTestCase(input: ToolTestCaseRequest): ToolTestCase {
+    const now = new Date().toISOString()
+    const testCase: ToolTestCase = { ...input, id: uuidv4(), createdAt: now, updatedAt: now }
+
+    this.repository.saveToolTestCase(testCase)
+    return testCase
+  }
+
+  /**
+   * Replace a test case's definition (its server stays)
+   * A recorded snapshot is dropped when the call it recorded changes
+   */
+  updateTestCase(id: string, input: Omit<ToolTestCaseRequest, 'serverId'>): ToolTestCase | null {
+    const existing = this.repository.getToolTestCase(id)
+    if (!existing) {
+      return null
+    }
+
+    const sameCall = existing.toolName === input.toolName &&
+      stableStringify(existing.arguments) === stableStringify(input.arguments)
+
+    const testCase: ToolTestCase = {
+      ...existing,
+      ...input,
+      snapshot: sameCall ? existing.snapshot : undefined,
+      lastRun: sameCall ? existing.lastRun : undefined,
+      updatedAt: new Date().toISOString()
+    }
+
+    this.repository.saveToolTestCase(testCase)
+    return testCase
+  }
+
+  deleteTestCase(id: string): boolean {
+    if (!this.repository.getToolTestCase(id)) {
+      return false
+    }
+
+    this.repository.deleteToolTestCase(id)
+    return true
+  }
+
+  /**
+   * Call the tool and check the result; the run is kept as the test's lastRun
+   * @returns null if the test case does not exist
+   */
+  async runTestCase(id: string): Promise<ToolTestRun | null> {
+    const testCase = this.repository.getToolTestCase(id)
+    if (!testCase) {
+      return null
+    }
+
+    const startedAt = new Date()
+    let run: ToolTestRun
+
+    try {
+      const result = await this.mcpService.executeTool(testCase.serverId, testCase.toolName, testCase.arguments)
+      run = this.evaluate(testCase, result, startedAt)
+    } catch (error: any) {
+      run = {
+        testCaseId: testCase.id,
+        status: 'error',
+        ranAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        failures: [],
+        error: error.message
+      }
+    }
+
+    this.repository.saveToolTestCase({
+      ...testCase,
+      snapshot: run.recorded ? this.normalize(run.result!) : testCase.snapshot,
+      lastRun: run
+    })
+    return run
+  }
+
+  /**
+   * Run every saved test, or those of one server, one after another
+   */
+  async runAll(serverId?: string): Promise<ToolTestRun[]> {
+    const runs: ToolTestRun[] = []
+
+    for (const testCase of this.repository.getToolTestCases(serverId)) {
+      runs.push((await this.runTestCase(testCase.id))!)
+    }
+
+    return runs
+  }
+
+  /**
+   * Make the result of the last run the snapshot to compare against
+   * @returns null if the test case does not exist
+   */
+  acceptSnapshot(id: string): ToolTestCase | null {
+    const testCase = this.repository.getToolTestCase(id)
+    if (!testCase) {
+      return null
+    }
+
+    const result = testCase.lastRun?.result
+    if (!result) {
+      throw new Error('The test has no result to accept yet; run it first')
+    }
+
+    // The last run now matches the snapshot; only its matcher failures remain
+    const failures = testCase.lastRun!.failures.filter(failure => failure !== SNAPSHOT_CHANGED)
+    const updated: ToolTestCase = {
+      ...testCase,
+      mode: 'snapshot',
+      snapshot: this.normalize(result),
+      lastRun: { ...testCase.lastRun!, status: failures.length > 0 ? 'fail' : 'pass', failures, diff: undefined },
+      updatedAt: new Date().toISOString()
+    }
+
+    this.repository.saveToolTestCase(updated)
+    return updated
+  }
+
+  private evaluate(testCase: ToolTestCase, result: MCPToolResult, startedAt: Date): ToolTestRun {
+    const failures = testCase.matchers
+      .map(matcher => this.checkMatcher(matcher, result))
+      .filter((failure): failure is string => failure !== null)
+
+    const run: ToolTestRun = {
+      testCaseId: testCase.id,
+      status: 'pass',
+      ranAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      result,
+      failures
+    }
+
+    if (testCase.mode === 'snapshot') {
+      if (!testCase.snapshot) {
+        run.recorded = true
+      } else {
+        const before = stableStringify(this.normalize(testCase.snapshot))
+        const after = stableStringify(this.normalize(result))
+        if (before !== after) {
+          run.diff = diffLines(before, after)
+          failures.push(SNAPSHOT_CHANGED)
+        }
+      }
+    }
+
+    run.status = failures.length > 0 ? 'fail' : 'pass'
+    return run
+  }
+
+  /**
+   * Why a result does not satisfy a matcher, or null if it does
+   */
+  private checkMatcher(matcher: ToolTestMatcher, result: MCPToolResult): string | null {
+    const text = result.content
+      .filter(item => item.type === 'text')
+      .map(item => item.text ?? '')
+      .join('\n')
+
+    switch (matcher.type) {
+      case 'isError':
+        return (result.isError === true) === matcher.value
+          ? null
+          : `Expected ${matcher.value ? 'an error result' : 'a result without isError'}`
+      case 'contains':
+        return text.includes(matcher.text) ? null : `Expected the text to contain ${JSON.stringify(matcher.text)}`
+      case 'equals':
+        return text === matcher.text ? null : `Expected the text to equal ${JSON.stringify(matcher.text)}`
+      case 'matches':
+        return new RegExp(matcher.pattern).test(text) ? null : `Expected the text to match /${matcher.pattern}/`
+    }
+  }
+
+  /**
+   * The parts of a result a snapshot covers
+   */
+  private normalize(result: MCPToolResult): MCPToolResult {
+    return { content: result.content, isError: result.isError === true }
+  }
+}
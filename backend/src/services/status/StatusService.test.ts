@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { StatusService } from './StatusService.js'
+import { LLMService } from '../llm/LLMService.js'
+import { MCPService } from '../mcp/MCPService.js'
+import { ConfigService } from '../config/ConfigService.js'
+import { Repository } from '../../db/repository.js'
+import { EncryptionService } from '../config/EncryptionService.js'
+import { initializeDatabase } from '../../db/schema.js'
+import { TestLLMServer } from '../../tests/helpers/TestLLMServer.js'
+import { TestMCPServer } from '../../tests/helpers/TestMCPServer.js'
+import type { StatusEvent } from '../../../../shared/types/index.js'
+import type { Database } from 'better-sqlite3'
+
+describe('StatusService', () => {
+  let llmServer: TestLLMServer
+  let llmURL: string
+  let db: Database
+  let configService: ConfigService
+  let mcpService: MCPService
+  let mcpServer: TestMCPServer
+
+  beforeAll(async () => {
+    llmServer = new TestLLMServer()
+    llmURL = await llmServer.start()
+  })
+
+  afterAll(async () => {
+    await llmServer.stop()
+  })
+
+  beforeEach(() => {
+    db = initializeDatabase(':memory:')
+    const encryption = new EncryptionService('test-secret-key-at-least-32-chars')
+    configService = new ConfigService(new Repository(db, encryption))
+    mcpService = new MCPService(configService)
+    mcpServer = new TestMCPServer({
+      tools: [{ name: 'test_tool', description: 'A test tool', inputSchema: { type: 'object' } }]
+    })
+  })
+
+  afterEach(async () => {
+    await mcpService.shutdown()
+    await mcpServer.cleanup()
+    db.close()
+  })
+
+  it('should start with a snapshot and push MCP changes', async () => {
+    const statusService = new StatusService(new LLMService(), mcpService)
+    const events: StatusEvent[] = []
+    const unsubscribe = statusService.subscribe(event => events.push(event))
+
+    const server = configService.addMCPServer('Test Server', 'stdio', await mcpServer.setup())
+    await mcpService.connectServer(server)
+    await mcpService.disconnectServer(server.id)
+    unsubscribe()
+
+    expect(events[0]).toEqual({
+      type: 'snapshot',
+      llm: null,
+      mcpServers: []
+    })
+    const mcpEvents = events.slice(1).filter(e => e.type !== 'llm_status')
+    expect(mcpEvents.map(e => e.type === 'mcp_status' ? `${e.type}:${e.server.state}` : e.type)).toEqual([
+      'mcp_status:connecting',
+      'mcp_status:connected',
+      'tools_changed',
+      'mcp_status:disconnected',
+      'mcp_removed'
+    ])
+  }, 10000)
+
+  it('should stop pushing once unsubscribed', async () => {
+    const statusService = new StatusService(new LLMService(), mcpService)
+    const events: StatusEvent[] = []
+    statusService.subscribe(event => events.push(event))()
+
+    const server = configService.addMCPServer('Test Server', 'stdio', await mcpServer.setup())
+    await mcpService.connectServer(server)
+
+    expect(events.filter(e => e.type !== 'llm_status').map(e => e.type)).toEqual(['snapshot'])
+  }, 10000)
+
+  it('should report when the LLM becomes reachable', async () => {
+    const llmService = new LLMService()
+    const statusService = new StatusService(llmService, mcpService)
+    const events: StatusEvent[] = []
+    const unsubscribe = statusService.subscribe(event => events.push(event))
+    await statusService.checkLLM()
+
+    llmService.configure({ baseURL: llmURL, apiKey: 'test-key', model: 'test-model' })
+    await statusService.checkLLM()
+    await statusService.checkLLM()
+    unsubscribe()
+
+    expect(events.filter(e => e.type === 'llm_status')).toEqual([
+      { type: 'llm_status', llm: { configured: false, reachable: false } },
+      { type: 'llm_status', llm: { configured: true, reachable: true } }
+    ])
+  })
+
+  it('should not hand a later subscriber the LLM status from before it stopped checking', async () => {
+    const llmService = new LLMService({ baseURL: llmURL, apiKey: 'test-key', model: 'test-model' })
+    const statusService = new StatusService(llmService, mcpService)
+    const unsubscribe = statusService.subscribe(() => {})
+    await statusService.checkLLM()
+    unsubscribe()
+
+    const events: StatusEvent[] = []
+    statusService.subscribe(event => events.push(event))()
+
+    expect(events[0]).toMatchObject({ type: 'snapshot', llm: null })
+  })
+
+  it('should skip interval checks while one is still running', async () => {
+    let running = 0
+    let maxRunning = 0
+    const slowLLM = {
+      isConfigured: () => true,
+      healthCheck: async () => {
+        maxRunning = Math.max(maxRunning, ++running)
+        await new Promise(resolve => setTimeout(resolve, 100))
+        running--
+        return true
+      }
+    }
+    const statusService = new StatusService(slowLLM as any, mcpService, 10)
+
+    const unsubscribe = statusService.subscribe(() => {})
+    await new Promise(resolve => setTimeout(resolve, 250))
+    unsubscribe()
+
+    expect(maxRunning).toBe(1)
+  })
+})
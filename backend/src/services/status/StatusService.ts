@@ -0,0 +1,111 @@
+import type { LLMHealth, StatusEvent } from '../../../../shared/types/index.js'
+import type { LLMService } from '../llm/LLMService.js'
+import type { MCPService } from '../mcp/MCPService.js'
+
+/** How often the LLM endpoint is checked while someone is listening */
+const LLM_CHECK_INTERVAL_MS = 15000
+
+/**
+ * StatusService pushes live status to subscribers: MCP server state and tool
+ * list changes as MCPService reports them, and LLM reachability, which is
+ * checked periodically since the endpoint can't tell us when it goes away.
+ *
+ * Nothing runs while there are no subscribers.
+ */
+export class StatusService {
+  private listeners: Set<(event: StatusEvent) => void> = new Set()
+  private llm: LLMHealth | null = null
+  private llmTimer?: NodeJS.Timeout
+  private llmCheckRunning = false
+  private stopWatchingMCP?: () => void
+
+  constructor(
+    private llmService: LLMService,
+    private mcpService: MCPService,
+    private llmCheckIntervalMs: number = LLM_CHECK_INTERVAL_MS
+  ) {}
+
+  /**
+   * Receive a snapshot now and every change after it
+   * @returns Function that ends the subscription
+   */
+  subscribe(listener: (event: StatusEvent) => void): () => void {
+    listener({ type: 'snapshot', llm: this.llm, mcpServers: this.mcpService.getAllServerStatuses() })
+
+    this.listeners.add(listener)
+    if (this.listeners.size === 1) {
+      this.start()
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) {
+        this.stop()
+      }
+    }
+  }
+
+  /**
+   * Check the LLM endpoint now, telling subscribers if reachability changed
+   * Called after the LLM configuration changes so they don't wait for the next check
+   */
+  async checkLLM(): Promise<LLMHealth> {
+    const configured = this.llmService.isConfigured()
+    const reachable = configured && await this.llmService.healthCheck()
+    const llm: LLMHealth = { configured, reachable }
+
+    // Nobody to tell, and the result would be stale by the time someone subscribes
+    if (this.listeners.size === 0) {
+      return llm
+    }
+
+    if (llm.configured !== this.llm?.configured || llm.reachable !== this.llm?.reachable) {
+      this.llm = llm
+      this.emit({ type: 'llm_status', llm })
+    }
+
+    return llm
+  }
+
+  private start(): void {
+    this.stopWatchingMCP = this.mcpService.onChange(event => this.emit(event))
+
+    this.llmTimer = setInterval(() => this.pollLLM(), this.llmCheckIntervalMs)
+    this.llmTimer.unref()
+
+    this.pollLLM()
+  }
+
+  private stop(): void {
+    this.stopWatchingMCP?.()
+    this.stopWatchingMCP = undefined
+    clearInterval(this.llmTimer)
+    this.llmTimer = undefined
+    // Unchecked from here on - the next subscriber's snapshot must not claim otherwise
+    this.llm = null
+  }
+
+  /**
+   * Periodic check; skipped while the previous one is still waiting on a slow endpoint
+   */
+  private pollLLM(): void {
+    if (this.llmCheckRunning) {
+      return
+    }
+
+    this.llmCheckRunning = true
+    this.checkLLM()
+      .catch(error => console.error('[StatusService] LLM check failed:', error.message))
+      .finally(() => { this.llmCheckRunning = false })
+  }
+
+  private emit(event: StatusEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error: any) {
+        console.error('[StatusService] Listener failed:', error.message)
+      }
+    }
+  }
+}
@@ -7,6 +7,7 @@ interface ChatCompletionRequest {
   tools?: any[]
   temperature?: number
   max_tokens?: number
+  stop?: string[]
   stream?: boolean
 }
 
@@ -3,6 +3,14 @@ import { join } from 'path'
 import { tmpdir } from 'os'
 import type { MCPTool, MCPToolResult } from '../../../../shared/types/index.js'
 
+/**
+ * Output a test server produces once initialized
+ */
+export interface TestServerLogs {
+  stderr?: string[]
+  messages?: Array<{ level: string; logger?: string; data: unknown }>  // notifications/message
+}
+
 export interface ToolDefinition {
   name: string
   description: string
@@ -13,19 +21,114 @@ export interface ToolDefinition {
   }
 }
 
+/**
+ * A text resource the test server publishes
+ */
+export interface ResourceDefinition {
+  uri: string
+  name: string
+  mimeType?: string
+  text: string
+}
+
+/**
+ * A prompt the test server publishes; {{argument}} in message text is replaced by the argument
+ */
+export interface PromptDefinition {
+  name: string
+  description?: string
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>
+  messages: Array<{ role: 'user' | 'assistant'; text: string }>
+}
+
+/**
+ * A tool that asks the client for input with elicitation/create before it answers
+ */
+export interface ElicitationToolDefinition {
+  name: string
+  message: string
+  requestedSchema: {
+    type: 'object'
+    properties: Record<string, any>
+    required?: string[]
+  }
+}
+
+let scriptCounter = 0
+
 /**
  * TestMCPServer creates a real MCP stdio server for testing
  * Following the same pattern as TestLLMServer - real implementations, no mocks
  */
 export class TestMCPServer {
   private scriptPath: string
+  private crashMarkerPath?: string
+  private exitMarkerPath?: string
+  private pageSize?: number
+  private toolsChange?: { afterMs: number; tools: ToolDefinition[] }
+  private logs?: TestServerLogs
+  private validateCalls: boolean
+  private resources?: ResourceDefinition[]
+  private resourceUpdate?: { afterMs: number; uri: string; text: string }
+  private prompts?: PromptDefinition[]
+  private samplingTool?: string
+  private elicitationTool?: ElicitationToolDefinition
+  private rootsTool?: string
   private tools: ToolDefinition[]
   private toolResponses: Map<string, MCPToolResult> = new Map()
   private defaultResponse: MCPToolResult
 
-  constructor(options?: { tools?: ToolDefinition[] }) {
+  /**
+   * @param options.crashOnce - Exit shortly after the first client lists tools; later runs stay up
+   * @param options.pageSize - Return tools/list in pages of this size (cursor pagination)
+   * @param options.failToolsList - Answer tools/list with an error, and leave a marker when the process exits (see hasExited)
+   * @param options.toolsChange - Switch to other tools this long after initialization and send list_changed
+   * @param options.logs - stderr lines and MCP log messages to send once initialized
+   * @param options.validateCalls - Reject unknown tools (-32602) and missing required arguments (isError)
+   * @param options.resources - Resources to publish (enables the resources capability, with subscribe)
+   * @param options.resourceUpdate - Change a resource's text this long after it is subscribed and send resources/updated
+   * @param options.prompts - Prompts to publish (enables the prompts capability)
+   * @param options.samplingTool - Name of a tool that asks the client to sample { prompt, maxTokens?, systemPrompt? }
+   *   with sampling/createMessage and returns the generated text (isError if the client refuses)
+   * @param options.elicitationTool - Tool that sends elicitation/create and returns the client's answer
+   *   ({ action, content }) as JSON text (isError if the request fails)
+   * @param options.rootsTool - Tool that sends roots/list and returns { roots, listChanged } as JSON text,
+   *   listChanged counting the roots/list_changed notifications received so far
+   */
+  constructor(options?: {
+    tools?: ToolDefinition[]
+    crashOnce?: boolean
+    pageSize?: number
+    failToolsList?: boolean
+    toolsChange?: { afterMs: number; tools: ToolDefinition[] }
+    logs?: TestServerLogs
+    validateCalls?: boolean
+    resources?: ResourceDefinition[]
+    resourceUpdate?: { afterMs: number; uri: string; text: string }
+    prompts?: PromptDefinition[]
+    samplingTool?: string
+    elicitationTool?: ElicitationToolDefinition
+    rootsTool?: string
+  }) {
     this.tools = options?.tools || []
-    this.scriptPath = join(tmpdir(), `test-mcp-server-${Date.now()}.js`)
+    this.pageSize = options?.pageSize
+    this.toolsChange = options?.toolsChange
+    this.logs = options?.logs
+    this.validateCalls = options?.validateCalls ?? false
+    this.resources = options?.resources
+    this.resourceUpdate = options?.resourceUpdate
+    this.prompts = options?.prompts
+    this.samplingTool = options?.samplingTool
+    this.elicitationTool = options?.elicitationTool
+    this.rootsTool = options?.rootsTool
+    // Servers created in the same millisecond must not share a script
+    this.scriptPath = join(tmpdir(), `test-mcp-server-${process.pid}-${Date.now()}-${++scriptCounter}.js`)
+    if (options?.crashOnce) {
+      this.crashMarkerPath = `${this.scriptPath}.crashed`
+    }
+    if (options?.failToolsList) {
+      this.exitMarkerPath = `${this.scriptPath}.exited`
+    }
 
     this.defaultResponse = {
       content: [
@@ -58,6 +161,13 @@ export class TestMCPServer {
     this.defaultResponse = response
   }
 
+  /**
+   * Whether the server's process has exited (needs failToolsList)
+   */
+  hasExited(): boolean {
+    return !!this.exitMarkerPath && existsSync(this.exitMarkerPath)
+  }
+
   /**
    * Generate and write the MCP server script
    * Returns the command and args needed to run it
@@ -79,16 +189,50 @@ export class TestMCPServer {
     const tools = JSON.stringify(this.tools)
     const toolResponses = JSON.stringify(Object.fromEntries(this.toolResponses))
     const defaultResponse = JSON.stringify(this.defaultResponse)
+    const crashMarker = JSON.stringify(this.crashMarkerPath ?? null)
+    const exitMarker = JSON.stringify(this.exitMarkerPath ?? null)
+    const pageSize = JSON.stringify(this.pageSize ?? null)
+    const toolsChange = JSON.stringify(this.toolsChange ?? null)
+    const logs = JSON.stringify(this.logs ?? {})
+    const validateCalls = JSON.stringify(this.validateCalls)
+    const resources = JSON.stringify(this.resources ?? null)
+    const resourceUpdate = JSON.stringify(this.resourceUpdate ?? null)
+    const prompts = JSON.stringify(this.prompts ?? null)
+    const samplingTool = JSON.stringify(this.samplingTool ?? null)
+    const elicitationTool = JSON.stringify(this.elicitationTool ?? null)
+    const rootsTool = JSON.stringify(this.rootsTool ?? null)
 
     return `
 // Auto-generated test MCP server
 // Implements basic MCP protocol over stdio
 
 const readline = require('readline');
+const fs = require('fs');
 
-const tools = ${tools};
+let tools = ${tools};
 const toolResponses = ${toolResponses};
 const defaultResponse = ${defaultResponse};
+const crashMarker = ${crashMarker};
+const exitMarker = ${exitMarker};
+const pageSize = ${pageSize};
+const toolsChange = ${toolsChange};
+const logs = ${logs};
+const validateCalls = ${validateCalls};
+const resources = ${resources};
+const resourceUpdate = ${resourceUpdate};
+const prompts = ${prompts};
+const samplingTool = ${samplingTool};
+const elicitationTool = ${elicitationTool};
+const rootsTool = ${rootsTool};
+
+let clientCapabilities = {};
+const samplingCalls = new Map();  // sampling/createMessage id -> tools/call id waiting for it
+let samplingCounter = 0;
+const elicitationCalls = new Map();  // elicitation/create id -> tools/call id waiting for it
+let elicitationCounter = 0;
+const rootsCalls = new Map();  // roots/list id -> tools/call id waiting for it
+let rootsCounter = 0;
+let rootsListChanged = 0;
 
 const rl = readline.createInterface({
   input: process.stdin,
@@ -124,12 +268,43 @@ rl.on('line', (line) => {
   try {
     const request = JSON.parse(line);
 
+    // Handle the client's answer to sampling/createMessage
+    if (!request.method && samplingCalls.has(request.id)) {
+      const callId = samplingCalls.get(request.id);
+      samplingCalls.delete(request.id);
+      sendResponse(callId, request.error
+        ? { content: [{ type: 'text', text: \`Sampling failed: \${request.error.message}\` }], isError: true }
+        : { content: [{ type: 'text', text: request.result.content.text }] });
+    }
+    // Handle the client's answer to elicitation/create
+    else if (!request.method && elicitationCalls.has(request.id)) {
+      const callId = elicitationCalls.get(request.id);
+      elicitationCalls.delete(request.id);
+      sendResponse(callId, request.error
+        ? { content: [{ type: 'text', text: \`Elicitation failed: \${request.error.message}\` }], isError: true }
+        : { content: [{ type: 'text', text: JSON.stringify(request.result) }] });
+    }
+    // Handle the client's answer to roots/list
+    else if (!request.method && rootsCalls.has(request.id)) {
+      const callId = rootsCalls.get(request.id);
+      rootsCalls.delete(request.id);
+      sendResponse(callId, request.error
+        ? { content: [{ type: 'text', text: \`roots/list failed: \${request.error.message}\` }], isError: true }
+        : { content: [{ type: 'text', text: JSON.stringify({ roots: request.result.roots, listChanged: rootsListChanged }) }] });
+    }
+    else if (request.method === 'notifications/roots/list_changed') {
+      rootsListChanged++;
+    }
     // Handle initialize
-    if (request.method === 'initialize') {
+    else if (request.method === 'initialize') {
+      clientCapabilities = request.params.capabilities || {};
       sendResponse(request.id, {
         protocolVersion: '2024-11-05',
         capabilities: {
-          tools: {}
+          tools: toolsChange ? { listChanged: true } : {},
+          ...(logs.messages ? { logging: {} } : {}),
+          ...(resources ? { resources: { subscribe: true } } : {}),
+          ...(prompts ? { prompts: {} } : {})
         },
         serverInfo: {
           name: 'test-mcp-server',
@@ -139,23 +314,185 @@ rl.on('line', (line) => {
     }
     // Handle tools/list
     else if (request.method === 'tools/list') {
-      sendResponse(request.id, {
-        tools: tools
-      });
+      if (exitMarker) {
+        sendError(request.id, -32603, 'Tools are unavailable');
+      } else if (pageSize) {
+        const start = Number((request.params && request.params.cursor) || 0);
+        const end = start + pageSize;
+        sendResponse(request.id, {
+          tools: tools.slice(start, end),
+          nextCursor: end < tools.length ? String(end) : undefined
+        });
+      } else {
+        sendResponse(request.id, {
+          tools: tools
+        });
+      }
+
+      // Simulate a crash, once
+      if (crashMarker && !fs.existsSync(crashMarker)) {
+        fs.writeFileSync(crashMarker, '');
+        setTimeout(() => process.exit(1), 200);
+      }
     }
     // Handle tools/call
     else if (request.method === 'tools/call') {
       const toolName = request.params.name;
-      const toolArgs = request.params.arguments;
+      const toolArgs = request.params.arguments || {};
+      const tool = tools.find((t) => t.name === toolName);
+
+      if (validateCalls && !tool) {
+        sendError(request.id, -32602, \`Unknown tool: \${toolName}\`);
+        return;
+      }
+
+      const missing = validateCalls ? (tool.inputSchema.required || []).filter((name) => !(name in toolArgs)) : [];
+      if (missing.length > 0) {
+        sendResponse(request.id, {
+          content: [{ type: 'text', text: \`Missing required arguments: \${missing.join(', ')}\` }],
+          isError: true
+        });
+        return;
+      }
+
+      if (samplingTool && toolName === samplingTool) {
+        if (!clientCapabilities.sampling) {
+          sendResponse(request.id, { content: [{ type: 'text', text: 'Client does not support sampling' }], isError: true });
+          return;
+        }
+
+        const samplingId = \`sampling-\${++samplingCounter}\`;
+        samplingCalls.set(samplingId, request.id);
+        console.log(JSON.stringify({
+          jsonrpc: '2.0',
+          id: samplingId,
+          method: 'sampling/createMessage',
+          params: {
+            messages: [{ role: 'user', content: { type: 'text', text: toolArgs.prompt } }],
+            systemPrompt: toolArgs.systemPrompt,
+            maxTokens: toolArgs.maxTokens || 100
+          }
+        }));
+        return;
+      }
+
+      if (elicitationTool && toolName === elicitationTool.name) {
+        if (!clientCapabilities.elicitation) {
+          sendResponse(request.id, { content: [{ type: 'text', text: 'Client does not support elicitation' }], isError: true });
+          return;
+        }
+
+        const elicitationId = \`elicitation-\${++elicitationCounter}\`;
+        elicitationCalls.set(elicitationId, request.id);
+        console.log(JSON.stringify({
+          jsonrpc: '2.0',
+          id: elicitationId,
+          method: 'elicitation/create',
+          params: { message: elicitationTool.message, requestedSchema: elicitationTool.requestedSchema }
+        }));
+        return;
+      }
+
+      if (rootsTool && toolName === rootsTool) {
+        if (!clientCapabilities.roots) {
+          sendResponse(request.id, { content: [{ type: 'text', text: 'Client does not support roots' }], isError: true });
+          return;
+        }
+
+        const rootsId = \`roots-\${++rootsCounter}\`;
+        rootsCalls.set(rootsId, request.id);
+        console.log(JSON.stringify({ jsonrpc: '2.0', id: rootsId, method: 'roots/list', params: {} }));
+        return;
+      }
 
       // Check if we have a custom response for this tool
       const response = toolResponses[toolName] || defaultResponse;
 
       sendResponse(request.id, response);
     }
+    // Handle resources/list
+    else if (resources && request.method === 'resources/list') {
+      sendResponse(request.id, {
+        resources: resources.map(({ text, ...resource }) => resource)
+      });
+    }
+    // Handle resources/read
+    else if (resources && request.method === 'resources/read') {
+      const resource = resources.find((r) => r.uri === request.params.uri);
+      if (!resource) {
+        sendError(request.id, -32002, \`Resource not found: \${request.params.uri}\`);
+        return;
+      }
+      sendResponse(request.id, {
+        contents: [{ uri: resource.uri, mimeType: resource.mimeType, text: resource.text }]
+      });
+    }
+    // Handle resources/subscribe
+    else if (resources && request.method === 'resources/subscribe') {
+      sendResponse(request.id, {});
+
+      if (resourceUpdate && resourceUpdate.uri === request.params.uri) {
+        setTimeout(() => {
+          resources.find((r) => r.uri === resourceUpdate.uri).text = resourceUpdate.text;
+          console.log(JSON.stringify({
+            jsonrpc: '2.0',
+            method: 'notifications/resources/updated',
+            params: { uri: resourceUpdate.uri }
+          }));
+        }, resourceUpdate.afterMs);
+      }
+    }
+    // Handle prompts/list
+    else if (prompts && request.method === 'prompts/list') {
+      sendResponse(request.id, {
+        prompts: prompts.map(({ messages, ...prompt }) => prompt)
+      });
+    }
+    // Handle prompts/get
+    else if (prompts && request.method === 'prompts/get') {
+      const prompt = prompts.find((p) => p.name === request.params.name);
+      const args = request.params.arguments || {};
+      if (!prompt) {
+        sendError(request.id, -32602, \`Unknown prompt: \${request.params.name}\`);
+        return;
+      }
+
+      const missing = (prompt.arguments || []).filter((a) => a.required && !args[a.name]).map((a) => a.name);
+      if (missing.length > 0) {
+        sendError(request.id, -32602, \`Missing required arguments: \${missing.join(', ')}\`);
+        return;
+      }
+
+      sendResponse(request.id, {
+        description: prompt.description,
+        messages: prompt.messages.map((m) => ({
+          role: m.role,
+          content: { type: 'text', text: m.text.replace(/{{(\\w+)}}/g, (_, name) => args[name] || '') }
+        }))
+      });
+    }
+    // Handle ping
+    else if (request.method === 'ping') {
+      sendResponse(request.id, {});
+    }
     // Handle notifications/initialized
     else if (request.method === 'notifications/initialized') {
       // No response needed for notifications
+      (logs.stderr || []).forEach((line) => process.stderr.write(line + '\\n'));
+      (logs.messages || []).forEach((params) => {
+        console.log(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/message', params }));
+      });
+
+      if (toolsChange) {
+        setTimeout(() => {
+          tools = toolsChange.tools;
+          console.log(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }));
+        }, toolsChange.afterMs);
+      }
+    }
+    // Handle logging/setLevel
+    else if (request.method === 'logging/setLevel') {
+      sendResponse(request.id, {});
     }
     // Unknown method
     else {
@@ -178,6 +515,10 @@ process.stdout.on('error', (err) => {
   process.exit(1);
 });
 
+if (exitMarker) {
+  process.on('exit', () => fs.writeFileSync(exitMarker, ''));
+}
+
 // Keep process alive
 process.stdin.resume();
 `.trim()
@@ -187,11 +528,13 @@ process.stdin.resume();
    * Cleanup temporary files
    */
   async cleanup(): Promise<void> {
-    if (existsSync(this.scriptPath)) {
-      try {
-        unlinkSync(this.scriptPath)
-      } catch (error) {
-        // Ignore cleanup errors
+    for (const path of [this.scriptPath, this.crashMarkerPath, this.exitMarkerPath]) {
+      if (path && existsSync(path)) {
+        try {
+          unlinkSync(path)
+        } catch (error) {
+          // Ignore cleanup errors
+        }
       }
     }
   }
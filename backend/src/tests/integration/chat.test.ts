@@ -2,8 +2,17 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest'
 import { TestLLMServer } from '../helpers/TestLLMServer.js'
 import { LLMService } from '../../services/llm/LLMService.js'
 import { ChatAPI } from '../../api/chat.js'
+import { ConversationService } from '../../services/chat/ConversationService.js'
+import { ToolApprovalService } from '../../services/chat/ToolApprovalService.js'
+import { ElicitationService } from '../../services/chat/ElicitationService.js'
+import { ConfigService } from '../../services/config/ConfigService.js'
+import { Repository } from '../../db/repository.js'
+import { EncryptionService } from '../../services/config/EncryptionService.js'
+import { initializeDatabase } from '../../db/schema.js'
+import { MAX_ATTACHMENT_CHARS, STREAM_PROTOCOL_VERSION } from '../../../../shared/types/index.js'
 import { Request, Response } from 'express'
 import { EventEmitter } from 'events'
+import type { Database } from 'better-sqlite3'
 
 class MockResponse extends EventEmitter {
   public statusCode: number = 200
@@ -71,6 +80,9 @@ describe('Chat Integration Tests', () => {
   let testLLMServer: TestLLMServer
   let llmService: LLMService
   let mockMCPService: any
+  let db: Database
+  let conversationService: ConversationService
+  let approvalService: ToolApprovalService
   let chatAPI: ChatAPI
 
   beforeAll(async () => {
@@ -83,12 +95,19 @@ describe('Chat Integration Tests', () => {
       model: 'test-model'
     })
 
+    db = initializeDatabase(':memory:')
+    const encryption = new EncryptionService('test-secret-key-at-least-32-chars')
+    const repository = new Repository(db, encryption)
+    conversationService = new ConversationService(repository)
+    approvalService = new ToolApprovalService(new ConfigService(repository))
+
     mockMCPService = new MockMCPService()
-    chatAPI = new ChatAPI(llmService, mockMCPService)
+    chatAPI = new ChatAPI(llmService, mockMCPService, conversationService, approvalService, new ElicitationService())
   })
 
   afterAll(async () => {
     await testLLMServer.stop()
+    db.close()
   })
 
   describe('POST /api/chat', () => {
@@ -134,7 +153,7 @@ describe('Chat Integration Tests', () => {
 
     it('should return error when LLM not configured', async () => {
       const unconfiguredService = new LLMService()
-      const unconfiguredAPI = new ChatAPI(unconfiguredService, mockMCPService)
+      const unconfiguredAPI = new ChatAPI(unconfiguredService, mockMCPService, conversationService, approvalService, new ElicitationService())
 
       const req = {
         body: {
@@ -179,7 +198,7 @@ describe('Chat Integration Tests', () => {
         baseURL: 'http://localhost:9999/v1',
         model: 'test'
       })
-      const badAPI = new ChatAPI(badService, mockMCPService)
+      const badAPI = new ChatAPI(badService, mockMCPService, conversationService, approvalService, new ElicitationService())
 
       const req = {
         body: {
@@ -212,5 +231,185 @@ describe('Chat Integration Tests', () => {
       expect(errorChunks.length).toBeGreaterThan(0)
       expect(errorChunks[0].error).toMatch(/Connection error|Cannot reach LLM endpoint/)
     })
+
+    it('should persist the turn to a conversation', async () => {
+      testLLMServer.setDefaultResponse({
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: 'Stored reply'
+            },
+            finish_reason: 'stop'
+          }
+        ]
+      })
+
+      const chartData = [{
+        id: 'chart-1',
+        type: 'bar',
+        data: [{ day: 'Mon', steps: 1 }, { day: 'Tue', steps: 2 }],
+        config: { xKey: 'day', yKeys: ['steps'] }
+      }]
+
+      const req = {
+        body: {
+          messages: [
+            { role: 'system', content: 'You are helpful', timestamp: 0 },
+            { role: 'user', content: 'First question', timestamp: 1 },
+            { role: 'assistant', content: 'Chart answer', timestamp: 2, chartData },
+            { role: 'user', content: 'Second question', timestamp: 3 }
+          ]
+        }
+      } as Request
+
+      const res = new MockResponse() as unknown as Response
+
+      const chunks: any[] = []
+      res.on('data', (data: string) => {
+        if (data.startsWith('data: ') && !data.includes('[DONE]')) {
+          chunks.push(JSON.parse(data.replace('data: ', '').trim()))
+        }
+      })
+
+      await new Promise<void>((resolve) => {
+        res.on('end', resolve)
+        chatAPI.chat(req, res, (() => {}) as any)
+      })
+
+      // The conversation event opens the stream and names the protocol version
+      const conversationChunk = chunks[0]
+      expect(conversationChunk.type).toBe('conversation')
+      expect(conversationChunk.conversationId).toBeDefined()
+      expect(conversationChunk.protocolVersion).toBe(STREAM_PROTOCOL_VERSION)
+
+      const conversation = conversationService.getConversation(conversationChunk.conversationId)
+      expect(conversation).not.toBeNull()
+      expect(conversation!.title).toBe('First question')
+      expect(conversation!.messages.map(m => m.role)).toEqual(['user', 'assistant', 'user', 'assistant'])
+      expect(conversation!.messages[1].chartData).toEqual(chartData)
+      expect(conversation!.messages[3].content).toBe('Stored reply')
+    })
+
+    it('should keep a regenerated reply as a branch', async () => {
+      const sendTurn = async (body: any) => {
+        const res = new MockResponse() as unknown as Response
+        const chunks: any[] = []
+        res.on('data', (data: string) => {
+          if (data.startsWith('data: ') && !data.includes('[DONE]')) {
+            chunks.push(JSON.parse(data.replace('data: ', '').trim()))
+          }
+        })
+        await new Promise<void>((resolve) => {
+          res.on('end', resolve)
+          chatAPI.chat({ body } as Request, res, (() => {}) as any)
+        })
+        return chunks
+      }
+      const reply = (content: string) => ({
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+      })
+      const question = { id: 'question-1', role: 'user', content: 'Pick a number', timestamp: 1 }
+
+      testLLMServer.setDefaultResponse(reply('Four'))
+      const firstTurn = await sendTurn({ messages: [question] })
+      const conversationId = firstTurn[0].conversationId
+      const firstReply = firstTurn.find(c => c.type === 'turn_messages').messages[0]
+
+      testLLMServer.setDefaultResponse(reply('Seven'))
+      await sendTurn({ messages: [question], conversationId })
+
+      const regenerated = conversationService.getConversation(conversationId)!
+      expect(regenerated.messages.map(m => m.content)).toEqual(['Pick a number', 'Seven'])
+      expect(regenerated.messages[0].id).toBe('question-1')
+      const secondReplyId = regenerated.messages[1].id!
+      expect(regenerated.branches).toEqual({ [secondReplyId]: [firstReply.id, secondReplyId] })
+
+      const switched = conversationService.switchBranch(conversationId, firstReply.id)!
+      expect(switched.messages.map(m => m.content)).toEqual(['Pick a number', 'Four'])
+      expect(conversationService.getConversation(conversationId)!.messages[1].id).toBe(firstReply.id)
+    })
+
+    it('should cancel the turn when the client disconnects', async () => {
+      testLLMServer.setDefaultResponse({
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: 'This answer will be cut off'
+            },
+            finish_reason: 'stop'
+          }
+        ]
+      })
+
+      const req = {
+        body: {
+          messages: [{ role: 'user', content: 'Hello', timestamp: Date.now() }]
+        }
+      } as Request
+
+      const res = new MockResponse() as unknown as Response
+
+      // Simulate the browser going away as soon as the stream starts
+      res.once('data', () => res.emit('close'))
+
+      await new Promise<void>((resolve) => {
+        res.on('end', resolve)
+        chatAPI.chat(req, res, (() => {}) as any)
+      })
+
+      const data = (res as any).getData()
+      expect(data).not.toContain('[DONE]')
+      expect(data).not.toContain('"type":"content"')
+    })
+
+    it('should reject attachments over the size limit', async () => {
+      const req = {
+        body: {
+          messages: [{
+            role: 'user',
+            content: 'Summarize this',
+            timestamp: Date.now(),
+            attachments: [{
+              serverId: 'files',
+              uri: 'file:///big.log',
+              name: 'big.log',
+              text: 'x'.repeat(MAX_ATTACHMENT_CHARS + 1),
+              readAt: new Date().toISOString()
+            }]
+          }]
+        }
+      } as Request
+
+      const res = new MockResponse() as unknown as Response
+
+      await new Promise<void>((resolve) => {
+        res.on('end', resolve)
+        chatAPI.chat(req, res, (() => {}) as any)
+      })
+
+      expect(res.statusCode).toBe(400)
+    })
+
+    it('should reject unknown conversation ids', async () => {
+      const req = {
+        body: {
+          messages: [{ role: 'user', content: 'Hello', timestamp: Date.now() }],
+          conversationId: 'does-not-exist'
+        }
+      } as Request
+
+      const res = new MockResponse() as unknown as Response
+
+      await new Promise<void>((resolve) => {
+        res.on('end', resolve)
+        chatAPI.chat(req, res, (() => {}) as any)
+      })
+
+      expect(res.statusCode).toBe(404)
+    })
   })
 })
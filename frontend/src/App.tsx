@@ -6,6 +6,7 @@ import { ConfigPanel } from './components/config/ConfigPanel'
 import { About } from './components/common/About'
 import { ToolDiscoveryPanel } from './components/discovery/ToolDiscoveryPanel'
 import { useHealthCheck } from './hooks/useConfig'
+import { useStatusStream } from './hooks/useStatusStream'
 import './App.css'
 
 const queryClient = new QueryClient({
@@ -20,6 +21,7 @@ const queryClient = new QueryClient({
 function AppContent() {
   const [currentView, setCurrentView] = useState<'chat' | 'config' | 'discovery' | 'about'>('chat')
   const { data: health } = useHealthCheck()
+  const { connected: statusStreamOpen } = useStatusStream()
 
   return (
     <div className="app">
@@ -30,7 +32,7 @@ function AppContent() {
         </div>
         <div className="header-actions">
           <div className="health-indicator">
-            {health?.status === 'healthy' ? (
+            {statusStreamOpen && health?.status === 'healthy' ? (
               <span className="status-healthy">● Connected</span>
             ) : (
               <span className="status-unhealthy">● Disconnected</span>
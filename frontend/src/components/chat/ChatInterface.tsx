@@ -1,53 +1,143 @@
 import { useChat } from '../../hooks/useChat'
 import { useHealthCheck } from '../../hooks/useConfig'
+import { useResourceAttachments } from '../../hooks/useResources'
+import { usePrompts } from '../../hooks/usePrompts'
+import { useSampling } from '../../hooks/useSampling'
+import { apiClient } from '../../services/api'
 import { MessageList } from './MessageList'
 import { MessageInput } from './MessageInput'
+import { ConversationSidebar } from './ConversationSidebar'
+import { ToolApprovalCard } from './ToolApprovalCard'
+import { SamplingApprovalCard } from './SamplingApprovalCard'
+import { ElicitationCard } from './ElicitationCard'
+import { ResourceAttachmentList } from './ResourceAttachmentList'
+import type { MCPPrompt } from '../../../../shared/types'
 
 export function ChatInterface() {
-  const { messages, isStreaming, error, sendMessage, clearMessages } = useChat()
+  const {
+    messages,
+    conversationId,
+    isStreaming,
+    error,
+    pendingApprovals,
+    pendingElicitations,
+    branches,
+    sendMessage,
+    editMessage,
+    regenerate,
+    insertPromptMessages,
+    switchBranch,
+    stopStreaming,
+    respondToApproval,
+    respondToElicitation,
+    clearMessages,
+    loadConversation
+  } = useChat()
   const { data: health } = useHealthCheck()
+  const { attachments, attach, refresh, detach, clear: clearAttachments } = useResourceAttachments()
+  const { data: prompts = [] } = usePrompts()
+  const { pending: pendingSampling, respond: respondToSampling } = useSampling()
 
   const isLLMConfigured = health?.llm.configured ?? false
   const isLLMReachable = health?.llm.reachable ?? false
   const canChat = isLLMConfigured && isLLMReachable && !isStreaming
 
+  const handleSend = (content: string) => {
+    sendMessage(content, attachments)
+    clearAttachments()
+  }
+
+  const handleRunPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    const rendered = await apiClient.getPrompt(prompt.serverId, prompt.name, args)
+    await insertPromptMessages(rendered.messages)
+  }
+
   return (
     <div className="chat-interface">
-      <div className="chat-header">
-        <h2>Chat</h2>
-        <div className="chat-actions">
-          {messages.length > 0 && (
-            <button onClick={clearMessages} disabled={isStreaming}>
-              Clear
-            </button>
-          )}
-        </div>
-      </div>
+      <ConversationSidebar
+        activeId={conversationId}
+        disabled={isStreaming}
+        onSelect={loadConversation}
+        onNew={clearMessages}
+      />
 
-      {!isLLMConfigured && (
-        <div className="alert alert-warning">
-          LLM not configured. Please configure in the Settings panel.
+      <div className="chat-main">
+        <div className="chat-header">
+          <h2>Chat</h2>
+          <div className="chat-actions">
+            {messages.length > 0 && (
+              <button onClick={clearMessages} disabled={isStreaming}>
+                Clear
+              </button>
+            )}
+          </div>
         </div>
-      )}
 
-      {isLLMConfigured && !isLLMReachable && (
-        <div className="alert alert-error">
-          Cannot reach LLM endpoint at {health?.llm.error}
-        </div>
-      )}
+        {!isLLMConfigured && (
+          <div className="alert alert-warning">
+            LLM not configured. Please configure in the Settings panel.
+          </div>
+        )}
 
-      {error && (
-        <div className="alert alert-error">
-          Error: {error}
-        </div>
-      )}
+        {isLLMConfigured && !isLLMReachable && (
+          <div className="alert alert-error">
+            Cannot reach LLM endpoint at {health?.llm.error}
+          </div>
+        )}
 
-      <MessageList messages={messages} isStreaming={isStreaming} />
+        {error && (
+          <div className="alert alert-error">
+            Error: {error}
+          </div>
+        )}
 
-      <MessageInput
-        onSend={sendMessage}
-        disabled={!canChat}
-      />
+        <MessageList
+          messages={messages}
+          isStreaming={isStreaming}
+          branches={branches}
+          disabled={!canChat}
+          onEdit={editMessage}
+          onRegenerate={regenerate}
+          onSwitchBranch={switchBranch}
+          onReattach={attach}
+        />
+
+        {(pendingApprovals.length > 0 || pendingElicitations.length > 0 || pendingSampling.length > 0) && (
+          <div className="tool-approvals">
+            {pendingApprovals.map((approval) => (
+              <ToolApprovalCard
+                key={approval.approvalId}
+                approval={approval}
+                onRespond={respondToApproval}
+              />
+            ))}
+            {pendingElicitations.map((elicitation) => (
+              <ElicitationCard
+                key={elicitation.elicitationId}
+                elicitation={elicitation}
+                onRespond={respondToElicitation}
+              />
+            ))}
+            {/* Servers may sample during a tool call, or at any other time */}
+            {pendingSampling.map((record) => (
+              <SamplingApprovalCard key={record.id} record={record} onRespond={respondToSampling} />
+            ))}
+          </div>
+        )}
+
+        {attachments.length > 0 && (
+          <ResourceAttachmentList attachments={attachments} onRefresh={refresh} onRemove={detach} />
+        )}
+
+        <MessageInput
+          onSend={handleSend}
+          onStop={stopStreaming}
+          disabled={!canChat}
+          isStreaming={isStreaming}
+          prompts={prompts}
+          onRunPrompt={handleRunPrompt}
+        />
+      </div>
     </div>
   )
 }
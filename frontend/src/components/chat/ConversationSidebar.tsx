@@ -0,0 +1,75 @@
+import { useConversations } from '../../hooks/useConversations'
+
+interface ConversationSidebarProps {
+  activeId: string | null
+  disabled: boolean
+  onSelect: (id: string) => void
+  onNew: () => void
+}
+
+export function ConversationSidebar({ activeId, disabled, onSelect, onNew }: ConversationSidebarProps) {
+  const { conversations, isLoading, renameConversation, deleteConversation } = useConversations()
+
+  const handleRename = async (id: string, currentTitle: string) => {
+    const title = prompt('Rename conversation', currentTitle)
+    if (title && title.trim() && title.trim() !== currentTitle) {
+      try {
+        await renameConversation({ id, title: title.trim() })
+      } catch (err: any) {
+        alert(err.message)
+      }
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (confirm('Are you sure you want to delete this conversation?')) {
+      try {
+        await deleteConversation(id)
+        if (id === activeId) {
+          onNew()
+        }
+      } catch (err: any) {
+        alert(err.message)
+      }
+    }
+  }
+
+  return (
+    <aside className="conversation-sidebar">
+      <button className="new-conversation" onClick={onNew} disabled={disabled}>
+        + New Chat
+      </button>
+
+      <div className="conversation-list">
+        {!isLoading && conversations.length === 0 && (
+          <p className="conversation-empty">No saved conversations</p>
+        )}
+
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`conversation-item ${conversation.id === activeId ? 'active' : ''}`}
+          >
+            <button
+              className="conversation-title"
+              onClick={() => onSelect(conversation.id)}
+              disabled={disabled}
+              title={conversation.title}
+            >
+              {conversation.title}
+              <small>{new Date(conversation.updatedAt).toLocaleString()}</small>
+            </button>
+            <div className="conversation-actions">
+              <button onClick={() => handleRename(conversation.id, conversation.title)} title="Rename">
+                ✎
+              </button>
+              <button onClick={() => handleDelete(conversation.id)} disabled={disabled} title="Delete">
+                ×
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  )
+}
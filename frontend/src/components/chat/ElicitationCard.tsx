@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import type { PendingElicitation } from '../../hooks/useChat'
+import { ToolArgumentsForm } from '../common/ToolArgumentsForm'
+import type { ElicitationAction, ElicitationResponse } from '../../../../shared/types'
+
+interface ElicitationCardProps {
+  elicitation: PendingElicitation
+  onRespond: (elicitationId: string, response: ElicitationResponse) => Promise<void>
+}
+
+/**
+ * Fields the server suggested values for start out filled in
+ */
+function initialAnswer(schema: PendingElicitation['requestedSchema']): string {
+  const defaults = Object.entries(schema.properties ?? {})
+    .filter(([, field]) => field?.default !== undefined)
+    .map(([name, field]) => [name, field.default])
+  return JSON.stringify(Object.fromEntries(defaults), null, 2)
+}
+
+/**
+ * A server asking the user for input in the middle of a tool call
+ */
+export function ElicitationCard({ elicitation, onRespond }: ElicitationCardProps) {
+  const [answerText, setAnswerText] = useState(() => initialAnswer(elicitation.requestedSchema))
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const respond = async (action: ElicitationAction) => {
+    let content: Record<string, any> | undefined
+    if (action === 'accept') {
+      try {
+        content = JSON.parse(answerText)
+        if (!content || typeof content !== 'object' || Array.isArray(content)) {
+          throw new Error('The answer must be a JSON object')
+        }
+      } catch (err: any) {
+        setError(err.message)
+        return
+      }
+    }
+
+    setError(null)
+    setIsSubmitting(true)
+    try {
+      await onRespond(elicitation.elicitationId, { action, content })
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="tool-approval-card elicitation-card">
+      <div className="tool-approval-header">
+        <span>Input requested</span>
+        <code>{elicitation.toolName}</code>
+      </div>
+
+      <p className="elicitation-message">{elicitation.message}</p>
+      <ToolArgumentsForm
+        schema={elicitation.requestedSchema}
+        value={answerText}
+        onChange={setAnswerText}
+        disabled={isSubmitting}
+      />
+      {error && <div className="tool-approval-error">{error}</div>}
+
+      <div className="tool-approval-actions">
+        <button onClick={() => respond('accept')} disabled={isSubmitting}>
+          Submit
+        </button>
+        <button onClick={() => respond('decline')} className="btn-danger" disabled={isSubmitting}>
+          Decline
+        </button>
+        <button onClick={() => respond('cancel')} disabled={isSubmitting}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { useState, type ReactNode } from 'react'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import rehypeHighlight from 'rehype-highlight'
+
+interface MarkdownContentProps {
+  content: string
+}
+
+interface HastNode {
+  type: string
+  value?: string
+  children?: HastNode[]
+}
+
+// Plain text of a syntax tree node (highlighting splits code into many spans)
+function nodeText(node?: HastNode): string {
+  if (!node) return ''
+  if (node.type === 'text') return node.value ?? ''
+  return (node.children ?? []).map(nodeText).join('')
+}
+
+function CodeBlock({ code, children }: { code: string; children: ReactNode }) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Clipboard access denied - nothing useful to show
+    }
+  }
+
+  return (
+    <div className="code-block">
+      <button type="button" className="code-copy" onClick={handleCopy}>
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+      <pre>{children}</pre>
+    </div>
+  )
+}
+
+const components: Components = {
+  pre: ({ node, children }) => (
+    <CodeBlock code={nodeText(node as HastNode).replace(/\n$/, '')}>{children}</CodeBlock>
+  ),
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  table: ({ node, ...props }) => (
+    <div className="markdown-table">
+      <table {...props} />
+    </div>
+  )
+}
+
+/**
+ * Renders assistant markdown: GFM tables and lists, highlighted code blocks with copy buttons.
+ *
+ * Raw HTML in the content is shown as text, never executed, and unsafe link
+ * protocols are dropped. Incomplete markdown from a streaming reply renders
+ * as CommonMark defines it (e.g. an unclosed code fence runs to the end),
+ * so the layout settles without jumps once the rest arrives.
+ */
+export function MarkdownContent({ content }: MarkdownContentProps) {
+  return (
+    <div className="markdown-content">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { detect: false }]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
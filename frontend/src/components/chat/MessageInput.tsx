@@ -1,12 +1,106 @@
 import { useState, FormEvent, KeyboardEvent } from 'react'
+import { ToolArgumentsForm } from '../common/ToolArgumentsForm'
+import type { MCPPrompt } from '../../../../shared/types'
+
+// Slash commands shown at once; typing narrows the list
+const MAX_COMMAND_MATCHES = 8
 
 interface MessageInputProps {
   onSend: (message: string) => void
+  onStop: () => void
   disabled: boolean
+  isStreaming: boolean
+  prompts?: MCPPrompt[]
+  onRunPrompt?: (prompt: MCPPrompt, args: Record<string, string>) => Promise<void>
+}
+
+/**
+ * Prompt arguments as an inputSchema, so they get the same form as tool arguments
+ */
+function argumentsSchema(prompt: MCPPrompt) {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(prompt.arguments.map(argument => [
+      argument.name,
+      { type: 'string', description: argument.description }
+    ])),
+    required: prompt.arguments.filter(argument => argument.required).map(argument => argument.name)
+  }
+}
+
+/**
+ * Commands matching what follows the "/", those starting with it first
+ */
+function matchPrompts(prompts: MCPPrompt[], query: string): MCPPrompt[] {
+  const needle = query.toLowerCase()
+  const matches = prompts.filter(prompt =>
+    prompt.command.toLowerCase().includes(needle) || prompt.title?.toLowerCase().includes(needle)
+  )
+  const starts = (prompt: MCPPrompt) => (prompt.command.toLowerCase().startsWith(needle) ? 0 : 1)
+
+  return matches
+    .sort((a, b) => starts(a) - starts(b) || a.command.localeCompare(b.command))
+    .slice(0, MAX_COMMAND_MATCHES)
 }
 
-export function MessageInput({ onSend, disabled }: MessageInputProps) {
+export function MessageInput({ onSend, onStop, disabled, isStreaming, prompts = [], onRunPrompt }: MessageInputProps) {
   const [input, setInput] = useState('')
+  const [highlighted, setHighlighted] = useState(0)
+  const [menuDismissed, setMenuDismissed] = useState(false)
+  const [selectedPrompt, setSelectedPrompt] = useState<MCPPrompt | null>(null)
+  const [promptArgs, setPromptArgs] = useState('{}')
+  const [promptError, setPromptError] = useState<string | null>(null)
+  const [isRunningPrompt, setIsRunningPrompt] = useState(false)
+
+  // "/rev" opens the command menu; a space means the message is plain text
+  const commandQuery = onRunPrompt && input.startsWith('/') && !/\s/.test(input) ? input.slice(1) : null
+  const matches = commandQuery !== null ? matchPrompts(prompts, commandQuery) : []
+  const showMenu = matches.length > 0 && !menuDismissed && !selectedPrompt
+
+  const runPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    setIsRunningPrompt(true)
+    setPromptError(null)
+    try {
+      await onRunPrompt!(prompt, args)
+      setSelectedPrompt(null)
+    } catch (error: any) {
+      setPromptError(`/${prompt.command}: ${error.message}`)
+    } finally {
+      setIsRunningPrompt(false)
+    }
+  }
+
+  // Prompts without arguments run right away; the others ask for them first
+  const choosePrompt = (prompt: MCPPrompt) => {
+    setInput('')
+    setPromptError(null)
+    if (prompt.arguments.length === 0) {
+      runPrompt(prompt, {})
+    } else {
+      setSelectedPrompt(prompt)
+      setPromptArgs('{}')
+    }
+  }
+
+  const handleInsert = () => {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(promptArgs)
+    } catch {
+      parsed = null
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      setPromptError('Arguments must be a JSON object')
+      return
+    }
+
+    // Prompt arguments are always strings
+    const args = Object.fromEntries(Object.entries(parsed).map(([name, value]) => [
+      name,
+      typeof value === 'string' ? value : JSON.stringify(value)
+    ]))
+    runPrompt(selectedPrompt!, args)
+  }
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault()
@@ -17,25 +111,103 @@ export function MessageInput({ onSend, disabled }: MessageInputProps) {
   }
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showMenu) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : matches.length - 1
+        setHighlighted((highlighted + step) % matches.length)
+        return
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault()
+        choosePrompt(matches[Math.min(highlighted, matches.length - 1)])
+        return
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setMenuDismissed(true)
+        return
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSubmit(e)
     }
   }
 
+  const handleChange = (value: string) => {
+    setInput(value)
+    setHighlighted(0)
+    setMenuDismissed(false)
+  }
+
   return (
-    <form className="message-input" onSubmit={handleSubmit}>
-      <textarea
-        value={input}
-        onChange={(e) => setInput(e.target.value)}
-        onKeyDown={handleKeyDown}
-        placeholder="Type your message... (Shift+Enter for new line)"
-        disabled={disabled}
-        rows={2}
-      />
-      <button type="submit" disabled={disabled || !input.trim()}>
-        Send
-      </button>
-    </form>
+    <div className="message-input-area">
+      {showMenu && (
+        <ul className="prompt-command-menu" role="listbox">
+          {matches.map((prompt, index) => (
+            <li key={`${prompt.serverId} ${prompt.name}`} role="option" aria-selected={index === highlighted}>
+              <button
+                type="button"
+                className={index === highlighted ? 'active' : ''}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => choosePrompt(prompt)}
+              >
+                <span className="prompt-command">/{prompt.command}</span>
+                <span className="prompt-command-description">{prompt.title ?? prompt.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedPrompt && (
+        <div className="prompt-arguments">
+          <div className="prompt-arguments-header">
+            <strong>/{selectedPrompt.command}</strong>
+            {selectedPrompt.description && <span>{selectedPrompt.description}</span>}
+          </div>
+          <ToolArgumentsForm
+            schema={argumentsSchema(selectedPrompt)}
+            value={promptArgs}
+            onChange={setPromptArgs}
+            disabled={isRunningPrompt}
+          />
+          <div className="prompt-arguments-actions">
+            <button type="button" onClick={handleInsert} disabled={disabled || isRunningPrompt}>
+              {isRunningPrompt ? 'Inserting...' : 'Insert'}
+            </button>
+            <button type="button" onClick={() => setSelectedPrompt(null)} disabled={isRunningPrompt}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {promptError && <p className="prompt-error">{promptError}</p>}
+
+      <form className="message-input" onSubmit={handleSubmit}>
+        <textarea
+          value={input}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={onRunPrompt
+            ? 'Type your message, or / for prompts... (Shift+Enter for new line)'
+            : 'Type your message... (Shift+Enter for new line)'}
+          disabled={disabled}
+          rows={2}
+        />
+        {isStreaming ? (
+          <button type="button" className="stop-button" onClick={onStop}>
+            Stop
+          </button>
+        ) : (
+          <button type="submit" disabled={disabled || !input.trim()}>
+            Send
+          </button>
+        )}
+      </form>
+    </div>
   )
 }
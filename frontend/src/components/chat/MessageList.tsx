@@ -1,19 +1,95 @@
-import { useEffect, useRef } from 'react'
-import type { Message } from '../../../../shared/types'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { Message, ResourceAttachment } from '../../../../shared/types'
 import { ChartRenderer } from './ChartRenderer'
+import { ToolCallCard, executionsFromToolCalls } from './ToolCallCard'
+import { MarkdownContent } from './MarkdownContent'
+import { ResourceAttachmentList } from './ResourceAttachmentList'
 
 interface MessageListProps {
   messages: Message[]
   isStreaming: boolean
+  branches: Record<string, string[]>
+  disabled: boolean
+  onEdit: (index: number, content: string) => void
+  onRegenerate: () => void
+  onSwitchBranch: (messageId: string) => void
+  onReattach: (attachment: ResourceAttachment) => Promise<void>
 }
 
-export function MessageList({ messages, isStreaming }: MessageListProps) {
+// "‹ 2/3 ›" switcher between the versions of an edited or regenerated message
+function BranchSwitcher({ messageId, versions, disabled, onSwitch }: {
+  messageId: string
+  versions: string[]
+  disabled: boolean
+  onSwitch: (messageId: string) => void
+}) {
+  const position = versions.indexOf(messageId)
+
+  return (
+    <div className="branch-switcher">
+      <button
+        type="button"
+        onClick={() => onSwitch(versions[position - 1])}
+        disabled={disabled || position <= 0}
+        aria-label="Previous version"
+      >
+        ‹
+      </button>
+      <span>{position + 1}/{versions.length}</span>
+      <button
+        type="button"
+        onClick={() => onSwitch(versions[position + 1])}
+        disabled={disabled || position >= versions.length - 1}
+        aria-label="Next version"
+      >
+        ›
+      </button>
+    </div>
+  )
+}
+
+export function MessageList({
+  messages,
+  isStreaming,
+  branches,
+  disabled,
+  onEdit,
+  onRegenerate,
+  onSwitchBranch,
+  onReattach
+}: MessageListProps) {
   const endRef = useRef<HTMLDivElement>(null)
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [draft, setDraft] = useState('')
 
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
+  // Tool results are shown inside the tool call that produced them
+  const toolResults = useMemo(() => {
+    const results = new Map<string, Message>()
+    for (const message of messages) {
+      if (message.role === 'tool' && message.tool_call_id) {
+        results.set(message.tool_call_id, message)
+      }
+    }
+    return results
+  }, [messages])
+
+  const lastAssistantIndex = messages.map(m => m.role).lastIndexOf('assistant')
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index)
+    setDraft(messages[index].content)
+  }
+
+  const submitEdit = () => {
+    if (editingIndex === null || !draft.trim()) return
+    onEdit(editingIndex, draft.trim())
+    setEditingIndex(null)
+  }
+
   return (
     <div className="message-list">
       {messages.length === 0 && (
@@ -22,15 +98,56 @@ export function MessageList({ messages, isStreaming }: MessageListProps) {
         </div>
       )}
 
-      {messages.map((message) => (
+      {messages.map((message, index) => message.role === 'tool' ? null : (
         <div
-          key={`${message.timestamp}-${message.role}`}
+          key={message.id ?? `${message.timestamp}-${message.role}-${index}`}
           className={`message message-${message.role}`}
         >
           <div className="message-role">{message.role}</div>
-          <div className="message-content">
-            {message.content || <em>Thinking...</em>}
-          </div>
+          {(message.toolExecutions?.length || message.tool_calls?.length) ? (
+            <div className="tool-call-cards">
+              {(message.toolExecutions ?? executionsFromToolCalls(message)).map((execution) => (
+                <ToolCallCard
+                  key={execution.toolCallId}
+                  execution={execution}
+                  result={toolResults.get(execution.toolCallId)}
+                />
+              ))}
+            </div>
+          ) : null}
+
+          {editingIndex === index ? (
+            <div className="message-edit">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={3}
+                autoFocus
+              />
+              <div className="message-edit-actions">
+                <button type="button" onClick={() => setEditingIndex(null)}>
+                  Cancel
+                </button>
+                <button type="button" onClick={submitEdit} disabled={disabled || !draft.trim()}>
+                  Send
+                </button>
+              </div>
+            </div>
+          ) : (message.content || !message.tool_calls) && (
+            <div className="message-content">
+              {!message.content ? (
+                <em>Thinking...</em>
+              ) : message.role === 'assistant' ? (
+                <MarkdownContent content={message.content} />
+              ) : (
+                message.content
+              )}
+            </div>
+          )}
+
+          {message.attachments && message.attachments.length > 0 && (
+            <ResourceAttachmentList attachments={message.attachments} onRefresh={onReattach} />
+          )}
 
           {/* Render charts if present */}
           {message.chartData && message.chartData.length > 0 && (
@@ -40,6 +157,31 @@ export function MessageList({ messages, isStreaming }: MessageListProps) {
               ))}
             </div>
           )}
+
+          {editingIndex !== index && (
+            message.role === 'user' || index === lastAssistantIndex || (message.id && branches[message.id])
+          ) && (
+            <div className="message-actions">
+              {message.id && branches[message.id] && (
+                <BranchSwitcher
+                  messageId={message.id}
+                  versions={branches[message.id]}
+                  disabled={disabled}
+                  onSwitch={onSwitchBranch}
+                />
+              )}
+              {message.role === 'user' && (
+                <button type="button" onClick={() => startEditing(index)} disabled={disabled}>
+                  Edit
+                </button>
+              )}
+              {index === lastAssistantIndex && (
+                <button type="button" onClick={onRegenerate} disabled={disabled}>
+                  Regenerate
+                </button>
+              )}
+            </div>
+          )}
         </div>
       ))}
 
@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import { resourceKey, useResourceUpdates } from '../../hooks/useResources'
+import type { ResourceAttachment } from '../../../../shared/types'
+
+interface ResourceAttachmentListProps {
+  attachments: ResourceAttachment[]
+  onRefresh: (attachment: ResourceAttachment) => Promise<void>  // Re-read; "Attach latest" on sent messages
+  onRemove?: (attachment: ResourceAttachment) => void           // Only before sending
+}
+
+/**
+ * Resources attached to a message, marked when the server reported a change since they were read
+ */
+export function ResourceAttachmentList({ attachments, onRefresh, onRemove }: ResourceAttachmentListProps) {
+  const { isOutdated } = useResourceUpdates()
+  const [refreshing, setRefreshing] = useState<string | null>(null)
+
+  const handleRefresh = async (attachment: ResourceAttachment) => {
+    setRefreshing(resourceKey(attachment))
+    try {
+      await onRefresh(attachment)
+    } catch (error: any) {
+      alert(`Failed to read ${attachment.uri}: ${error.message}`)
+    } finally {
+      setRefreshing(null)
+    }
+  }
+
+  return (
+    <div className="resource-attachments">
+      {attachments.map(attachment => {
+        const outdated = isOutdated(attachment)
+
+        return (
+          <span
+            key={resourceKey(attachment)}
+            className={`resource-attachment ${outdated ? 'outdated' : ''}`}
+            title={`${attachment.uri}\nRead ${new Date(attachment.readAt).toLocaleString()}`}
+          >
+            📎 {attachment.name}
+            {outdated && (
+              <button
+                type="button"
+                onClick={() => handleRefresh(attachment)}
+                disabled={refreshing === resourceKey(attachment)}
+              >
+                {onRemove ? 'Updated · refresh' : 'Updated · attach latest'}
+              </button>
+            )}
+            {onRemove && (
+              <button type="button" onClick={() => onRemove(attachment)} aria-label={`Remove ${attachment.name}`}>
+                ×
+              </button>
+            )}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
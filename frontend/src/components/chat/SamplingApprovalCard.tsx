@@ -0,0 +1,73 @@
+import { useState } from 'react'
+import type { SamplingRecord } from '../../../../shared/types'
+
+interface SamplingApprovalCardProps {
+  record: SamplingRecord
+  onRespond: (id: string, approved: boolean) => Promise<void>
+}
+
+/**
+ * A server asking to use the LLM; shows what it would send and the token limit that applies
+ */
+export function SamplingApprovalCard({ record, onRespond }: SamplingApprovalCardProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const respond = async (approved: boolean) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onRespond(record.id, approved)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="tool-approval-card sampling-approval-card">
+      <div className="tool-approval-header">
+        <span>Let {record.serverName} use the LLM?</span>
+        <code>
+          max {record.maxTokens} tokens
+          {record.requestedMaxTokens > record.maxTokens && ` (asked for ${record.requestedMaxTokens})`}
+        </code>
+      </div>
+
+      <SamplingPrompt record={record} />
+      {error && <div className="tool-approval-error">{error}</div>}
+
+      <div className="tool-approval-actions">
+        <button onClick={() => respond(true)} disabled={isSubmitting}>
+          Approve
+        </button>
+        <button onClick={() => respond(false)} className="btn-danger" disabled={isSubmitting}>
+          Deny
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * The system prompt and messages a server sent for sampling
+ */
+export function SamplingPrompt({ record }: { record: SamplingRecord }) {
+  return (
+    <div className="sampling-prompt">
+      {record.systemPrompt && (
+        <>
+          <label>System prompt</label>
+          <pre>{record.systemPrompt}</pre>
+        </>
+      )}
+      {record.messages.map((message, index) => (
+        <div key={index}>
+          <label>{message.role}</label>
+          <pre>{message.content}</pre>
+        </div>
+      ))}
+    </div>
+  )
+}
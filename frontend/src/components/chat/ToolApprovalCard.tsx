@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import type { PendingToolApproval } from '../../hooks/useChat'
+import { ToolArgumentsForm } from '../common/ToolArgumentsForm'
+import type { ToolApprovalDecision } from '../../../../shared/types'
+
+interface ToolApprovalCardProps {
+  approval: PendingToolApproval
+  onRespond: (approval: PendingToolApproval, decision: ToolApprovalDecision) => Promise<void>
+}
+
+export function ToolApprovalCard({ approval, onRespond }: ToolApprovalCardProps) {
+  const [argsText, setArgsText] = useState(() => JSON.stringify(approval.arguments, null, 2))
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleApprove = async () => {
+    let args: Record<string, any>
+    try {
+      args = JSON.parse(argsText)
+      if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        throw new Error('Arguments must be a JSON object')
+      }
+    } catch (err: any) {
+      setError(`Invalid JSON: ${err.message}`)
+      return
+    }
+
+    setError(null)
+    await respond({ approved: true, arguments: args })
+  }
+
+  const handleDeny = async () => {
+    await respond({ approved: false })
+  }
+
+  // Edited arguments the tool doesn't accept come back with the problems listed
+  const respond = async (decision: ToolApprovalDecision) => {
+    setIsSubmitting(true)
+    try {
+      await onRespond(approval, decision)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="tool-approval-card">
+      <div className="tool-approval-header">
+        <span>Approve tool call?</span>
+        <code>{approval.toolName}</code>
+      </div>
+
+      <label>Arguments</label>
+      <ToolArgumentsForm
+        schema={approval.inputSchema}
+        value={argsText}
+        onChange={setArgsText}
+        disabled={isSubmitting}
+      />
+      {error && <div className="tool-approval-error">{error}</div>}
+
+      <div className="tool-approval-actions">
+        <button onClick={handleApprove} disabled={isSubmitting}>
+          Approve
+        </button>
+        <button onClick={handleDeny} className="btn-danger" disabled={isSubmitting}>
+          Deny
+        </button>
+      </div>
+    </div>
+  )
+}
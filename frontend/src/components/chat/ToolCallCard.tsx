@@ -0,0 +1,74 @@
+import type { Message, ToolExecution } from '../../../../shared/types'
+
+interface ToolCallCardProps {
+  execution: ToolExecution
+  result?: Message  // Full tool result, once the turn's messages are in history
+}
+
+const STATUS_LABELS: Record<ToolExecution['status'], string> = {
+  awaiting_approval: 'Awaiting approval',
+  running: 'Running',
+  success: 'Done',
+  error: 'Failed',
+  denied: 'Denied'
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+/**
+ * Build cards for tool calls stored without execution details
+ * (conversations saved before tool executions were recorded)
+ */
+export function executionsFromToolCalls(message: Message): ToolExecution[] {
+  return (message.tool_calls ?? []).map(call => {
+    let args: Record<string, any> = {}
+    try {
+      args = JSON.parse(call.function.arguments)
+    } catch {
+      // Shown without arguments
+    }
+
+    return {
+      toolCallId: call.id,
+      toolName: call.function.name,
+      arguments: args,
+      status: 'success'
+    }
+  })
+}
+
+// Expandable card for one tool call: arguments, result and timing
+export function ToolCallCard({ execution, result }: ToolCallCardProps) {
+  const resultText = result?.content ?? execution.resultPreview
+
+  return (
+    <details className={`tool-call-card tool-call-${execution.status}`}>
+      <summary>
+        <span className="tool-call-name">{execution.toolName}</span>
+        <span className="tool-call-status">{STATUS_LABELS[execution.status]}</span>
+        {execution.durationMs !== undefined && (
+          <span className="tool-call-duration">{formatDuration(execution.durationMs)}</span>
+        )}
+      </summary>
+
+      <div className="tool-call-label">Arguments</div>
+      <pre>{JSON.stringify(execution.arguments, null, 2)}</pre>
+
+      {execution.error && (
+        <>
+          <div className="tool-call-label">Error</div>
+          <pre className="tool-call-error">{execution.error}</pre>
+        </>
+      )}
+
+      {resultText && !execution.error && (
+        <>
+          <div className="tool-call-label">Result</div>
+          <pre>{resultText}</pre>
+        </>
+      )}
+    </details>
+  )
+}
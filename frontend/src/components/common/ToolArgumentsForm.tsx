@@ -0,0 +1,408 @@
+import { useState } from 'react'
+
+type JSONSchema = Record<string, any>
+
+// Field path ("city", "address.street", "tags[0]") -> problem with its value
+type FieldErrors = Record<string, string>
+
+/**
+ * How a schema is edited: one of the JSON Schema types, an enum select,
+ * or raw JSON for anything the form can't represent (anyOf, free-form objects)
+ */
+function fieldKind(schema: JSONSchema): string {
+  if (Array.isArray(schema.enum)) {
+    return 'enum'
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type
+  if (type === 'object' && !schema.properties) {
+    return 'json'
+  }
+  if (['string', 'number', 'integer', 'boolean', 'array', 'object'].includes(type)) {
+    return type
+  }
+  return schema.properties ? 'object' : 'json'
+}
+
+/**
+ * Starting value for a new array item
+ */
+function initialValue(schema: JSONSchema): any {
+  if (schema.default !== undefined) {
+    return schema.default
+  }
+
+  switch (fieldKind(schema)) {
+    case 'enum':
+      return schema.enum[0]
+    case 'string':
+      return ''
+    case 'number':
+    case 'integer':
+      return 0
+    case 'boolean':
+      return false
+    case 'array':
+      return []
+    case 'object':
+      return {}
+    default:
+      return null
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function parseObject(text: string): Record<string, any> | null {
+  try {
+    const value = JSON.parse(text)
+    return isPlainObject(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check a value against the parts of its schema the form edits
+ */
+function validate(schema: JSONSchema, value: any, path: string, required: boolean, errors: FieldErrors) {
+  if (value === undefined) {
+    if (required) {
+      errors[path] = 'Required'
+    }
+    return
+  }
+
+  const kind = fieldKind(schema)
+
+  if (kind === 'enum') {
+    if (!schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+      errors[path] = `Must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`
+    }
+  } else if (kind === 'string') {
+    if (typeof value !== 'string') {
+      errors[path] = 'Must be text'
+    } else if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors[path] = `Must be at least ${schema.minLength} characters`
+    } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors[path] = `Must be at most ${schema.maxLength} characters`
+    } else if (schema.pattern && !matchesPattern(schema.pattern, value)) {
+      errors[path] = `Must match ${schema.pattern}`
+    }
+  } else if (kind === 'number' || kind === 'integer') {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      errors[path] = 'Must be a number'
+    } else if (kind === 'integer' && !Number.isInteger(value)) {
+      errors[path] = 'Must be a whole number'
+    } else if (schema.minimum !== undefined && value < schema.minimum) {
+      errors[path] = `Must be at least ${schema.minimum}`
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      errors[path] = `Must be at most ${schema.maximum}`
+    }
+  } else if (kind === 'boolean') {
+    if (typeof value !== 'boolean') {
+      errors[path] = 'Must be true or false'
+    }
+  } else if (kind === 'array') {
+    if (!Array.isArray(value)) {
+      errors[path] = 'Must be a list'
+      return
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors[path] = `Needs at least ${schema.minItems} items`
+    } else if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors[path] = `Allows at most ${schema.maxItems} items`
+    }
+    value.forEach((item, index) => validate(schema.items ?? {}, item, `${path}[${index}]`, true, errors))
+  } else if (kind === 'object') {
+    if (!isPlainObject(value)) {
+      errors[path] = 'Must be an object'
+      return
+    }
+    for (const [key, property] of Object.entries<JSONSchema>(schema.properties ?? {})) {
+      validate(property, value[key], path ? `${path}.${key}` : key, schema.required?.includes(key) ?? false, errors)
+    }
+  }
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern).test(value)
+  } catch {
+    return true  // A pattern the browser can't compile is left to the server
+  }
+}
+
+interface FieldProps {
+  label: string
+  schema: JSONSchema
+  value: any
+  path: string
+  required: boolean
+  errors: FieldErrors
+  disabled?: boolean
+  onChange: (value: any) => void
+}
+
+/**
+ * One labelled input for a schema, recursing into arrays and objects
+ */
+function SchemaField({ label, schema, value, path, required, errors, disabled, onChange }: FieldProps) {
+  const kind = fieldKind(schema)
+  const placeholder = schema.default !== undefined ? String(schema.default) : undefined
+
+  let control: JSX.Element
+  switch (kind) {
+    case 'enum':
+      control = (
+        <select
+          value={value === undefined ? '' : JSON.stringify(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : JSON.parse(e.target.value))}
+          disabled={disabled}
+        >
+          <option value="">—</option>
+          {schema.enum.map((option: any) => (
+            <option key={JSON.stringify(option)} value={JSON.stringify(option)}>{String(option)}</option>
+          ))}
+        </select>
+      )
+      break
+    case 'string':
+      control = (
+        <input
+          type="text"
+          value={typeof value === 'string' ? value : value === undefined ? '' : JSON.stringify(value)}
+          placeholder={placeholder}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+          disabled={disabled}
+        />
+      )
+      break
+    case 'number':
+    case 'integer':
+      control = (
+        <input
+          type="number"
+          step={kind === 'integer' ? 1 : 'any'}
+          value={typeof value === 'number' ? value : ''}
+          placeholder={placeholder}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          disabled={disabled}
+        />
+      )
+      break
+    case 'boolean':
+      control = (
+        <select
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}
+          disabled={disabled}
+        >
+          <option value="">—</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      )
+      break
+    case 'array':
+      control = (
+        <ArrayField schema={schema} value={value} path={path} errors={errors} disabled={disabled} onChange={onChange} />
+      )
+      break
+    case 'object':
+      control = (
+        <ObjectFields
+          schema={schema}
+          value={value}
+          path={path}
+          errors={errors}
+          disabled={disabled}
+          onChange={(object) => onChange(Object.keys(object).length === 0 && !required ? undefined : object)}
+        />
+      )
+      break
+    default:
+      control = <JsonField value={value} disabled={disabled} onChange={onChange} />
+  }
+
+  return (
+    <div className={`schema-field schema-field-${kind}`}>
+      <label>
+        {schema.title ?? label}
+        {required && <span className="schema-field-required"> *</span>}
+      </label>
+      {schema.description && <p className="schema-field-description">{schema.description}</p>}
+      {control}
+      {errors[path] && <p className="schema-field-error">{errors[path]}</p>}
+    </div>
+  )
+}
+
+function ArrayField({ schema, value, path, errors, disabled, onChange }: Omit<FieldProps, 'label' | 'required'>) {
+  const items: any[] = Array.isArray(value) ? value : []
+  const itemSchema: JSONSchema = schema.items ?? {}
+
+  const update = (next: any[]) => onChange(next.length === 0 ? undefined : next)
+
+  return (
+    <div className="schema-array">
+      {items.map((item, index) => (
+        <div key={index} className="schema-array-item">
+          <SchemaField
+            label={`${index + 1}`}
+            schema={itemSchema}
+            value={item}
+            path={`${path}[${index}]`}
+            required
+            errors={errors}
+            disabled={disabled}
+            // Items can't be left out, so a cleared item goes back to its starting value
+            onChange={(next) => update(items.map((old, i) => (i === index ? next ?? initialValue(itemSchema) : old)))}
+          />
+          <button type="button" onClick={() => update(items.filter((_, i) => i !== index))} disabled={disabled}>
+            Remove
+          </button>
+        </div>
+      ))}
+      <button type="button" onClick={() => update([...items, initialValue(itemSchema)])} disabled={disabled}>
+        + Add item
+      </button>
+    </div>
+  )
+}
+
+function ObjectFields({ schema, value, path, errors, disabled, onChange }: Omit<FieldProps, 'label' | 'required' | 'onChange'> & {
+  onChange: (value: Record<string, any>) => void
+}) {
+  const object = isPlainObject(value) ? value : {}
+
+  const update = (key: string, next: any) => {
+    const { [key]: _previous, ...rest } = object
+    onChange(next === undefined ? rest : { ...rest, [key]: next })
+  }
+
+  return (
+    <div className={path ? 'schema-object' : 'schema-root'}>
+      {Object.entries<JSONSchema>(schema.properties ?? {}).map(([key, property]) => (
+        <SchemaField
+          key={key}
+          label={key}
+          schema={property}
+          value={object[key]}
+          path={path ? `${path}.${key}` : key}
+          required={schema.required?.includes(key) ?? false}
+          errors={errors}
+          disabled={disabled}
+          onChange={(next) => update(key, next)}
+        />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Raw JSON for a value the form has no input for; kept as typed until it parses
+ */
+function JsonField({ value, disabled, onChange }: { value: any; disabled?: boolean; onChange: (value: any) => void }) {
+  const [text, setText] = useState(() => (value === undefined ? '' : JSON.stringify(value, null, 2)))
+  const [error, setError] = useState<string | null>(null)
+
+  const handleChange = (next: string) => {
+    setText(next)
+    if (next.trim() === '') {
+      setError(null)
+      onChange(undefined)
+      return
+    }
+    try {
+      onChange(JSON.parse(next))
+      setError(null)
+    } catch {
+      setError('Invalid JSON')
+    }
+  }
+
+  return (
+    <>
+      <textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        rows={Math.min(8, text.split('\n').length + 1)}
+        spellCheck={false}
+        disabled={disabled}
+      />
+      {error && <p className="schema-field-error">{error}</p>}
+    </>
+  )
+}
+
+interface ToolArgumentsFormProps {
+  schema?: JSONSchema       // The tool's inputSchema
+  value: string             // Arguments as JSON text, shared by both views
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Edit tool arguments in a form generated from the tool's inputSchema,
+ * or as raw JSON for anything the form doesn't cover.
+ *
+ * Both views edit the same JSON text. The form only opens while that text
+ * is a JSON object; validation problems are shown next to their fields and
+ * never block the caller, so invalid calls can still be sent on purpose.
+ */
+export function ToolArgumentsForm({ schema, value, onChange, disabled }: ToolArgumentsFormProps) {
+  const hasFields = isPlainObject(schema?.properties) && Object.keys(schema!.properties).length > 0
+  const [view, setView] = useState<'form' | 'json'>(hasFields ? 'form' : 'json')
+
+  const parsed = parseObject(value)
+  const showForm = view === 'form' && hasFields && parsed !== null
+
+  const errors: FieldErrors = {}
+  if (showForm) {
+    validate({ ...schema, type: 'object' }, parsed, '', true, errors)
+  }
+
+  return (
+    <div className="tool-args-form">
+      {hasFields && (
+        <div className="tool-args-toggle">
+          <button
+            type="button"
+            className={showForm ? 'active' : ''}
+            onClick={() => setView('form')}
+            disabled={parsed === null}
+            title={parsed === null ? 'Fix the JSON (it must be an object) to use the form' : undefined}
+          >
+            Form
+          </button>
+          <button type="button" className={showForm ? '' : 'active'} onClick={() => setView('json')}>
+            Raw JSON
+          </button>
+        </div>
+      )}
+
+      {showForm ? (
+        <ObjectFields
+          schema={schema!}
+          value={parsed}
+          path=""
+          errors={errors}
+          disabled={disabled}
+          onChange={(object) => onChange(JSON.stringify(object, null, 2))}
+        />
+      ) : (
+        <textarea
+          className="tool-args-json"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={Math.min(12, value.split('\n').length + 1)}
+          spellCheck={false}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  )
+}
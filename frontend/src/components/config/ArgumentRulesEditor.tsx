@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { apiClient } from '../../services/api'
+import { useConfig } from '../../hooks/useConfig'
+import type { ArgumentRule, MCPServerConfig, MCPTool } from '../../../../shared/types'
+
+const TEMPLATE_HELP = '{{today}}, {{now:iso}}, {{now:date}}, {{now:time}}, {{now:unix}}, {{timezone}}'
+
+interface ArgumentRulesEditorProps {
+  server: MCPServerConfig
+  onError: (message: string) => void
+}
+
+// Rules are edited as text; values become numbers or booleans when the tool's schema says so
+interface DraftRule {
+  tool: string
+  type: ArgumentRule['type']
+  argument: string
+  text: string  // value for defaults, target name for renames
+}
+
+function toDraft(rule: ArgumentRule): DraftRule {
+  return {
+    tool: rule.tool,
+    type: rule.type,
+    argument: rule.argument,
+    text: rule.type === 'rename' ? rule.to ?? '' : String(rule.value ?? '')
+  }
+}
+
+function toRule(draft: DraftRule, tools: MCPTool[]): ArgumentRule {
+  const base = { tool: draft.tool.trim(), type: draft.type, argument: draft.argument.trim() }
+  if (draft.type === 'rename') {
+    return { ...base, to: draft.text.trim() }
+  }
+
+  const schemaType = tools.find(t => t.name === base.tool)?.inputSchema.properties?.[base.argument]?.type
+  if ((schemaType === 'number' || schemaType === 'integer') && draft.text.trim() !== '' && !isNaN(Number(draft.text))) {
+    return { ...base, value: Number(draft.text) }
+  }
+  if (schemaType === 'boolean' && (draft.text === 'true' || draft.text === 'false')) {
+    return { ...base, value: draft.text === 'true' }
+  }
+  return { ...base, value: draft.text }
+}
+
+/**
+ * Editor for a server's argument rules: defaults (with date templates) and renames
+ * applied to its tool calls before they run
+ */
+export function ArgumentRulesEditor({ server, onError }: ArgumentRulesEditorProps) {
+  const { updateArgumentRules, isUpdating } = useConfig()
+  const [drafts, setDrafts] = useState<DraftRule[]>([])
+
+  const { data: tools = [] } = useQuery({
+    queryKey: ['discovery', 'tools', server.id],
+    queryFn: () => apiClient.getServerTools(server.id),
+    enabled: server.enabled
+  })
+
+  useEffect(() => {
+    setDrafts((server.argumentRules ?? []).map(toDraft))
+  }, [server.argumentRules])
+
+  const updateDraft = (index: number, update: Partial<DraftRule>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...update } : draft))
+  }
+
+  const isComplete = (draft: DraftRule) =>
+    draft.tool.trim() !== '' && draft.argument.trim() !== '' && (draft.type === 'default' || draft.text.trim() !== '')
+
+  const handleSave = async () => {
+    try {
+      await updateArgumentRules({ id: server.id, rules: drafts.map(draft => toRule(draft, tools)) })
+    } catch (err: any) {
+      onError(err.message)
+    }
+  }
+
+  return (
+    <div className="argument-rules">
+      <div className="form-group">
+        <label>Argument rules</label>
+        <small>Applied to tool calls before they run. Default values can use {TEMPLATE_HELP} in the user's timezone.</small>
+      </div>
+
+      <datalist id={`argument-rule-tools-${server.id}`}>
+        <option value="*">All tools</option>
+        {tools.map((tool) => (
+          <option key={tool.name} value={tool.name} />
+        ))}
+      </datalist>
+
+      {drafts.map((draft, index) => (
+        <div key={index} className="argument-rule">
+          <input
+            type="text"
+            list={`argument-rule-tools-${server.id}`}
+            value={draft.tool}
+            onChange={(e) => updateDraft(index, { tool: e.target.value })}
+            placeholder="Tool or *"
+            aria-label="Tool"
+          />
+          <select
+            value={draft.type}
+            onChange={(e) => updateDraft(index, { type: e.target.value as ArgumentRule['type'] })}
+            aria-label="Rule type"
+          >
+            <option value="default">Default</option>
+            <option value="rename">Rename</option>
+          </select>
+          <input
+            type="text"
+            value={draft.argument}
+            onChange={(e) => updateDraft(index, { argument: e.target.value })}
+            placeholder="Argument"
+            aria-label="Argument"
+          />
+          <input
+            type="text"
+            value={draft.text}
+            onChange={(e) => updateDraft(index, { text: e.target.value })}
+            placeholder={draft.type === 'rename' ? 'New name' : 'Value, e.g. {{today}}'}
+            aria-label={draft.type === 'rename' ? 'New name' : 'Value'}
+          />
+          <button
+            type="button"
+            className="btn-danger"
+            onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="argument-rules-actions">
+        <button
+          type="button"
+          onClick={() => setDrafts(prev => [...prev, { tool: '*', type: 'default', argument: '', text: '' }])}
+        >
+          Add rule
+        </button>
+        <button type="button" onClick={handleSave} disabled={isUpdating || !drafts.every(isComplete)}>
+          Save rules
+        </button>
+      </div>
+    </div>
+  )
+}
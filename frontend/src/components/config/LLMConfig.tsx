@@ -11,6 +11,7 @@ export function LLMConfig() {
     model: 'llama2',
     temperature: 0.7,
     maxTokens: undefined,
+    contextWindow: undefined,
     topP: 1.0,
     presencePenalty: 0.0,
     frequencyPenalty: 0.0,
@@ -28,6 +29,7 @@ export function LLMConfig() {
         model: config.llm.model,
         temperature: config.llm.temperature ?? 0.7,
         maxTokens: config.llm.maxTokens,
+        contextWindow: config.llm.contextWindow,
         topP: config.llm.topP ?? 1.0,
         presencePenalty: config.llm.presencePenalty ?? 0.0,
         frequencyPenalty: config.llm.frequencyPenalty ?? 0.0,
@@ -140,6 +142,25 @@ export function LLMConfig() {
           <small>Limits response length (leave empty for unlimited)</small>
         </div>
 
+        <div className="form-group">
+          <label htmlFor="contextWindow" title="How many tokens the model can read at once, including tools and history. Older tool output and messages are trimmed to fit">
+            Context Window (optional)
+          </label>
+          <input
+            id="contextWindow"
+            type="number"
+            min="1024"
+            value={formData.contextWindow || ''}
+            onChange={(e) => setFormData({
+              ...formData,
+              contextWindow: e.target.value ? parseInt(e.target.value) : undefined
+            })}
+            placeholder="Not set"
+            title="How many tokens the model can read at once, including tools and history. Older tool output and messages are trimmed to fit"
+          />
+          <small>Model context size in tokens (leave empty to send the history untrimmed)</small>
+        </div>
+
         <div className="form-group">
           <label htmlFor="topP" title="Alternative to temperature. Considers only the most probable words that add up to this probability. 1.0 = consider all words, 0.1 = only consider top 10%">
             Top P
@@ -222,6 +243,7 @@ export function LLMConfig() {
                   model: 'llama2',
                   temperature: 0.7,
                   maxTokens: undefined,
+                  contextWindow: undefined,
                   topP: 1.0,
                   presencePenalty: 0.0,
                   frequencyPenalty: 0.0,
@@ -1,5 +1,10 @@
 import { useState, FormEvent } from 'react'
 import { useConfig } from '../../hooks/useConfig'
+import { ToolApprovalPolicyEditor } from './ToolApprovalPolicyEditor'
+import { SamplingPolicyEditor } from './SamplingPolicyEditor'
+import { ToolAliasField } from './ToolAliasField'
+import { ArgumentRulesEditor } from './ArgumentRulesEditor'
+import { RootsEditor } from './RootsEditor'
 import type { MCPServerRequest } from '../../../../shared/types'
 
 export function MCPServerConfig() {
@@ -16,6 +21,9 @@ export function MCPServerConfig() {
     }
   })
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+  const [approvalServerId, setApprovalServerId] = useState<string | null>(null)
+  const [rulesServerId, setRulesServerId] = useState<string | null>(null)
+  const [rootsServerId, setRootsServerId] = useState<string | null>(null)
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
@@ -179,6 +187,10 @@ export function MCPServerConfig() {
               {server.type === 'http' && (
                 <div className="server-url">{(server.config as any).url}</div>
               )}
+              <ToolAliasField
+                server={server}
+                onError={(text) => setMessage({ type: 'error', text })}
+              />
             </div>
             <div className="server-actions">
               <label className="toggle">
@@ -189,6 +201,21 @@ export function MCPServerConfig() {
                 />
                 <span>{server.enabled ? 'Enabled' : 'Disabled'}</span>
               </label>
+              <button
+                onClick={() => setApprovalServerId(approvalServerId === server.id ? null : server.id)}
+              >
+                Approval
+              </button>
+              <button
+                onClick={() => setRulesServerId(rulesServerId === server.id ? null : server.id)}
+              >
+                Arguments
+              </button>
+              <button
+                onClick={() => setRootsServerId(rootsServerId === server.id ? null : server.id)}
+              >
+                Roots
+              </button>
               <button
                 onClick={() => handleDelete(server.id)}
                 className="btn-danger"
@@ -197,6 +224,25 @@ export function MCPServerConfig() {
                 Delete
               </button>
             </div>
+            {approvalServerId === server.id && (
+              <>
+                <ToolApprovalPolicyEditor
+                  server={server}
+                  onError={(text) => setMessage({ type: 'error', text })}
+                />
+                <SamplingPolicyEditor
+                  server={server}
+                  onError={(text) => setMessage({ type: 'error', text })}
+                />
+              </>
+            )}
+            {rulesServerId === server.id && (
+              <ArgumentRulesEditor
+                server={server}
+                onError={(text) => setMessage({ type: 'error', text })}
+              />
+            )}
+            {rootsServerId === server.id && <RootsEditor server={server} />}
           </div>
         ))}
       </div>
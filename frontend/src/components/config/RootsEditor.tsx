@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react'
+import { useConfig } from '../../hooks/useConfig'
+import type { MCPServerConfig } from '../../../../shared/types'
+
+interface RootsEditorProps {
+  server: MCPServerConfig
+}
+
+// POSIX (/home/me) or Windows (C:\Users\me) absolute path
+const ABSOLUTE_PATH = /^(\/|[A-Za-z]:[\\/])/
+
+/**
+ * Editor for the directories a server may work in (MCP roots)
+ * The backend checks each directory exists; problems are shown here so they can be fixed in place
+ */
+export function RootsEditor({ server }: RootsEditorProps) {
+  const { updateRoots, isUpdating } = useConfig()
+  const [drafts, setDrafts] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDrafts(server.roots ?? [])
+  }, [server.roots])
+
+  const updateDraft = (index: number, value: string) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? value : draft))
+  }
+
+  const isValid = (draft: string) => ABSOLUTE_PATH.test(draft.trim())
+
+  const handleSave = async () => {
+    setError(null)
+    try {
+      await updateRoots({ id: server.id, roots: drafts.map(draft => draft.trim()) })
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  return (
+    <div className="argument-rules">
+      <div className="form-group">
+        <label>Roots</label>
+        <small>
+          Directories the server may work in, sent when it asks for roots. Connected servers are told when they change.
+        </small>
+      </div>
+
+      {drafts.map((draft, index) => (
+        <div key={index} className="root-entry">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => updateDraft(index, e.target.value)}
+            placeholder="/home/user/projects"
+            aria-label="Directory"
+            aria-invalid={draft.trim() !== '' && !isValid(draft)}
+          />
+          <button
+            type="button"
+            className="btn-danger"
+            onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      {error && <p className="roots-error">{error}</p>}
+
+      <div className="argument-rules-actions">
+        <button type="button" onClick={() => setDrafts(prev => [...prev, ''])}>
+          Add directory
+        </button>
+        <button type="button" onClick={handleSave} disabled={isUpdating || !drafts.every(isValid)}>
+          Save roots
+        </button>
+      </div>
+    </div>
+  )
+}
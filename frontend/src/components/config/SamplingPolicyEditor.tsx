@@ -0,0 +1,76 @@
+import { useEffect, useState, FormEvent } from 'react'
+import { useConfig } from '../../hooks/useConfig'
+import type { MCPServerConfig, SamplingMode, SamplingPolicy } from '../../../../shared/types'
+
+const MODE_LABELS: Record<SamplingMode, string> = {
+  deny: 'Not allowed',
+  ask: 'Ask each time',
+  allow: 'Allowed'
+}
+
+// The backend's default for servers without a policy
+const DEFAULT_POLICY: SamplingPolicy = { mode: 'deny', maxTokens: 1024 }
+
+interface SamplingPolicyEditorProps {
+  server: MCPServerConfig
+  onError: (message: string) => void
+}
+
+/**
+ * Whether the server may ask the LLM to generate text (MCP sampling), and how much per request
+ */
+export function SamplingPolicyEditor({ server, onError }: SamplingPolicyEditorProps) {
+  const { updateSamplingPolicy, isUpdating } = useConfig()
+  const policy = server.samplingPolicy ?? DEFAULT_POLICY
+  const [maxTokens, setMaxTokens] = useState(String(policy.maxTokens))
+
+  useEffect(() => {
+    setMaxTokens(String(policy.maxTokens))
+  }, [policy.maxTokens])
+
+  const savePolicy = async (next: SamplingPolicy) => {
+    try {
+      await updateSamplingPolicy({ id: server.id, policy: next })
+    } catch (err: any) {
+      onError(err.message)
+      setMaxTokens(String(policy.maxTokens))
+    }
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    savePolicy({ ...policy, maxTokens: Number(maxTokens) })
+  }
+
+  return (
+    <form className="sampling-policy" onSubmit={handleSubmit}>
+      <div className="form-group">
+        <label>LLM sampling</label>
+        <select
+          value={policy.mode}
+          onChange={(e) => savePolicy({ ...policy, mode: e.target.value as SamplingMode })}
+          disabled={isUpdating}
+        >
+          {Object.entries(MODE_LABELS).map(([mode, label]) => (
+            <option key={mode} value={mode}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="tool-alias">
+        <label htmlFor={`sampling-tokens-${server.id}`}>Max tokens per request</label>
+        <input
+          id={`sampling-tokens-${server.id}`}
+          type="number"
+          min={1}
+          max={100000}
+          step={1}
+          value={maxTokens}
+          onChange={(e) => setMaxTokens(e.target.value)}
+        />
+        <button type="submit" disabled={isUpdating || Number(maxTokens) === policy.maxTokens || !maxTokens}>
+          Save
+        </button>
+      </div>
+    </form>
+  )
+}
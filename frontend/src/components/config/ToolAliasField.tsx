@@ -0,0 +1,49 @@
+import { useEffect, useState, FormEvent } from 'react'
+import { useConfig } from '../../hooks/useConfig'
+import type { MCPServerConfig } from '../../../../shared/types'
+
+interface ToolAliasFieldProps {
+  server: MCPServerConfig
+  onError: (message: string) => void
+}
+
+/**
+ * Short prefix the LLM sees on this server's tools (`alias__tool`)
+ * Left empty, the server derives one from the server name
+ */
+export function ToolAliasField({ server, onError }: ToolAliasFieldProps) {
+  const { updateToolAlias, isUpdating } = useConfig()
+  const [alias, setAlias] = useState(server.alias ?? '')
+
+  useEffect(() => {
+    setAlias(server.alias ?? '')
+  }, [server.alias])
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    try {
+      await updateToolAlias({ id: server.id, alias: alias.trim() || null })
+    } catch (err: any) {
+      onError(err.message)
+      setAlias(server.alias ?? '')
+    }
+  }
+
+  return (
+    <form className="tool-alias" onSubmit={handleSubmit}>
+      <label htmlFor={`alias-${server.id}`}>Tool prefix</label>
+      <input
+        id={`alias-${server.id}`}
+        type="text"
+        value={alias}
+        onChange={(e) => setAlias(e.target.value)}
+        placeholder="from server name"
+        pattern="[a-zA-Z0-9_\-]{1,20}"
+        title="Up to 20 letters, digits, _ or -"
+      />
+      <button type="submit" disabled={isUpdating || alias.trim() === (server.alias ?? '')}>
+        Save
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,86 @@
+import { useQuery } from '@tanstack/react-query'
+import { apiClient } from '../../services/api'
+import { useConfig } from '../../hooks/useConfig'
+import type { MCPServerConfig, ToolApprovalMode, ToolApprovalPolicy } from '../../../../shared/types'
+
+const MODE_LABELS: Record<ToolApprovalMode, string> = {
+  never: 'Never ask',
+  destructive: 'Ask for destructive tools',
+  always: 'Always ask'
+}
+
+interface ToolApprovalPolicyEditorProps {
+  server: MCPServerConfig
+  onError: (message: string) => void
+}
+
+export function ToolApprovalPolicyEditor({ server, onError }: ToolApprovalPolicyEditorProps) {
+  const { updateApprovalPolicy, isUpdating } = useConfig()
+
+  const { data: tools = [] } = useQuery({
+    queryKey: ['discovery', 'tools', server.id],
+    queryFn: () => apiClient.getServerTools(server.id),
+    enabled: server.enabled
+  })
+
+  const policy: ToolApprovalPolicy = server.approvalPolicy ?? { mode: 'never' }
+
+  const savePolicy = async (next: ToolApprovalPolicy) => {
+    try {
+      await updateApprovalPolicy({ id: server.id, policy: next })
+    } catch (err: any) {
+      onError(err.message)
+    }
+  }
+
+  const handleToolChange = (toolName: string, value: string) => {
+    const overrides = { ...policy.tools }
+    if (value === 'default') {
+      delete overrides[toolName]
+    } else {
+      overrides[toolName] = value as ToolApprovalMode
+    }
+    savePolicy({ ...policy, tools: overrides })
+  }
+
+  return (
+    <div className="approval-policy">
+      <div className="form-group">
+        <label>Tool approval</label>
+        <select
+          value={policy.mode}
+          onChange={(e) => savePolicy({ ...policy, mode: e.target.value as ToolApprovalMode })}
+          disabled={isUpdating}
+        >
+          {Object.entries(MODE_LABELS).map(([mode, label]) => (
+            <option key={mode} value={mode}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {!server.enabled && (
+        <p className="empty-state">Enable the server to set per-tool overrides</p>
+      )}
+
+      {tools.map((tool) => (
+        <div key={tool.name} className="approval-policy-tool">
+          <span title={tool.description}>
+            {tool.name}
+            {tool.annotations?.destructiveHint && <small className="tool-badge">destructive</small>}
+            {tool.annotations?.readOnlyHint && <small className="tool-badge">read-only</small>}
+          </span>
+          <select
+            value={policy.tools?.[tool.name] ?? 'default'}
+            onChange={(e) => handleToolChange(tool.name, e.target.value)}
+            disabled={isUpdating}
+          >
+            <option value="default">Server default</option>
+            {Object.entries(MODE_LABELS).map(([mode, label]) => (
+              <option key={mode} value={mode}>{label}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  )
+}
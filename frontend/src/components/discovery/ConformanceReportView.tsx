@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { apiClient } from '../../services/api'
+import type { ConformanceReport, ConformanceStatus } from '../../../../shared/types'
+
+const STATUS_ICONS: Record<ConformanceStatus, string> = {
+  pass: '✅',
+  warn: '⚠️',
+  fail: '❌',
+  skip: '⏭️'
+}
+
+interface ConformanceReportViewProps {
+  serverId: string
+}
+
+/**
+ * Runs the conformance suite against one configured server and shows the report
+ * Mount with key={serverId} so a report never shows under another server
+ */
+export function ConformanceReportView({ serverId }: ConformanceReportViewProps) {
+  const [report, setReport] = useState<ConformanceReport | null>(null)
+
+  const runMutation = useMutation({
+    mutationFn: () => apiClient.runConformance(serverId),
+    onSuccess: setReport
+  })
+
+  const exportReport = () => {
+    if (!report) return
+
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `conformance-${report.serverName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${report.startedAt.slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="conformance-view">
+      <div className="server-log-controls">
+        <button onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+          {runMutation.isPending ? 'Running...' : '▶ Run conformance suite'}
+        </button>
+        <button onClick={exportReport} disabled={!report}>
+          Export JSON
+        </button>
+        {report && (
+          <span className="server-log-count">
+            {report.summary.pass} passed · {report.summary.warn} warnings · {report.summary.fail} failed · {report.summary.skip} skipped
+          </span>
+        )}
+      </div>
+
+      {runMutation.isError && (
+        <div className="test-result error">
+          <p>{(runMutation.error as Error).message}</p>
+        </div>
+      )}
+
+      {report ? (
+        <>
+          <p className="conformance-meta">
+            {report.serverInfo ? `${report.serverInfo.name} ${report.serverInfo.version}` : report.serverName}
+            {report.protocolVersion && ` · protocol ${report.protocolVersion}`}
+            {` · ${new Date(report.startedAt).toLocaleString()} · ${report.durationMs} ms`}
+          </p>
+          <ul className="conformance-checks">
+            {report.checks.map(check => (
+              <li key={check.id} className={`conformance-check conformance-${check.status}`}>
+                <div className="conformance-check-header">
+                  <span>{STATUS_ICONS[check.status]}</span>
+                  <strong>{check.name}</strong>
+                  <span className="conformance-message">{check.message}</span>
+                  {check.durationMs !== undefined && <span className="protocol-duration">{check.durationMs} ms</span>}
+                </div>
+                {check.details && (
+                  <ul className="conformance-details">
+                    {check.details.map((detail, index) => (
+                      <li key={index}>{detail}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        !runMutation.isPending && (
+          <p className="server-log-empty">
+            The suite opens its own connection to the server and only calls tools with arguments they must reject.
+          </p>
+        )
+      )}
+    </div>
+  )
+}
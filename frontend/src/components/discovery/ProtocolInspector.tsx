@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiClient } from '../../services/api'
+import type { MCPProtocolMessage } from '../../../../shared/types'
+
+type Kind = MCPProtocolMessage['kind']
+type Direction = MCPProtocolMessage['direction']
+
+const KINDS: Kind[] = ['request', 'response', 'error', 'notification']
+
+/** Messages kept in the view, matching the server-side buffer */
+const MAX_MESSAGES = 500
+
+interface ProtocolInspectorProps {
+  serverId: string
+}
+
+/**
+ * Timeline of the JSON-RPC messages exchanged with one MCP server,
+ * recorded while capture is on
+ */
+export function ProtocolInspector({ serverId }: ProtocolInspectorProps) {
+  const queryClient = useQueryClient()
+  const [messages, setMessages] = useState<MCPProtocolMessage[]>([])
+  const [direction, setDirection] = useState<Direction | 'all'>('all')
+  const [kind, setKind] = useState<Kind | 'all'>('all')
+  const [methodFilter, setMethodFilter] = useState('')
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+  const [autoScroll, setAutoScroll] = useState(true)
+  const endRef = useRef<HTMLDivElement>(null)
+
+  const { data: capturing = false } = useQuery({
+    queryKey: ['mcp', 'protocol-capture', serverId],
+    queryFn: () => apiClient.getProtocolCapture(serverId)
+  })
+
+  const captureMutation = useMutation({
+    mutationFn: (enabled: boolean) => apiClient.setProtocolCapture(serverId, enabled),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'protocol-capture', serverId] })
+    }
+  })
+
+  const clearMutation = useMutation({
+    mutationFn: () => apiClient.clearProtocolMessages(serverId),
+    onSuccess: () => {
+      setMessages([])
+      setExpanded(new Set())
+    }
+  })
+
+  useEffect(() => {
+    setMessages([])
+    setExpanded(new Set())
+
+    return apiClient.followProtocolMessages(serverId, (message) => {
+      setMessages(prev => {
+        const last = prev[prev.length - 1]
+        if (last && message.seq <= last.seq) {
+          // The browser reopened the stream and the tail is replayed; a newer message means the backend restarted
+          if (message.timestamp <= last.timestamp) return prev
+          prev = []
+        }
+        return [...prev, message].slice(-MAX_MESSAGES)
+      })
+    })
+  }, [serverId])
+
+  useEffect(() => {
+    if (autoScroll) {
+      endRef.current?.scrollIntoView({ block: 'end' })
+    }
+  }, [messages, autoScroll])
+
+  const toggleExpanded = (seq: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(seq)) {
+        next.delete(seq)
+      } else {
+        next.add(seq)
+      }
+      return next
+    })
+  }
+
+  const visible = messages.filter(message =>
+    (direction === 'all' || message.direction === direction) &&
+    (kind === 'all' || message.kind === kind) &&
+    (!methodFilter || (message.method ?? '').toLowerCase().includes(methodFilter.toLowerCase()))
+  )
+
+  return (
+    <div className="protocol-inspector">
+      <div className="server-log-controls">
+        <button
+          className={capturing ? 'capture-button capturing' : 'capture-button'}
+          onClick={() => captureMutation.mutate(!capturing)}
+          disabled={captureMutation.isPending}
+        >
+          {capturing ? '■ Stop capture' : '● Start capture'}
+        </button>
+        <button onClick={() => clearMutation.mutate()} disabled={clearMutation.isPending}>
+          Clear
+        </button>
+        <label>
+          Direction
+          <select value={direction} onChange={(e) => setDirection(e.target.value as Direction | 'all')}>
+            <option value="all">all</option>
+            <option value="sent">sent →</option>
+            <option value="received">← received</option>
+          </select>
+        </label>
+        <label>
+          Kind
+          <select value={kind} onChange={(e) => setKind(e.target.value as Kind | 'all')}>
+            <option value="all">all</option>
+            {KINDS.map(k => (
+              <option key={k} value={k}>{k}</option>
+            ))}
+          </select>
+        </label>
+        <input
+          type="text"
+          placeholder="Filter by method..."
+          value={methodFilter}
+          onChange={(e) => setMethodFilter(e.target.value)}
+        />
+        <label>
+          <input type="checkbox" checked={autoScroll} onChange={(e) => setAutoScroll(e.target.checked)} />
+          Follow
+        </label>
+        <span className="server-log-count">{visible.length} messages</span>
+      </div>
+
+      <div className="protocol-timeline">
+        {visible.length === 0 ? (
+          <p className="server-log-empty">
+            {capturing ? 'No messages captured yet.' : 'Capture is off. Start it to record this server\'s traffic.'}
+          </p>
+        ) : (
+          visible.map(message => (
+            <div key={message.seq} className={`protocol-message protocol-${message.kind}`}>
+              <button className="protocol-summary" onClick={() => toggleExpanded(message.seq)}>
+                <span className="server-log-time">{new Date(message.timestamp).toLocaleTimeString()}</span>
+                <span className="protocol-direction">{message.direction === 'sent' ? '→' : '←'}</span>
+                <span className="protocol-kind">{message.kind}</span>
+                <span className="protocol-method">{message.method ?? '(unknown request)'}</span>
+                {message.id !== undefined && <span className="protocol-id">#{message.id}</span>}
+                {message.durationMs !== undefined && <span className="protocol-duration">{message.durationMs} ms</span>}
+              </button>
+              {expanded.has(message.seq) && (
+                <pre className="protocol-payload">
+                  {typeof message.message === 'string' ? message.message : JSON.stringify(message.message, null, 2)}
+                </pre>
+              )}
+            </div>
+          ))
+        )}
+        <div ref={endRef} />
+      </div>
+    </div>
+  )
+}
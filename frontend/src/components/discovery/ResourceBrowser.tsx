@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { apiClient } from '../../services/api'
+import { resourceKey, useResourceAttachments, useResources } from '../../hooks/useResources'
+import type { MCPResource, MCPServerStatus } from '../../../../shared/types'
+
+interface ResourceBrowserProps {
+  servers: MCPServerStatus[]
+}
+
+/**
+ * Resources of the connected servers, with a preview of the selected one
+ * and a button that attaches it to the next chat message
+ */
+export function ResourceBrowser({ servers }: ResourceBrowserProps) {
+  const { data: resources = [], isLoading } = useResources()
+  const { attachments, attach } = useResourceAttachments()
+  const [selected, setSelected] = useState<MCPResource | null>(null)
+  const [filter, setFilter] = useState('')
+  const [attachError, setAttachError] = useState<string | null>(null)
+
+  const { data: contents, error: readError, isFetching } = useQuery({
+    queryKey: ['mcp', 'resource', selected?.serverId, selected?.uri],
+    queryFn: () => apiClient.readResource(selected!.serverId, selected!.uri),
+    enabled: !!selected
+  })
+
+  const needle = filter.trim().toLowerCase()
+  const visible = resources.filter(resource =>
+    !needle || resource.uri.toLowerCase().includes(needle) || resource.name.toLowerCase().includes(needle)
+  )
+  const byServer = visible.reduce<Record<string, MCPResource[]>>((groups, resource) => {
+    (groups[resource.serverId] ??= []).push(resource)
+    return groups
+  }, {})
+  const isAttached = (resource: MCPResource) => attachments.some(a => resourceKey(a) === resourceKey(resource))
+
+  const handleAttach = async (resource: MCPResource) => {
+    setAttachError(null)
+    try {
+      await attach(resource)
+    } catch (error: any) {
+      setAttachError(error.message)
+    }
+  }
+
+  if (isLoading) {
+    return <div className="empty-state"><p>Loading resources...</p></div>
+  }
+
+  if (resources.length === 0) {
+    return (
+      <div className="empty-state">
+        <p>No resources published by the connected servers.</p>
+        <p>Servers that support MCP resources list them here once connected.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="resource-browser">
+      <div className="resource-list">
+        <input
+          type="text"
+          value={filter}
+          placeholder="Filter by name or URI"
+          onChange={(e) => setFilter(e.target.value)}
+        />
+        {Object.entries(byServer).map(([serverId, serverResources]) => (
+          <div key={serverId} className="resource-group">
+            <h4>📦 {servers.find(s => s.id === serverId)?.name ?? serverId}</h4>
+            <ul>
+              {serverResources.map(resource => (
+                <li key={resource.uri}>
+                  <button
+                    className={selected && resourceKey(selected) === resourceKey(resource) ? 'active' : ''}
+                    onClick={() => setSelected(resource)}
+                  >
+                    <span className="resource-name">{resource.title ?? resource.name}</span>
+                    <span className="resource-uri">{resource.uri}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div className="resource-preview">
+        {selected ? (
+          <>
+            <div className="resource-preview-header">
+              <div>
+                <h3>{selected.title ?? selected.name}</h3>
+                <code>{selected.uri}</code>
+                {selected.description && <p>{selected.description}</p>}
+              </div>
+              <button onClick={() => handleAttach(selected)} disabled={!contents}>
+                {isAttached(selected) ? '📎 Attach again' : '📎 Attach to chat'}
+              </button>
+            </div>
+            <p className="resource-meta">
+              {[selected.mimeType, selected.size !== undefined && `${selected.size} bytes`].filter(Boolean).join(' · ')}
+            </p>
+            {attachError && <p className="tool-test-error">{attachError}</p>}
+            {readError && <p className="tool-test-error">{(readError as Error).message}</p>}
+            {isFetching && !contents && <p className="resource-meta">Reading...</p>}
+            {contents?.map((item, index) => (
+              <pre key={index} className="resource-contents">
+                {item.text ?? `Binary content (${item.mimeType ?? 'unknown type'}, ${item.blob?.length ?? 0} base64 characters)`}
+              </pre>
+            ))}
+          </>
+        ) : (
+          <p className="resource-meta">Select a resource to preview it.</p>
+        )}
+      </div>
+    </div>
+  )
+}
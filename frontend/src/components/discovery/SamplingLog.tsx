@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import { useSampling } from '../../hooks/useSampling'
+import { SamplingApprovalCard, SamplingPrompt } from '../chat/SamplingApprovalCard'
+import type { SamplingStatus } from '../../../../shared/types'
+
+const STATUS_ICONS: Record<SamplingStatus, string> = {
+  pending: '⏳',
+  running: '🔄',
+  completed: '✅',
+  denied: '🚫',
+  error: '⚠️'
+}
+
+/**
+ * Every sampling request the servers made since the backend started, newest first
+ */
+export function SamplingLog() {
+  const { records, respond, isLoading } = useSampling()
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  if (isLoading) {
+    return <div className="empty-state"><p>Loading sampling requests...</p></div>
+  }
+
+  if (records.length === 0) {
+    return (
+      <div className="empty-state">
+        <p>No sampling requests yet.</p>
+        <p>Servers ask to use the LLM with sampling/createMessage once allowed in Settings.</p>
+      </div>
+    )
+  }
+
+  return (
+    <ul className="conformance-checks sampling-log">
+      {[...records].reverse().map(record => (
+        <li key={record.id} className={`conformance-check sampling-${record.status}`}>
+          {record.status === 'pending' ? (
+            <SamplingApprovalCard record={record} onRespond={respond} />
+          ) : (
+            <>
+              <div className="conformance-check-header">
+                <span>{STATUS_ICONS[record.status]}</span>
+                <button className="tool-test-name" onClick={() => setExpanded(expanded === record.id ? null : record.id)}>
+                  {record.serverName}
+                </button>
+                <span className="conformance-message">
+                  {record.status} · max {record.maxTokens} tokens
+                  {record.requestedMaxTokens > record.maxTokens && ` (asked for ${record.requestedMaxTokens})`}
+                  {record.model && ` · ${record.model}`}
+                  {record.stopReason && ` · ${record.stopReason}`}
+                </span>
+                <span className="protocol-duration">{new Date(record.createdAt).toLocaleString()}</span>
+              </div>
+
+              {expanded === record.id && (
+                <div className="tool-test-details">
+                  <SamplingPrompt record={record} />
+                  {record.response !== undefined && (
+                    <>
+                      <p className="conformance-message">Response</p>
+                      <pre className="protocol-payload">{record.response}</pre>
+                    </>
+                  )}
+                </div>
+              )}
+              {record.error && <p className="tool-test-error">{record.error}</p>}
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
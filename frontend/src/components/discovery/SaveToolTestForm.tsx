@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import { useToolTests } from '../../hooks/useToolTests'
+import type { ToolTestCase, ToolTestMatcher } from '../../../../shared/types'
+
+const MATCHER_LABELS: Record<ToolTestMatcher['type'], string> = {
+  contains: 'Text contains',
+  equals: 'Text equals',
+  matches: 'Text matches regex',
+  isError: 'Is error'
+}
+
+function emptyMatcher(type: ToolTestMatcher['type']): ToolTestMatcher {
+  switch (type) {
+    case 'isError':
+      return { type, value: false }
+    case 'matches':
+      return { type, pattern: '' }
+    default:
+      return { type, text: '' }
+  }
+}
+
+interface SaveToolTestFormProps {
+  serverId: string
+  toolName: string
+  testArgs: string  // Arguments JSON as typed in the tester
+}
+
+/**
+ * Save the tool call in the tester as a named regression test
+ */
+export function SaveToolTestForm({ serverId, toolName, testArgs }: SaveToolTestFormProps) {
+  const { createTestCase } = useToolTests()
+  const [name, setName] = useState('')
+  const [mode, setMode] = useState<ToolTestCase['mode']>('snapshot')
+  const [matchers, setMatchers] = useState<ToolTestMatcher[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+
+  const updateMatcher = (index: number, matcher: ToolTestMatcher) => {
+    setMatchers(matchers.map((m, i) => (i === index ? matcher : m)))
+  }
+
+  const handleSave = async () => {
+    let args: Record<string, any>
+    try {
+      args = JSON.parse(testArgs)
+    } catch {
+      setMessage('Invalid JSON in test arguments')
+      return
+    }
+
+    try {
+      await createTestCase({ name: name.trim() || toolName, serverId, toolName, arguments: args, mode, matchers })
+      setMessage(mode === 'snapshot' ? 'Saved. The first run records the snapshot.' : 'Saved.')
+      setName('')
+    } catch (error: any) {
+      setMessage(error.message)
+    }
+  }
+
+  return (
+    <details className="save-tool-test">
+      <summary>💾 Save as test case</summary>
+
+      <div className="form-group">
+        <label>Name</label>
+        <input type="text" value={name} placeholder={toolName} onChange={(e) => setName(e.target.value)} />
+      </div>
+
+      <div className="form-group">
+        <label>Expect</label>
+        <select value={mode} onChange={(e) => setMode(e.target.value as ToolTestCase['mode'])}>
+          <option value="snapshot">Same result as the recorded snapshot</option>
+          <option value="matchers">Result matching the rules below</option>
+        </select>
+      </div>
+
+      <div className="tool-test-matchers">
+        {matchers.map((matcher, index) => (
+          <div key={index} className="tool-test-matcher">
+            <select
+              value={matcher.type}
+              onChange={(e) => updateMatcher(index, emptyMatcher(e.target.value as ToolTestMatcher['type']))}
+            >
+              {Object.entries(MATCHER_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            {matcher.type === 'isError' ? (
+              <select
+                value={String(matcher.value)}
+                onChange={(e) => updateMatcher(index, { type: 'isError', value: e.target.value === 'true' })}
+              >
+                <option value="false">false</option>
+                <option value="true">true</option>
+              </select>
+            ) : matcher.type === 'matches' ? (
+              <input
+                type="text"
+                value={matcher.pattern}
+                placeholder="^Sunny"
+                onChange={(e) => updateMatcher(index, { type: 'matches', pattern: e.target.value })}
+              />
+            ) : (
+              <input
+                type="text"
+                value={matcher.text}
+                onChange={(e) => updateMatcher(index, { type: matcher.type, text: e.target.value })}
+              />
+            )}
+            <button onClick={() => setMatchers(matchers.filter((_, i) => i !== index))}>Remove</button>
+          </div>
+        ))}
+        <div className="tool-test-actions">
+          <button onClick={() => setMatchers([...matchers, emptyMatcher('contains')])}>+ Add matcher</button>
+          <button onClick={handleSave}>Save test</button>
+        </div>
+      </div>
+
+      {message && <p className="save-tool-test-message">{message}</p>}
+    </details>
+  )
+}
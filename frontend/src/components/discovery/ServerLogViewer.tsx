@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react'
+import { apiClient } from '../../services/api'
+import type { MCPLogEntry, MCPLogLevel } from '../../../../shared/types'
+
+const LOG_LEVELS: MCPLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency']
+
+/** Lines kept in the view, matching the server-side buffer */
+const MAX_ENTRIES = 1000
+
+interface ServerLogViewerProps {
+  serverId: string
+}
+
+/**
+ * Live console of one MCP server: stderr lines and MCP log messages
+ */
+export function ServerLogViewer({ serverId }: ServerLogViewerProps) {
+  const [entries, setEntries] = useState<MCPLogEntry[]>([])
+  const [minLevel, setMinLevel] = useState<MCPLogLevel>('debug')
+  const [autoScroll, setAutoScroll] = useState(true)
+  const endRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    setEntries([])
+
+    return apiClient.followServerLogs(serverId, (entry) => {
+      setEntries(prev => {
+        const last = prev[prev.length - 1]
+        if (last && entry.seq <= last.seq) {
+          // The browser reopened the stream and the tail is replayed; a newer line means the backend restarted
+          if (entry.timestamp <= last.timestamp) return prev
+          prev = []
+        }
+        return [...prev, entry].slice(-MAX_ENTRIES)
+      })
+    })
+  }, [serverId])
+
+  useEffect(() => {
+    if (autoScroll) {
+      endRef.current?.scrollIntoView({ block: 'end' })
+    }
+  }, [entries, autoScroll])
+
+  const visible = entries.filter(entry => LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(minLevel))
+
+  return (
+    <div className="server-log-viewer">
+      <div className="server-log-controls">
+        <label>
+          Level
+          <select value={minLevel} onChange={(e) => setMinLevel(e.target.value as MCPLogLevel)}>
+            {LOG_LEVELS.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input type="checkbox" checked={autoScroll} onChange={(e) => setAutoScroll(e.target.checked)} />
+          Follow
+        </label>
+        <span className="server-log-count">{visible.length} lines</span>
+      </div>
+
+      <div className="server-log">
+        {visible.length === 0 ? (
+          <p className="server-log-empty">Nothing logged yet.</p>
+        ) : (
+          visible.map(entry => (
+            <div key={entry.seq} className={`server-log-line log-${entry.level}`}>
+              <span className="server-log-time">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              <span className="server-log-level">{entry.level}</span>
+              <span className="server-log-source">{entry.logger ?? entry.source}</span>
+              <span className="server-log-message">{entry.message}</span>
+            </div>
+          ))
+        )}
+        <div ref={endRef} />
+      </div>
+    </div>
+  )
+}
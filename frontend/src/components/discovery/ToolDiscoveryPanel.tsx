@@ -1,5 +1,16 @@
 import { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useMCPStatus } from '../../hooks/useStatusStream'
+import { useConfig } from '../../hooks/useConfig'
+import { ServerLogViewer } from './ServerLogViewer'
+import { ProtocolInspector } from './ProtocolInspector'
+import { ConformanceReportView } from './ConformanceReportView'
+import { SaveToolTestForm } from './SaveToolTestForm'
+import { ToolTestList } from './ToolTestList'
+import { ResourceBrowser } from './ResourceBrowser'
+import { SamplingLog } from './SamplingLog'
+import { ToolArgumentsForm } from '../common/ToolArgumentsForm'
+import type { ArgumentRule, MCPServerStatus } from '../../../../shared/types'
 import './ToolDiscoveryPanel.css'
 
 interface MCPServerTemplate {
@@ -35,6 +46,29 @@ interface MCPServerTemplate {
     description: string
   }>
   airgapInstructions?: string
+  argumentRules?: ArgumentRule[]
+}
+
+const STATE_LABELS: Record<MCPServerStatus['state'], string> = {
+  connecting: 'Connecting',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting',
+  parked: 'Gave up reconnecting',
+  error: 'Error',
+  disconnected: 'Disconnected'
+}
+
+function describeServerState(status: MCPServerStatus): string {
+  switch (status.state) {
+    case 'connected':
+      return `${status.toolCount} tools`
+    case 'reconnecting':
+      return status.nextRetryAt
+        ? `attempt ${status.reconnectAttempts} at ${new Date(status.nextRetryAt).toLocaleTimeString()}`
+        : `attempt ${status.reconnectAttempts}`
+    default:
+      return status.error ?? ''
+  }
 }
 
 interface Tool {
@@ -51,7 +85,8 @@ export function ToolDiscoveryPanel() {
   const [selectedServer, setSelectedServer] = useState<MCPServerTemplate | null>(null)
   const [testingTool, setTestingTool] = useState<Tool | null>(null)
   const [testArgs, setTestArgs] = useState<string>('{}')
-  const [activeTab, setActiveTab] = useState<'catalog' | 'connected'>('catalog')
+  const [activeTab, setActiveTab] = useState<'catalog' | 'connected' | 'resources' | 'tests' | 'sampling' | 'logs' | 'protocol' | 'conformance'>('catalog')
+  const [logServerId, setLogServerId] = useState<string | null>(null)
   const [configuringServer, setConfiguringServer] = useState<MCPServerTemplate | null>(null)
   const [serverConfig, setServerConfig] = useState<any>({
     name: '',
@@ -81,13 +116,26 @@ export function ToolDiscoveryPanel() {
     enabled: activeTab === 'connected'
   })
 
+  // Server connection state, pushed by the status stream
+  const { data: serverStatuses = [] } = useMCPStatus()
+
+  // Logs, captures and conformance runs work for disconnected servers too, so list every configured one
+  const { config } = useConfig()
+  const configuredServers = config?.mcpServers ?? []
+  const selectedLogServerId = configuredServers.some(s => s.id === logServerId)
+    ? logServerId
+    : configuredServers[0]?.id
+
   // Test tool mutation
   const testToolMutation = useMutation({
     mutationFn: async ({ serverId, toolName, args }: { serverId: string, toolName: string, args: any }) => {
       const response = await fetch(`/api/discovery/tools/${serverId}/${toolName}/test`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ arguments: args })
+        body: JSON.stringify({
+          arguments: args,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        })
       })
       return response.json()
     }
@@ -176,7 +224,8 @@ export function ToolDiscoveryPanel() {
       const config: any = {
         name: serverConfig.name || configuringServer.name,
         enabled: serverConfig.enabled,
-        type: configuringServer.type
+        type: configuringServer.type,
+        argumentRules: configuringServer.argumentRules
       }
 
       if (configuringServer.type === 'stdio') {
@@ -224,8 +273,91 @@ export function ToolDiscoveryPanel() {
         >
           🔗 Connected Tools ({connectedTools?.totalTools || 0})
         </button>
+        <button
+          className={activeTab === 'resources' ? 'active' : ''}
+          onClick={() => setActiveTab('resources')}
+        >
+          📄 Resources
+        </button>
+        <button
+          className={activeTab === 'tests' ? 'active' : ''}
+          onClick={() => setActiveTab('tests')}
+        >
+          🧪 Test Cases
+        </button>
+        <button
+          className={activeTab === 'sampling' ? 'active' : ''}
+          onClick={() => setActiveTab('sampling')}
+        >
+          🧠 Sampling
+        </button>
+        <button
+          className={activeTab === 'logs' ? 'active' : ''}
+          onClick={() => setActiveTab('logs')}
+        >
+          📜 Server Logs
+        </button>
+        <button
+          className={activeTab === 'protocol' ? 'active' : ''}
+          onClick={() => setActiveTab('protocol')}
+        >
+          🔍 Protocol Inspector
+        </button>
+        <button
+          className={activeTab === 'conformance' ? 'active' : ''}
+          onClick={() => setActiveTab('conformance')}
+        >
+          ✅ Conformance
+        </button>
       </div>
 
+      {activeTab === 'resources' && (
+        <div className="resources-view">
+          <ResourceBrowser servers={serverStatuses} />
+        </div>
+      )}
+
+      {activeTab === 'sampling' && (
+        <div className="sampling-view">
+          <SamplingLog />
+        </div>
+      )}
+
+      {activeTab === 'tests' && (
+        <div className="tests-view">
+          <ToolTestList servers={configuredServers} />
+        </div>
+      )}
+
+      {(activeTab === 'logs' || activeTab === 'protocol' || activeTab === 'conformance') && (
+        <div className="logs-view">
+          {configuredServers.length > 0 ? (
+            <>
+              <div className="server-log-tabs">
+                {configuredServers.map((server) => (
+                  <button
+                    key={server.id}
+                    className={server.id === selectedLogServerId ? 'active' : ''}
+                    onClick={() => setLogServerId(server.id)}
+                  >
+                    {server.name}
+                  </button>
+                ))}
+              </div>
+              {selectedLogServerId && activeTab === 'logs' && <ServerLogViewer serverId={selectedLogServerId} />}
+              {selectedLogServerId && activeTab === 'protocol' && <ProtocolInspector serverId={selectedLogServerId} />}
+              {selectedLogServerId && activeTab === 'conformance' && (
+                <ConformanceReportView key={selectedLogServerId} serverId={selectedLogServerId} />
+              )}
+            </>
+          ) : (
+            <div className="empty-state">
+              <p>No MCP servers configured yet.</p>
+            </div>
+          )}
+        </div>
+      )}
+
       {activeTab === 'catalog' && (
         <div className="catalog-view">
           <div className="discovery-controls">
@@ -362,6 +494,19 @@ export function ToolDiscoveryPanel() {
 
       {activeTab === 'connected' && (
         <div className="connected-view">
+          {serverStatuses.length > 0 && (
+            <ul className="server-states">
+              {serverStatuses.map((status) => (
+                <li key={status.id} className={`server-state state-${status.state}`}>
+                  <span className="server-state-dot">●</span>
+                  <strong>{status.name}</strong>
+                  <span>{STATE_LABELS[status.state]}</span>
+                  <span className="server-state-detail">{describeServerState(status)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
           {connectedTools && connectedTools.totalTools > 0 ? (
             <>
               <div className="connected-stats">
@@ -378,7 +523,7 @@ export function ToolDiscoveryPanel() {
               <div className="tools-by-server">
                 {Object.entries(connectedTools.toolsByServer || {}).map(([serverId, tools]: [string, any]) => (
                   <div key={serverId} className="server-tools-section">
-                    <h3>📦 {serverId}</h3>
+                    <h3>📦 {serverStatuses.find(s => s.id === serverId)?.name ?? serverId}</h3>
                     <div className="tool-cards">
                       {tools.map((tool: any) => (
                         <div key={tool.name} className="tool-card">
@@ -387,7 +532,7 @@ export function ToolDiscoveryPanel() {
                             <button
                               onClick={() => {
                                 setTestingTool({ ...tool, serverId })
-                                setTestArgs(JSON.stringify(tool.inputSchema?.properties || {}, null, 2))
+                                setTestArgs('{}')
                               }}
                               className="test-button"
                             >
@@ -424,19 +569,16 @@ export function ToolDiscoveryPanel() {
                 <p>{testingTool.description}</p>
 
                 <div className="test-form">
-                  <label>Arguments (JSON)</label>
-                  <textarea
-                    value={testArgs}
-                    onChange={(e) => setTestArgs(e.target.value)}
-                    rows={10}
-                    className="json-editor"
-                  />
+                  <label>Arguments</label>
+                  <ToolArgumentsForm schema={testingTool.inputSchema} value={testArgs} onChange={setTestArgs} />
 
                   <button onClick={handleTestTool} disabled={testToolMutation.isPending}>
                     {testToolMutation.isPending ? 'Testing...' : 'Execute Test'}
                   </button>
                 </div>
 
+                <SaveToolTestForm serverId={testingTool.serverId} toolName={testingTool.name} testArgs={testArgs} />
+
                 {testToolMutation.data && (
                   <div className={`test-result ${testToolMutation.data.success ? 'success' : 'error'}`}>
                     <h3>Result:</h3>
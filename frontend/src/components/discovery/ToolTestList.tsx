@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { useToolTests } from '../../hooks/useToolTests'
+import type { MCPServerConfig, ToolTestCase, ToolTestRun } from '../../../../shared/types'
+
+const RUN_ICONS: Record<ToolTestRun['status'], string> = {
+  pass: '✅',
+  fail: '❌',
+  error: '⚠️'
+}
+
+interface ToolTestListProps {
+  servers: MCPServerConfig[]
+}
+
+/**
+ * Saved tool tests with their last run; runs them one by one or all at once
+ */
+export function ToolTestList({ servers }: ToolTestListProps) {
+  const { testCases, runTestCase, runAll, deleteTestCase, acceptSnapshot, isRunning, runningId } = useToolTests()
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const serverName = (id: string) => servers.find(s => s.id === id)?.name ?? id
+  const counts = {
+    pass: testCases.filter(t => t.lastRun?.status === 'pass').length,
+    fail: testCases.filter(t => t.lastRun?.status === 'fail').length,
+    error: testCases.filter(t => t.lastRun?.status === 'error').length
+  }
+
+  // Accepting a changed result makes it the snapshot that later runs compare against
+  const handleAccept = async (testCase: ToolTestCase) => {
+    try {
+      await acceptSnapshot(testCase.id)
+    } catch (error: any) {
+      alert(error.message)
+    }
+  }
+
+  if (testCases.length === 0) {
+    return (
+      <div className="empty-state">
+        <p>No saved tool tests yet.</p>
+        <p>Open a tool in Connected Tools, test it, and save the call as a test case.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="tool-test-list">
+      <div className="server-log-controls">
+        <button onClick={() => runAll(undefined)} disabled={isRunning}>
+          {isRunning && !runningId ? 'Running...' : `▶ Run all (${testCases.length})`}
+        </button>
+        <span className="server-log-count">
+          {counts.pass} passed · {counts.fail} failed · {counts.error} errors
+        </span>
+      </div>
+
+      <ul className="conformance-checks">
+        {testCases.map(testCase => {
+          const run = testCase.lastRun
+          const status = run?.status
+
+          return (
+            <li key={testCase.id} className={`conformance-check conformance-${status ?? 'skip'}`}>
+              <div className="conformance-check-header">
+                <span>{status ? RUN_ICONS[status] : '○'}</span>
+                <button className="tool-test-name" onClick={() => setExpanded(expanded === testCase.id ? null : testCase.id)}>
+                  {testCase.name}
+                </button>
+                <span className="conformance-message">
+                  {serverName(testCase.serverId)} · {testCase.toolName} · {testCase.mode}
+                </span>
+                {run && (
+                  <span className="protocol-duration">
+                    {new Date(run.ranAt).toLocaleString()} · {run.durationMs} ms
+                  </span>
+                )}
+                <button onClick={() => runTestCase(testCase.id)} disabled={isRunning}>
+                  {runningId === testCase.id ? 'Running...' : 'Run'}
+                </button>
+                {run?.diff && (
+                  <button onClick={() => handleAccept(testCase)}>Accept result</button>
+                )}
+                <button onClick={() => confirm(`Delete test "${testCase.name}"?`) && deleteTestCase(testCase.id)}>
+                  Delete
+                </button>
+              </div>
+
+              {(expanded === testCase.id || status === 'fail' || status === 'error') && (
+                <div className="tool-test-details">
+                  {run?.error && <p className="tool-test-error">{run.error}</p>}
+                  {run && run.failures.length > 0 && (
+                    <ul className="conformance-details">
+                      {run.failures.map((failure, index) => (
+                        <li key={index}>{failure}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {run?.diff && (
+                    <pre className="snapshot-diff">
+                      {run.diff.map((line, index) => (
+                        <div key={index} className={`diff-${line.type}`}>
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+                  {expanded === testCase.id && (
+                    <>
+                      <p className="conformance-message">Arguments</p>
+                      <pre className="protocol-payload">{JSON.stringify(testCase.arguments, null, 2)}</pre>
+                      {run?.result && (
+                        <>
+                          <p className="conformance-message">Last result</p>
+                          <pre className="protocol-payload">{JSON.stringify(run.result, null, 2)}</pre>
+                        </>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
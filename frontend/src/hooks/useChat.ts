@@ -1,7 +1,16 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
 import { apiClient } from '../services/api'
 import { useConfig } from './useConfig'
-import type { Message } from '../../../shared/types'
+import { STREAM_PROTOCOL_VERSION } from '../../../shared/types'
+import type {
+  ElicitationResponse,
+  MCPTool,
+  Message,
+  ResourceAttachment,
+  ToolApprovalDecision,
+  ToolExecution
+} from '../../../shared/types'
 
 // Default system prompt used if no custom prompt is configured
 const DEFAULT_SYSTEM_PROMPT = `You are an MCP (Model Context Protocol) development assistant that helps developers build, test, and troubleshoot MCP servers. You have access to connected MCP tools and can call them to demonstrate functionality, verify implementations, and help debug issues. Always respond in English.
@@ -27,23 +36,62 @@ CHART VISUALIZATION:
 - Simply return the data from MCP tools - the UI will visualize it automatically
 - If users ask for charts, call the appropriate MCP tool to get the data`
 
+// crypto.randomUUID only exists in secure contexts (https or localhost)
+function newMessageId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// A tool call paused on the server until the user approves or denies it
+export interface PendingToolApproval {
+  approvalId: string
+  conversationId?: string
+  toolCallId: string
+  toolName: string
+  serverId: string
+  arguments: Record<string, any>
+  inputSchema: MCPTool['inputSchema']
+}
+
+// A question a server asked during a tool call, waiting for the user's answer
+export interface PendingElicitation {
+  elicitationId: string
+  toolCallId: string
+  toolName: string
+  serverId: string
+  message: string
+  requestedSchema: MCPTool['inputSchema']
+}
+
 export function useChat() {
   const { config } = useConfig()
+  const queryClient = useQueryClient()
   const [messages, setMessages] = useState<Message[]>([])
+  const [conversationId, setConversationId] = useState<string | null>(null)
   const [isStreaming, setIsStreaming] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [pendingApprovals, setPendingApprovals] = useState<PendingToolApproval[]>([])
+  const [pendingElicitations, setPendingElicitations] = useState<PendingElicitation[]>([])
+  // Message id -> every version at that point, for messages that were edited or regenerated
+  const [branches, setBranches] = useState<Record<string, string[]>>({})
+  const abortControllerRef = useRef<AbortController | null>(null)
 
-  const sendMessage = useCallback(async (content: string) => {
+  /**
+   * Stream one turn: the user message after the given history
+   * Sending, editing and regenerating all run a turn from a different history
+   */
+  const runTurn = useCallback(async (history: Message[], userMessage: Message) => {
     setError(null)
     setIsStreaming(true)
 
-    const userMessage: Message = {
-      role: 'user',
-      content,
-      timestamp: Date.now()
-    }
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const previousMessages = messages
+    let turnConversationId = conversationId
 
-    setMessages(prev => [...prev, userMessage])
+    setMessages([...history, userMessage])
 
     let assistantMessage: Message = {
       role: 'assistant',
@@ -81,63 +129,270 @@ TIME AND DATE CONTEXT:
       }
 
       // Only include system message on first conversation turn to avoid exponential message history growth
-      const conversationMessages = messages.length === 0
-        ? [systemMessage, userMessage]
-        : [...messages, userMessage]
+      // (the first turn can follow prompt messages inserted before the conversation was saved)
+      const conversationMessages = history.length === 0 || !conversationId
+        ? [systemMessage, ...history, userMessage]
+        : [...history, userMessage]
 
-      const stream = apiClient.chatStream(conversationMessages)
+      const stream = apiClient.chatStream(conversationMessages, conversationId ?? undefined, abortController.signal)
+
+      // Show the streamed reply as the last message
+      const renderAssistantMessage = () => {
+        setMessages(prev => {
+          const newMessages = [...prev]
+          if (newMessages[newMessages.length - 1]?.role === 'assistant') {
+            newMessages[newMessages.length - 1] = { ...assistantMessage }
+          } else {
+            newMessages.push({ ...assistantMessage })
+          }
+          return newMessages
+        })
+      }
+
+      // Tool cards update in place as a call moves from approval to running to done
+      const updateToolExecution = (toolCallId: string, update: Partial<ToolExecution>) => {
+        const executions = assistantMessage.toolExecutions ?? []
+        const existing = executions.find(e => e.toolCallId === toolCallId)
+        assistantMessage.toolExecutions = existing
+          ? executions.map(e => e === existing ? { ...e, ...update } : e)
+          : [...executions, { toolCallId, toolName: 'unknown', arguments: {}, status: 'running', ...update }]
+        renderAssistantMessage()
+      }
 
       for await (const chunk of stream) {
-        if (chunk.type === 'content' && chunk.content) {
-          assistantMessage.content += chunk.content
-          setMessages(prev => {
-            const newMessages = [...prev]
-            if (newMessages[newMessages.length - 1]?.role === 'assistant') {
-              newMessages[newMessages.length - 1] = { ...assistantMessage }
-            } else {
-              newMessages.push({ ...assistantMessage })
+        switch (chunk.type) {
+          case 'conversation':
+            if (chunk.protocolVersion !== STREAM_PROTOCOL_VERSION) {
+              throw new Error(`Unsupported chat protocol version ${chunk.protocolVersion} - please reload the page`)
             }
-            return newMessages
-          })
-        } else if (chunk.type === 'chart_data' && chunk.chartData) {
-          if (!assistantMessage.chartData) {
-            assistantMessage.chartData = []
+            turnConversationId = chunk.conversationId
+            setConversationId(chunk.conversationId)
+            break
+
+          case 'content':
+            assistantMessage.content += chunk.content
+            renderAssistantMessage()
+            break
+
+          case 'chart_data':
+            assistantMessage.chartData = [...(assistantMessage.chartData ?? []), chunk.chartData]
+            renderAssistantMessage()
+            break
+
+          case 'tool_approval_required':
+            setPendingApprovals(prev => [...prev, {
+              approvalId: chunk.approvalId,
+              conversationId: chunk.conversationId,
+              toolCallId: chunk.toolCallId,
+              toolName: chunk.toolName,
+              serverId: chunk.serverId,
+              arguments: chunk.arguments,
+              inputSchema: chunk.inputSchema
+            }])
+            updateToolExecution(chunk.toolCallId, {
+              toolName: chunk.toolName,
+              serverId: chunk.serverId,
+              arguments: chunk.arguments,
+              status: 'awaiting_approval'
+            })
+            break
+
+          case 'elicitation_required':
+            setPendingElicitations(prev => [...prev, {
+              elicitationId: chunk.elicitationId,
+              toolCallId: chunk.toolCallId,
+              toolName: chunk.toolName,
+              serverId: chunk.serverId,
+              message: chunk.message,
+              requestedSchema: chunk.requestedSchema
+            }])
+            break
+
+          case 'elicitation_resolved':
+            // Answered here, timed out, or withdrawn by the server
+            setPendingElicitations(prev => prev.filter(e => e.elicitationId !== chunk.elicitationId))
+            break
+
+          case 'tool_execution_start':
+            // The call was answered (possibly after a timeout) - stop asking
+            setPendingApprovals(prev => prev.filter(a => a.toolCallId !== chunk.toolCallId))
+            updateToolExecution(chunk.toolCallId, {
+              toolName: chunk.toolName,
+              serverId: chunk.serverId,
+              arguments: chunk.arguments,
+              status: 'running',
+              startedAt: chunk.startedAt
+            })
+            break
+
+          case 'tool_execution_result':
+            setPendingApprovals(prev => prev.filter(a => a.toolCallId !== chunk.toolCallId))
+            setPendingElicitations(prev => prev.filter(e => e.toolCallId !== chunk.toolCallId))
+            updateToolExecution(chunk.toolCallId, {
+              toolName: chunk.toolName,
+              status: chunk.denied ? 'denied' : chunk.isError ? 'error' : 'success',
+              error: chunk.error,
+              resultPreview: chunk.resultPreview,
+              durationMs: chunk.durationMs
+            })
+            break
+
+          case 'turn_messages': {
+            // Swap the streamed reply for the full turn so tool results stay in history
+            const turnMessages = chunk.messages
+            setMessages(prev => [...prev.slice(0, prev.indexOf(userMessage) + 1), ...turnMessages])
+            break
           }
-          assistantMessage.chartData.push(chunk.chartData)
-
-          // Update UI immediately
-          setMessages(prev => {
-            const newMessages = [...prev]
-            if (newMessages[newMessages.length - 1]?.role === 'assistant') {
-              newMessages[newMessages.length - 1] = { ...assistantMessage }
-            } else {
-              newMessages.push({ ...assistantMessage })
-            }
-            return newMessages
-          })
-        } else if (chunk.type === 'error') {
-          setError(chunk.error || 'An error occurred')
-          break
+
+          case 'error':
+            setError(chunk.error || 'An error occurred')
+            return
         }
       }
+
+      // The server has stored the turn - pick up the versions it now has
+      if (turnConversationId && !abortController.signal.aborted) {
+        apiClient.getConversation(turnConversationId)
+          .then(conversation => setBranches(conversation.branches ?? {}))
+          .catch(() => {
+            // The turn itself succeeded - only the version switcher is out of date
+          })
+      }
     } catch (err: any) {
-      setError(err.message)
-      setMessages(prev => prev.filter(m => m !== userMessage))
+      // A stopped turn keeps the partial answer - the server saved it too
+      if (err.name !== 'AbortError') {
+        setError(err.message)
+        setMessages(previousMessages)
+      }
     } finally {
+      abortControllerRef.current = null
+      setPendingApprovals([])
+      setPendingElicitations([])
       setIsStreaming(false)
+      // The server saves the turn once streaming ends
+      queryClient.invalidateQueries({ queryKey: ['conversations'] })
     }
-  }, [messages, config])
+  }, [messages, config, conversationId, queryClient])
 
+  const sendMessage = useCallback(async (content: string, attachments: ResourceAttachment[] = []) => {
+    const userMessage: Message = {
+      id: newMessageId(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+      ...(attachments.length > 0 && { attachments })
+    }
+
+    await runTurn(messages, userMessage)
+  }, [messages, runTurn])
+
+  // Replace a user message and everything after it; the old version stays on the server as a branch
+  // The edited version keeps the original's attachments
+  const editMessage = useCallback(async (index: number, content: string) => {
+    const userMessage: Message = {
+      id: newMessageId(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+      attachments: messages[index].attachments
+    }
+
+    await runTurn(messages.slice(0, index), userMessage)
+  }, [messages, runTurn])
+
+  // Ask again for the last user message; the previous reply stays on the server as a branch
+  const regenerate = useCallback(async () => {
+    let index = messages.length - 1
+    while (index >= 0 && messages[index].role !== 'user') {
+      index--
+    }
+    if (index < 0) return
+
+    await runTurn(messages.slice(0, index), messages[index])
+  }, [messages, runTurn])
+
+  /**
+   * Add the messages of a rendered prompt to the conversation
+   * A prompt that ends with a user message is answered right away; otherwise
+   * the messages wait for the next message sent
+   */
+  const insertPromptMessages = useCallback(async (promptMessages: Message[]) => {
+    const inserted = promptMessages.map(message => ({ ...message, id: newMessageId() }))
+    const last = inserted[inserted.length - 1]
+
+    if (last?.role === 'user') {
+      await runTurn([...messages, ...inserted.slice(0, -1)], last)
+    } else {
+      setMessages(prev => [...prev, ...inserted])
+    }
+  }, [messages, runTurn])
+
+  const switchBranch = useCallback(async (messageId: string) => {
+    if (!conversationId) return
+
+    setError(null)
+    try {
+      const conversation = await apiClient.switchBranch(conversationId, messageId)
+      setMessages(conversation.messages)
+      setBranches(conversation.branches ?? {})
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }, [conversationId])
+
+  const stopStreaming = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  // Errors are left to the caller - refused arguments can be corrected and sent again
+  const respondToApproval = useCallback(async (approval: PendingToolApproval, decision: ToolApprovalDecision) => {
+    await apiClient.resolveToolApproval(approval.approvalId, approval.conversationId ?? '', decision)
+    setPendingApprovals(prev => prev.filter(a => a.approvalId !== approval.approvalId))
+  }, [])
+
+  // Errors are left to the caller - a refused answer can be corrected and sent again
+  const respondToElicitation = useCallback(async (elicitationId: string, response: ElicitationResponse) => {
+    await apiClient.resolveElicitation(elicitationId, response)
+    setPendingElicitations(prev => prev.filter(e => e.elicitationId !== elicitationId))
+  }, [])
+
+  // Starts a new conversation - the next message creates it on the server
   const clearMessages = useCallback(() => {
     setMessages([])
+    setBranches({})
+    setConversationId(null)
+    setError(null)
+  }, [])
+
+  const loadConversation = useCallback(async (id: string) => {
     setError(null)
+    try {
+      const conversation = await apiClient.getConversation(id)
+      setMessages(conversation.messages)
+      setBranches(conversation.branches ?? {})
+      setConversationId(conversation.id)
+    } catch (err: any) {
+      setError(err.message)
+    }
   }, [])
 
   return {
     messages,
+    conversationId,
     isStreaming,
     error,
+    pendingApprovals,
+    pendingElicitations,
+    branches,
     sendMessage,
-    clearMessages
+    editMessage,
+    regenerate,
+    insertPromptMessages,
+    switchBranch,
+    stopStreaming,
+    respondToApproval,
+    respondToElicitation,
+    clearMessages,
+    loadConversation
   }
 }
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { apiClient } from '../services/api'
-import type { LLMConfig, MCPServerRequest } from '../../../shared/types'
+import type { ArgumentRule, LLMConfig, MCPServerRequest, SamplingPolicy, ToolApprovalPolicy } from '../../../shared/types'
 
 export function useConfig() {
   const queryClient = useQueryClient()
@@ -40,6 +40,46 @@ export function useConfig() {
     }
   })
 
+  const updateApprovalPolicyMutation = useMutation({
+    mutationFn: ({ id, policy }: { id: string; policy: ToolApprovalPolicy }) =>
+      apiClient.updateApprovalPolicy(id, policy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config'] })
+    }
+  })
+
+  const updateSamplingPolicyMutation = useMutation({
+    mutationFn: ({ id, policy }: { id: string; policy: SamplingPolicy }) =>
+      apiClient.updateSamplingPolicy(id, policy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config'] })
+    }
+  })
+
+  const updateRootsMutation = useMutation({
+    mutationFn: ({ id, roots }: { id: string; roots: string[] }) =>
+      apiClient.updateRoots(id, roots),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config'] })
+    }
+  })
+
+  const updateArgumentRulesMutation = useMutation({
+    mutationFn: ({ id, rules }: { id: string; rules: ArgumentRule[] }) =>
+      apiClient.updateArgumentRules(id, rules),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config'] })
+    }
+  })
+
+  const updateToolAliasMutation = useMutation({
+    mutationFn: ({ id, alias }: { id: string; alias: string | null }) =>
+      apiClient.updateToolAlias(id, alias),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config'] })
+    }
+  })
+
   return {
     config,
     isLoading,
@@ -47,11 +87,21 @@ export function useConfig() {
     addMCPServer: addMCPServerMutation.mutateAsync,
     deleteMCPServer: deleteMCPServerMutation.mutateAsync,
     toggleMCPServer: toggleMCPServerMutation.mutateAsync,
+    updateApprovalPolicy: updateApprovalPolicyMutation.mutateAsync,
+    updateSamplingPolicy: updateSamplingPolicyMutation.mutateAsync,
+    updateToolAlias: updateToolAliasMutation.mutateAsync,
+    updateArgumentRules: updateArgumentRulesMutation.mutateAsync,
+    updateRoots: updateRootsMutation.mutateAsync,
     isUpdating:
       updateLLMMutation.isPending ||
       addMCPServerMutation.isPending ||
       deleteMCPServerMutation.isPending ||
-      toggleMCPServerMutation.isPending
+      toggleMCPServerMutation.isPending ||
+      updateApprovalPolicyMutation.isPending ||
+      updateSamplingPolicyMutation.isPending ||
+      updateToolAliasMutation.isPending ||
+      updateArgumentRulesMutation.isPending ||
+      updateRootsMutation.isPending
   }
 }
 
@@ -59,6 +109,6 @@ export function useHealthCheck() {
   return useQuery({
     queryKey: ['health'],
     queryFn: () => apiClient.healthCheck(),
-    refetchInterval: 30000 // Refetch every 30 seconds
+    staleTime: Infinity // Kept current by the status stream (useStatusStream)
   })
 }
@@ -0,0 +1,33 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiClient } from '../services/api'
+
+export function useConversations() {
+  const queryClient = useQueryClient()
+
+  const { data: conversations, isLoading } = useQuery({
+    queryKey: ['conversations'],
+    queryFn: () => apiClient.getConversations()
+  })
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) =>
+      apiClient.renameConversation(id, title),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] })
+    }
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiClient.deleteConversation(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] })
+    }
+  })
+
+  return {
+    conversations: conversations || [],
+    isLoading,
+    renameConversation: renameMutation.mutateAsync,
+    deleteConversation: deleteMutation.mutateAsync
+  }
+}
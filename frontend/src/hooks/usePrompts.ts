@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query'
+import { apiClient } from '../services/api'
+
+/**
+ * Prompts of every connected server, refreshed by prompts_changed status events
+ */
+export function usePrompts() {
+  return useQuery({
+    queryKey: ['mcp', 'prompts'],
+    queryFn: () => apiClient.getPrompts()
+  })
+}
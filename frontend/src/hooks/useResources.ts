@@ -0,0 +1,126 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { apiClient } from '../services/api'
+import { truncateAttachment } from '../../../shared/types'
+import type { MCPResource, MCPResourceContents, ResourceAttachment } from '../../../shared/types'
+
+const ATTACHMENTS_KEY = ['chat', 'attachments']
+const UPDATES_KEY = ['mcp', 'resource-updates']
+
+/**
+ * Key of a resource across servers
+ */
+export function resourceKey(resource: { serverId: string; uri: string }): string {
+  return `${resource.serverId} ${resource.uri}`
+}
+
+/**
+ * Resources of every connected server, refreshed by resources_changed status events
+ */
+export function useResources() {
+  return useQuery({
+    queryKey: ['mcp', 'resources'],
+    queryFn: () => apiClient.getResources()
+  })
+}
+
+/**
+ * When each resource last sent resources/updated (resource key -> ISO timestamp)
+ * Filled by useStatusStream; an attachment read before its update is out of date.
+ */
+export function useResourceUpdates() {
+  const { data } = useQuery<Record<string, string>>({
+    queryKey: UPDATES_KEY,
+    queryFn: () => ({}),
+    initialData: {},
+    staleTime: Infinity
+  })
+
+  return {
+    updates: data,
+    isOutdated: (attachment: ResourceAttachment) => {
+      const updatedAt = data[resourceKey(attachment)]
+      return !!updatedAt && updatedAt > attachment.readAt
+    }
+  }
+}
+
+/**
+ * Resources attached to the next chat message
+ *
+ * Kept in the query cache so the resource browser in Discovery and the chat
+ * input share them. Attaching reads the resource and subscribes to its
+ * updates, so an attachment that changes can be refreshed before sending.
+ */
+export function useResourceAttachments() {
+  const queryClient = useQueryClient()
+  const { data: attachments } = useQuery<ResourceAttachment[]>({
+    queryKey: ATTACHMENTS_KEY,
+    queryFn: () => [],
+    initialData: [],
+    staleTime: Infinity
+  })
+
+  const setAttachments = (update: (previous: ResourceAttachment[]) => ResourceAttachment[]) => {
+    queryClient.setQueryData<ResourceAttachment[]>(ATTACHMENTS_KEY, previous => update(previous ?? []))
+  }
+
+  // Attaching again replaces the earlier read of the same resource
+  const attach = async (resource: Pick<MCPResource, 'serverId' | 'uri' | 'name' | 'mimeType'>) => {
+    const attachment = await readAttachment(resource)
+    setAttachments(previous => [
+      ...previous.filter(a => resourceKey(a) !== resourceKey(attachment)),
+      attachment
+    ])
+
+    apiClient.subscribeResource(resource.serverId, resource.uri).catch((error) => {
+      console.warn(`Could not subscribe to ${resource.uri}:`, error.message)
+    })
+  }
+
+  const refresh = async (attachment: ResourceAttachment) => {
+    const updated = await readAttachment(attachment)
+    setAttachments(previous => previous.map(a => (resourceKey(a) === resourceKey(updated) ? updated : a)))
+  }
+
+  const detach = (attachment: ResourceAttachment) => {
+    setAttachments(previous => previous.filter(a => resourceKey(a) !== resourceKey(attachment)))
+    apiClient.unsubscribeResource(attachment.serverId, attachment.uri).catch(() => {})
+  }
+
+  // After sending: the message keeps the attachments, so their subscriptions stay
+  const clear = () => setAttachments(() => [])
+
+  return {
+    attachments,
+    attach,
+    refresh,
+    detach,
+    clear
+  }
+}
+
+async function readAttachment(
+  resource: Pick<MCPResource, 'serverId' | 'uri' | 'name' | 'mimeType'>
+): Promise<ResourceAttachment> {
+  const contents = await apiClient.readResource(resource.serverId, resource.uri)
+  const text = contents.map(contentsText).join('\n\n')
+
+  return {
+    serverId: resource.serverId,
+    uri: resource.uri,
+    name: resource.name,
+    mimeType: resource.mimeType ?? contents[0]?.mimeType,
+    text: truncateAttachment(text),
+    readAt: new Date().toISOString()
+  }
+}
+
+// Binary contents can't go into a text prompt; say what was left out instead
+function contentsText(contents: MCPResourceContents): string {
+  if (contents.text !== undefined) {
+    return contents.text
+  }
+
+  const bytes = Math.floor(((contents.blob?.length ?? 0) * 3) / 4)
+  return `[Binary content of ${contents.uri} (${contents.mimeType ?? 'unknown type'}, about ${bytes} bytes) not included]`
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query'
+import { apiClient } from '../services/api'
+
+/**
+ * Sampling requests made by MCP servers, oldest first
+ * Kept current by sampling_request status events (useStatusStream)
+ */
+export function useSampling() {
+  const { data: records = [], isLoading } = useQuery({
+    queryKey: ['mcp', 'sampling'],
+    queryFn: () => apiClient.getSamplingRecords(),
+    staleTime: Infinity
+  })
+
+  return {
+    records,
+    pending: records.filter(record => record.status === 'pending'),
+    isLoading,
+    respond: (id: string, approved: boolean, reason?: string) => apiClient.resolveSampling(id, { approved, reason })
+  }
+}
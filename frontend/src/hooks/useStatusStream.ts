@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import { apiClient } from '../services/api'
+import { resourceKey } from './useResources'
+import type { HealthCheckResult, LLMHealth, MCPServerStatus, SamplingRecord, StatusEvent } from '../../../shared/types'
+
+/**
+ * Keep health and MCP server status up to date from the status stream
+ * Mount once, near the root; other components read the ['health'] and ['mcp', 'status'] queries.
+ *
+ * @returns Whether the stream is open (false while the backend is unreachable)
+ */
+export function useStatusStream() {
+  const queryClient = useQueryClient()
+  const [connected, setConnected] = useState(false)
+
+  useEffect(() => {
+    return apiClient.subscribeToStatus(
+      (event) => applyStatusEvent(queryClient, event),
+      setConnected
+    )
+  }, [queryClient])
+
+  return { connected }
+}
+
+/**
+ * Connection state of every MCP server, live while useStatusStream is mounted
+ */
+export function useMCPStatus() {
+  return useQuery({
+    queryKey: ['mcp', 'status'],
+    queryFn: () => apiClient.getMCPStatus(),
+    staleTime: Infinity
+  })
+}
+
+function applyStatusEvent(queryClient: QueryClient, event: StatusEvent) {
+  switch (event.type) {
+    case 'snapshot':
+      queryClient.setQueryData<MCPServerStatus[]>(['mcp', 'status'], event.mcpServers)
+      updateHealth(queryClient, event.llm ?? undefined, event.mcpServers)
+      queryClient.invalidateQueries({ queryKey: ['discovery', 'tools'] })
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'resources'] })
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'prompts'] })
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'sampling'] })  // Requests made while disconnected
+      break
+
+    case 'llm_status':
+      updateHealth(queryClient, event.llm)
+      break
+
+    case 'mcp_status': {
+      const previous = queryClient.getQueryData<MCPServerStatus[]>(['mcp', 'status'])
+      const servers = [...(previous ?? []).filter(s => s.id !== event.server.id), event.server]
+      queryClient.setQueryData<MCPServerStatus[]>(['mcp', 'status'], servers)
+      updateHealth(queryClient, undefined, servers)
+
+      // Tools, resources and prompts appear and disappear with the connection
+      if (previous?.find(s => s.id === event.server.id)?.connected !== event.server.connected) {
+        queryClient.invalidateQueries({ queryKey: ['discovery', 'tools'] })
+        queryClient.invalidateQueries({ queryKey: ['mcp', 'resources'] })
+        queryClient.invalidateQueries({ queryKey: ['mcp', 'prompts'] })
+      }
+      break
+    }
+
+    case 'mcp_removed': {
+      const servers = (queryClient.getQueryData<MCPServerStatus[]>(['mcp', 'status']) ?? [])
+        .filter(s => s.id !== event.serverId)
+      queryClient.setQueryData<MCPServerStatus[]>(['mcp', 'status'], servers)
+      updateHealth(queryClient, undefined, servers)
+      queryClient.invalidateQueries({ queryKey: ['discovery', 'tools'] })
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'resources'] })
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'prompts'] })
+      break
+    }
+
+    case 'tools_changed':
+      queryClient.invalidateQueries({ queryKey: ['discovery', 'tools'] })
+      break
+
+    case 'resources_changed':
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'resources'] })
+      break
+
+    case 'prompts_changed':
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'prompts'] })
+      break
+
+    case 'sampling_request':
+      // Records arrive again as they move from pending to their outcome
+      queryClient.setQueryData<SamplingRecord[]>(['mcp', 'sampling'], (previous) => {
+        if (!previous) return previous  // Not loaded yet; the first fetch includes it
+        return previous.some(r => r.id === event.record.id)
+          ? previous.map(r => (r.id === event.record.id ? event.record : r))
+          : [...previous, event.record]
+      })
+      break
+
+    case 'resource_updated':
+      queryClient.setQueryData<Record<string, string>>(['mcp', 'resource-updates'], (previous) => ({
+        ...previous,
+        [resourceKey(event)]: new Date().toISOString()
+      }))
+      queryClient.invalidateQueries({ queryKey: ['mcp', 'resource', event.serverId, event.uri] })
+      break
+  }
+}
+
+function updateHealth(queryClient: QueryClient, llm?: LLMHealth, servers?: MCPServerStatus[]) {
+  queryClient.setQueryData<HealthCheckResult>(['health'], (previous) => {
+    const nextLLM = llm ?? previous?.llm ?? { configured: false, reachable: false }
+
+    return {
+      status: nextLLM.reachable ? 'healthy' : 'unhealthy',
+      llm: nextLLM,
+      mcpServers: servers
+        ? servers.map(({ id, name, connected, toolCount }) => ({ id, name, connected, toolCount }))
+        : previous?.mcpServers ?? []
+    }
+  })
+}
@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiClient } from '../services/api'
+import type { ToolTestCaseRequest } from '../../../shared/types'
+
+export function useToolTests() {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['tool-tests'] })
+
+  const { data: testCases, isLoading } = useQuery({
+    queryKey: ['tool-tests'],
+    queryFn: () => apiClient.getToolTests()
+  })
+
+  const createMutation = useMutation({
+    mutationFn: (testCase: ToolTestCaseRequest) => apiClient.createToolTest(testCase),
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiClient.deleteToolTest(id),
+    onSuccess: invalidate
+  })
+
+  const runMutation = useMutation({
+    mutationFn: (id: string) => apiClient.runToolTest(id),
+    onSuccess: invalidate
+  })
+
+  const runAllMutation = useMutation({
+    mutationFn: (serverId?: string) => apiClient.runAllToolTests(serverId),
+    onSuccess: invalidate
+  })
+
+  const acceptMutation = useMutation({
+    mutationFn: (id: string) => apiClient.acceptToolTestSnapshot(id),
+    onSuccess: invalidate
+  })
+
+  return {
+    testCases: testCases || [],
+    isLoading,
+    createTestCase: createMutation.mutateAsync,
+    deleteTestCase: deleteMutation.mutateAsync,
+    runTestCase: runMutation.mutateAsync,
+    runAll: runAllMutation.mutateAsync,
+    acceptSnapshot: acceptMutation.mutateAsync,
+    isRunning: runMutation.isPending || runAllMutation.isPending,
+    runningId: runMutation.isPending ? runMutation.variables : undefined
+  }
+}
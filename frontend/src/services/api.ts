@@ -7,7 +7,28 @@ import type {
   MCPServerRequest,
   HealthCheckResult,
   AppConfig,
-  StreamChunk
+  StreamChunk,
+  Conversation,
+  ConversationSummary,
+  MCPTool,
+  MCPResource,
+  MCPResourceContents,
+  MCPPrompt,
+  RenderedPrompt,
+  SamplingPolicy,
+  SamplingRecord,
+  ToolApprovalPolicy,
+  ToolApprovalDecision,
+  ElicitationResponse,
+  ArgumentRule,
+  MCPServerStatus,
+  StatusEvent,
+  MCPLogEntry,
+  MCPProtocolMessage,
+  ConformanceReport,
+  ToolTestCase,
+  ToolTestCaseRequest,
+  ToolTestRun
 } from '../../../shared/types'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
@@ -28,6 +49,38 @@ export class APIClient {
     return response.json()
   }
 
+  /**
+   * Listen to live status (server-sent events); the browser reconnects a dropped stream itself
+   * @returns Function that closes the stream
+   */
+  subscribeToStatus(
+    onEvent: (event: StatusEvent) => void,
+    onConnectionChange?: (connected: boolean) => void
+  ): () => void {
+    const source = new EventSource(`${this.baseURL}/status/stream`)
+
+    source.onopen = () => onConnectionChange?.(true)
+    source.onerror = () => onConnectionChange?.(false)
+    source.onmessage = (message) => {
+      try {
+        onEvent(JSON.parse(message.data))
+      } catch (error) {
+        console.error('Failed to parse status event:', error)
+      }
+    }
+
+    return () => source.close()
+  }
+
+  async getMCPStatus(): Promise<MCPServerStatus[]> {
+    const response = await fetch(`${this.baseURL}/mcp/status`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch MCP server status')
+    }
+    const data = await response.json()
+    return data.servers
+  }
+
   // Configuration
   async getConfig(): Promise<AppConfig> {
     const response = await fetch(`${this.baseURL}/config`)
@@ -96,12 +149,404 @@ export class APIClient {
     }
   }
 
+  async updateApprovalPolicy(id: string, policy: ToolApprovalPolicy): Promise<void> {
+    const response = await fetch(`${this.baseURL}/config/mcp/${id}/approval`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(policy)
+    })
+    if (!response.ok) {
+      throw new Error('Failed to update approval policy')
+    }
+  }
+
+  async updateSamplingPolicy(id: string, policy: SamplingPolicy): Promise<void> {
+    const response = await fetch(`${this.baseURL}/config/mcp/${id}/sampling`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(policy)
+    })
+    if (!response.ok) {
+      throw new Error('Failed to update sampling policy')
+    }
+  }
+
+  async updateArgumentRules(id: string, rules: ArgumentRule[]): Promise<void> {
+    const response = await fetch(`${this.baseURL}/config/mcp/${id}/argument-rules`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rules })
+    })
+    if (!response.ok) {
+      throw new Error('Failed to update argument rules')
+    }
+  }
+
+  // Directories that don't exist are refused, each named in the error
+  async updateRoots(id: string, roots: string[]): Promise<void> {
+    const response = await fetch(`${this.baseURL}/config/mcp/${id}/roots`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ roots })
+    })
+    if (!response.ok) {
+      const error = await response.json()
+      if (error.details && Array.isArray(error.details)) {
+        throw new Error(error.details.map((d: any) => d.message).join('; '))
+      }
+      throw new Error(error.error || 'Failed to update roots')
+    }
+  }
+
+  async updateToolAlias(id: string, alias: string | null): Promise<void> {
+    const response = await fetch(`${this.baseURL}/config/mcp/${id}/alias`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ alias })
+    })
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to update tool alias')
+    }
+  }
+
+  /**
+   * Follow a server's console: the last `tail` lines, then each new one
+   * @returns Function that closes the stream
+   */
+  followServerLogs(serverId: string, onEntry: (entry: MCPLogEntry) => void, tail: number = 500): () => void {
+    const source = new EventSource(`${this.baseURL}/mcp/servers/${serverId}/logs?follow=true&tail=${tail}`)
+
+    source.onmessage = (message) => {
+      try {
+        onEntry(JSON.parse(message.data))
+      } catch (error) {
+        console.error('Failed to parse log entry:', error)
+      }
+    }
+
+    return () => source.close()
+  }
+
+  /**
+   * Follow a server's captured JSON-RPC traffic: the last `tail` messages, then each new one
+   * @returns Function that closes the stream
+   */
+  followProtocolMessages(serverId: string, onMessage: (message: MCPProtocolMessage) => void, tail: number = 500): () => void {
+    const source = new EventSource(`${this.baseURL}/mcp/servers/${serverId}/protocol?follow=true&tail=${tail}`)
+
+    source.onmessage = (message) => {
+      try {
+        onMessage(JSON.parse(message.data))
+      } catch (error) {
+        console.error('Failed to parse protocol message:', error)
+      }
+    }
+
+    return () => source.close()
+  }
+
+  async getProtocolCapture(serverId: string): Promise<boolean> {
+    const response = await fetch(`${this.baseURL}/mcp/servers/${serverId}/protocol?tail=1`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch protocol capture state')
+    }
+    const data = await response.json()
+    return data.capturing
+  }
+
+  async setProtocolCapture(serverId: string, enabled: boolean): Promise<void> {
+    const response = await fetch(`${this.baseURL}/mcp/servers/${serverId}/protocol/capture`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled })
+    })
+    if (!response.ok) {
+      throw new Error('Failed to update protocol capture')
+    }
+  }
+
+  async clearProtocolMessages(serverId: string): Promise<void> {
+    const response = await fetch(`${this.baseURL}/mcp/servers/${serverId}/protocol`, { method: 'DELETE' })
+    if (!response.ok) {
+      throw new Error('Failed to clear protocol messages')
+    }
+  }
+
+  async getResources(): Promise<MCPResource[]> {
+    const response = await fetch(`${this.baseURL}/mcp/resources`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch resources')
+    }
+    const data = await response.json()
+    return data.resources
+  }
+
+  async readResource(serverId: string, uri: string): Promise<MCPResourceContents[]> {
+    const query = new URLSearchParams({ uri })
+    const response = await fetch(`${this.baseURL}/mcp/servers/${serverId}/resources/read?${query}`)
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.error || 'Failed to read resource')
+    }
+    const data = await response.json()
+    return data.contents
+  }
+
+  /**
+   * @returns false if the server doesn't support resource subscriptions
+   */
+  async subscribeResource(serverId: string, uri: string): Promise<boolean> {
+    const response = await fetch(`${this.baseURL}/mcp/servers/${serverId}/resources/subscribe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uri })
+    })
+    if (!response.ok) {
+      throw new Error('Failed to subscribe to resource')
+    }
+    const data = await response.json()
+    return data.subscribed
+  }
+
+  async unsubscribeResource(serverId: string, uri: string): Promise<void> {
+    const response = await fetch(`${this.baseURL}/mcp/servers/${serverId}/resources/unsubscribe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uri })
+    })
+    if (!response.ok) {
+      throw new Error('Failed to unsubscribe from resource')
+    }
+  }
+
+  async getPrompts(): Promise<MCPPrompt[]> {
+    const response = await fetch(`${this.baseURL}/mcp/prompts`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch prompts')
+    }
+    const data = await response.json()
+    return data.prompts
+  }
+
+  async getPrompt(serverId: string, name: string, args: Record<string, string>): Promise<RenderedPrompt> {
+    const response = await fetch(`${this.baseURL}/mcp/servers/${serverId}/prompts/${encodeURIComponent(name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ arguments: args })
+    })
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.error || 'Failed to get prompt')
+    }
+    return response.json()
+  }
+
+  async getSamplingRecords(): Promise<SamplingRecord[]> {
+    const response = await fetch(`${this.baseURL}/mcp/sampling`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch sampling requests')
+    }
+    const data = await response.json()
+    return data.records
+  }
+
+  async resolveSampling(id: string, decision: { approved: boolean; reason?: string }): Promise<void> {
+    const response = await fetch(`${this.baseURL}/mcp/sampling/${id}/decision`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(decision)
+    })
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.error || 'Failed to answer sampling request')
+    }
+  }
+
+  async runConformance(serverId: string): Promise<ConformanceReport> {
+    const response = await fetch(`${this.baseURL}/discovery/servers/${serverId}/conformance`, { method: 'POST' })
+    if (!response.ok) {
+      throw new Error('Failed to run the conformance suite')
+    }
+    return response.json()
+  }
+
+  async getServerTools(serverId: string): Promise<MCPTool[]> {
+    const response = await fetch(`${this.baseURL}/discovery/tools/${serverId}`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch server tools')
+    }
+    const data = await response.json()
+    return data.tools
+  }
+
+  // Conversations
+  async getConversations(): Promise<ConversationSummary[]> {
+    const response = await fetch(`${this.baseURL}/conversations`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch conversations')
+    }
+    const data = await response.json()
+    return data.conversations
+  }
+
+  async getConversation(id: string): Promise<Conversation> {
+    const response = await fetch(`${this.baseURL}/conversations/${id}`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch conversation')
+    }
+    const data = await response.json()
+    return data.conversation
+  }
+
+  async renameConversation(id: string, title: string): Promise<void> {
+    const response = await fetch(`${this.baseURL}/conversations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title })
+    })
+    if (!response.ok) {
+      throw new Error('Failed to rename conversation')
+    }
+  }
+
+  // Make the branch through a message version the active one
+  async switchBranch(id: string, messageId: string): Promise<Conversation> {
+    const response = await fetch(`${this.baseURL}/conversations/${id}/branch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messageId })
+    })
+    if (!response.ok) {
+      throw new Error('Failed to switch branch')
+    }
+    const data = await response.json()
+    return data.conversation
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const response = await fetch(`${this.baseURL}/conversations/${id}`, {
+      method: 'DELETE'
+    })
+    if (!response.ok) {
+      throw new Error('Failed to delete conversation')
+    }
+  }
+
+  // Saved tool tests
+  async getToolTests(): Promise<ToolTestCase[]> {
+    const response = await fetch(`${this.baseURL}/tool-tests`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch tool tests')
+    }
+    const data = await response.json()
+    return data.testCases
+  }
+
+  async createToolTest(testCase: ToolTestCaseRequest): Promise<ToolTestCase> {
+    const response = await fetch(`${this.baseURL}/tool-tests`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(testCase)
+    })
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.details?.[0]?.message || error.error || 'Failed to save tool test')
+    }
+    const data = await response.json()
+    return data.testCase
+  }
+
+  async deleteToolTest(id: string): Promise<void> {
+    const response = await fetch(`${this.baseURL}/tool-tests/${id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      throw new Error('Failed to delete tool test')
+    }
+  }
+
+  async runToolTest(id: string): Promise<ToolTestRun> {
+    const response = await fetch(`${this.baseURL}/tool-tests/${id}/run`, { method: 'POST' })
+    if (!response.ok) {
+      throw new Error('Failed to run tool test')
+    }
+    const data = await response.json()
+    return data.run
+  }
+
+  async runAllToolTests(serverId?: string): Promise<ToolTestRun[]> {
+    const response = await fetch(`${this.baseURL}/tool-tests/run`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ serverId })
+    })
+    if (!response.ok) {
+      throw new Error('Failed to run tool tests')
+    }
+    const data = await response.json()
+    return data.runs
+  }
+
+  async acceptToolTestSnapshot(id: string): Promise<ToolTestCase> {
+    const response = await fetch(`${this.baseURL}/tool-tests/${id}/accept`, { method: 'POST' })
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to accept snapshot')
+    }
+    const data = await response.json()
+    return data.testCase
+  }
+
+  // Answer a tool call that is paused waiting for approval
+  // Edited arguments that don't fit the tool are refused with the problems listed
+  async resolveToolApproval(approvalId: string, conversationId: string, decision: ToolApprovalDecision): Promise<void> {
+    const response = await fetch(`${this.baseURL}/chat/approvals/${approvalId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversationId, ...decision })
+    })
+    if (!response.ok) {
+      const error = await response.json()
+      const issues = Array.isArray(error.details) && typeof error.details[0]?.path === 'string'
+        ? `: ${error.details.map((issue: any) => `${issue.path} ${issue.message}`).join(', ')}`
+        : ''
+      throw new Error(`${error.error || 'Failed to resolve tool approval'}${issues}`)
+    }
+  }
+
+  // Answer a question a server asked during a tool call
+  // An answer that doesn't fit the requested fields is refused with the problems listed
+  async resolveElicitation(elicitationId: string, response: ElicitationResponse): Promise<void> {
+    const result = await fetch(`${this.baseURL}/chat/elicitations/${elicitationId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(response)
+    })
+    if (!result.ok) {
+      const error = await result.json()
+      const issues = Array.isArray(error.details) && typeof error.details[0]?.path === 'string'
+        ? `: ${error.details.map((issue: any) => `${issue.path} ${issue.message}`).join(', ')}`
+        : ''
+      throw new Error(`${error.error || 'Failed to send the answer'}${issues}`)
+    }
+  }
+
   // Chat with SSE streaming
-  async *chatStream(messages: Message[]): AsyncGenerator<StreamChunk> {
+  // Aborting the signal closes the connection, which cancels the turn on the server
+  // The browser's timezone resolves date templates in tool argument rules
+  async *chatStream(
+    messages: Message[],
+    conversationId?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamChunk> {
     const response = await fetch(`${this.baseURL}/chat`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ messages })
+      body: JSON.stringify({
+        messages,
+        conversationId,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      }),
+      signal
     })
 
     if (!response.ok) {
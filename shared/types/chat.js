@@ -1 +1,23 @@
-export {};
+/**
+ * Longest text one attachment may carry; longer resources are cut so one can't fill the model's context
+ */
+export const MAX_ATTACHMENT_CHARS = 50000;
+/** Room kept for the note saying how much of a long resource was cut */
+const TRUNCATION_NOTE_CHARS = 100;
+/**
+ * Cut attachment text to MAX_ATTACHMENT_CHARS, note included
+ */
+export function truncateAttachment(text) {
+    if (text.length <= MAX_ATTACHMENT_CHARS) {
+        return text;
+    }
+    const kept = MAX_ATTACHMENT_CHARS - TRUNCATION_NOTE_CHARS;
+    return `${text.slice(0, kept)}\n[... ${text.length - kept} characters not attached]`;
+}
+/**
+ * Chat stream protocol (POST /api/chat, one JSON event per SSE `data:` line)
+ *
+ * The first event is always `conversation` and carries the protocol version.
+ * Bump STREAM_PROTOCOL_VERSION when an event changes incompatibly.
+ */
+export const STREAM_PROTOCOL_VERSION = 1;
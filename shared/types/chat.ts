@@ -1,3 +1,5 @@
+import { MCPTool } from './mcp.js'
+
 export interface ChartData {
   id: string
   type: 'line' | 'bar' | 'area'
@@ -12,12 +14,55 @@ export interface ChartData {
 }
 
 export interface Message {
+  id?: string  // Stable id within a conversation; assigned by the server if missing
   role: 'user' | 'assistant' | 'system' | 'tool'
   content: string
   tool_calls?: ToolCall[]
   tool_call_id?: string
   timestamp: number // Required for stable React keys
   chartData?: ChartData[]
+  toolExecutions?: ToolExecution[]  // Assistant messages with tool_calls: how each call went
+  attachments?: ResourceAttachment[]  // User messages: MCP resources given to the LLM as context
+}
+
+/**
+ * A prompt rendered by prompts/get, as messages to add to the conversation
+ */
+export interface RenderedPrompt {
+  description?: string
+  messages: Message[]  // User and assistant messages; embedded resources become attachments
+}
+
+/**
+ * Longest text one attachment may carry; longer resources are cut so one can't fill the model's context
+ */
+export const MAX_ATTACHMENT_CHARS = 50000
+
+/** Room kept for the note saying how much of a long resource was cut */
+const TRUNCATION_NOTE_CHARS = 100
+
+/**
+ * Cut attachment text to MAX_ATTACHMENT_CHARS, note included
+ */
+export function truncateAttachment(text: string): string {
+  if (text.length <= MAX_ATTACHMENT_CHARS) {
+    return text
+  }
+
+  const kept = MAX_ATTACHMENT_CHARS - TRUNCATION_NOTE_CHARS
+  return `${text.slice(0, kept)}\n[... ${text.length - kept} characters not attached]`
+}
+
+/**
+ * An MCP resource attached to a message, with its contents as read when attached
+ */
+export interface ResourceAttachment {
+  serverId: string
+  uri: string
+  name: string
+  mimeType?: string
+  text: string    // Text contents (at most MAX_ATTACHMENT_CHARS); binary contents are described instead
+  readAt: string  // ISO timestamp of the read
 }
 
 export interface ToolCall {
@@ -31,6 +76,8 @@ export interface ToolCall {
 
 export interface ChatRequest {
   messages: Message[]
+  conversationId?: string
+  timeZone?: string  // IANA timezone of the user, for date templates in tool arguments
 }
 
 export interface ChatResponse {
@@ -42,10 +89,158 @@ export interface ChatResponse {
   }
 }
 
-export interface StreamChunk {
-  type: 'content' | 'tool_call' | 'chart_data' | 'done' | 'error'
-  content?: string
-  tool_call?: ToolCall
-  chartData?: ChartData
+/**
+ * Chat stream protocol (POST /api/chat, one JSON event per SSE `data:` line)
+ *
+ * The first event is always `conversation` and carries the protocol version.
+ * Bump STREAM_PROTOCOL_VERSION when an event changes incompatibly.
+ */
+export const STREAM_PROTOCOL_VERSION = 1
+
+export interface ConversationEvent {
+  type: 'conversation'
+  conversationId: string
+  protocolVersion: number
+}
+
+export interface ContentEvent {
+  type: 'content'
+  content: string
+}
+
+export interface ChartDataEvent {
+  type: 'chart_data'
+  chartData: ChartData
+}
+
+export interface ToolApprovalRequiredEvent {
+  type: 'tool_approval_required'
+  approvalId: string
+  conversationId?: string  // Sent back with the decision
+  toolCallId: string
+  toolName: string
+  serverId: string
+  arguments: Record<string, any>
+  inputSchema: MCPTool['inputSchema']  // So the arguments can be edited in a form
+}
+
+export interface ElicitationRequiredEvent {
+  type: 'elicitation_required'
+  elicitationId: string
+  toolCallId: string       // Tool call the server is asking on behalf of
+  toolName: string
+  serverId: string
+  message: string
+  requestedSchema: MCPTool['inputSchema']  // Flat object of primitive fields
+}
+
+export interface ElicitationResolvedEvent {
+  type: 'elicitation_resolved'
+  elicitationId: string
+  action: ElicitationAction
+}
+
+export interface ToolExecutionStartEvent {
+  type: 'tool_execution_start'
+  toolCallId: string
+  toolName: string
+  serverId?: string
+  arguments: Record<string, any>
+  startedAt: number  // Epoch ms
+}
+
+export interface ToolExecutionResultEvent {
+  type: 'tool_execution_result'
+  toolCallId: string
+  toolName: string
+  isError: boolean
+  denied?: boolean         // Never ran - the user denied the call
   error?: string
+  resultPreview?: string   // Start of the result text
+  durationMs?: number
+}
+
+export interface TurnMessagesEvent {
+  type: 'turn_messages'
+  messages: Message[]  // Tool calls, tool results and reply added by the turn
+}
+
+export interface DoneEvent {
+  type: 'done'
+}
+
+export interface ErrorEvent {
+  type: 'error'
+  error: string
+}
+
+export type StreamChunk =
+  | ConversationEvent
+  | ContentEvent
+  | ChartDataEvent
+  | ToolApprovalRequiredEvent
+  | ElicitationRequiredEvent
+  | ElicitationResolvedEvent
+  | ToolExecutionStartEvent
+  | ToolExecutionResultEvent
+  | TurnMessagesEvent
+  | DoneEvent
+  | ErrorEvent
+
+/**
+ * Outcome of one tool call, kept on the assistant message that requested it
+ */
+export interface ToolExecution {
+  toolCallId: string
+  toolName: string
+  serverId?: string
+  arguments: Record<string, any>
+  status: 'awaiting_approval' | 'running' | 'success' | 'error' | 'denied'
+  error?: string
+  resultPreview?: string
+  startedAt?: number
+  durationMs?: number
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean
+  arguments?: Record<string, any>  // Edited arguments to run the tool with
+  reason?: string
+}
+
+/**
+ * The user's answer to a server's elicitation request
+ * 'decline' refuses explicitly; 'cancel' dismisses without choosing
+ */
+export type ElicitationAction = 'accept' | 'decline' | 'cancel'
+
+export interface ElicitationResponse {
+  action: ElicitationAction
+  content?: Record<string, string | number | boolean | string[]>  // Only with 'accept'
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  messages: Message[]  // Active branch, oldest first
+  branches?: Record<string, string[]>  // Message id -> ids of every version at that point, when there is more than one
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * One message in a conversation's branch tree
+ * Edited prompts and regenerated answers become siblings under the same parent
+ */
+export interface ConversationNode {
+  parentId: string | null
+  message: Message & { id: string }
+}
+
+export interface ConversationSummary {
+  id: string
+  title: string
+  messageCount: number
+  createdAt: string
+  updatedAt: string
 }
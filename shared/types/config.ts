@@ -1,4 +1,4 @@
-import { MCPServerConfig } from './mcp.js'
+import { ArgumentRule, MCPServerConfig, MCPServerStatus, MCPStatusEvent } from './mcp.js'
 
 export interface LLMConfig {
   baseURL: string
@@ -10,6 +10,7 @@ export interface LLMConfig {
   presencePenalty?: number
   frequencyPenalty?: number
   systemPrompt?: string
+  contextWindow?: number  // Model context size in tokens; older history is compacted to fit (no compaction if unset)
 }
 
 export interface AppConfig {
@@ -27,6 +28,7 @@ export interface LLMConfigRequest {
   presencePenalty?: number
   frequencyPenalty?: number
   systemPrompt?: string
+  contextWindow?: number  // Model context size in tokens; older history is compacted to fit (no compaction if unset)
 }
 
 export interface MCPServerRequest {
@@ -39,6 +41,7 @@ export interface MCPServerRequest {
     url?: string
     headers?: Record<string, string>
   }
+  argumentRules?: ArgumentRule[]
 }
 
 export interface ValidationResult {
@@ -48,13 +51,15 @@ export interface ValidationResult {
   tools?: string[]
 }
 
+export interface LLMHealth {
+  configured: boolean
+  reachable: boolean
+  error?: string
+}
+
 export interface HealthCheckResult {
   status: 'healthy' | 'unhealthy'
-  llm: {
-    configured: boolean
-    reachable: boolean
-    error?: string
-  }
+  llm: LLMHealth
   mcpServers: Array<{
     id: string
     name: string
@@ -62,3 +67,12 @@ export interface HealthCheckResult {
     toolCount: number
   }>
 }
+
+/**
+ * Events on GET /api/status/stream (one JSON object per `data:` line)
+ * A snapshot comes first, then changes as they happen.
+ */
+export type StatusEvent =
+  | { type: 'snapshot'; llm: LLMHealth | null; mcpServers: MCPServerStatus[] }  // llm is null until first checked
+  | { type: 'llm_status'; llm: LLMHealth }
+  | MCPStatusEvent
@@ -6,9 +6,77 @@ export interface MCPServerConfig {
   type: MCPServerType
   enabled: boolean
   config: StdioConfig | HTTPConfig
+  approvalPolicy?: ToolApprovalPolicy
+  alias?: string  // Short prefix for this server's tool names; derived from the name if not set
+  argumentRules?: ArgumentRule[]
+  samplingPolicy?: SamplingPolicy  // Servers without one can't use the LLM
+  roots?: string[]  // Absolute directories the server may work in, answered to roots/list as file:// URIs
   createdAt: string
 }
 
+/**
+ * Rewrites a tool call's arguments before it runs
+ * - default: set `argument` to `value` when the LLM left it out
+ * - rename: move `argument` to `to` (for servers that read a different name than their schema says)
+ * String values can use templates, resolved in the user's timezone:
+ * {{today}}, {{now:iso}}, {{now:date}}, {{now:time}}, {{now:unix}}, {{timezone}}
+ */
+export interface ArgumentRule {
+  tool: string  // Tool name as the server knows it, or '*' for all of the server's tools
+  type: 'default' | 'rename'
+  argument: string
+  value?: string | number | boolean  // default only
+  to?: string                        // rename only
+}
+
+/**
+ * When the user must confirm a tool call before it runs
+ * - always: ask for every call
+ * - never: run without asking
+ * - destructive: ask only for tools annotated with destructiveHint
+ */
+export type ToolApprovalMode = 'always' | 'never' | 'destructive'
+
+export interface ToolApprovalPolicy {
+  mode: ToolApprovalMode
+  tools?: Record<string, ToolApprovalMode>  // Per-tool overrides keyed by tool name
+}
+
+/**
+ * Whether a server may ask the app's LLM to generate text (sampling/createMessage)
+ * - deny: reject every request
+ * - ask: wait for the user to approve each request
+ * - allow: run requests without asking (they are still recorded)
+ */
+export type SamplingMode = 'deny' | 'ask' | 'allow'
+
+export interface SamplingPolicy {
+  mode: SamplingMode
+  maxTokens: number  // Requests asking for more are cut to this
+}
+
+export type SamplingStatus = 'pending' | 'running' | 'completed' | 'denied' | 'error'
+
+/**
+ * One sampling request a server made, kept for review since it spends tokens on the server's behalf
+ */
+export interface SamplingRecord {
+  id: string
+  serverId: string
+  serverName: string
+  status: SamplingStatus
+  systemPrompt?: string
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>
+  requestedMaxTokens: number
+  maxTokens: number     // After the server's limit
+  model?: string
+  response?: string
+  stopReason?: string
+  error?: string        // Why it was denied or failed
+  createdAt: string     // ISO timestamp
+  completedAt?: string
+}
+
 export interface StdioConfig {
   command: string
   args: string[]
@@ -20,6 +88,14 @@ export interface HTTPConfig {
   headers?: Record<string, string>
 }
 
+export interface MCPToolAnnotations {
+  title?: string
+  readOnlyHint?: boolean
+  destructiveHint?: boolean
+  idempotentHint?: boolean
+  openWorldHint?: boolean
+}
+
 export interface MCPTool {
   name: string
   description: string
@@ -28,7 +104,9 @@ export interface MCPTool {
     properties?: Record<string, any>
     required?: string[]
   }
+  annotations?: MCPToolAnnotations
   serverId: string
+  qualifiedName?: string  // Name the LLM sees, unique across servers (e.g. "github__search")
 }
 
 export interface MCPToolCall {
@@ -41,13 +119,203 @@ export interface MCPToolResult {
     type: string
     text?: string
     data?: any
+    resource?: MCPResourceContents  // type 'resource': a resource embedded in the result
   }>
   isError?: boolean
 }
 
+/**
+ * A resource a server publishes through resources/list
+ */
+export interface MCPResource {
+  uri: string
+  name: string
+  title?: string
+  description?: string
+  mimeType?: string
+  size?: number  // Bytes, when the server knows
+  serverId: string
+}
+
+/**
+ * A prompt template a server publishes through prompts/list
+ */
+export interface MCPPrompt {
+  name: string
+  title?: string
+  description?: string
+  arguments: MCPPromptArgument[]
+  serverId: string
+  command: string  // Slash command in the chat input: the name, prefixed by the server when two servers share it
+}
+
+export interface MCPPromptArgument {
+  name: string
+  description?: string
+  required?: boolean
+}
+
+/**
+ * One item of a resources/read result; text resources carry text, binary ones a base64 blob
+ */
+export interface MCPResourceContents {
+  uri: string
+  mimeType?: string
+  text?: string
+  blob?: string
+}
+
+/**
+ * Connection lifecycle of an MCP server
+ * reconnecting: lost and waiting for the next automatic attempt
+ * parked: automatic attempts gave up; needs a manual reconnect
+ */
+export type MCPConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'parked' | 'error' | 'disconnected'
+
+export interface MCPStateTransition {
+  state: MCPConnectionState
+  at: string  // ISO timestamp
+  error?: string
+}
+
 export interface MCPServerStatus {
   id: string
+  name: string
   connected: boolean
   toolCount: number
   error?: string
+  state: MCPConnectionState
+  since: string                        // When the server entered its current state
+  reconnectAttempts: number            // Failed automatic attempts since the connection was lost
+  nextRetryAt?: string
+  lastConnected?: string
+  lastPingAt?: string                  // Last successful health check (HTTP servers)
+  transitions: MCPStateTransition[]    // Recent state changes, oldest first
+}
+
+/**
+ * Changes MCPService reports as they happen
+ */
+export type MCPStatusEvent =
+  | { type: 'mcp_status'; server: MCPServerStatus }
+  | { type: 'mcp_removed'; serverId: string }
+  | { type: 'tools_changed'; serverId: string; toolCount: number }
+  | { type: 'resources_changed'; serverId: string; resourceCount: number }
+  | { type: 'resource_updated'; serverId: string; uri: string }  // A subscribed resource changed
+  | { type: 'prompts_changed'; serverId: string; promptCount: number }
+  | { type: 'sampling_request'; record: SamplingRecord }  // A sampling request was made or changed status
+
+/**
+ * Severity of a server log line (MCP logging levels, lowest first)
+ */
+export type MCPLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency'
+
+/**
+ * One line of a server's console: stderr output of a stdio server,
+ * or a notifications/message log event sent over MCP
+ */
+export interface MCPLogEntry {
+  seq: number          // Increases per server; resume after it with ?after=
+  timestamp: string    // ISO timestamp
+  level: MCPLogLevel
+  source: 'stderr' | 'protocol'
+  logger?: string      // Logger name given by the server (protocol messages)
+  message: string
+}
+
+/**
+ * One JSON-RPC message captured by the protocol inspector
+ * Directions are from the app's side: 'sent' goes to the server, 'received' comes from it
+ */
+export interface MCPProtocolMessage {
+  seq: number          // Increases per server; resume after it with ?after=
+  timestamp: string    // ISO timestamp
+  direction: 'sent' | 'received'
+  kind: 'request' | 'response' | 'error' | 'notification'
+  id?: string | number // JSON-RPC id (requests, responses and errors)
+  method?: string      // For responses and errors, the method of the request they answer
+  durationMs?: number  // Responses and errors: time since the matching request
+  message: unknown     // The message as sent, with secret-looking fields masked
+}
+
+/**
+ * Outcome of one conformance check
+ */
+export type ConformanceStatus = 'pass' | 'warn' | 'fail' | 'skip'
+
+export interface ConformanceCheck {
+  id: string           // Stable key, e.g. 'tools_list'
+  name: string
+  status: ConformanceStatus
+  message: string      // One-line verdict
+  details?: string[]   // Individual findings (per tool, per request...)
+  durationMs?: number
+}
+
+/**
+ * Result of running the conformance suite against one configured server
+ */
+export interface ConformanceReport {
+  serverId: string
+  serverName: string
+  startedAt: string    // ISO timestamp
+  durationMs: number
+  protocolVersion?: string  // Negotiated during initialize
+  serverInfo?: { name: string; version: string }
+  summary: Record<ConformanceStatus, number>
+  checks: ConformanceCheck[]
+}
+
+/**
+ * Expectation on a saved tool test's result
+ * Text matchers look at the text content items joined with newlines
+ */
+export type ToolTestMatcher =
+  | { type: 'isError'; value: boolean }
+  | { type: 'contains'; text: string }
+  | { type: 'equals'; text: string }
+  | { type: 'matches'; pattern: string }  // Regular expression
+
+/**
+ * A named tool call kept for regression runs
+ * matchers: the result must satisfy every matcher (at least one)
+ * snapshot: the result must also equal the one recorded on the first run
+ */
+export interface ToolTestCase {
+  id: string
+  name: string
+  serverId: string
+  toolName: string     // Name on the server, not the prefixed name the LLM sees
+  arguments: Record<string, any>
+  mode: 'matchers' | 'snapshot'
+  matchers: ToolTestMatcher[]
+  snapshot?: MCPToolResult
+  lastRun?: ToolTestRun
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * What a client sends to create or replace a tool test
+ */
+export type ToolTestCaseRequest = Pick<ToolTestCase, 'name' | 'serverId' | 'toolName' | 'arguments' | 'mode' | 'matchers'>
+
+/**
+ * One line of a snapshot diff (pretty-printed JSON of the results)
+ */
+export interface SnapshotDiffLine {
+  type: 'same' | 'added' | 'removed'  // added: only in the new result
+  text: string
+}
+
+export interface ToolTestRun {
+  testCaseId: string
+  status: 'pass' | 'fail' | 'error'  // error: the tool could not be called
+  ranAt: string        // ISO timestamp
+  durationMs: number
+  result?: MCPToolResult
+  failures: string[]   // Unmet matchers, or why the snapshot differs
+  diff?: SnapshotDiffLine[]  // Snapshot runs whose result changed
+  recorded?: boolean   // This run recorded the snapshot
+  error?: string
 }